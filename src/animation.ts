@@ -0,0 +1,277 @@
+import { crc32 } from "./utils/crc32.js";
+
+/** Timing of an animated GIF or APNG. */
+export interface AnimationInfo {
+  frameCount: number;
+  /** Display time of each frame, in milliseconds. */
+  delays: number[];
+  /** Total length of one play-through, in seconds. */
+  duration: number;
+  /** Times the animation plays; 0 means it loops forever. */
+  loop: number;
+}
+
+/** Frames sampled from an animation unless `maxFrames` says otherwise. */
+export const DEFAULT_ANIMATION_FRAMES = 4;
+
+// Browsers show GIF frames with a 0 or 1 centisecond delay for 100ms
+const MIN_GIF_DELAY_CS = 2;
+const DEFAULT_GIF_DELAY_MS = 100;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * Read frame count, per-frame delays and loop count from an animated GIF
+ * or APNG without decoding pixels. Returns null for still images,
+ * including single-frame GIFs and plain PNGs.
+ */
+export function probeAnimation(buffer: Buffer): AnimationInfo | null {
+  const header = buffer.toString("ascii", 0, 6);
+  if (header === "GIF87a" || header === "GIF89a") return probeGif(buffer);
+  if (buffer.subarray(0, 8).equals(PNG_SIGNATURE)) return probeApng(buffer);
+  return null;
+}
+
+function info(delays: number[], loop: number): AnimationInfo | null {
+  if (delays.length < 2) return null;
+  const total = delays.reduce((sum, d) => sum + d, 0);
+  return { frameCount: delays.length, delays, duration: Math.round(total) / 1000, loop };
+}
+
+function probeGif(buffer: Buffer): AnimationInfo | null {
+  const delays: number[] = [];
+  // No NETSCAPE2.0 block means the animation plays once
+  let loop = 1;
+  let delay = 0;
+
+  let pos = 13;
+  const packed = buffer[10];
+  if (packed & 0x80) pos += 3 * 2 ** ((packed & 0x07) + 1);
+
+  const skipSubBlocks = () => {
+    while (pos < buffer.length && buffer[pos] !== 0) pos += buffer[pos] + 1;
+    pos++;
+  };
+
+  while (pos < buffer.length) {
+    const block = buffer[pos];
+    if (block === 0x3b) break;
+
+    if (block === 0x21) {
+      const label = buffer[pos + 1];
+      pos += 2;
+      if (label === 0xf9 && buffer[pos] >= 4) {
+        delay = buffer.readUInt16LE(pos + 2);
+      } else if (label === 0xff && buffer.toString("ascii", pos + 1, pos + 12) === "NETSCAPE2.0") {
+        const sub = pos + 12;
+        // Loop count n repeats the animation n more times; 0 is forever
+        if (buffer[sub] >= 3 && buffer[sub + 1] === 1) {
+          const count = buffer.readUInt16LE(sub + 2);
+          loop = count === 0 ? 0 : count + 1;
+        }
+      }
+      skipSubBlocks();
+    } else if (block === 0x2c) {
+      const imagePacked = buffer[pos + 9];
+      pos += 10;
+      if (imagePacked & 0x80) pos += 3 * 2 ** ((imagePacked & 0x07) + 1);
+      pos++; // LZW minimum code size
+      skipSubBlocks();
+      delays.push(delay < MIN_GIF_DELAY_CS ? DEFAULT_GIF_DELAY_MS : delay * 10);
+      delay = 0;
+    } else {
+      // Corrupt or unknown block — keep what was read so far
+      break;
+    }
+  }
+
+  return info(delays, loop);
+}
+
+interface PngChunk {
+  type: string;
+  data: Buffer;
+}
+
+function readChunks(buffer: Buffer): PngChunk[] {
+  const chunks: PngChunk[] = [];
+  let pos = 8;
+  while (pos + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(pos);
+    const type = buffer.toString("ascii", pos + 4, pos + 8);
+    chunks.push({ type, data: buffer.subarray(pos + 8, pos + 8 + length) });
+    pos += 12 + length;
+    if (type === "IEND") break;
+  }
+  return chunks;
+}
+
+/** One APNG frame control (fcTL) chunk. */
+interface FrameControl {
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+  delay: number;
+  dispose: number;
+  blend: number;
+}
+
+function readFrameControl(data: Buffer): FrameControl {
+  const numerator = data.readUInt16BE(20);
+  const denominator = data.readUInt16BE(22) || 100;
+  return {
+    width: data.readUInt32BE(4),
+    height: data.readUInt32BE(8),
+    x: data.readUInt32BE(12),
+    y: data.readUInt32BE(16),
+    delay: (numerator / denominator) * 1000,
+    dispose: data[24],
+    blend: data[25],
+  };
+}
+
+function probeApng(buffer: Buffer): AnimationInfo | null {
+  const chunks = readChunks(buffer);
+  const actl = chunks.find((c) => c.type === "acTL");
+  if (!actl) return null;
+  const delays = chunks.filter((c) => c.type === "fcTL").map((c) => readFrameControl(c.data).delay);
+  return info(delays, actl.data.readUInt32BE(4));
+}
+
+/**
+ * Indices of `count` frames spread evenly over the animation's timeline,
+ * always including the first and last frame. Frames held on screen longer
+ * are more likely to be picked.
+ */
+export function sampleFrameIndices(animation: AnimationInfo, count: number): number[] {
+  const { frameCount, delays } = animation;
+  if (frameCount <= count) return Array.from({ length: frameCount }, (_, i) => i);
+  if (count <= 1) return [0];
+
+  const starts: number[] = [];
+  let elapsed = 0;
+  for (const delay of delays) {
+    starts.push(elapsed);
+    elapsed += delay;
+  }
+
+  const picked = new Set<number>();
+  for (let i = 0; i < count - 1; i++) {
+    const t = (elapsed * i) / (count - 1);
+    let frame = 0;
+    while (frame + 1 < frameCount && starts[frame + 1] <= t) frame++;
+    picked.add(frame);
+  }
+  picked.add(frameCount - 1);
+  return [...picked].sort((a, b) => a - b);
+}
+
+/** Decoded RGBA pixels. */
+export interface RgbaImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+/**
+ * Render the given APNG frames (0-based) to full-canvas RGBA, applying each
+ * frame's offset, blend and dispose ops. `decodePng` turns a standalone PNG
+ * into RGBA pixels; sharp can decode PNGs but doesn't know about APNG.
+ */
+export async function renderApngFrames(
+  buffer: Buffer,
+  indices: number[],
+  decodePng: (png: Buffer) => Promise<RgbaImage>
+): Promise<RgbaImage[]> {
+  const chunks = readChunks(buffer);
+  const ihdr = chunks.find((c) => c.type === "IHDR")!.data;
+  const width = ihdr.readUInt32BE(0);
+  const height = ihdr.readUInt32BE(4);
+  // Chunks every standalone frame PNG needs (palette, transparency, color space)
+  const shared = chunks.filter((c) => ["PLTE", "tRNS", "gAMA", "cHRM", "sRGB", "iCCP"].includes(c.type));
+
+  // Group image data by frame: IDAT belongs to a frame only when an fcTL precedes it
+  const frames: { control: FrameControl; data: Buffer[] }[] = [];
+  for (const chunk of chunks) {
+    if (chunk.type === "fcTL") {
+      frames.push({ control: readFrameControl(chunk.data), data: [] });
+    } else if (chunk.type === "IDAT" && frames.length > 0) {
+      frames[frames.length - 1].data.push(chunk.data);
+    } else if (chunk.type === "fdAT" && frames.length > 0) {
+      frames[frames.length - 1].data.push(chunk.data.subarray(4));
+    }
+  }
+
+  const wanted = new Set(indices);
+  const last = Math.max(...indices);
+  const canvas = Buffer.alloc(width * height * 4);
+  const rendered = new Map<number, RgbaImage>();
+
+  for (let i = 0; i <= last && i < frames.length; i++) {
+    const { control, data } = frames[i];
+    const frameIhdr = Buffer.from(ihdr);
+    frameIhdr.writeUInt32BE(control.width, 0);
+    frameIhdr.writeUInt32BE(control.height, 4);
+    const png = encodePng([
+      { type: "IHDR", data: frameIhdr },
+      ...shared,
+      { type: "IDAT", data: Buffer.concat(data) },
+    ]);
+    const pixels = await decodePng(png);
+
+    // APNG_DISPOSE_OP_PREVIOUS restores the canvas as it was before this frame
+    const previous = control.dispose === 2 ? Buffer.from(canvas) : undefined;
+    drawFrame(canvas, width, pixels, control);
+    if (wanted.has(i)) rendered.set(i, { data: Buffer.from(canvas), width, height });
+
+    if (control.dispose === 1) clearRegion(canvas, width, control);
+    else if (previous) previous.copy(canvas);
+  }
+
+  return indices.filter((i) => rendered.has(i)).map((i) => rendered.get(i)!);
+}
+
+function drawFrame(canvas: Buffer, canvasWidth: number, frame: RgbaImage, control: FrameControl): void {
+  for (let y = 0; y < frame.height; y++) {
+    for (let x = 0; x < frame.width; x++) {
+      const src = (y * frame.width + x) * 4;
+      const dst = ((control.y + y) * canvasWidth + control.x + x) * 4;
+      if (dst + 3 >= canvas.length) continue;
+      const alpha = frame.data[src + 3];
+      // APNG_BLEND_OP_SOURCE replaces pixels; OVER composites onto the canvas
+      if (control.blend === 0 || alpha === 255) {
+        frame.data.copy(canvas, dst, src, src + 4);
+      } else if (alpha > 0) {
+        const under = canvas[dst + 3] / 255;
+        const over = alpha / 255;
+        const outAlpha = over + under * (1 - over);
+        for (let c = 0; c < 3; c++) {
+          canvas[dst + c] = Math.round((frame.data[src + c] * over + canvas[dst + c] * under * (1 - over)) / outAlpha);
+        }
+        canvas[dst + 3] = Math.round(outAlpha * 255);
+      }
+    }
+  }
+}
+
+function clearRegion(canvas: Buffer, canvasWidth: number, control: FrameControl): void {
+  for (let y = 0; y < control.height; y++) {
+    const start = ((control.y + y) * canvasWidth + control.x) * 4;
+    canvas.fill(0, start, Math.min(canvas.length, start + control.width * 4));
+  }
+}
+
+function encodePng(chunks: PngChunk[]): Buffer {
+  const parts = [PNG_SIGNATURE];
+  for (const { type, data } of chunks) {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(body));
+    parts.push(length, body, crc);
+  }
+  parts.push(Buffer.from([0, 0, 0, 0]), Buffer.from("IEND", "ascii"), Buffer.from([0xae, 0x42, 0x60, 0x82]));
+  return Buffer.concat(parts);
+}
@@ -0,0 +1,247 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { extractMetadata, mimeTypeFromExtension } from "./extractors/metadata.js";
+import { buildAnalyzeRequest, cacheKeyFor, completeAnalysis, runOcr, type ProcessOptions } from "./processor.js";
+import { getCacheDir, getCached } from "./cache/store.js";
+import { stripFrontmatter } from "./templates/engine.js";
+import { sidecarPath, formatOutputPath, writeMarkdown } from "./output/writer.js";
+import type { BatchResult } from "./batch.js";
+import { sumUsage } from "./cost.js";
+import { prepareImage, type ImageLimits } from "./preprocess.js";
+import { withPerceptualHash } from "./phash.js";
+import type { BatchProvider, BatchRequest, Provider, TokenUsage } from "./providers/types.js";
+import type { ColorSource } from "./colors.js";
+import type { OcrMode } from "./ocr.js";
+
+/** Options recorded at submission and replayed when collecting. */
+export interface BatchJobOptions {
+  providerName: string;
+  model?: string;
+  prompt?: string;
+  note?: string;
+  templateName?: string;
+  templatesDir?: string;
+  structured?: boolean;
+  reask?: number;
+  colorSource?: ColorSource;
+  ocr?: OcrMode;
+  ocrLanguage?: string;
+  output?: string;
+  namePattern?: string;
+  noFrontmatter?: boolean;
+  /** Provider size limits; images are shrunk to fit before submission. */
+  imageLimits?: ImageLimits;
+}
+
+export interface BatchManifestItem {
+  /** custom_id sent to the provider. */
+  id: string;
+  path: string;
+  sha256: string;
+}
+
+/**
+ * Local record of a submitted batch job: what was sent and how to render
+ * it, so `m2md batch collect` can finish the run later.
+ */
+export interface BatchManifest {
+  jobId: string;
+  createdAt: string;
+  collectedAt?: string;
+  options: BatchJobOptions;
+  items: BatchManifestItem[];
+}
+
+function manifestDir(): string {
+  return join(getCacheDir(), "batches");
+}
+
+export function manifestPath(jobId: string): string {
+  return join(manifestDir(), `${jobId}.json`);
+}
+
+export async function saveManifest(manifest: BatchManifest): Promise<void> {
+  await mkdir(manifestDir(), { recursive: true });
+  await writeFile(manifestPath(manifest.jobId), JSON.stringify(manifest, null, 2), "utf-8");
+}
+
+export async function loadManifest(jobId: string): Promise<BatchManifest> {
+  try {
+    return JSON.parse(await readFile(manifestPath(jobId), "utf-8")) as BatchManifest;
+  } catch {
+    throw new Error(`No batch job ${jobId} found in ${manifestDir()}`);
+  }
+}
+
+/** Size and count limits for one provider batch job. */
+export interface BatchLimits {
+  maxBytes?: number;
+  maxRequests?: number;
+}
+
+// The smallest limits among the built-in providers (OpenAI's input file)
+const DEFAULT_BATCH_LIMITS: Required<BatchLimits> = { maxBytes: 200 * 1024 * 1024, maxRequests: 50_000 };
+
+// Room for the JSON around each request's image and prompts
+const REQUEST_OVERHEAD_BYTES = 4096;
+
+/** A file left out of a submission, and why. */
+export interface SkippedBatchItem {
+  path: string;
+  reason: string;
+}
+
+/**
+ * Submit every uncached image as provider batch jobs and save a manifest
+ * for each. Requests are split into several jobs when they would exceed
+ * the provider's size or count limit; no manifests means everything was
+ * cached or skipped. Animations (which need their frames sent together)
+ * and unreadable files are skipped.
+ */
+export async function submitBatchJob(
+  paths: string[],
+  provider: BatchProvider,
+  options: BatchJobOptions & { noCache?: boolean; batchLimits?: BatchLimits }
+): Promise<{ manifests: BatchManifest[]; cached: string[]; skipped: SkippedBatchItem[] }> {
+  const { noCache, batchLimits, ...jobOptions } = options;
+  const limits = { ...DEFAULT_BATCH_LIMITS, ...batchLimits };
+  const manifests: BatchManifest[] = [];
+  const cached: string[] = [];
+  const skipped: SkippedBatchItem[] = [];
+  let requests: BatchRequest[] = [];
+  let items: BatchManifestItem[] = [];
+  let bytes = 0;
+
+  // Send what's queued as one job, so only one job's images are held at a time
+  const flush = async (): Promise<void> => {
+    if (requests.length === 0) return;
+    const manifest: BatchManifest = {
+      jobId: await provider.submitBatch(requests),
+      createdAt: new Date().toISOString(),
+      options: jobOptions,
+      items,
+    };
+    await saveManifest(manifest);
+    manifests.push(manifest);
+    requests = [];
+    items = [];
+    bytes = 0;
+  };
+
+  for (const path of paths) {
+    let request: Omit<BatchRequest, "id">;
+    let sha256: string;
+    try {
+      const { metadata, buffer } = await extractMetadata(path);
+      if (metadata.animated) {
+        skipped.push({ path, reason: "animations are only analyzed live" });
+        continue;
+      }
+      if (!noCache && (await getCached(cacheKeyFor(metadata, jobOptions)))) {
+        cached.push(path);
+        continue;
+      }
+
+      const prepared = await prepareImage(buffer, mimeTypeFromExtension(metadata.extension), metadata, jobOptions.imageLimits);
+      // Only grounding changes the request; the other modes run OCR when collecting
+      const ocr = jobOptions.ocr === "ground" ? await runOcr(metadata, buffer, jobOptions) : undefined;
+      request = buildAnalyzeRequest(metadata, prepared.buffer, jobOptions, prepared.mimeType, ocr);
+      sha256 = metadata.sha256;
+    } catch (err) {
+      skipped.push({ path, reason: (err as Error).message });
+      continue;
+    }
+
+    const size = requestBytes(request);
+    if (requests.length >= limits.maxRequests || (requests.length > 0 && bytes + size > limits.maxBytes)) {
+      await flush();
+    }
+    const id = `img-${items.length}`;
+    requests.push({ id, ...request });
+    items.push({ id, path, sha256 });
+    bytes += size;
+  }
+  await flush();
+
+  return { manifests, cached, skipped };
+}
+
+/** Estimated size of a request once serialized, with its image in base64. */
+function requestBytes(request: Omit<BatchRequest, "id">): number {
+  const { systemPrompt, userPrompt, responseSchema } = request.options;
+  const text = systemPrompt + userPrompt + (responseSchema ? JSON.stringify(responseSchema) : "");
+  return Math.ceil(request.image.buffer.length / 3) * 4 + Buffer.byteLength(text) + REQUEST_OVERHEAD_BYTES;
+}
+
+/**
+ * Download the results of a finished job and write sidecars through the
+ * same parse/validate/render path as a live run. Follow-up requests go to
+ * `liveProvider` (normally the same provider behind the rate limiter) and
+ * their usage is returned apart, since they're billed at the live rate.
+ */
+export async function collectBatchJob(
+  manifest: BatchManifest,
+  provider: Provider & BatchProvider,
+  template: string,
+  liveProvider: Provider = provider
+): Promise<{ results: BatchResult[]; usage?: TokenUsage; followUpUsage?: TokenUsage; model?: string }> {
+  const byId = new Map((await provider.getBatchResults(manifest.jobId)).map((r) => [r.id, r]));
+  const { options } = manifest;
+  let followUpUsage: TokenUsage | undefined;
+  const followUps: Provider = {
+    async analyze(image, analyzeOptions) {
+      const response = await liveProvider.analyze(image, analyzeOptions);
+      followUpUsage = sumUsage(followUpUsage, response.usage);
+      return response;
+    },
+    compare: (images, analyzeOptions) => liveProvider.compare(images, analyzeOptions),
+  };
+  const processOpts: ProcessOptions = { ...options, template, provider: followUps };
+  const results: BatchResult[] = [];
+  let usage: TokenUsage | undefined;
+  let model: string | undefined;
+
+  for (const item of manifest.items) {
+    const outcome = byId.get(item.id);
+    if (!outcome?.response) {
+      results.push({ file: item.path, success: false, error: outcome?.error ?? "No result returned for this image" });
+      continue;
+    }
+
+    try {
+      const { metadata: extracted, buffer } = await extractMetadata(item.path);
+      if (extracted.sha256 !== item.sha256) {
+        throw new Error(`${extracted.filename} changed since the batch was submitted`);
+      }
+      const metadata = await withPerceptualHash(extracted, buffer);
+
+      // Follow-ups resend the image exactly as it was submitted
+      const prepared = await prepareImage(buffer, mimeTypeFromExtension(metadata.extension), metadata, options.imageLimits);
+      const { image } = buildAnalyzeRequest(metadata, prepared.buffer, options, prepared.mimeType);
+      const ocr = await runOcr(metadata, buffer, options);
+      usage = sumUsage(usage, outcome.response.usage);
+      const result = await completeAnalysis(metadata, image, outcome.response, processOpts, { ocr });
+      model = result.model ?? model;
+
+      const outPath = options.namePattern
+        ? formatOutputPath(item.path, options.namePattern, {
+            date: new Date().toISOString().split("T")[0],
+            type: result.type,
+            subject: result.subject,
+          }, options.output)
+        : sidecarPath(item.path, options.output);
+      const markdown = options.noFrontmatter ? stripFrontmatter(result.markdown) : result.markdown;
+      await writeMarkdown(markdown, outPath, { merge: true });
+      results.push({ file: item.path, success: true, outputPath: outPath });
+    } catch (err) {
+      results.push({ file: item.path, success: false, error: (err as Error).message });
+    }
+  }
+
+  await saveManifest({ ...manifest, collectedAt: new Date().toISOString() });
+  return { results, usage, followUpUsage, model };
+}
+
+export function isBatchProvider(provider: Provider): provider is Provider & BatchProvider {
+  return typeof (provider as Partial<BatchProvider>).submitBatch === "function";
+}
@@ -0,0 +1,114 @@
+/** Decoded BMP pixels: RGBA, top row first. */
+export interface BmpPixels {
+  data: Buffer;
+  width: number;
+  height: number;
+  channels: 4;
+}
+
+const BI_RGB = 0;
+const BI_BITFIELDS = 3;
+const BI_ALPHABITFIELDS = 6;
+
+/**
+ * Decode an uncompressed Windows bitmap (1/4/8-bit palette, 16/24/32-bit
+ * RGB or bitfields). sharp can't read BMP, so it gets raw pixels instead.
+ * RLE-compressed and OS/2 bitmaps are rejected.
+ */
+export function decodeBmp(buffer: Buffer): BmpPixels {
+  if (buffer.length < 54 || buffer.toString("ascii", 0, 2) !== "BM") {
+    throw new Error("Not a BMP file");
+  }
+
+  const dataOffset = buffer.readUInt32LE(10);
+  const headerSize = buffer.readUInt32LE(14);
+  if (headerSize < 40) throw new Error("Unsupported BMP: OS/2 bitmaps aren't supported");
+
+  const width = buffer.readInt32LE(18);
+  const rawHeight = buffer.readInt32LE(22);
+  const height = Math.abs(rawHeight);
+  // Negative height means rows are stored top-down
+  const topDown = rawHeight < 0;
+  const bitsPerPixel = buffer.readUInt16LE(28);
+  const compression = buffer.readUInt32LE(30);
+
+  if (compression !== BI_RGB && compression !== BI_BITFIELDS && compression !== BI_ALPHABITFIELDS) {
+    throw new Error(`Unsupported BMP compression (${compression})`);
+  }
+  if (![1, 4, 8, 16, 24, 32].includes(bitsPerPixel)) {
+    throw new Error(`Unsupported BMP bit depth (${bitsPerPixel})`);
+  }
+
+  const rowSize = Math.ceil((width * bitsPerPixel) / 32) * 4;
+  if (width <= 0 || height === 0 || dataOffset + rowSize * height > buffer.length) {
+    throw new Error("Truncated or invalid BMP");
+  }
+
+  // Channel masks for 16/32-bit pixels; bitfield masks follow the 40-byte header
+  let masks = bitsPerPixel === 16
+    ? [0x7c00, 0x03e0, 0x001f, 0]
+    : [0xff0000, 0x00ff00, 0x0000ff, 0];
+  if (compression !== BI_RGB) {
+    masks = [
+      buffer.readUInt32LE(54),
+      buffer.readUInt32LE(58),
+      buffer.readUInt32LE(62),
+      headerSize >= 56 || compression === BI_ALPHABITFIELDS ? buffer.readUInt32LE(66) : 0,
+    ];
+  }
+
+  const palette: number[][] = [];
+  if (bitsPerPixel <= 8) {
+    const count = buffer.readUInt32LE(46) || 2 ** bitsPerPixel;
+    const start = 14 + headerSize;
+    for (let i = 0; i < count; i++) {
+      const at = start + i * 4;
+      palette.push([buffer[at + 2], buffer[at + 1], buffer[at]]);
+    }
+  }
+
+  const data = Buffer.alloc(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const rowStart = dataOffset + (topDown ? y : height - 1 - y) * rowSize;
+    for (let x = 0; x < width; x++) {
+      const out = (y * width + x) * 4;
+      let rgba: number[];
+
+      if (bitsPerPixel <= 8) {
+        const bit = x * bitsPerPixel;
+        const shift = 8 - bitsPerPixel - (bit % 8);
+        const index = (buffer[rowStart + (bit >> 3)] >> shift) & ((1 << bitsPerPixel) - 1);
+        rgba = [...(palette[index] ?? [0, 0, 0]), 255];
+      } else if (bitsPerPixel === 24) {
+        const at = rowStart + x * 3;
+        rgba = [buffer[at + 2], buffer[at + 1], buffer[at], 255];
+      } else {
+        const value = bitsPerPixel === 16
+          ? buffer.readUInt16LE(rowStart + x * 2)
+          : buffer.readUInt32LE(rowStart + x * 4);
+        rgba = [
+          channel(value, masks[0]),
+          channel(value, masks[1]),
+          channel(value, masks[2]),
+          masks[3] ? channel(value, masks[3]) : 255,
+        ];
+      }
+
+      data[out] = rgba[0];
+      data[out + 1] = rgba[1];
+      data[out + 2] = rgba[2];
+      data[out + 3] = rgba[3];
+    }
+  }
+
+  return { data, width, height, channels: 4 };
+}
+
+/** Scale the bits under a mask to 0-255. */
+function channel(value: number, mask: number): number {
+  if (!mask) return 0;
+  let shift = 0;
+  while (((mask >>> shift) & 1) === 0) shift++;
+  const max = mask >>> shift;
+  return Math.round(((((value & mask) >>> 0) >>> shift) * 255) / max);
+}
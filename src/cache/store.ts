@@ -1,7 +1,10 @@
-import { readFile, writeFile, readdir, rm, mkdir, stat } from "node:fs/promises";
+import { readFile, writeFile, appendFile, readdir, rm, mkdir, stat } from "node:fs/promises";
 import { join } from "node:path";
 import { homedir } from "node:os";
 import { createHash } from "node:crypto";
+import type { MeasuredColor } from "../colors.js";
+import type { OcrResult } from "../ocr.js";
+import { hammingDistance } from "../phash.js";
 
 export interface CacheEntry {
   hash: string;
@@ -29,10 +32,32 @@ export interface CacheEntry {
   culturalInfluence?: string;
   searchPhrases?: string;
   dimensions?: string;
+  motion?: string;
+  measuredColors?: MeasuredColor[];
+  /** Perceptual hash of the analyzed image, when it has one. */
+  phash?: string;
+  /** Local OCR text and confidence, with `ocr` on. */
+  ocr?: OcrResult;
   model: string;
   cachedAt: string;
 }
 
+/** Where to find a cached analysis by what the image looks like. */
+export interface SimilarEntry {
+  phash: string;
+  /** Cache key of the analysis. */
+  key: string;
+  /** Cache key of the options alone (see `buildCacheKey` with an empty hash); only matching entries are reused. */
+  signature: string;
+  /** The analyzed file, for reporting where a reused analysis came from. */
+  filename: string;
+}
+
+// Append-only, one SimilarEntry per line; lines this short are written atomically
+const SIMILAR_INDEX = "phash-index.jsonl";
+
+let similarIndex: { dir: string; entries: SimilarEntry[] } | undefined;
+
 export interface CacheStats {
   entries: number;
   sizeBytes: number;
@@ -40,7 +65,7 @@ export interface CacheStats {
   cacheDir: string;
 }
 
-function getCacheDir(): string {
+export function getCacheDir(): string {
   if (process.env.M2MD_CACHE_DIR) return process.env.M2MD_CACHE_DIR;
   if (process.env.XDG_CACHE_HOME) return join(process.env.XDG_CACHE_HOME, "m2md");
   return join(homedir(), ".cache", "m2md");
@@ -56,7 +81,7 @@ function entryPath(key: string): string {
  */
 export function buildCacheKey(
   contentHash: string,
-  opts: { model?: string; prompt?: string; templateName?: string; note?: string; provider?: string }
+  opts: { model?: string; prompt?: string; templateName?: string; note?: string; provider?: string; page?: number; timestamp?: number; frames?: number; colors?: string; ocr?: string; tiles?: number; links?: string }
 ): string {
   const parts = [
     contentHash,
@@ -66,6 +91,19 @@ export function buildCacheKey(
     opts.note ?? "",
     opts.provider ?? "",
   ];
+  // PDF pages and video frames share their file's hash; only they add a part, so image keys are unchanged
+  if (opts.page !== undefined) parts.push(`page=${opts.page}`);
+  if (opts.timestamp !== undefined) parts.push(`t=${opts.timestamp}`);
+  // Animations are analyzed from this many sampled frames
+  if (opts.frames !== undefined) parts.push(`frames=${opts.frames}`);
+  // Only a non-default color source adds a part, so existing keys stay valid
+  if (opts.colors !== undefined) parts.push(`colors=${opts.colors}`);
+  // OCR mode and language, when local OCR is on
+  if (opts.ocr !== undefined) parts.push(`ocr=${opts.ocr}`);
+  // Tile size, when large images are also analyzed as tiles
+  if (opts.tiles !== undefined) parts.push(`tiles=${opts.tiles}`);
+  // Links to the image, when rendered for a note somewhere other than beside it
+  if (opts.links !== undefined) parts.push(`links=${opts.links}`);
   return createHash("sha256").update(parts.join("|")).digest("hex");
 }
 
@@ -87,9 +125,59 @@ export async function setCached(key: string, entry: CacheEntry): Promise<void> {
   await writeFile(entryPath(key), JSON.stringify(entry, null, 2), "utf-8");
 }
 
+/** Record a cached analysis in the perceptual-hash index. */
+export async function indexSimilar(entry: SimilarEntry): Promise<void> {
+  const entries = await loadSimilarIndex();
+  await ensureCacheDir();
+  await appendFile(join(getCacheDir(), SIMILAR_INDEX), JSON.stringify(entry) + "\n", "utf-8");
+  entries.push(entry);
+}
+
+/**
+ * The indexed analysis nearest to `phash` under the same options, if it is
+ * within `maxDistance` bits. Ties go to the most recent.
+ */
+export async function findSimilar(
+  phash: string,
+  signature: string,
+  maxDistance: number
+): Promise<{ entry: SimilarEntry; distance: number } | null> {
+  let best: { entry: SimilarEntry; distance: number } | null = null;
+  for (const entry of await loadSimilarIndex()) {
+    if (entry.signature !== signature) continue;
+    const distance = hammingDistance(phash, entry.phash);
+    if (distance <= maxDistance && (!best || distance <= best.distance)) best = { entry, distance };
+  }
+  return best;
+}
+
+/** The index for the current cache dir, read once per process. */
+async function loadSimilarIndex(): Promise<SimilarEntry[]> {
+  const dir = getCacheDir();
+  if (similarIndex?.dir === dir) return similarIndex.entries;
+  let entries: SimilarEntry[] = [];
+  try {
+    const lines = (await readFile(join(dir, SIMILAR_INDEX), "utf-8")).split("\n").filter(Boolean);
+    entries = lines.flatMap((line) => {
+      try {
+        return [JSON.parse(line) as SimilarEntry];
+      } catch {
+        // A line cut short by a crash
+        return [];
+      }
+    });
+  } catch {
+    // No index yet
+  }
+  similarIndex = { dir, entries };
+  return entries;
+}
+
 export async function clearCache(): Promise<number> {
   const dir = getCacheDir();
   let count = 0;
+  await rm(join(dir, SIMILAR_INDEX), { force: true });
+  similarIndex = undefined;
   try {
     const files = await readdir(dir);
     for (const file of files) {
@@ -10,22 +10,51 @@ process.emit = function (event: string, ...args: unknown[]) {
 };
 
 import { Command } from "commander";
-import { resolve } from "node:path";
+import { basename, dirname, resolve } from "node:path";
 import { stat, writeFile, mkdir } from "node:fs/promises";
 import pc from "picocolors";
-import { loadConfig, mergeOptions, resolveTier, TIER_MAP } from "./config.js";
-import { processFile, processBuffer } from "./processor.js";
-import { AnthropicProvider, DEFAULT_ANTHROPIC_MODEL } from "./providers/anthropic.js";
-import { OpenAIProvider, DEFAULT_OPENAI_MODEL } from "./providers/openai.js";
-import type { Provider } from "./providers/types.js";
+import { loadConfig, mergeOptions, resolveTier, registerConfigProviders, TIER_MAP, DEFAULT_REASK } from "./config.js";
+import { processFile, processBuffer, cacheKeyFor, type FallbackUsed, type ProcessOptions, type ProcessResult } from "./processor.js";
+import { canEmbed, embedFieldsFrom, embedFile, embedResult, type EmbedChange } from "./embed.js";
+import {
+  parseFallbackChain,
+  createFallbackTargets,
+  type FallbackReason,
+  type FallbackStep,
+  type FallbackTarget,
+} from "./fallback.js";
+import { getProviderDefinition, listProviders, providerNames } from "./providers/registry.js";
+import type { BatchProvider, ImageInput, Provider, ProviderDefinition, TokenUsage } from "./providers/types.js";
+import { RecordingProvider, replayDir } from "./providers/replay.js";
+import { RateLimitedProvider, type RateLimits } from "./rate-limit.js";
+import { canPreprocess, imageLimitsFor, prepareImage } from "./preprocess.js";
+import { extractPdf, isPdf } from "./pdf.js";
+import { extractVideo, isVideo, DEFAULT_MAX_FRAMES } from "./video.js";
+import { DEFAULT_ANIMATION_FRAMES } from "./animation.js";
+import { COLOR_SOURCES, DEFAULT_COLOR_SOURCE, type ColorSource } from "./colors.js";
+import { OCR_MODES, DEFAULT_OCR_LANGUAGE, closeOcrEngines, type OcrMode } from "./ocr.js";
+import { DEFAULT_TILE_SIZE, MIN_TILE_SIZE } from "./tiles.js";
+import { OBSIDIAN_TEMPLATE_NAME, attachmentDir, findVault, loadVault, notesDir, relativeLink, vaultPath, type ObsidianVault } from "./obsidian.js";
+import { DEFAULT_DUPLICATE_DISTANCE, DEFAULT_REUSE_DISTANCE, groupNearDuplicates, hammingDistance, withPerceptualHash } from "./phash.js";
+import { submitBatchJob, collectBatchJob, loadManifest, isBatchProvider, type BatchManifest } from "./async-batch.js";
 import { getSupportedFormats } from "./extractors/metadata.js";
 import { loadTemplate } from "./templates/loader.js";
 import { stripFrontmatter } from "./templates/engine.js";
-import { discoverImages, runBatch, type BatchResult } from "./batch.js";
-import { sidecarPath, formatOutputPath, writeMarkdown } from "./output/writer.js";
-import { clearCache, getCacheStats, buildCacheKey, getCached } from "./cache/store.js";
-import { extractMetadata, mimeTypeFromExtension } from "./extractors/metadata.js";
-import { estimateCost, estimateImageTokens, formatCost, calculateCost, formatModel } from "./cost.js";
+import { discoverImages, type BatchResult } from "./batch.js";
+import { sidecarPath, formatOutputPath, writeMarkdown, sidecarDiff } from "./output/writer.js";
+import { OUTPUT_FORMATS, DEFAULT_OUTPUT_FORMAT, STREAM_FORMATS, formatResults, outputExtension, type OutputFormat } from "./output/formats.js";
+import { clearCache, getCacheStats, getCached } from "./cache/store.js";
+import { extractMetadata, mimeTypeFromExtension, humanSize, type ImageMetadata } from "./extractors/metadata.js";
+import {
+  estimateCost,
+  estimateInputTokens,
+  formatCost,
+  calculateUsageCost,
+  cacheSavings,
+  sumUsage,
+  formatModel,
+  type PricingOptions,
+} from "./cost.js";
 import { isUrl, fetchImage, screenshotPage, ContentTypeError } from "./url.js";
 import { buildCompareSystemPrompt, buildCompareUserPrompt, formatCompareMarkdown } from "./prompts.js";
 import * as logger from "./utils/logger.js";
@@ -43,21 +72,41 @@ program
   })
   .version(`\n  ${pc.cyan(pc.bold("m2md"))} ${pc.dim("v0.2.2")}\n`)
   .argument("[files...]", "Image file(s) or directory to process")
-.option("--provider <provider>", "AI provider: anthropic, openai")
+  .option("--provider <provider>", `AI provider: ${providerNames().join(", ")}`)
   .option("-m, --model <model>", "AI model to use")
-  .option("--tier <tier>", "Preset tier: fast (gpt-4o-mini), quality (claude-sonnet)")
+  .option("--tier <tier>", "Preset tier: fast (gpt-4o-mini), quality (claude-sonnet), local (llava)")
   .option("-p, --prompt <prompt>", "Custom instructions for the model")
   .option("-n, --note <note>", "Focus directive — additional aspects for the LLM to note")
-  .option("-t, --template <template>", "Template: default, minimal, alt-text, detailed, or path")
+  .option("-t, --template <template>", "Template: default, minimal, alt-text, detailed, obsidian, or path")
+  .option("--templates-dir <dir>", "Directory of custom templates (used by name) and {{> partials}}")
   .option("-o, --output <dir>", "Output directory for .md files (default: next to image)")
   .option("--name <pattern>", "Output filename pattern: {filename}, {date}, {type}, {subject}")
   .option("-r, --recursive", "Recursively scan directories")
   .option("--stdout", "Output to stdout instead of writing files")
+  .option("--format <format>", `Output format: ${OUTPUT_FORMATS.join(", ")} (jsonl and csv print to stdout; default: ${DEFAULT_OUTPUT_FORMAT})`)
   .option("--no-frontmatter", "Strip YAML frontmatter from output")
+  .option("--obsidian [vault]", "Write notes for an Obsidian vault: ![[embeds]], nested tags, vault folders (default: the vault around the files)")
+  .option("--notes-dir <dir>", "With --obsidian, folder for notes, from the vault root (default: Obsidian's new-note folder, else next to each image)")
   .option("--no-cache", "Skip cache, force re-processing")
   .option("--estimate", "Show estimated cost without processing")
   .option("--dry-run", "Show what would be processed without calling API")
+  .option("--diff", "Show what would change in each sidecar instead of writing it")
   .option("--concurrency <n>", "Max concurrent API calls", "5")
+  .option("--structured", "Request schema-validated JSON output (text format for providers without support)")
+  .option("--reask <n>", "Re-ask up to n times for missing or malformed sections, 0 to disable (default: 1)")
+  .option("--fallback <chain>", "Comma-separated providers to fail over to, e.g. openai:gpt-4o,local")
+  .option("--record [dir]", "Save responses as replay fixtures (default: ./m2md-fixtures)")
+  .option("--async-batch", "Submit uncached images as half-price provider batch jobs")
+  .option("--pages <range>", "PDF pages to analyze, e.g. 1-5 or 2,4,9- (default: all)")
+  .option("--per-page", "Write one .md per PDF page instead of one combined document")
+  .option("--max-frames <n>", `Most frames analyzed per video (default: ${DEFAULT_MAX_FRAMES}) or animated GIF/APNG (default: ${DEFAULT_ANIMATION_FRAMES})`)
+  .option("--color-source <source>", `Where color_hex comes from: ${COLOR_SOURCES.join(", ")} (default: ${DEFAULT_COLOR_SOURCE})`)
+  .option("--ocr <mode>", `Run local OCR (tesseract.js) to ground, replace or check the extracted text: ${OCR_MODES.join(", ")}`)
+  .option("--ocr-language <langs>", `Tesseract language(s) for --ocr, e.g. eng+deu (default: ${DEFAULT_OCR_LANGUAGE})`)
+  .option("--tile [px]", `Also read images larger than px (default: ${DEFAULT_TILE_SIZE}) as overlapping full-resolution tiles`)
+  .option("--reuse-similar [bits]", `Reuse the cached analysis of a near-identical image (perceptual hash within bits, default: ${DEFAULT_REUSE_DISTANCE})`)
+  .option("--embed", "Also write subject, description, tags and text into the image's XMP/IPTC metadata")
+  .option("--backup", "With --embed, keep the original as <file>.bak")
   .option("-v, --verbose", "Show detailed processing info")
   .addHelpText(
     "after",
@@ -67,6 +116,10 @@ ${brand(pc.bold("Examples:"))}
   ${pc.dim("$")} m2md screenshot.png -o ./docs/           ${pc.dim("# writes to docs/screenshot.md")}
   ${pc.dim("$")} m2md screenshot.png --stdout              ${pc.dim("# print to stdout")}
   ${pc.dim("$")} m2md screenshot.png --stdout | pbcopy     ${pc.dim("# copy to clipboard")}
+  ${pc.dim("$")} m2md ./assets/ --format json             ${pc.dim("# .json next to each image")}
+  ${pc.dim("$")} m2md ./assets/ --format csv > assets.csv ${pc.dim("# one spreadsheet row per image")}
+  ${pc.dim("$")} m2md ~/vault/attachments --obsidian     ${pc.dim("# notes with ![[embeds]] and nested tags")}
+  ${pc.dim("$")} m2md ./assets/ --no-cache --diff        ${pc.dim("# preview changes to existing .md files")}
   ${pc.dim("$")} m2md ./assets/                           ${pc.dim("# batch, .md next to each image")}
   ${pc.dim("$")} m2md ./assets/ -r -o ./docs/             ${pc.dim("# recursive, output dir")}
   ${pc.dim("$")} m2md diagram.png --template minimal      ${pc.dim("# minimal output")}
@@ -74,46 +127,36 @@ ${brand(pc.bold("Examples:"))}
   ${pc.dim("$")} m2md photo.jpg --provider openai         ${pc.dim("# use OpenAI GPT-4o")}
   ${pc.dim("$")} m2md photo.jpg --tier fast              ${pc.dim("# quick + cheap (gpt-4o-mini)")}
   ${pc.dim("$")} m2md photo.jpg --tier quality           ${pc.dim("# best results (claude-sonnet)")}
+  ${pc.dim("$")} m2md ./archive/ -r --async-batch        ${pc.dim("# half-price batch job, collect later")}
+  ${pc.dim("$")} m2md lookbook.pdf --pages 1-5           ${pc.dim("# first five pages, one combined .md")}
+  ${pc.dim("$")} m2md demo.mp4 --max-frames 12           ${pc.dim("# keyframe timeline in demo.md")}
+  ${pc.dim("$")} m2md ./photos/ --embed --backup         ${pc.dim("# also write descriptions into the files")}
+  ${pc.dim("$")} m2md ./refs/ -r --reuse-similar          ${pc.dim("# analyze resized/re-encoded copies once")}
+  ${pc.dim("$")} m2md dupes ./refs/ -r                    ${pc.dim("# list near-duplicate images")}
+  ${pc.dim("$")} m2md scan.png --ocr check               ${pc.dim("# flag text the model dropped or invented")}
+  ${pc.dim("$")} m2md poster.png --tile                  ${pc.dim("# read fine print on very large images")}
 
-${brand(pc.bold("Templates:"))} ${["default", "minimal", "alt-text", "detailed"].map((n) => accent(n)).join(pc.dim(", "))}${pc.dim(", or path to .md file")}
+${brand(pc.bold("Templates:"))} ${["default", "minimal", "alt-text", "detailed", "obsidian"].map((n) => accent(n)).join(pc.dim(", "))}${pc.dim(", or path to .md file")}
 
 ${brand(pc.bold("Environment:"))}
-  ${pc.bold("ANTHROPIC_API_KEY")}    Your Anthropic API key ${pc.dim("(required for anthropic provider)")}
-                       Get one at ${brand(pc.underline("https://console.anthropic.com/settings/keys"))}
-  ${pc.bold("OPENAI_API_KEY")}       Your OpenAI API key ${pc.dim("(required for openai provider)")}
-                       Get one at ${brand(pc.underline("https://platform.openai.com/api-keys"))}
+${listProviders().filter((p) => p.apiKeyEnv).map((p) =>
+  `  ${pc.bold(p.apiKeyEnv!.padEnd(20))} Your ${p.label} API key ${pc.dim(`(required for ${p.name} provider)`)}` +
+  (p.apiKeyUrl ? `\n                       Get one at ${brand(pc.underline(p.apiKeyUrl))}` : "")
+).join("\n")}
 
 ${brand(pc.bold("Supported formats:"))} ${getSupportedFormats().map((f) => pc.dim(f)).join(", ")}
 `
   )
   .action(async (files: string[], cliOpts) => {
     // Load config file and merge with CLI options (CLI takes precedence)
-    const config = await loadConfig();
-    const opts = mergeOptions(cliOpts, config);
-
-    // Resolve tier into provider/model (only fills undefined values)
-    resolveTier(opts, config);
-
-    // Validate tier if explicitly provided
-    if (opts.tier && !TIER_MAP[opts.tier as string]) {
-      logger.blank();
-      logger.error(`Unknown tier: ${opts.tier}. Supported: ${Object.keys(TIER_MAP).join(", ")}`);
-      logger.blank();
-      process.exit(1);
+    const opts = await loadOptions(cliOpts);
+    if (opts.obsidian && opts.template === undefined) {
+      opts.template = OBSIDIAN_TEMPLATE_NAME;
     }
 
     // Resolve provider and default model
-    const providerName = opts.provider ?? "anthropic";
-    if (providerName !== "anthropic" && providerName !== "openai") {
-      logger.blank();
-      logger.error(`Unknown provider: ${providerName}. Supported: anthropic, openai`);
-      logger.blank();
-      process.exit(1);
-    }
-    const defaultModel = providerName === "openai" ? DEFAULT_OPENAI_MODEL : DEFAULT_ANTHROPIC_MODEL;
-    if (!opts.model) {
-      opts.model = defaultModel;
-    }
+    const definition = resolveProvider(opts);
+    const providerName = definition.name;
 
     if (files.length === 0) {
       logger.blank();
@@ -142,21 +185,67 @@ ${brand(pc.bold("Supported formats:"))} ${getSupportedFormats().map((f) => pc.di
       process.exit(0);
     }
 
+    // --obsidian: notes go to the vault's notes folder and link to images by vault path
+    const vault = await resolveVault(opts, fileInputs, imagePaths);
+    if (vault) {
+      opts.output ??= notesDir(vault, opts.notesDir as string | undefined);
+    }
+    const linksFor = (imagePath: string): Pick<ProcessOptions, "sourcePath" | "vaultPath"> => {
+      if (!vault) return {};
+      const noteDir = opts.output ? resolve(opts.output) : dirname(resolve(imagePath));
+      return { sourcePath: relativeLink(noteDir, imagePath), vaultPath: vaultPath(vault, imagePath) };
+    };
+
     // --estimate: show cost preview and exit
     if (opts.estimate || opts.dryRun) {
-      const items: { metadata: Awaited<ReturnType<typeof extractMetadata>>["metadata"]; cached: boolean; path: string }[] = [];
+      const items: { metadata: Awaited<ReturnType<typeof extractMetadata>>["metadata"]; cached: boolean; path: string; frames?: number }[] = [];
+      const keyOpts = {
+        model: opts.model as string | undefined,
+        prompt: opts.prompt as string | undefined,
+        templateName: opts.template as string | undefined,
+        note: opts.note as string | undefined,
+        providerName,
+        colorSource: resolveColorSource(opts),
+        ocr: resolveOcr(opts),
+        ocrLanguage: opts.ocrLanguage as string | undefined,
+        tileSize: opts.asyncBatch ? undefined : resolveTile(opts),
+      };
+      const isCached = async (metadata: ImageMetadata, filePath: string) =>
+        opts.cache !== false
+          ? (await getCached(cacheKeyFor(metadata, { ...keyOpts, ...linksFor(filePath), maxFrames: resolveMaxFrames(opts) }))) !== null
+          : false;
 
       for (const filePath of imagePaths) {
-        const { metadata } = await extractMetadata(filePath);
-        const key = buildCacheKey(metadata.sha256, {
-          model: opts.model,
-          prompt: opts.prompt,
-          templateName: opts.template,
-          note: opts.note,
-          provider: providerName,
-        });
-        const cached = opts.cache !== false ? (await getCached(key)) !== null : false;
-        items.push({ metadata, cached, path: filePath });
+        // Videos count one image per sampled frame that isn't cached yet
+        if (isVideo(filePath)) {
+          try {
+            const { metadata, frames } = await extractVideo(filePath, resolveMaxFrames(opts));
+            let uncached = 0;
+            for (const frame of frames) if (!(await isCached(frame, filePath))) uncached++;
+            items.push({ metadata, cached: uncached === 0, path: filePath, frames: uncached });
+          } catch (err) {
+            logger.warn(`${filePath.split("/").pop()}: ${(err as Error).message}`);
+          }
+          continue;
+        }
+
+        // PDFs count one image per selected page
+        let metadataList;
+        try {
+          metadataList = isPdf(filePath)
+            ? (await extractPdf(filePath, opts.pages as string | undefined)).pages
+            : [(await extractMetadata(filePath)).metadata];
+        } catch (err) {
+          logger.warn(`${filePath.split("/").pop()}: ${(err as Error).message}`);
+          continue;
+        }
+        for (const metadata of metadataList) {
+          // Animations send their sampled frames in one request
+          const frames = metadata.animated
+            ? Math.min(metadata.frameCount!, resolveMaxFrames(opts) ?? DEFAULT_ANIMATION_FRAMES)
+            : undefined;
+          items.push({ metadata, cached: await isCached(metadata, filePath), path: filePath, frames });
+        }
       }
 
       if (opts.dryRun) {
@@ -166,14 +255,21 @@ ${brand(pc.bold("Supported formats:"))} ${getSupportedFormats().map((f) => pc.di
         let totalEstTokens = 0;
 
         const rows = items.map((item) => {
-          const name = item.path.split("/").pop() ?? item.path;
+          const file = item.path.split("/").pop() ?? item.path;
+          const name = item.metadata.page
+            ? `${file} ${pc.dim(`p${item.metadata.page}`)}`
+            : item.metadata.animated
+              ? `${file} ${pc.dim(`${item.frames} of ${item.metadata.frameCount} frames`)}`
+              : item.metadata.frameCount
+                ? `${file} ${pc.dim(`${item.metadata.frameCount} frames`)}`
+                : file;
           const status = item.cached ? pc.dim("cached") : pc.green("new");
           const size = item.metadata.sizeHuman;
           let estTokens: string;
           if (item.cached) {
             estTokens = pc.dim("—");
           } else {
-            const tokens = estimateImageTokens(item.metadata);
+            const tokens = estimateInputTokens(item, imageLimitsFor(definition.capabilities), keyOpts.tileSize);
             totalEstTokens += tokens;
             estTokens = `~${tokens.toLocaleString()}`;
           }
@@ -181,7 +277,7 @@ ${brand(pc.bold("Supported formats:"))} ${getSupportedFormats().map((f) => pc.di
         });
 
         const footer = [
-          `${items.length} file${items.length !== 1 ? "s" : ""}`,
+          `${items.length} image${items.length !== 1 ? "s" : ""}`,
           newCount > 0 ? `${newCount} new` : "",
           "",
           totalEstTokens > 0 ? `~${totalEstTokens.toLocaleString()}` : "",
@@ -199,7 +295,12 @@ ${brand(pc.bold("Supported formats:"))} ${getSupportedFormats().map((f) => pc.di
         );
       }
 
-      const estimate = estimateCost(items, opts.model);
+      const estimate = estimateCost(items, opts.model, {
+        batch: opts.asyncBatch === true,
+        provider: definition.name,
+        imageLimits: imageLimitsFor(definition.capabilities),
+        tileSize: keyOpts.tileSize,
+      });
       logger.blank();
       logger.summary(formatCost(estimate).split("\n"));
 
@@ -211,26 +312,20 @@ ${brand(pc.bold("Supported formats:"))} ${getSupportedFormats().map((f) => pc.di
     }
 
     // Check for API key (after estimate/dry-run which don't need it)
-    const apiKeyEnv = providerName === "openai" ? "OPENAI_API_KEY" : "ANTHROPIC_API_KEY";
-    if (!process.env[apiKeyEnv]) {
-      const keyUrls: Record<string, string> = {
-        anthropic: "https://console.anthropic.com/settings/keys",
-        openai: "https://platform.openai.com/api-keys",
-      };
-      const examples: Record<string, string> = {
-        anthropic: 'export ANTHROPIC_API_KEY="sk-ant-..."',
-        openai: 'export OPENAI_API_KEY="sk-..."',
-      };
+    const apiKeyEnv = definition.apiKeyEnv;
+    if (apiKeyEnv && !process.env[apiKeyEnv]) {
       logger.blank();
       process.stderr.write(`  ${pc.bold(pc.red("No API key found."))}\n`);
       logger.blank();
       process.stderr.write(`  m2md requires ${brand(apiKeyEnv)} for the ${providerName} provider.\n`);
       logger.blank();
       process.stderr.write(`  ${brand(pc.bold("Quick setup:"))}\n`);
-      process.stderr.write(`  ${pc.dim("1.")} Get a key at ${brand(pc.underline(keyUrls[providerName]))}\n`);
-      process.stderr.write(`  ${pc.dim("2.")} Add to your shell profile:\n`);
+      if (definition.apiKeyUrl) {
+        process.stderr.write(`  ${pc.dim("1.")} Get a key at ${brand(pc.underline(definition.apiKeyUrl))}\n`);
+      }
+      process.stderr.write(`  ${pc.dim(definition.apiKeyUrl ? "2." : "1.")} Add to your shell profile:\n`);
       logger.blank();
-      process.stderr.write(`     ${brand(examples[providerName])}\n`);
+      process.stderr.write(`     ${brand(definition.apiKeyExample ?? `export ${apiKeyEnv}="..."`)}\n`);
       logger.blank();
       process.exit(1);
     }
@@ -238,28 +333,66 @@ ${brand(pc.bold("Supported formats:"))} ${getSupportedFormats().map((f) => pc.di
     // Load template
     let template: string;
     try {
-      template = await loadTemplate(opts.template);
+      template = await loadTemplate(opts.template, { templatesDir: opts.templatesDir });
     } catch (err) {
       logger.error((err as Error).message);
       process.exit(1);
     }
 
-    const provider: Provider = providerName === "openai" ? new OpenAIProvider() : new AnthropicProvider();
-    const concurrency = parseInt(opts.concurrency, 10) || 5;
-    const toStdout = opts.stdout === true;
+    const structured = resolveStructured(opts, definition);
+    const reask = resolveReask(opts);
+
+    if (opts.asyncBatch) {
+      if (opts.embed) {
+        logger.warn(`--embed doesn't apply to batch jobs. Run ${brand("m2md embed")} after collecting.`);
+      }
+      if (resolveTile(opts)) {
+        logger.warn("--tile doesn't apply to batch jobs; images are analyzed whole.");
+      }
+      if (resolveFormat(opts) !== "md") {
+        logger.warn("--format doesn't apply to batch jobs; results are collected as markdown.");
+      }
+      if (vault) {
+        logger.warn("Batch jobs link images by filename; --obsidian vault paths apply to live runs.");
+      }
+      if (opts.diff) {
+        logger.warn("--diff doesn't apply to batch jobs; collected sidecars are merged as they're written.");
+      }
+      await submitAsyncBatch(imagePaths, urlInputs, definition, { ...opts, structured, reask });
+      return;
+    }
+
+    const provider: Provider = withRateLimit(withRecording(definition.create(), opts), providerName, opts);
+    const fallbacks = resolveFallbacks(opts, definition, structured);
+    const format = resolveFormat(opts);
+    const extension = outputExtension(format);
+    // JSONL and CSV are one stream for the whole batch
+    const toStdout = opts.stdout === true || STREAM_FORMATS.includes(format);
+    if (opts.diff && toStdout) {
+      logger.warn("--diff compares sidecar files, so it doesn't apply to output on stdout.");
+    }
     const noFrontmatter = opts.frontmatter === false;
     const applyFrontmatter = (md: string) => noFrontmatter ? stripFrontmatter(md) : md;
+    const serialize = (documents: ProcessResult[], header?: boolean) =>
+      formatResults(documents.map((r) => ({ ...r, markdown: applyFrontmatter(r.markdown) })), format, { header });
+    // Markdown sidecars keep locked fields and text outside the markers;
+    // --diff prints what writing would change instead
+    const merge = format === "md";
+    const writeSidecar = async (content: string, path: string) => {
+      if (opts.diff) process.stdout.write(await sidecarDiff(content, path, { merge }));
+      else await writeMarkdown(content, path, { merge });
+    };
 
     // Provider size limits (base64 encoding adds ~33%)
-    const PROVIDER_LIMITS: Record<string, number> = {
-      anthropic: 5 * 1024 * 1024,
-      openai: 20 * 1024 * 1024,
-    };
-    const primaryLimit = PROVIDER_LIMITS[providerName] ?? Infinity;
-    const altProviderName = providerName === "anthropic" ? "openai" : "anthropic";
-    const altApiKeyEnv = altProviderName === "openai" ? "OPENAI_API_KEY" : "ANTHROPIC_API_KEY";
-    const altAvailable = !!process.env[altApiKeyEnv];
-    const altLimit = PROVIDER_LIMITS[altProviderName] ?? Infinity;
+    const primaryLimit = definition.capabilities.maxImageBytes ?? Infinity;
+    const hasKey = (p: ProviderDefinition) => !p.apiKeyEnv || !!process.env[p.apiKeyEnv];
+    const largerProviders = listProviders().filter(
+      (p) => p.name !== providerName && (p.capabilities.maxImageBytes ?? Infinity) > primaryLimit
+    );
+    const altDefinition = largerProviders.find(hasKey) ?? largerProviders[0];
+    const altProviderName = altDefinition?.name ?? providerName;
+    const altAvailable = !!altDefinition && hasKey(altDefinition);
+    const altLimit = altDefinition?.capabilities.maxImageBytes ?? Infinity;
 
     // Build unified work items: local files + URLs
     type WorkItem = {
@@ -272,10 +405,12 @@ ${brand(pc.bold("Supported formats:"))} ${getSupportedFormats().map((f) => pc.di
       ...urlInputs.map((u): WorkItem => ({ kind: "url", url: u })),
     ];
 
-    // Pre-flight size check for local files
+    // Pre-flight size check for local files — only needed when sharp
+    // isn't installed to shrink them
     const oversized: { item: WorkItem; size: number; filename: string }[] = [];
+    const shrinkable = await canPreprocess();
     for (const item of workItems) {
-      if (item.kind !== "file") continue;
+      if (item.kind !== "file" || shrinkable || isPdf(item.path) || isVideo(item.path)) continue;
       const s = await stat(resolve(item.path)).catch(() => null);
       if (s && s.size > primaryLimit) {
         oversized.push({ item, size: s.size, filename: item.path.split("/").pop() ?? item.path });
@@ -300,7 +435,6 @@ ${brand(pc.bold("Supported formats:"))} ${getSupportedFormats().map((f) => pc.di
         const cantFit = oversized.filter((o) => o.size > altLimit);
 
         if (canFit.length > 0) {
-          const altModel = altProviderName === "openai" ? DEFAULT_OPENAI_MODEL : DEFAULT_ANTHROPIC_MODEL;
           logger.info(
             `  Using ${brand(altProviderName)} (${altLimitMB} MB limit) for ${canFit.length === oversized.length ? "these" : `${canFit.length} of these`}`
           );
@@ -311,8 +445,10 @@ ${brand(pc.bold("Supported formats:"))} ${getSupportedFormats().map((f) => pc.di
         if (cantFit.length > 0) {
           logger.warn(`  ${cantFit.length} file${cantFit.length > 1 ? "s" : ""} exceed even ${altProviderName}'s ${altLimitMB} MB limit — skipping`);
         }
+      } else if (altDefinition?.apiKeyEnv) {
+        logger.info(`  Skipping — set ${brand(altDefinition.apiKeyEnv)} to auto-fallback to ${altProviderName}`);
       } else {
-        logger.info(`  Skipping — set ${brand(altApiKeyEnv)} to auto-fallback to ${altProviderName}`);
+        logger.info("  Skipping — no provider with a larger limit is available");
       }
     }
 
@@ -334,10 +470,10 @@ ${brand(pc.bold("Supported formats:"))} ${getSupportedFormats().map((f) => pc.di
       process.exit(1);
     }
 
-    const altProvider: Provider | undefined = filteredItems.some((i) => i.useAlt)
-      ? (altProviderName === "openai" ? new OpenAIProvider() : new AnthropicProvider())
+    const altProvider: Provider | undefined = altDefinition && filteredItems.some((i) => i.useAlt)
+      ? withRateLimit(withRecording(altDefinition.create(), opts), altDefinition.name, opts)
       : undefined;
-    const altModel = altProviderName === "openai" ? DEFAULT_OPENAI_MODEL : DEFAULT_ANTHROPIC_MODEL;
+    const altModel = altDefinition?.defaultModel;
 
     const makeProcessOpts = (item: WorkItem) => ({
       model: item.useAlt ? altModel : opts.model,
@@ -345,14 +481,31 @@ ${brand(pc.bold("Supported formats:"))} ${getSupportedFormats().map((f) => pc.di
       note: opts.note,
       template,
       templateName: opts.template,
-      noCache: opts.cache === false,
+      noCache: opts.cache === false || opts.record !== undefined,
       provider: item.useAlt && altProvider ? altProvider : provider,
       providerName: item.useAlt ? altProviderName : providerName,
+      structured: item.useAlt ? structured && !!altDefinition?.capabilities.structuredOutput : structured,
+      reask,
+      imageLimits: imageLimitsFor(item.useAlt && altDefinition ? altDefinition.capabilities : definition.capabilities),
+      fallbacks: item.useAlt ? undefined : fallbacks,
+      fallbackOn: opts.fallbackOn as FallbackReason[] | undefined,
+      pages: opts.pages as string | undefined,
+      maxFrames: resolveMaxFrames(opts),
+      colorSource: resolveColorSource(opts),
+      reuseSimilar: resolveReuseSimilar(opts),
+      tileSize: resolveTile(opts),
+      ocr: resolveOcr(opts),
+      ocrLanguage: opts.ocrLanguage as string | undefined,
+      ...(item.kind === "file" ? linksFor(item.path) : {}),
     });
+    const perPage = opts.perPage === true;
 
     if (toStdout) {
       // Stdout mode
       const results: BatchResult[] = [];
+      // JSON prints once at the end: the result, or an array of them
+      const jsonDocuments: ProcessResult[] = [];
+      let printed = false;
 
       const stdoutTotal = filteredItems.length;
       logger.blank();
@@ -365,18 +518,27 @@ ${brand(pc.bold("Supported formats:"))} ${getSupportedFormats().map((f) => pc.di
           logger.startSpinner(`${prefix}Analyzing ${accent(label)}${item.useAlt ? pc.dim(` (${altProviderName})`) : ""}`);
 
           let result;
+          let embedded = "";
           if (item.kind === "file") {
             result = await processFile(item.path, itemOpts);
+            if (opts.embed) embedded = await embedIntoImage(item.path, result, itemOpts, opts);
           } else {
             const fetched = await fetchUrl(item.url);
             result = await processBuffer(fetched, itemOpts);
           }
 
-          logger.succeedSpinner(result.cached ? `${prefix}${label} ${pc.dim("(cached)")}` : `${prefix}${label}`);
+          const suffix = `${embedded}${cacheLabel(result)}`.trim();
+          logger.succeedSpinner(suffix ? `${prefix}${label} ${pc.dim(suffix)}` : `${prefix}${label}`);
           results.push({ file: label, success: true });
 
-          process.stdout.write(applyFrontmatter(result.markdown));
-          if (filteredItems.length > 1) {
+          const documents = perPage && result.pages ? result.pages : [result];
+          if (format === "json") {
+            jsonDocuments.push(...documents);
+          } else {
+            process.stdout.write(serialize(documents, !printed));
+            printed = true;
+          }
+          if (format === "md" && filteredItems.length > 1) {
             process.stdout.write("\n---\n\n");
           }
         } catch (err) {
@@ -387,17 +549,21 @@ ${brand(pc.bold("Supported formats:"))} ${getSupportedFormats().map((f) => pc.di
         }
       }
 
+      if (jsonDocuments.length > 0) {
+        process.stdout.write(serialize(jsonDocuments));
+      }
+
       const failed = results.filter((r) => !r.success).length;
       logger.blank();
       if (failed > 0) {
         process.exit(2);
       }
     } else {
-      // Sidecar mode (default) — sequential for clean spinner output
+      // Sidecar mode (default) — sequential for clean spinner output; the
+      // shared rate limiter paces the API calls
       const total = filteredItems.length;
-      const results: (BatchResult & { cached?: boolean })[] = [];
-      let totalInputTokens = 0;
-      let totalOutputTokens = 0;
+      const results: (BatchResult & { cached?: boolean; reused?: boolean; fallback?: boolean })[] = [];
+      const usages: PricedUsage[] = [];
       let resolvedModel: string | undefined;
       const startTime = Date.now();
 
@@ -415,17 +581,25 @@ ${brand(pc.bold("Supported formats:"))} ${getSupportedFormats().map((f) => pc.di
 
           let result;
           let fetchedBuffer: { buffer: Buffer; filename: string } | undefined;
+          // URLs: the image is saved here (the vault's attachment folder with --obsidian)
+          const outDir = resolve(opts.output ?? ".");
+          const imgDir = vault ? attachmentDir(vault, outDir) : outDir;
           if (item.kind === "file") {
             result = await processFile(item.path, itemOpts);
           } else {
             const fetched = await fetchUrl(item.url);
             fetchedBuffer = fetched;
-            result = await processBuffer(fetched, itemOpts);
+            const imgPath = resolve(imgDir, fetched.filename);
+            const links = vault ? { sourcePath: relativeLink(outDir, imgPath), vaultPath: vaultPath(vault, imgPath) } : {};
+            result = await processBuffer(fetched, { ...itemOpts, ...links });
           }
 
           if (result.usage) {
-            totalInputTokens += result.usage.inputTokens;
-            totalOutputTokens += result.usage.outputTokens;
+            usages.push({
+              usage: result.usage,
+              model: result.model ?? result.fallback?.model ?? itemOpts.model ?? "default",
+              pricing: { provider: result.fallback?.providerName ?? itemOpts.providerName },
+            });
           }
           if (result.model) {
             resolvedModel = result.model;
@@ -437,68 +611,99 @@ ${brand(pc.bold("Supported formats:"))} ${getSupportedFormats().map((f) => pc.di
                   date: new Date().toISOString().split("T")[0],
                   type: result.type,
                   subject: result.subject,
-                }, opts.output)
-              : sidecarPath(item.path, opts.output);
+                }, opts.output, extension)
+              : sidecarPath(item.path, opts.output, extension);
             if (!result.cached) {
               logger.updateSpinner(`${prefix}Writing ${accent(filename!)}`);
             }
-            await writeMarkdown(applyFrontmatter(result.markdown), outPath);
-            results.push({ file: item.path, success: true, outputPath: outPath, cached: result.cached });
+            // --per-page: lookbook-p1.md, lookbook-p2.md, ... instead of lookbook.md
+            const outputs = perPage && result.pages
+              ? result.pages.map((page) => ({ document: page, path: `${outPath.slice(0, -extension.length)}-p${page.page}${extension}` }))
+              : [{ document: result, path: outPath }];
+            for (const output of outputs) {
+              await writeSidecar(serialize([output.document]), output.path);
+            }
+            const embedded = opts.embed && !opts.diff ? await embedIntoImage(item.path, result, itemOpts, opts) : "";
+            results.push({ file: item.path, success: true, outputPath: outPath, cached: result.cached, reused: !!result.reused, fallback: !!result.fallback });
+            const target = result.pages
+              ? `${result.pages.length} page${result.pages.length > 1 ? "s" : ""} → ${outputs.length > 1 ? `${outputs.length} ${extension}` : extension}`
+              : result.frames
+                ? `${result.frames.length} frame${result.frames.length > 1 ? "s" : ""} → ${extension}`
+                : `${extension}${embedded}`;
+            const written = opts.diff ? " (not written)" : "";
             logger.succeedSpinner(
               result.cached
-                ? `${prefix}${filename} ${pc.dim("→ .md (cached)")}`
-                : `${prefix}${filename} ${pc.dim("→ .md")}`
+                ? `${prefix}${filename} ${pc.dim(`→ ${target}${written}${cacheLabel(result)}`)}`
+                : `${prefix}${filename} ${pc.dim(`→ ${target}${written}${fallbackLabel(result.fallback)}`)}`
             );
           } else {
             // URL: save image + write sidecar .md to output dir or cwd
-            const outDir = opts.output ?? ".";
-            await mkdir(resolve(outDir), { recursive: true });
+            if (!opts.diff) {
+              await mkdir(outDir, { recursive: true });
+              await mkdir(imgDir, { recursive: true });
+            }
             const imgName = result.metadata.filename;
-            const imgPath = resolve(outDir, imgName);
+            const imgPath = resolve(imgDir, imgName);
             const outPath = opts.name
               ? formatOutputPath(imgPath, opts.name as string, {
                   date: new Date().toISOString().split("T")[0],
                   type: result.type,
                   subject: result.subject,
-                })
-              : resolve(outDir, result.metadata.basename + ".md");
-            const outName = outPath.split("/").pop() ?? result.metadata.basename + ".md";
+                }, undefined, extension)
+              : resolve(outDir, result.metadata.basename + extension);
+            const outName = outPath.split("/").pop() ?? result.metadata.basename + extension;
 
             // Save the downloaded image
-            if (fetchedBuffer) {
+            if (fetchedBuffer && !opts.diff) {
               await writeFile(imgPath, fetchedBuffer.buffer);
             }
 
             if (!result.cached) {
               logger.updateSpinner(`${prefix}Writing ${accent(outName)}`);
             }
-            await writeMarkdown(applyFrontmatter(result.markdown), outPath);
-            results.push({ file: item.url, success: true, outputPath: outPath, cached: result.cached });
+            await writeSidecar(serialize([result]), outPath);
+            const written = opts.diff ? " (not written)" : "";
+            results.push({ file: item.url, success: true, outputPath: outPath, cached: result.cached, reused: !!result.reused, fallback: !!result.fallback });
             logger.succeedSpinner(
               result.cached
-                ? `${prefix}${label} ${pc.dim(`→ ${imgName} + ${outName} (cached)`)}`
-                : `${prefix}${label} ${pc.dim(`→ ${imgName} + ${outName}`)}`
+                ? `${prefix}${label} ${pc.dim(`→ ${imgName} + ${outName}${written}${cacheLabel(result)}`)}`
+                : `${prefix}${label} ${pc.dim(`→ ${imgName} + ${outName}${written}${fallbackLabel(result.fallback)}`)}`
             );
           }
 
           if (opts.verbose) {
             logger.info(`Format: ${result.metadata.format} | ${result.metadata.width}x${result.metadata.height} | ${result.metadata.sizeHuman}`);
+            if (result.preprocessed) {
+              logger.info(`Sent: ${result.preprocessed.transforms.join(", ")} | ${result.preprocessed.width}x${result.preprocessed.height} | ${humanSize(result.preprocessed.sizeBytes)}`);
+            }
+            if (result.tiles) {
+              logger.info(`Tiles: ${result.tiles} at full resolution`);
+            }
             if (result.usage) {
-              logger.info(`Tokens: ${result.usage.inputTokens.toLocaleString()} in + ${result.usage.outputTokens.toLocaleString()} out`);
+              const cacheRead = result.usage.cacheReadTokens;
+              logger.info(
+                `Tokens: ${result.usage.inputTokens.toLocaleString()} in + ${result.usage.outputTokens.toLocaleString()} out` +
+                (cacheRead ? pc.dim(` (${cacheRead.toLocaleString()} from prompt cache)`) : "")
+              );
+            }
+            for (const warning of result.validationWarnings ?? []) {
+              logger.warn(warning);
             }
           }
         } catch (err) {
           logger.stopSpinner();
           const msg = err instanceof Error ? err.message : "Unknown error";
           results.push({ file: label, success: false, error: msg });
-          handleError(err);
+          handleError(err, item.useAlt && altDefinition ? altDefinition : definition);
         }
       }
 
       // Summary
       const succeeded = results.filter((r) => r.success).length;
       const failed = results.filter((r) => !r.success).length;
-      const cachedCount = results.filter((r) => r.cached).length;
+      const cachedCount = results.filter((r) => r.cached && !r.reused).length;
+      const reusedCount = results.filter((r) => r.reused).length;
+      const fallbackCount = results.filter((r) => r.fallback).length;
       const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
 
       logger.blank();
@@ -506,24 +711,25 @@ ${brand(pc.bold("Supported formats:"))} ${getSupportedFormats().map((f) => pc.di
         const parts = [`${brand(succeeded.toString())} file${succeeded > 1 ? "s" : ""} processed`];
         if (skippedFiles.size > 0) parts.push(`${pc.dim(`${skippedFiles.size} skipped (too large)`)}`);
         if (cachedCount > 0) parts.push(`${pc.dim(`${cachedCount} from cache`)}`);
+        if (reusedCount > 0) parts.push(`${pc.dim(`${reusedCount} reused from similar images`)}`);
+        if (fallbackCount > 0) parts.push(`${pc.dim(`${fallbackCount} via fallback`)}`);
         const modelLabel = resolvedModel ? formatModel(resolvedModel) : formatModel(opts.model);
         parts.push(pc.dim(modelLabel));
-        if (opts.verbose && totalInputTokens > 0) {
-          const totalTokens = totalInputTokens + totalOutputTokens;
-          const tokenStr = totalTokens >= 1000 ? `${(totalTokens / 1000).toFixed(1)}K` : totalTokens.toString();
-          parts.push(pc.dim(`${tokenStr} tokens`));
-          const cost = calculateCost(totalInputTokens, totalOutputTokens, resolvedModel ?? opts.model);
-          parts.push(pc.dim(`$${cost.toFixed(2)}`));
+        if (opts.verbose && usages.length > 0) {
+          parts.push(...usageSummary(usages).map((p) => pc.dim(p)));
         }
         parts.push(pc.dim(`${elapsed}s`));
         logger.success(parts.join(pc.dim(" · ")));
       } else {
-        logger.warn(`${succeeded} processed, ${failed} failed ${pc.dim(`· ${elapsed}s`)}`);
+        const tail = fallbackCount > 0 ? `· ${fallbackCount} via fallback · ${elapsed}s` : `· ${elapsed}s`;
+        logger.warn(`${succeeded} processed, ${failed} failed ${pc.dim(tail)}`);
         process.exit(2);
       }
       logger.blank();
     }
 
+    // Tesseract workers would keep the process alive
+    await closeOcrEngines();
   });
 
 // Setup subcommand
@@ -531,54 +737,34 @@ program
   .command("setup")
   .description("Configure API key and verify setup")
   .action(async () => {
+    await loadOptions({});
     logger.header("m2md setup");
 
-    const hasAnthropic = !!process.env.ANTHROPIC_API_KEY;
-    const hasOpenAI = !!process.env.OPENAI_API_KEY;
     let anyValid = false;
 
-    // Check Anthropic
-    if (hasAnthropic) {
-      logger.success("ANTHROPIC_API_KEY is set");
-      logger.startSpinner("Verifying Anthropic key...");
-      try {
-        const { default: Anthropic } = await import("@anthropic-ai/sdk");
-        const client = new Anthropic();
-        await client.messages.create({
-          model: DEFAULT_ANTHROPIC_MODEL,
-          max_tokens: 10,
-          messages: [{ role: "user", content: "Hi" }],
-        });
-        logger.succeedSpinner("Anthropic key is valid");
+    for (const definition of listProviders()) {
+      if (!definition.apiKeyEnv) continue;
+
+      if (!process.env[definition.apiKeyEnv]) {
+        logger.warn(`${definition.apiKeyEnv} is not set`);
+        continue;
+      }
+
+      logger.success(`${definition.apiKeyEnv} is set`);
+      if (!definition.verify) {
         anyValid = true;
-      } catch {
-        logger.stopSpinner();
-        logger.error("Anthropic key is invalid or expired");
+        continue;
       }
-    } else {
-      logger.warn("ANTHROPIC_API_KEY is not set");
-    }
 
-    // Check OpenAI
-    if (hasOpenAI) {
-      logger.success("OPENAI_API_KEY is set");
-      logger.startSpinner("Verifying OpenAI key...");
+      logger.startSpinner(`Verifying ${definition.label} key...`);
       try {
-        const { default: OpenAI } = await import("openai");
-        const client = new OpenAI();
-        await client.chat.completions.create({
-          model: DEFAULT_OPENAI_MODEL,
-          max_tokens: 10,
-          messages: [{ role: "user", content: "Hi" }],
-        });
-        logger.succeedSpinner("OpenAI key is valid");
+        await definition.verify();
+        logger.succeedSpinner(`${definition.label} key is valid`);
         anyValid = true;
       } catch {
         logger.stopSpinner();
-        logger.error("OpenAI key is invalid or expired");
+        logger.error(`${definition.label} key is invalid or expired`);
       }
-    } else {
-      logger.warn("OPENAI_API_KEY is not set");
     }
 
     logger.blank();
@@ -587,13 +773,17 @@ program
       logger.blank();
     } else {
       process.stderr.write(`  ${brand(pc.bold("To set up:"))}\n`);
+      const keyed = listProviders().filter((p) => p.apiKeyEnv);
+      const labelWidth = Math.max(...keyed.map((p) => p.label.length)) + 1;
       process.stderr.write(`  ${pc.dim("1.")} Get a key:\n`);
-      process.stderr.write(`     Anthropic: ${brand(pc.underline("https://console.anthropic.com/settings/keys"))}\n`);
-      process.stderr.write(`     OpenAI:    ${brand(pc.underline("https://platform.openai.com/api-keys"))}\n`);
+      for (const p of keyed.filter((p) => p.apiKeyUrl)) {
+        process.stderr.write(`     ${`${p.label}:`.padEnd(labelWidth)} ${brand(pc.underline(p.apiKeyUrl!))}\n`);
+      }
       process.stderr.write(`  ${pc.dim("2.")} Add to your shell profile ${pc.dim("(~/.zshrc or ~/.bashrc)")}:\n`);
       logger.blank();
-      process.stderr.write(`     ${brand('export ANTHROPIC_API_KEY="sk-ant-..."')}\n`);
-      process.stderr.write(`     ${brand('export OPENAI_API_KEY="sk-..."')}\n`);
+      for (const p of keyed) {
+        process.stderr.write(`     ${brand(p.apiKeyExample ?? `export ${p.apiKeyEnv}="..."`)}\n`);
+      }
       logger.blank();
       process.stderr.write(`  ${pc.dim("3.")} Reload your shell: ${brand("source ~/.zshrc")}\n`);
       process.stderr.write(`  ${pc.dim("4.")} Verify: ${brand("m2md setup")}\n`);
@@ -637,48 +827,34 @@ program
   .command("watch")
   .description("Watch a directory and auto-process new/changed images")
   .argument("<dir>", "Directory to watch")
-  .option("--provider <provider>", "AI provider: anthropic, openai")
+  .option("--provider <provider>", `AI provider: ${providerNames().join(", ")}`)
   .option("-m, --model <model>", "AI model to use")
-  .option("--tier <tier>", "Preset tier: fast (gpt-4o-mini), quality (claude-sonnet)")
+  .option("--tier <tier>", "Preset tier: fast (gpt-4o-mini), quality (claude-sonnet), local (llava)")
   .option("-p, --prompt <prompt>", "Custom instructions for the model")
   .option("-n, --note <note>", "Focus directive")
-  .option("-t, --template <template>", "Template: default, minimal, alt-text, detailed, or path")
+  .option("-t, --template <template>", "Template: default, minimal, alt-text, detailed, obsidian, or path")
+  .option("--templates-dir <dir>", "Directory of custom templates (used by name) and {{> partials}}")
   .option("-o, --output <dir>", "Output directory for .md files")
   .option("--name <pattern>", "Output filename pattern: {filename}, {date}, {type}, {subject}")
   .option("--no-frontmatter", "Strip YAML frontmatter from output")
   .option("--no-cache", "Skip cache, force re-processing")
+  .option("--structured", "Request schema-validated JSON output")
+  .option("--reask <n>", "Re-ask up to n times for missing sections, 0 to disable (default: 1)")
+  .option("--color-source <source>", `Where color_hex comes from: ${COLOR_SOURCES.join(", ")} (default: ${DEFAULT_COLOR_SOURCE})`)
+  .option("--ocr <mode>", `Run local OCR to ground, replace or check the extracted text: ${OCR_MODES.join(", ")}`)
+  .option("--ocr-language <langs>", `Tesseract language(s) for --ocr (default: ${DEFAULT_OCR_LANGUAGE})`)
+  .option("--tile [px]", `Also read images larger than px (default: ${DEFAULT_TILE_SIZE}) as overlapping tiles`)
+  .option("--fallback <chain>", "Comma-separated providers to fail over to, e.g. openai:gpt-4o,local")
+  .option("--record [dir]", "Save responses as replay fixtures")
   .option("-v, --verbose", "Show detailed processing info")
   .action(async (dir: string, cliOpts) => {
-    const config = await loadConfig();
-    const opts = mergeOptions(cliOpts, config);
-    resolveTier(opts, config);
+    const opts = await loadOptions(cliOpts);
+    const definition = resolveProvider(opts);
+    const providerName = definition.name;
+    requireApiKey(definition);
 
-    if (opts.tier && !TIER_MAP[opts.tier as string]) {
-      logger.blank();
-      logger.error(`Unknown tier: ${opts.tier}. Supported: ${Object.keys(TIER_MAP).join(", ")}`);
-      logger.blank();
-      process.exit(1);
-    }
-
-    const providerName = (opts.provider as string) ?? "anthropic";
-    if (providerName !== "anthropic" && providerName !== "openai") {
-      logger.blank();
-      logger.error(`Unknown provider: ${providerName}. Supported: anthropic, openai`);
-      logger.blank();
-      process.exit(1);
-    }
-    const defaultModel = providerName === "openai" ? DEFAULT_OPENAI_MODEL : DEFAULT_ANTHROPIC_MODEL;
-    if (!opts.model) opts.model = defaultModel;
-
-    const apiKeyEnv = providerName === "openai" ? "OPENAI_API_KEY" : "ANTHROPIC_API_KEY";
-    if (!process.env[apiKeyEnv]) {
-      logger.blank();
-      logger.error(`${apiKeyEnv} is required for the ${providerName} provider.`);
-      logger.blank();
-      process.exit(1);
-    }
-
-    const provider: Provider = providerName === "openai" ? new OpenAIProvider() : new AnthropicProvider();
+    const provider: Provider = withRateLimit(withRecording(definition.create(), opts), providerName, opts);
+    const structured = resolveStructured(opts, definition);
 
     // Dynamic import to keep startup fast
     const { startWatch } = await import("./watch.js");
@@ -689,10 +865,20 @@ program
       prompt: opts.prompt as string | undefined,
       note: opts.note as string | undefined,
       template: opts.template as string | undefined,
+      templatesDir: opts.templatesDir as string | undefined,
       output: opts.output as string | undefined,
       namePattern: opts.name as string | undefined,
       noFrontmatter: opts.frontmatter === false,
-      noCache: opts.cache === false,
+      noCache: opts.cache === false || opts.record !== undefined,
+      structured,
+      reask: resolveReask(opts),
+      colorSource: resolveColorSource(opts),
+      ocr: resolveOcr(opts),
+      ocrLanguage: opts.ocrLanguage as string | undefined,
+      tileSize: resolveTile(opts),
+      fallbacks: resolveFallbacks(opts, definition, structured),
+      fallbackOn: opts.fallbackOn as FallbackReason[] | undefined,
+      imageLimits: imageLimitsFor(definition.capabilities),
       verbose: opts.verbose === true,
     });
   });
@@ -702,15 +888,14 @@ program
   .command("compare")
   .description("Compare two or more images side by side")
   .argument("<files...>", "Image files to compare (2 or more)")
-  .option("--provider <provider>", "AI provider: anthropic, openai")
+  .option("--provider <provider>", `AI provider: ${providerNames().join(", ")}`)
   .option("-m, --model <model>", "AI model to use")
-  .option("--tier <tier>", "Preset tier: fast (gpt-4o-mini), quality (claude-sonnet)")
+  .option("--tier <tier>", "Preset tier: fast (gpt-4o-mini), quality (claude-sonnet), local (llava)")
   .option("-n, --note <note>", "Focus directive")
   .option("-o, --output <file>", "Output file path (default: stdout)")
+  .option("--record [dir]", "Save the response as a replay fixture")
   .action(async (files: string[], cliOpts) => {
-    const config = await loadConfig();
-    const opts = mergeOptions(cliOpts, config);
-    resolveTier(opts, config);
+    const opts = await loadOptions(cliOpts);
 
     if (files.length < 2) {
       logger.blank();
@@ -719,37 +904,30 @@ program
       process.exit(1);
     }
 
-    const providerName = (opts.provider as string) ?? "anthropic";
-    if (providerName !== "anthropic" && providerName !== "openai") {
-      logger.blank();
-      logger.error(`Unknown provider: ${providerName}. Supported: anthropic, openai`);
-      logger.blank();
-      process.exit(1);
-    }
-    const defaultModel = providerName === "openai" ? DEFAULT_OPENAI_MODEL : DEFAULT_ANTHROPIC_MODEL;
-    if (!opts.model) opts.model = defaultModel;
-
-    const apiKeyEnv = providerName === "openai" ? "OPENAI_API_KEY" : "ANTHROPIC_API_KEY";
-    if (!process.env[apiKeyEnv]) {
+    const definition = resolveProvider(opts);
+    if (!definition.capabilities.compare) {
       logger.blank();
-      logger.error(`${apiKeyEnv} is required for the ${providerName} provider.`);
+      logger.error(`The ${definition.name} provider does not support comparing images.`);
       logger.blank();
       process.exit(1);
     }
+    requireApiKey(definition);
 
-    const provider: Provider = providerName === "openai" ? new OpenAIProvider() : new AnthropicProvider();
+    const provider: Provider = withRateLimit(withRecording(definition.create(), opts), definition.name, opts);
 
     try {
-      // Load images
-      const images: { buffer: Buffer; mimeType: string; filename: string }[] = [];
+      // Load images, converted and shrunk to fit the provider
+      const images: ImageInput[] = [];
       for (const file of files) {
         const absPath = resolve(file);
         const { metadata, buffer } = await extractMetadata(absPath);
-        images.push({
+        const prepared = await prepareImage(
           buffer,
-          mimeType: mimeTypeFromExtension(metadata.extension),
-          filename: metadata.filename,
-        });
+          mimeTypeFromExtension(metadata.extension),
+          metadata,
+          imageLimitsFor(definition.capabilities)
+        );
+        images.push({ buffer: prepared.buffer, mimeType: prepared.mimeType, filename: metadata.filename });
       }
 
       const filenames = images.map((img) => img.filename);
@@ -761,14 +939,7 @@ program
       const systemPrompt = buildCompareSystemPrompt(opts.note as string | undefined);
       const userPrompt = buildCompareUserPrompt(filenames);
 
-      const response = await provider.compare(
-        images.map((img) => ({
-          buffer: img.buffer,
-          mimeType: img.mimeType as "image/png" | "image/jpeg" | "image/webp" | "image/gif",
-          filename: img.filename,
-        })),
-        { model: opts.model as string, systemPrompt, userPrompt }
-      );
+      const response = await provider.compare(images, { model: opts.model as string, systemPrompt, userPrompt });
 
       logger.succeedSpinner(`Compared ${filenames.join(pc.dim(" vs "))}`);
 
@@ -786,17 +957,757 @@ program
       if (response.usage) {
         const modelLabel = response.model ? formatModel(response.model) : formatModel(opts.model as string);
         const totalTokens = response.usage.inputTokens + response.usage.outputTokens;
-        const tokenStr = totalTokens >= 1000 ? `${(totalTokens / 1000).toFixed(1)}K` : totalTokens.toString();
-        logger.info(pc.dim(`${modelLabel} · ${tokenStr} tokens`));
+        logger.info(pc.dim(`${modelLabel} · ${formatTokenCount(totalTokens)} tokens`));
       }
       logger.blank();
     } catch (err) {
       logger.stopSpinner();
-      handleError(err);
+      handleError(err, definition);
       process.exit(1);
     }
   });
 
+// Embed subcommand
+program
+  .command("embed")
+  .description("Write descriptions into images' XMP/IPTC metadata, for Lightroom, Bridge, Finder and Eagle")
+  .argument("<paths...>", "Image files or directories")
+  .option("--provider <provider>", `AI provider: ${providerNames().join(", ")}`)
+  .option("-m, --model <model>", "AI model to use")
+  .option("--tier <tier>", "Preset tier: fast (gpt-4o-mini), quality (claude-sonnet), local (llava)")
+  .option("-p, --prompt <prompt>", "Custom instructions for the model")
+  .option("-n, --note <note>", "Focus directive")
+  .option("-t, --template <template>", "Template the analysis was run with (matches cached results)")
+  .option("--templates-dir <dir>", "Directory of custom templates (used by name) and {{> partials}}")
+  .option("-r, --recursive", "Recursively scan directories")
+  .option("--dry-run", "Show what would change in each file without writing or calling the API")
+  .option("--backup", "Keep each original as <file>.bak")
+  .option("--no-cache", "Skip cache, force re-processing")
+  .action(async (paths: string[], cliOpts) => {
+    const opts = await loadOptions(cliOpts);
+    const definition = resolveProvider(opts);
+    const providerName = definition.name;
+
+    const discovered = await discoverImages(paths, { recursive: opts.recursive });
+    const imagePaths = discovered.filter(canEmbed);
+    const unsupported = discovered.length - imagePaths.length;
+    if (imagePaths.length === 0) {
+      logger.blank();
+      logger.warn(`No JPEG, PNG, WebP or TIFF images found${unsupported ? ` (${unsupported} other file${unsupported > 1 ? "s" : ""} skipped)` : ""}.`);
+      logger.blank();
+      process.exit(0);
+    }
+
+    const keyOpts = {
+      model: opts.model as string | undefined,
+      prompt: opts.prompt as string | undefined,
+      note: opts.note as string | undefined,
+      templateName: opts.template as string | undefined,
+      providerName,
+      colorSource: resolveColorSource(opts),
+      ocr: resolveOcr(opts),
+      ocrLanguage: opts.ocrLanguage as string | undefined,
+      tileSize: resolveTile(opts),
+      noCache: opts.cache === false,
+    };
+
+    // --dry-run: diff cached results against each file, no API calls
+    if (opts.dryRun) {
+      logger.header("Dry run");
+      let changed = 0;
+      let pending = 0;
+      for (const filePath of imagePaths) {
+        const name = filePath.split("/").pop() ?? filePath;
+        const { metadata } = await extractMetadata(filePath);
+        const cached = opts.cache !== false ? await getCached(cacheKeyFor(metadata, keyOpts)) : null;
+        if (!cached) {
+          pending++;
+          logger.info(`${name} ${pc.dim("— not analyzed yet, would be analyzed first")}`);
+          continue;
+        }
+        const fields = embedFieldsFrom({ ...cached, tags: cached.tags ?? "", metadata });
+        const { changes } = await embedFile(filePath, fields, { dryRun: true });
+        if (changes.length > 0) changed++;
+        printEmbedDiff(name, changes);
+      }
+      logger.blank();
+      const parts = [`${changed} file${changed !== 1 ? "s" : ""} would change`];
+      if (pending > 0) parts.push(`${pending} to analyze`);
+      if (unsupported > 0) parts.push(`${unsupported} unsupported`);
+      logger.info(parts.join(pc.dim(" · ")));
+      logger.blank();
+      return;
+    }
+
+    requireApiKey(definition);
+    let template: string;
+    try {
+      template = await loadTemplate(opts.template, { templatesDir: opts.templatesDir });
+    } catch (err) {
+      logger.error((err as Error).message);
+      process.exit(1);
+    }
+
+    const provider: Provider = withRateLimit(definition.create(), providerName, opts);
+    const processOpts: ProcessOptions = {
+      ...keyOpts,
+      template,
+      provider,
+      structured: resolveStructured(opts, definition),
+      reask: resolveReask(opts),
+      imageLimits: imageLimitsFor(definition.capabilities),
+    };
+    const total = imagePaths.length;
+    const results: BatchResult[] = [];
+
+    // Sequential for clean spinner output; the rate limiter paces the calls
+    logger.blank();
+    for (let i = 0; i < imagePaths.length; i++) {
+      const path = imagePaths[i];
+      const name = path.split("/").pop() ?? path;
+      const prefix = total > 1 ? `${pc.dim(`[${i + 1}/${total}]`)} ` : "";
+      try {
+        logger.startSpinner(`${prefix}Embedding ${accent(name)}`);
+        const result = await processFile(path, processOpts);
+        const outcome = await embedResult(path, result, { ...processOpts, backup: opts.backup === true });
+        const fields = outcome.changes.map((c) => c.field).join(", ");
+        logger.succeedSpinner(`${prefix}${name} ${pc.dim(outcome.written ? `→ ${fields}` : "unchanged")}`);
+        results.push({ file: path, success: true });
+      } catch (err) {
+        logger.stopSpinner();
+        results.push({ file: path, success: false, error: (err as Error).message });
+        handleError(err, definition);
+      }
+    }
+
+    const failed = results.filter((r) => !r.success).length;
+    logger.blank();
+    if (failed > 0) {
+      logger.warn(`${total - failed} embedded, ${failed} failed`);
+      process.exit(2);
+    }
+    logger.success(`${brand(total.toString())} file${total !== 1 ? "s" : ""} embedded${unsupported ? pc.dim(` · ${unsupported} unsupported`) : ""}`);
+    logger.blank();
+  });
+
+// Dupes subcommand
+program
+  .command("dupes")
+  .description("Group near-duplicate images (crops, resizes, format conversions) by perceptual hash")
+  .argument("<paths...>", "Image files or directories")
+  .option("-r, --recursive", "Recursively scan directories")
+  .option("--threshold <bits>", `Most differing hash bits still counted as the same image (default: ${DEFAULT_DUPLICATE_DISTANCE})`)
+  .option("--json", "Print groups as JSON")
+  .action(async (paths: string[], cliOpts) => {
+    const opts = await loadOptions(cliOpts);
+    if (!(await canPreprocess())) {
+      logger.blank();
+      logger.error(`Finding duplicates needs sharp to decode images.\n\n  npm install sharp\n`);
+      process.exit(1);
+    }
+    const threshold = opts.threshold === undefined ? DEFAULT_DUPLICATE_DISTANCE : parseInt(String(opts.threshold), 10);
+    if (Number.isNaN(threshold) || threshold < 0) {
+      logger.error(`Invalid --threshold "${opts.threshold}". Use a number of bits, e.g. ${DEFAULT_DUPLICATE_DISTANCE}.`);
+      process.exit(1);
+    }
+
+    // PDFs and videos have no single picture to compare
+    const imagePaths = (await discoverImages(paths, { recursive: opts.recursive })).filter((p) => !isPdf(p) && !isVideo(p));
+    const hashed: { path: string; phash: string; metadata: ImageMetadata }[] = [];
+    for (const path of imagePaths) {
+      try {
+        const { metadata, buffer } = await extractMetadata(path);
+        const withHash = await withPerceptualHash(metadata, buffer);
+        if (withHash.phash) hashed.push({ path, phash: withHash.phash, metadata: withHash });
+        else logger.warn(`${metadata.filename}: couldn't decode, skipped`);
+      } catch (err) {
+        logger.warn(`${path.split("/").pop()}: ${(err as Error).message}`);
+      }
+    }
+
+    const groups = groupNearDuplicates(hashed, threshold);
+    if (opts.json) {
+      const json = groups.map((group) =>
+        group.map(({ path, phash, metadata }) => ({
+          path,
+          phash,
+          distance: hammingDistance(group[0].phash, phash),
+          width: metadata.width,
+          height: metadata.height,
+          format: metadata.format,
+          sizeBytes: metadata.sizeBytes,
+        }))
+      );
+      process.stdout.write(JSON.stringify(json, null, 2) + "\n");
+      return;
+    }
+
+    logger.blank();
+    if (groups.length === 0) {
+      logger.info(`No near-duplicates among ${hashed.length} image${hashed.length !== 1 ? "s" : ""}.`);
+      logger.blank();
+      return;
+    }
+    groups.forEach((group, g) => {
+      logger.info(`${brand(`Group ${g + 1}`)} ${pc.dim(`· ${group.length} images`)}`);
+      const width = Math.max(...group.map((item) => item.path.length));
+      for (const { path, phash, metadata } of group) {
+        const distance = hammingDistance(group[0].phash, phash);
+        const details = `${metadata.width}x${metadata.height} ${metadata.format} ${metadata.sizeHuman}`;
+        logger.info(`  ${path.padEnd(width)}  ${pc.dim(details)}${distance > 0 ? pc.dim(` · ${distance} bits`) : ""}`);
+      }
+      logger.blank();
+    });
+    const duplicates = groups.reduce((sum, group) => sum + group.length - 1, 0);
+    logger.info(
+      `${brand(String(groups.length))} group${groups.length !== 1 ? "s" : ""}, ${duplicates} near-duplicate${duplicates !== 1 ? "s" : ""} ` +
+      pc.dim(`among ${hashed.length} images · threshold ${threshold} bits`)
+    );
+    logger.blank();
+  });
+
+// Batch subcommand
+const batchCmd = program.command("batch").description("Check on and collect --async-batch jobs");
+
+batchCmd
+  .command("status")
+  .description("Show progress of a batch job")
+  .argument("<job>", "Batch job id printed by --async-batch")
+  .action(async (jobId: string) => {
+    await loadOptions({});
+    const { manifest, provider } = await openBatchJob(jobId);
+
+    try {
+      const status = await provider.getBatchStatus(jobId);
+      const { counts } = status;
+      const state = status.state === "ended"
+        ? pc.green("ended")
+        : status.state === "failed" ? pc.red("failed") : pc.yellow("in progress");
+
+      logger.header("Batch");
+      logger.summary([
+        `  Job       ${brand(jobId)} ${pc.dim(`(${manifest.options.providerName})`)}`,
+        `  Status    ${state}`,
+        `  Requests  ${counts.succeeded} succeeded, ${counts.failed} failed, ${counts.total} total`,
+        `  Images    ${manifest.items.length}${manifest.collectedAt ? pc.dim(` · collected ${manifest.collectedAt.split("T")[0]}`) : ""}`,
+      ]);
+      if (status.state === "ended" && !manifest.collectedAt) {
+        logger.info(`Run ${brand(`m2md batch collect ${jobId}`)} to write the .md files.`);
+        logger.blank();
+      }
+    } catch (err) {
+      handleError(err, getProviderDefinition(manifest.options.providerName));
+      process.exit(1);
+    }
+  });
+
+batchCmd
+  .command("collect")
+  .description("Write .md files for a finished batch job")
+  .argument("<job>", "Batch job id printed by --async-batch")
+  .action(async (jobId: string) => {
+    const opts = await loadOptions({});
+    const { manifest, provider } = await openBatchJob(jobId);
+    const startTime = Date.now();
+
+    try {
+      const status = await provider.getBatchStatus(jobId);
+      if (status.state === "in_progress") {
+        logger.blank();
+        logger.info(
+          `Job ${brand(jobId)} is still running ` +
+          pc.dim(`(${status.counts.succeeded + status.counts.failed}/${status.counts.total} done)`) +
+          ". Try again later."
+        );
+        logger.blank();
+        return;
+      }
+      if (status.state === "failed") {
+        logger.blank();
+        logger.error(`Batch job ${jobId} failed at the provider.`);
+        logger.blank();
+        process.exit(1);
+      }
+
+      const template = await loadTemplate(manifest.options.templateName, { templatesDir: manifest.options.templatesDir });
+      logger.blank();
+      logger.startSpinner(`Collecting ${accent(String(manifest.items.length))} results`);
+      const providerName = manifest.options.providerName;
+      const live = withRateLimit(provider, providerName, opts);
+      const { results, usage, followUpUsage, model } = await collectBatchJob(manifest, provider, template, live);
+      logger.stopSpinner();
+
+      for (const result of results) {
+        const name = result.file.split("/").pop() ?? result.file;
+        if (result.success) {
+          logger.success(`${name} ${pc.dim("→ .md")}`);
+        } else {
+          logger.error(`${name} ${pc.dim(`— ${result.error}`)}`);
+        }
+      }
+
+      const succeeded = results.filter((r) => r.success).length;
+      const failed = results.length - succeeded;
+      const resolvedModel = model ?? manifest.options.model ?? "default";
+      const elapsed = ((Date.now() - startTime) / 1000).toFixed(1);
+
+      const priced: PricedUsage[] = [];
+      if (usage) priced.push({ usage, model: resolvedModel, pricing: { batch: true, provider: providerName } });
+      // Re-asks were sent live, at the full price
+      if (followUpUsage) priced.push({ usage: followUpUsage, model: resolvedModel, pricing: { provider: providerName } });
+
+      logger.blank();
+      const parts = [
+        `${brand(succeeded.toString())} file${succeeded !== 1 ? "s" : ""} collected`,
+        pc.dim(formatModel(resolvedModel)),
+        ...(priced.length > 0 ? usageSummary(priced) : []).map((p) => pc.dim(p)),
+        pc.dim(`${elapsed}s`),
+      ];
+      if (failed === 0) {
+        logger.success(parts.join(pc.dim(" · ")));
+      } else {
+        logger.warn(`${succeeded} collected, ${failed} failed ${pc.dim(`· ${elapsed}s`)}`);
+        process.exit(2);
+      }
+      logger.blank();
+    } catch (err) {
+      logger.stopSpinner();
+      handleError(err, getProviderDefinition(manifest.options.providerName));
+      process.exit(1);
+    }
+  });
+
+/** Token usage of one result, with the model and rate it is billed at. */
+interface PricedUsage {
+  usage: TokenUsage;
+  model: string;
+  pricing?: PricingOptions;
+}
+
+/**
+ * Token count, cost and prompt-cache savings for run summaries. Each
+ * entry is priced for its own model, so runs that fell back to another
+ * provider or mix batch and live calls add up correctly.
+ */
+function usageSummary(entries: PricedUsage[]): string[] {
+  const usage = sumUsage(...entries.map((e) => e.usage)) ?? { inputTokens: 0, outputTokens: 0 };
+  const cacheRead = usage.cacheReadTokens ?? 0;
+  const total = usage.inputTokens + usage.outputTokens + cacheRead + (usage.cacheWriteTokens ?? 0);
+  const parts = [`${formatTokenCount(total)} tokens`];
+  if (cacheRead > 0) parts.push(`${formatTokenCount(cacheRead)} cached`);
+  const cost = entries.reduce((sum, e) => sum + calculateUsageCost(e.usage, e.model, e.pricing), 0);
+  const batch = entries.some((e) => e.pricing?.batch);
+  parts.push(`$${cost.toFixed(2)}${batch ? " (batch)" : ""}`);
+
+  const saved = entries.reduce((sum, e) => sum + cacheSavings(e.usage, e.model, e.pricing), 0);
+  if (saved >= 0.005) parts.push(`saved $${saved.toFixed(2)}`);
+  return parts;
+}
+
+function formatTokenCount(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}K` : tokens.toString();
+}
+
+/**
+ * Submit every uncached local image as provider batch jobs and print the
+ * job ids to check on later.
+ */
+async function submitAsyncBatch(
+  paths: string[],
+  urlInputs: string[],
+  definition: ProviderDefinition,
+  opts: Record<string, unknown>
+): Promise<void> {
+  let imagePaths = paths;
+  const provider = definition.create();
+  if (!definition.capabilities.batch || !isBatchProvider(provider)) {
+    logger.blank();
+    logger.error(`The ${definition.name} provider does not support --async-batch.`);
+    logger.blank();
+    process.exit(1);
+  }
+  if (urlInputs.length > 0) {
+    logger.warn(`Skipping ${urlInputs.length} URL${urlInputs.length > 1 ? "s" : ""} — --async-batch only takes local files.`);
+  }
+  const pdfCount = imagePaths.filter(isPdf).length;
+  if (pdfCount > 0) {
+    logger.warn(`Skipping ${pdfCount} PDF${pdfCount > 1 ? "s" : ""} — --async-batch only takes images.`);
+    imagePaths = imagePaths.filter((path) => !isPdf(path));
+  }
+  const videoCount = imagePaths.filter(isVideo).length;
+  if (videoCount > 0) {
+    logger.warn(`Skipping ${videoCount} video${videoCount > 1 ? "s" : ""} — --async-batch only takes images.`);
+    imagePaths = imagePaths.filter((path) => !isVideo(path));
+  }
+  if (imagePaths.length === 0) {
+    logger.blank();
+    logger.warn("No local images to submit.");
+    logger.blank();
+    return;
+  }
+
+  try {
+    logger.blank();
+    logger.startSpinner(`Submitting ${accent(String(imagePaths.length))} images to ${definition.label}`);
+    const { manifests, cached, skipped } = await submitBatchJob(imagePaths, provider, {
+      providerName: definition.name,
+      model: opts.model as string | undefined,
+      prompt: opts.prompt as string | undefined,
+      note: opts.note as string | undefined,
+      templateName: opts.template as string | undefined,
+      templatesDir: opts.templatesDir ? resolve(opts.templatesDir as string) : undefined,
+      structured: opts.structured as boolean,
+      reask: opts.reask as number,
+      colorSource: resolveColorSource(opts),
+      ocr: resolveOcr(opts),
+      ocrLanguage: opts.ocrLanguage as string | undefined,
+      // Collect may run from another directory
+      output: opts.output ? resolve(opts.output as string) : undefined,
+      namePattern: opts.name as string | undefined,
+      noFrontmatter: opts.frontmatter === false,
+      imageLimits: imageLimitsFor(definition.capabilities),
+      noCache: opts.cache === false,
+      batchLimits: { maxBytes: definition.capabilities.maxBatchBytes, maxRequests: definition.capabilities.maxBatchRequests },
+    });
+    logger.stopSpinner();
+
+    for (const { path, reason } of skipped) {
+      logger.warn(`Skipping ${basename(path)} — ${reason}.`);
+    }
+    if (manifests.length === 0) {
+      if (skipped.length === 0) logger.info(`All ${cached.length} images are cached — nothing to submit.`);
+      else logger.warn("No images to submit.");
+      logger.blank();
+      return;
+    }
+
+    const submitted = manifests.reduce((sum, manifest) => sum + manifest.items.length, 0);
+    const parts = [`${brand(String(submitted))} image${submitted !== 1 ? "s" : ""} submitted`];
+    if (manifests.length > 1) parts.push(pc.dim(`in ${manifests.length} jobs`));
+    if (cached.length > 0) parts.push(pc.dim(`${cached.length} from cache (skipped)`));
+    if (skipped.length > 0) parts.push(pc.yellow(`${skipped.length} skipped`));
+    logger.success(parts.join(pc.dim(" · ")));
+    for (const manifest of manifests) {
+      logger.info(`Job ${brand(manifest.jobId)}`);
+    }
+    logger.info(`Check progress with ${brand(`m2md batch status ${manifests[0].jobId}`)}${manifests.length > 1 ? " (for each job)" : ""}`);
+    logger.info(pc.dim("Results usually arrive within an hour, at most 24 hours."));
+    logger.blank();
+  } catch (err) {
+    logger.stopSpinner();
+    handleError(err, definition);
+    process.exit(1);
+  }
+}
+
+/**
+ * Load a job manifest and a batch-capable instance of the provider it was
+ * submitted to, exiting with a message if either is missing.
+ */
+async function openBatchJob(jobId: string): Promise<{ manifest: BatchManifest; provider: Provider & BatchProvider }> {
+  let manifest: BatchManifest;
+  try {
+    manifest = await loadManifest(jobId);
+  } catch (err) {
+    logger.blank();
+    logger.error((err as Error).message);
+    logger.blank();
+    process.exit(1);
+  }
+
+  const definition = getProviderDefinition(manifest.options.providerName);
+  const provider = definition?.create();
+  if (!definition || !provider || !isBatchProvider(provider)) {
+    logger.blank();
+    logger.error(`Provider ${manifest.options.providerName} for job ${jobId} is not available.`);
+    logger.blank();
+    process.exit(1);
+  }
+  requireApiKey(definition);
+  return { manifest, provider };
+}
+
+/**
+ * Load the config file, register its providers, and merge it under the
+ * CLI options. Tier presets only fill provider/model when unset.
+ */
+async function loadOptions<T extends Record<string, unknown>>(cliOpts: T): Promise<T> {
+  const config = await loadConfig();
+  try {
+    await registerConfigProviders(config);
+  } catch (err) {
+    logger.blank();
+    logger.error((err as Error).message);
+    logger.blank();
+    process.exit(1);
+  }
+
+  const opts = mergeOptions(cliOpts, config);
+  resolveTier(opts, config);
+  return opts;
+}
+
+/**
+ * Validate --tier and --provider, and default the model to the provider's.
+ * Exits on unknown values.
+ */
+function resolveProvider(opts: Record<string, unknown>): ProviderDefinition {
+  if (opts.tier && !TIER_MAP[opts.tier as string]) {
+    logger.blank();
+    logger.error(`Unknown tier: ${opts.tier}. Supported: ${Object.keys(TIER_MAP).join(", ")}`);
+    logger.blank();
+    process.exit(1);
+  }
+
+  const providerName = (opts.provider as string | undefined) ?? "anthropic";
+  const definition = getProviderDefinition(providerName);
+  if (!definition) {
+    logger.blank();
+    logger.error(`Unknown provider: ${providerName}. Supported: ${providerNames().join(", ")}`);
+    logger.blank();
+    process.exit(1);
+  }
+
+  if (!opts.model) opts.model = definition.defaultModel;
+  return definition;
+}
+
+/**
+ * Honor --structured only for providers that support it, warning otherwise.
+ */
+function resolveStructured(opts: Record<string, unknown>, definition: ProviderDefinition): boolean {
+  if (opts.structured !== true) return false;
+  if (definition.capabilities.structuredOutput) return true;
+  logger.warn(`The ${definition.name} provider doesn't support structured output — using the text format.`);
+  return false;
+}
+
+/**
+ * Follow-up rounds for incomplete answers, from --reask or config.
+ */
+function resolveReask(opts: Record<string, unknown>): number {
+  if (opts.reask === undefined) return DEFAULT_REASK;
+  const n = parseInt(String(opts.reask), 10);
+  return Number.isNaN(n) || n < 0 ? DEFAULT_REASK : n;
+}
+
+/**
+ * Frames sampled per video or animation, from --max-frames or config.
+ * Undefined leaves each its own default.
+ */
+function resolveMaxFrames(opts: Record<string, unknown>): number | undefined {
+  if (opts.maxFrames === undefined) return undefined;
+  const n = parseInt(String(opts.maxFrames), 10);
+  return Number.isNaN(n) || n < 1 ? undefined : n;
+}
+
+/**
+ * The Obsidian vault for --obsidian: the given folder, or the one around
+ * the inputs (or the current directory). Exits when there is none or an
+ * image is outside it, since Obsidian can only embed files in the vault.
+ */
+async function resolveVault(
+  opts: Record<string, unknown>,
+  inputs: string[],
+  imagePaths: string[]
+): Promise<ObsidianVault | undefined> {
+  if (!opts.obsidian) return undefined;
+  const start = inputs[0] ?? process.cwd();
+  const root = typeof opts.obsidian === "string" ? resolve(opts.obsidian) : await findVault(start);
+  if (!root || !(await stat(root).catch(() => null))?.isDirectory()) {
+    logger.blank();
+    logger.error(root ? `Obsidian vault not found: ${root}` : `No Obsidian vault (.obsidian folder) found above ${start}. Pass one with --obsidian <vault>.`);
+    logger.blank();
+    process.exit(1);
+  }
+
+  const vault = await loadVault(root);
+  const outside = imagePaths.filter((p) => {
+    try {
+      vaultPath(vault, p);
+      return false;
+    } catch {
+      return true;
+    }
+  });
+  if (outside.length > 0) {
+    logger.blank();
+    logger.error(`${outside.length} file${outside.length > 1 ? "s are" : " is"} outside the vault ${root}, so Obsidian can't embed ${outside.length > 1 ? "them" : "it"}:`);
+    for (const path of outside) logger.info(`  ${pc.dim("•")} ${path}`);
+    logger.blank();
+    process.exit(1);
+  }
+  return vault;
+}
+
+/** Output format from --format or config. */
+function resolveFormat(opts: Record<string, unknown>): OutputFormat {
+  if (opts.format === undefined) return DEFAULT_OUTPUT_FORMAT;
+  const format = String(opts.format) as OutputFormat;
+  if (OUTPUT_FORMATS.includes(format)) return format;
+  logger.blank();
+  logger.error(`Unknown output format "${format}". Use one of: ${OUTPUT_FORMATS.join(", ")}.`);
+  logger.blank();
+  process.exit(1);
+}
+
+/**
+ * Where color_hex comes from, from --color-source or config. Undefined
+ * means DEFAULT_COLOR_SOURCE.
+ */
+function resolveColorSource(opts: Record<string, unknown>): ColorSource | undefined {
+  if (opts.colorSource === undefined) return undefined;
+  const source = String(opts.colorSource) as ColorSource;
+  if (COLOR_SOURCES.includes(source)) return source;
+  logger.blank();
+  logger.error(`Unknown color source "${source}". Use one of: ${COLOR_SOURCES.join(", ")}.`);
+  logger.blank();
+  process.exit(1);
+}
+
+/** Local OCR mode from --ocr or config. Undefined turns OCR off. */
+function resolveOcr(opts: Record<string, unknown>): OcrMode | undefined {
+  if (opts.ocr === undefined) return undefined;
+  const mode = String(opts.ocr) as OcrMode;
+  if (OCR_MODES.includes(mode)) return mode;
+  logger.blank();
+  logger.error(`Unknown OCR mode "${mode}". Use one of: ${OCR_MODES.join(", ")}.`);
+  logger.blank();
+  process.exit(1);
+}
+
+/**
+ * Hamming distance for --reuse-similar or config `reuseSimilar`: a bare flag
+ * or `true` means DEFAULT_REUSE_DISTANCE. Undefined turns reuse off.
+ */
+function resolveReuseSimilar(opts: Record<string, unknown>): number | undefined {
+  if (opts.reuseSimilar === undefined || opts.reuseSimilar === false) return undefined;
+  if (opts.reuseSimilar === true) return DEFAULT_REUSE_DISTANCE;
+  const n = parseInt(String(opts.reuseSimilar), 10);
+  return Number.isNaN(n) || n < 0 ? DEFAULT_REUSE_DISTANCE : n;
+}
+
+/**
+ * Tile size for --tile or config `tile`: a bare flag or `true` means
+ * DEFAULT_TILE_SIZE. Undefined turns tiling off.
+ */
+function resolveTile(opts: Record<string, unknown>): number | undefined {
+  if (opts.tile === undefined || opts.tile === false) return undefined;
+  if (opts.tile === true) return DEFAULT_TILE_SIZE;
+  const n = parseInt(String(opts.tile), 10);
+  if (!Number.isNaN(n) && n >= MIN_TILE_SIZE) return n;
+  logger.blank();
+  logger.error(`--tile must be at least ${MIN_TILE_SIZE} pixels.`);
+  logger.blank();
+  process.exit(1);
+}
+
+/**
+ * Fallback providers from --fallback or the config `fallback` chain.
+ * Providers without an API key are skipped with a warning.
+ */
+function resolveFallbacks(
+  opts: Record<string, unknown>,
+  definition: ProviderDefinition,
+  structured: boolean
+): FallbackTarget[] {
+  const entries = typeof opts.fallback === "string"
+    ? opts.fallback.split(",").filter((e) => e.trim())
+    : (opts.fallback as string[] | undefined) ?? [];
+  if (entries.length === 0) return [];
+
+  let steps: FallbackStep[];
+  try {
+    steps = parseFallbackChain(entries, { providerName: definition.name, model: opts.model as string | undefined });
+  } catch (err) {
+    logger.blank();
+    logger.error((err as Error).message);
+    logger.blank();
+    process.exit(1);
+  }
+
+  const { targets, skipped } = createFallbackTargets(steps, structured);
+  for (const step of skipped) {
+    logger.warn(`Skipping fallback ${step.definition.name} — ${step.definition.apiKeyEnv} is not set.`);
+  }
+  return targets.map((target) => ({
+    ...target,
+    provider: withRateLimit(withRecording(target.provider, opts), target.providerName, opts),
+  }));
+}
+
+/**
+ * --embed: write a result into the image it describes. Returns a suffix
+ * for the progress line; formats without XMP support are skipped.
+ */
+async function embedIntoImage(
+  filePath: string,
+  result: ProcessResult,
+  processOpts: Omit<ProcessOptions, "provider">,
+  opts: Record<string, unknown>
+): Promise<string> {
+  if (!canEmbed(filePath)) return ` (not embedded: ${result.metadata.format})`;
+  const outcome = await embedResult(filePath, result, { ...processOpts, backup: opts.backup === true });
+  return outcome.written ? " + XMP" : "";
+}
+
+/** Per-field before/after lines for `m2md embed --dry-run`. */
+function printEmbedDiff(name: string, changes: EmbedChange[]): void {
+  if (changes.length === 0) {
+    logger.info(`${name} ${pc.dim("— unchanged")}`);
+    return;
+  }
+  logger.info(accent(name));
+  const width = Math.max(...changes.map((c) => c.field.length)) + 2;
+  for (const { field, before, after } of changes) {
+    const oneLine = (value: string) => value.replace(/\s+/g, " ");
+    if (before) logger.info(`  ${field.padEnd(width)}${pc.red(`- ${oneLine(before)}`)}`);
+    logger.info(`  ${(before ? "" : field).padEnd(width)}${pc.green(`+ ${oneLine(after)}`)}`);
+  }
+}
+
+/** " (cached)" suffix, naming the source image when a near-duplicate's analysis was reused. */
+function cacheLabel(result: ProcessResult): string {
+  if (result.reused) return ` (reused from ${result.reused.filename})`;
+  return result.cached ? " (cached)" : "";
+}
+
+/** " via openai (overloaded)" suffix for files a fallback provider analyzed. */
+function fallbackLabel(fallback: FallbackUsed | undefined): string {
+  return fallback ? ` via ${fallback.providerName} (${fallback.reason.replace("_", " ")})` : "";
+}
+
+/**
+ * Wrap the provider for --record so every response is saved as a replay
+ * fixture. Recording bypasses the cache, otherwise cached files would be
+ * missing from the fixture set.
+ */
+function withRecording(provider: Provider, opts: Record<string, unknown>): Provider {
+  if (opts.record === undefined) return provider;
+  const dir = typeof opts.record === "string" ? opts.record : replayDir();
+  return new RecordingProvider(provider, dir);
+}
+
+/**
+ * Route calls through the shared rate limiter for each provider and model,
+ * capped at --concurrency and any `rateLimits` from config.
+ */
+function withRateLimit(provider: Provider, providerName: string, opts: Record<string, unknown>): Provider {
+  return new RateLimitedProvider(provider, providerName, {
+    maxConcurrency: parseInt(String(opts.concurrency), 10) || undefined,
+    limits: opts.rateLimits as Record<string, RateLimits> | undefined,
+  });
+}
+
+function requireApiKey(definition: ProviderDefinition): void {
+  if (definition.apiKeyEnv && !process.env[definition.apiKeyEnv]) {
+    logger.blank();
+    logger.error(`${definition.apiKeyEnv} is required for the ${definition.name} provider.`);
+    logger.blank();
+    process.exit(1);
+  }
+}
+
 async function fetchUrl(url: string): Promise<{ buffer: Buffer; filename: string; mimeType: string }> {
   try {
     return await fetchImage(url);
@@ -853,19 +1764,22 @@ function friendlyApiMessage(msg: string): string {
   return text;
 }
 
-function handleError(err: unknown): void {
+/** Print an error, naming the key to check when `definition`'s provider rejected it. */
+function handleError(err: unknown, definition?: ProviderDefinition): void {
   if (err instanceof Error) {
     const msg = err.message;
     if ("status" in err) {
       const status = (err as { status: number }).status;
       const friendly = friendlyApiMessage(msg);
       if (status === 401) {
-        logger.error("Invalid API key. Check your ANTHROPIC_API_KEY.");
+        logger.error(definition?.apiKeyEnv
+          ? `Invalid API key. Check your ${definition.apiKeyEnv}.`
+          : `${definition?.label ?? "The provider"} rejected the request as unauthorized.`);
       } else if (status === 400) {
         // Detect image size errors and add helpful context
         if (/image exceeds|too large|payload too large/i.test(friendly)) {
           logger.error(`Image too large: ${friendly}`);
-          logger.info(pc.dim("Anthropic limit is 5 MB per image. OpenAI supports up to 20 MB."));
+          logger.info(pc.dim("Install sharp (npm install sharp) to shrink oversized images automatically."));
         } else {
           logger.error(`API rejected the request: ${friendly}`);
         }
@@ -0,0 +1,229 @@
+import type { RgbaImage } from "./animation.js";
+
+/**
+ * Where `colorHex` comes from: the model's COLOR_HEX, the measured colors,
+ * or the model's with the measured colors alongside.
+ */
+export type ColorSource = "model" | "measured" | "both";
+
+export const COLOR_SOURCES: ColorSource[] = ["model", "measured", "both"];
+
+export const DEFAULT_COLOR_SOURCE: ColorSource = "both";
+
+/** A dominant color found in the decoded pixels. */
+export interface MeasuredColor {
+  /** #RRGGBB, uppercase. */
+  hex: string;
+  /** Share of the opaque pixels closest to this color, in percent. */
+  coverage: number;
+}
+
+// Colors reported per image, matching the 3-5 the prompt asks the model for
+const MEASURED_COLORS = 5;
+// Median-cut boxes before near-identical ones are merged
+const MEDIAN_CUT_BOXES = 16;
+// CIE76 distance under which two colors read as the same
+const MERGE_DISTANCE = 12;
+// Pixels more transparent than this are background, not color
+const MIN_ALPHA = 128;
+
+/**
+ * Dominant colors by median cut: split the opaque pixels into boxes along
+ * their widest channel, average each box, merge boxes that look the same,
+ * and keep the largest. Coverage is relative to all opaque pixels, so the
+ * listed colors can add up to less than 100%.
+ */
+export function measureColors(image: RgbaImage, count = MEASURED_COLORS): MeasuredColor[] {
+  const pixels: number[] = [];
+  for (let i = 0; i + 3 < image.data.length; i += 4) {
+    if (image.data[i + 3] < MIN_ALPHA) continue;
+    pixels.push((image.data[i] << 16) | (image.data[i + 1] << 8) | image.data[i + 2]);
+  }
+  if (pixels.length === 0) return [];
+
+  const boxes = [pixels];
+  while (boxes.length < MEDIAN_CUT_BOXES) {
+    // Split whichever box covers the most pixels over the widest range
+    let best = -1;
+    let bestScore = 0;
+    for (let i = 0; i < boxes.length; i++) {
+      const score = boxes[i].length * widestChannel(boxes[i]).range;
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    }
+    if (best < 0) break;
+
+    const box = boxes[best];
+    const { shift } = widestChannel(box);
+    box.sort((a, b) => ((a >> shift) & 0xff) - ((b >> shift) & 0xff));
+    const middle = box.length >> 1;
+    boxes.splice(best, 1, box.slice(0, middle), box.slice(middle));
+  }
+
+  const clusters = boxes.filter((box) => box.length > 0).map((box) => ({ rgb: average(box), weight: box.length }));
+  return topColors(clusters, pixels.length, count);
+}
+
+/**
+ * Combine the measured colors of several pages or frames into one list for
+ * the whole document, weighting each part equally.
+ */
+export function mergeMeasuredColors(lists: MeasuredColor[][], count = MEASURED_COLORS): MeasuredColor[] {
+  const measured = lists.filter((list) => list.length > 0);
+  if (measured.length === 0) return [];
+  const clusters = measured.flat().map((c) => ({ rgb: hexToRgb(c.hex), weight: c.coverage }));
+  return topColors(clusters, 100 * measured.length, count);
+}
+
+/**
+ * Pair each palette name (e.g. "bone-white") with the nearest measured
+ * color. Names are placed by the color words they contain; names with no
+ * recognizable color word are left out.
+ */
+export function matchPaletteHex(palette: string, measured: MeasuredColor[]): { name: string; hex: string }[] {
+  if (measured.length === 0) return [];
+  const targets = measured.map((c) => ({ hex: c.hex, lab: rgbToLab(hexToRgb(c.hex)) }));
+  const matches: { name: string; hex: string }[] = [];
+
+  for (const raw of palette.split(",")) {
+    const name = raw.trim();
+    const words = name.toLowerCase().split(/[-\s]+/).filter((word) => Object.hasOwn(COLOR_TERMS, word));
+    if (words.length === 0) continue;
+    // "mustard-yellow" lands between mustard and yellow
+    const labs = words.map((word) => rgbToLab(hexToRgb(COLOR_TERMS[word])));
+    const lab = [0, 1, 2].map((i) => labs.reduce((sum, l) => sum + l[i], 0) / labs.length) as Lab;
+    let nearest = targets[0];
+    for (const target of targets) {
+      if (distance(target.lab, lab) < distance(nearest.lab, lab)) nearest = target;
+    }
+    matches.push({ name, hex: nearest.hex });
+  }
+  return matches;
+}
+
+/** Merge clusters that look the same, then keep the heaviest `count` as percentages of `total`. */
+function topColors(clusters: { rgb: Rgb; weight: number }[], total: number, count: number): MeasuredColor[] {
+  const kept: { rgb: Rgb; lab: Lab; weight: number }[] = [];
+  for (const cluster of [...clusters].sort((a, b) => b.weight - a.weight)) {
+    const lab = rgbToLab(cluster.rgb);
+    const same = kept.find((k) => distance(k.lab, lab) < MERGE_DISTANCE);
+    if (same) same.weight += cluster.weight;
+    else kept.push({ rgb: cluster.rgb, lab, weight: cluster.weight });
+  }
+  return kept
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, count)
+    .map((k) => ({ hex: rgbToHex(k.rgb), coverage: Math.round((k.weight / total) * 1000) / 10 }));
+}
+
+type Rgb = [number, number, number];
+type Lab = [number, number, number];
+
+/** Channel (as a bit shift into the packed pixel) with the largest spread. */
+function widestChannel(box: number[]): { shift: number; range: number } {
+  let best = { shift: 16, range: 0 };
+  for (const shift of [16, 8, 0]) {
+    let min = 255;
+    let max = 0;
+    for (const pixel of box) {
+      const value = (pixel >> shift) & 0xff;
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+    if (max - min > best.range) best = { shift, range: max - min };
+  }
+  return best;
+}
+
+function average(box: number[]): Rgb {
+  let r = 0;
+  let g = 0;
+  let b = 0;
+  for (const pixel of box) {
+    r += (pixel >> 16) & 0xff;
+    g += (pixel >> 8) & 0xff;
+    b += pixel & 0xff;
+  }
+  return [Math.round(r / box.length), Math.round(g / box.length), Math.round(b / box.length)];
+}
+
+function hexToRgb(hex: string): Rgb {
+  const value = parseInt(hex.replace("#", ""), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+function rgbToHex(rgb: Rgb): string {
+  return `#${rgb.map((c) => c.toString(16).padStart(2, "0")).join("").toUpperCase()}`;
+}
+
+/** sRGB to CIELAB (D65), where straight-line distance roughly tracks perceived difference. */
+function rgbToLab(rgb: Rgb): Lab {
+  const [r, g, b] = rgb.map((c) => {
+    const v = c / 255;
+    return v > 0.04045 ? ((v + 0.055) / 1.055) ** 2.4 : v / 12.92;
+  });
+  const f = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+  const x = f((0.4124 * r + 0.3576 * g + 0.1805 * b) / 0.95047);
+  const y = f(0.2126 * r + 0.7152 * g + 0.0722 * b);
+  const z = f((0.0193 * r + 0.1192 * g + 0.9505 * b) / 1.08883);
+  return [116 * y - 16, 500 * (x - y), 200 * (y - z)];
+}
+
+function distance(a: Lab, b: Lab): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+// Approximate colors of the words palette names are built from: plain
+// color names plus the materials, pigments and foods the prompt steers
+// the model toward (bone-white, kraft-brown, patina-green, ...)
+const COLOR_TERMS: Record<string, string> = {
+  // Plain color names
+  white: "#FFFFFF", black: "#000000", gray: "#808080", grey: "#808080",
+  red: "#C0392B", orange: "#E67E22", yellow: "#F1C40F", green: "#2E8B57",
+  blue: "#2E5EAA", purple: "#7D3C98", violet: "#8F5FBF", pink: "#E8A0B4",
+  brown: "#7B4A2D", beige: "#D8C8A8", cream: "#F3E9D2", gold: "#C9A227",
+  silver: "#C0C0C0", teal: "#1F7A7A", cyan: "#00B7C7", magenta: "#C2185B",
+  navy: "#1B2A4A", maroon: "#6D1A1F", burgundy: "#6B1C2A", crimson: "#B0173A",
+  scarlet: "#D7261E", indigo: "#2E2F6E", turquoise: "#40C4B4", aqua: "#5ED1D1",
+  lavender: "#B7A6D6", lilac: "#C8A2C8", mauve: "#B784A7", plum: "#6E3B5E",
+  fuchsia: "#D43F8D", khaki: "#BDB07A", tan: "#C8A57A", taupe: "#8B7D70",
+  // Metals
+  bronze: "#A97142", copper: "#B87333", brass: "#B5A642", steel: "#7B8794",
+  pewter: "#8E9496", iron: "#4A4C4E", gunmetal: "#2C3539", chrome: "#D4D6D8",
+  // Stone, earth and minerals
+  stone: "#A8A297", concrete: "#9A9A95", slate: "#5A6470", granite: "#6E6E6A",
+  marble: "#E9E6E0", chalk: "#F2F0EA", clay: "#B66A50", terracotta: "#C4623D",
+  brick: "#A5402D", sand: "#D9C4A0", ochre: "#C28A2C", umber: "#635147",
+  sienna: "#A0522D", rust: "#A8471F", obsidian: "#16171A", onyx: "#121212",
+  jet: "#111111", graphite: "#45484D", charcoal: "#36393D", soot: "#1F1E1C",
+  coal: "#1E1E1E", ash: "#B2B0AA", smoke: "#8A8C8E", cement: "#8F8E89",
+  jade: "#3A9B7A", emerald: "#1E8C5A", sapphire: "#1F3F8F", ruby: "#9B111E",
+  amber: "#E5A031", pearl: "#EDE8DF", ivory: "#F6F0DC", bone: "#E8DFCC",
+  porcelain: "#F4F2EE", patina: "#5E9C8A", verdigris: "#4F9C8C", cobalt: "#1F4FA3",
+  ultramarine: "#2A3BA0", lapis: "#26619C",
+  // Plants, wood and landscape
+  sage: "#9CAF88", moss: "#5F7A3A", forest: "#2C4A2E", pine: "#2F4F3E",
+  olive: "#6B6B2E", fern: "#4F7942", leaf: "#4F8A3A", grass: "#5C9E3A",
+  lime: "#A6CE39", mint: "#A8D8B9", eucalyptus: "#6F9C8A", seafoam: "#8FD3B6",
+  ocean: "#1F5F7A", sea: "#2E7D8C", lagoon: "#2A9D9F", sky: "#8EC3E8",
+  azure: "#3F8FD8", ice: "#D6EAF2", snow: "#FAFAFA", fog: "#D5D7D8",
+  mist: "#DDE2E3", cloud: "#E7E9EA", storm: "#4B5563", midnight: "#1A2238",
+  dusk: "#4A4E69", oak: "#B48A5A", walnut: "#5C4033", mahogany: "#5A2A1E",
+  ebony: "#1C1A17", cedar: "#A0522D", birch: "#E6D8B8", wood: "#8B6A45",
+  rose: "#D88A9A", blush: "#E8B4B0", coral: "#F07F5E", flamingo: "#F08EA0",
+  // Paper, fabric and leather
+  paper: "#F3EFE6", parchment: "#EFE3C4", kraft: "#B08B5B", linen: "#EEE4D3",
+  denim: "#3B5B8C", leather: "#8B5A2B", cognac: "#9A4A22", camel: "#C19A6B",
+  oat: "#DCCDAF", ink: "#1A1C24", wax: "#E8DCC0",
+  // Food and drink
+  honey: "#D9A441", mustard: "#D1A73A", saffron: "#F0A82E", lemon: "#F4E04D",
+  butter: "#F3DE8A", wheat: "#E2C98F", straw: "#E4CF84", milk: "#F5F3EC",
+  caramel: "#B9783F", cinnamon: "#A0592B", chocolate: "#4E2A1A", coffee: "#6F4E37",
+  espresso: "#3B2219", mocha: "#7A5A45", cherry: "#B0142C", wine: "#5E1A2A",
+  oxblood: "#4A1010", tomato: "#E5533C", tangerine: "#F28C28", pumpkin: "#E07A1F",
+  peach: "#F6C6A0", apricot: "#F5B078", salmon: "#F4A08A", chestnut: "#7E3F26",
+  // Fire and light
+  flame: "#E25822", ember: "#C2411C",
+};
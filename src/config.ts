@@ -1,5 +1,29 @@
 import { cosmiconfig } from "cosmiconfig";
+import { dirname, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
 import type { TaxonomyOverrides } from "./taxonomy.js";
+import type { ProviderDefinition } from "./providers/types.js";
+import type { FallbackReason } from "./fallback.js";
+import type { RateLimits } from "./rate-limit.js";
+import type { ColorSource } from "./colors.js";
+import type { OcrMode } from "./ocr.js";
+import type { OutputFormat } from "./output/formats.js";
+import { registerProvider, TIER_MAP } from "./providers/registry.js";
+import { defineOpenAICompatibleProvider, type OpenAICompatibleConfig } from "./providers/openai-compatible.js";
+
+export { TIER_MAP };
+
+/**
+ * A third-party provider, either loaded from a module or pointed at an
+ * OpenAI-compatible endpoint. A module must export a ProviderDefinition
+ * as its default export or as `provider`.
+ */
+export type ProviderConfig =
+  | {
+      /** Module path, resolved relative to the config file. */
+      module: string;
+    }
+  | ({ type: "openai-compatible" } & OpenAICompatibleConfig);
 
 export interface M2mdConfig {
   provider?: string;
@@ -8,19 +32,52 @@ export interface M2mdConfig {
   prompt?: string;
   note?: string;
   template?: string;
+  /** Directory of custom templates (by name) and `{{> partial}}` files. */
+  templatesDir?: string;
   output?: string;
   name?: string;
+  /** Write notes for an Obsidian vault: true to find it around the inputs, or the vault folder. */
+  obsidian?: boolean | string;
+  /** With `obsidian`, folder for notes from the vault root. Defaults to Obsidian's new-note folder. */
+  notesDir?: string;
+  /** Output format: "md", "json", "jsonl" or "csv". */
+  format?: OutputFormat;
   noFrontmatter?: boolean;
   recursive?: boolean;
   cache?: boolean;
   concurrency?: number;
+  structured?: boolean;
+  reask?: number;
+  /** Write one sidecar per PDF page instead of a combined document. */
+  perPage?: boolean;
+  /** Most frames analyzed per video or animated GIF/APNG. */
+  maxFrames?: number;
+  /** Where `color_hex` comes from: "model", "measured" or "both". */
+  colorSource?: ColorSource;
+  /** Reuse near-identical images' cached analyses: true, or the most differing hash bits. */
+  reuseSimilar?: boolean | number;
+  /** Also read large images as full-resolution tiles: true, or the tile size in pixels. */
+  tile?: boolean | number;
+  /** Run local OCR to "ground", "replace" or "check" the extracted text. */
+  ocr?: OcrMode;
+  /** Tesseract language(s) for `ocr`, e.g. "eng+deu". */
+  ocrLanguage?: string;
+  /** Also write results into each image's XMP/IPTC metadata. */
+  embed?: boolean;
+  /** Keep the original as `<file>.bak` before embedding. */
+  backup?: boolean;
+  /** Providers to retry with, as "provider" or "provider:model", in order. */
+  fallback?: string[];
+  /** Failures that trigger the fallback chain. Defaults to all of them. */
+  fallbackOn?: FallbackReason[];
+  /** Request/token budgets keyed by "provider" or "provider:model". */
+  rateLimits?: Record<string, RateLimits>;
   taxonomy?: TaxonomyOverrides;
+  providers?: Record<string, ProviderConfig>;
 }
 
-export const TIER_MAP: Record<string, { provider: string; model: string }> = {
-  fast: { provider: "openai", model: "gpt-4o-mini" },
-  quality: { provider: "anthropic", model: "claude-sonnet-4-5-20250929" },
-};
+/** Follow-up rounds for incomplete answers in the CLI, watch mode and MCP server. */
+export const DEFAULT_REASK = 1;
 
 /**
  * Resolve tier into provider/model, only when they aren't explicitly set.
@@ -57,6 +114,7 @@ const explorer = cosmiconfig("m2md", {
 });
 
 let cachedConfig: M2mdConfig | null = null;
+let configDir = process.cwd();
 let loaded = false;
 
 export async function loadConfig(): Promise<M2mdConfig> {
@@ -67,6 +125,7 @@ export async function loadConfig(): Promise<M2mdConfig> {
     loaded = true;
     if (result && !result.isEmpty) {
       cachedConfig = result.config as M2mdConfig;
+      configDir = dirname(result.filepath);
       return cachedConfig;
     }
   } catch {
@@ -77,6 +136,35 @@ export async function loadConfig(): Promise<M2mdConfig> {
   return {};
 }
 
+/**
+ * Register the providers declared under `providers` in the config file.
+ * The config key becomes the provider name.
+ */
+export async function registerConfigProviders(config: M2mdConfig): Promise<void> {
+  for (const [name, entry] of Object.entries(config.providers ?? {})) {
+    if (entry && "type" in entry && entry.type === "openai-compatible") {
+      if (!entry.baseURL) {
+        throw new Error(`Provider "${name}" in config needs a "baseURL"`);
+      }
+      registerProvider(defineOpenAICompatibleProvider(name, entry));
+      continue;
+    }
+
+    if (!entry || !("module" in entry) || !entry.module) {
+      throw new Error(`Provider "${name}" in config needs a "module" path or "type": "openai-compatible"`);
+    }
+
+    const url = pathToFileURL(resolve(configDir, entry.module)).href;
+    const mod = await import(url);
+    const definition = (mod.default ?? mod.provider) as ProviderDefinition | undefined;
+    if (!definition || typeof definition.create !== "function") {
+      throw new Error(`Provider module ${entry.module} must export a provider definition`);
+    }
+
+    registerProvider({ ...definition, name });
+  }
+}
+
 /**
  * Merge CLI options with config file values.
  * CLI flags take precedence over config file.
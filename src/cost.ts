@@ -1,31 +1,64 @@
 import type { ImageMetadata } from "./extractors/metadata.js";
+import { getModelPricing } from "./providers/registry.js";
+import type { ModelPricing, TokenUsage } from "./providers/types.js";
+import { fitDimensions, type ImageLimits } from "./preprocess.js";
+import { planTiles } from "./tiles.js";
 
-// Pricing per million tokens (as of 2025)
-const PRICING: Record<string, { input: number; output: number }> = {
-  "claude-sonnet-4-5-20250929": { input: 3.0, output: 15.0 },
-  "claude-opus-4-6": { input: 15.0, output: 75.0 },
-  "claude-haiku-4-5-20251001": { input: 0.8, output: 4.0 },
-  "gpt-4o": { input: 2.5, output: 10.0 },
-  "gpt-4o-mini": { input: 0.15, output: 0.60 },
-};
-
+// Per-model pricing lives on each provider definition; this covers unknown models
 const DEFAULT_PRICING = { input: 3.0, output: 15.0 };
 
+// Prompt cache rates relative to the input price, for models without explicit ones
+const CACHE_READ_MULTIPLIER = 0.1;
+const CACHE_WRITE_MULTIPLIER = 1.25;
+
+// Batch APIs (Anthropic Message Batches, OpenAI Batch) bill at half price
+export const BATCH_DISCOUNT = 0.5;
+
 // Average output tokens per image (description + extracted text)
 const AVG_OUTPUT_TOKENS = 300;
 
 // System + user prompt tokens (roughly)
 const PROMPT_TOKENS = 350;
 
+// Average output tokens per tile of a tiled image (text and visual elements only)
+const AVG_TILE_OUTPUT_TOKENS = 150;
+
 /**
  * Estimate input tokens for an image based on dimensions.
  * Anthropic's vision: roughly (width * height) / 750 tokens for the image itself.
+ * With limits, uses the dimensions the image is downscaled to before sending.
+ * With a tile size, adds a request per tile for images larger than it.
  */
-export function estimateImageTokens(metadata: ImageMetadata): number {
-  const w = metadata.width ?? 1000;
-  const h = metadata.height ?? 1000;
+export function estimateImageTokens(metadata: ImageMetadata, limits: ImageLimits = {}, tileSize?: number): number {
+  const { width: w, height: h } = fitDimensions(metadata.width ?? 1000, metadata.height ?? 1000, limits.maxDimension);
   const imageTokens = Math.ceil((w * h) / 750);
-  return imageTokens + PROMPT_TOKENS;
+  const tileTokens = tilesFor(metadata, tileSize).reduce(
+    (sum, tile) => sum + Math.ceil((tile.width * tile.height) / 750) + PROMPT_TOKENS,
+    0
+  );
+  return imageTokens + PROMPT_TOKENS + tileTokens;
+}
+
+/**
+ * Input tokens for one file to analyze. A video is one analysis per sampled
+ * frame, each with its own prompt; an animation sends its sampled frames
+ * together, so only the images repeat.
+ */
+export function estimateInputTokens(
+  item: { metadata: ImageMetadata; frames?: number },
+  limits: ImageLimits = {},
+  tileSize?: number
+): number {
+  const frames = item.frames ?? 1;
+  const tokens = estimateImageTokens(item.metadata, limits, tileSize);
+  return item.metadata.animated ? (tokens - PROMPT_TOKENS) * frames + PROMPT_TOKENS : tokens * frames;
+}
+
+/** Tiles a large image is analyzed as besides the whole, or none. */
+function tilesFor(metadata: ImageMetadata, tileSize: number | undefined): { width: number; height: number }[] {
+  if (!tileSize || metadata.animated) return [];
+  const tiles = planTiles(metadata.width ?? 1000, metadata.height ?? 1000, tileSize);
+  return tiles.length > 1 ? tiles : [];
 }
 
 export interface CostEstimate {
@@ -37,25 +70,41 @@ export interface CostEstimate {
   estimatedCost: number;
   model: string;
   currency: string;
+  batch: boolean;
+}
+
+export interface PricingOptions {
+  /** Priced as an async batch job. */
+  batch?: boolean;
+  /** Provider the model runs on, whose pricing is checked first. */
+  provider?: string;
+}
+
+export interface EstimateOptions extends PricingOptions {
+  /** Provider size limits, so oversized images are counted at their sent size. */
+  imageLimits?: ImageLimits;
+  /** Tile size, when large images are also analyzed as tiles. */
+  tileSize?: number;
 }
 
 export function estimateCost(
-  metadataList: { metadata: ImageMetadata; cached: boolean }[],
-  model: string
+  metadataList: { metadata: ImageMetadata; cached: boolean; frames?: number }[],
+  model: string,
+  options: EstimateOptions = {}
 ): CostEstimate {
   const cached = metadataList.filter((m) => m.cached).length;
   const toProcess = metadataList.filter((m) => !m.cached);
 
   let totalInputTokens = 0;
+  let totalOutputTokens = 0;
   for (const item of toProcess) {
-    totalInputTokens += estimateImageTokens(item.metadata);
+    // A video is one analysis per sampled frame; an animation is one analysis of all its frames
+    const calls = item.metadata.animated ? 1 : item.frames ?? 1;
+    totalInputTokens += estimateInputTokens(item, options.imageLimits, options.tileSize);
+    totalOutputTokens += (AVG_OUTPUT_TOKENS + AVG_TILE_OUTPUT_TOKENS * tilesFor(item.metadata, options.tileSize).length) * calls;
   }
 
-  const totalOutputTokens = toProcess.length * AVG_OUTPUT_TOKENS;
-  const pricing = PRICING[model] ?? DEFAULT_PRICING;
-  const estimatedCost =
-    (totalInputTokens / 1_000_000) * pricing.input +
-    (totalOutputTokens / 1_000_000) * pricing.output;
+  const estimatedCost = calculateCost(totalInputTokens, totalOutputTokens, model, options);
 
   return {
     files: metadataList.length,
@@ -66,15 +115,73 @@ export function estimateCost(
     estimatedCost,
     model,
     currency: "USD",
+    batch: options.batch === true,
   };
 }
 
 /**
  * Calculate actual cost from real token usage.
  */
-export function calculateCost(inputTokens: number, outputTokens: number, model: string): number {
-  const pricing = PRICING[model] ?? DEFAULT_PRICING;
-  return (inputTokens / 1_000_000) * pricing.input + (outputTokens / 1_000_000) * pricing.output;
+export function calculateCost(
+  inputTokens: number,
+  outputTokens: number,
+  model: string,
+  options: PricingOptions = {}
+): number {
+  return calculateUsageCost({ inputTokens, outputTokens }, model, options);
+}
+
+/**
+ * Cost of a provider's reported usage, pricing prompt cache reads and
+ * writes at their own rates.
+ */
+export function calculateUsageCost(
+  usage: TokenUsage,
+  model: string,
+  options: PricingOptions = {}
+): number {
+  const pricing = getModelPricing(model, options.provider) ?? DEFAULT_PRICING;
+  const cost =
+    (usage.inputTokens / 1_000_000) * pricing.input +
+    (usage.outputTokens / 1_000_000) * pricing.output +
+    ((usage.cacheReadTokens ?? 0) / 1_000_000) * cacheReadPrice(pricing) +
+    ((usage.cacheWriteTokens ?? 0) / 1_000_000) * cacheWritePrice(pricing);
+  return options.batch ? cost * BATCH_DISCOUNT : cost;
+}
+
+/**
+ * What prompt caching saved compared to sending every input token
+ * uncached. Negative while the cache is still being written.
+ */
+export function cacheSavings(usage: TokenUsage, model: string, options: PricingOptions = {}): number {
+  const uncached: TokenUsage = {
+    inputTokens: usage.inputTokens + (usage.cacheReadTokens ?? 0) + (usage.cacheWriteTokens ?? 0),
+    outputTokens: usage.outputTokens,
+  };
+  return calculateUsageCost(uncached, model, options) - calculateUsageCost(usage, model, options);
+}
+
+/** Add up usage from several responses, keeping cache counters when any report them. */
+export function sumUsage(...usages: (TokenUsage | undefined)[]): TokenUsage | undefined {
+  const reported = usages.filter((u): u is TokenUsage => u !== undefined);
+  if (reported.length === 0) return undefined;
+
+  const total: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  for (const usage of reported) {
+    total.inputTokens += usage.inputTokens;
+    total.outputTokens += usage.outputTokens;
+    if (usage.cacheReadTokens) total.cacheReadTokens = (total.cacheReadTokens ?? 0) + usage.cacheReadTokens;
+    if (usage.cacheWriteTokens) total.cacheWriteTokens = (total.cacheWriteTokens ?? 0) + usage.cacheWriteTokens;
+  }
+  return total;
+}
+
+function cacheReadPrice(pricing: ModelPricing): number {
+  return pricing.cacheRead ?? pricing.input * CACHE_READ_MULTIPLIER;
+}
+
+function cacheWritePrice(pricing: ModelPricing): number {
+  return pricing.cacheWrite ?? pricing.input * CACHE_WRITE_MULTIPLIER;
 }
 
 /**
@@ -105,7 +212,7 @@ export function formatCost(estimate: CostEstimate): string {
   const lines = [
     `  Files     ${filesLabel}${cacheNote}`,
     `  Tokens    ~${estimate.totalInputTokens.toLocaleString()} in + ~${estimate.totalOutputTokens.toLocaleString()} out`,
-    `  Cost      ${costStr} (${modelShort})`,
+    `  Cost      ${costStr} (${modelShort}${estimate.batch ? ", batch" : ""})`,
   ];
 
   return lines.join("\n");
@@ -0,0 +1,548 @@
+import { readFile, writeFile, rename, copyFile, access } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import { extname } from "node:path";
+import {
+  findMetadataBlocks,
+  readEmbeddedMetadata,
+  readTiffHeader,
+  xmpProperty,
+  xmpValues,
+} from "./extractors/exif.js";
+import { crc32 } from "./utils/crc32.js";
+import { cacheKeyFor, type ProcessOptions, type ProcessResult } from "./processor.js";
+import { getCached, setCached } from "./cache/store.js";
+
+/** Formats m2md can write XMP into without re-encoding pixels. JPEG and TIFF also get IPTC. */
+export const EMBED_EXTENSIONS = [".jpg", ".jpeg", ".png", ".webp", ".tif", ".tiff"];
+
+/** What gets written into an image's metadata. */
+export interface EmbedFields {
+  /** dc:title, IPTC Object Name. */
+  title: string;
+  /** dc:description, IPTC Caption/Abstract. */
+  description: string;
+  /** dc:subject, IPTC Keywords. */
+  keywords: string[];
+  /** Iptc4xmpCore:AltTextAccessibility. */
+  altText: string;
+  /** m2md:extractedText. */
+  extractedText: string;
+}
+
+/** One field whose embedded value would change. */
+export interface EmbedChange {
+  field: keyof EmbedFields;
+  before: string;
+  after: string;
+}
+
+export interface EmbedFileOptions {
+  /** Report the changes without writing the file. */
+  dryRun?: boolean;
+  /** Copy the original to `<file>.bak` first, unless a backup already exists. */
+  backup?: boolean;
+}
+
+export interface EmbedOutcome {
+  path: string;
+  changes: EmbedChange[];
+  /** False for dry runs and when nothing changed. */
+  written: boolean;
+  backupPath?: string;
+  /** Hash of the file after embedding. */
+  sha256: string;
+}
+
+export function canEmbed(filePath: string): boolean {
+  return EMBED_EXTENSIONS.includes(extname(filePath).toLowerCase());
+}
+
+/**
+ * Fields for a result: the subject doubles as title and alt text. Keywords
+ * already in the file are kept, followed by any new tags.
+ */
+export function embedFieldsFrom(
+  result: Pick<ProcessResult, "subject" | "description" | "tags" | "extractedText" | "metadata">
+): EmbedFields {
+  const keywords = [...(result.metadata.keywords ?? [])];
+  const seen = new Set(keywords.map((k) => k.toLowerCase()));
+  for (const tag of result.tags.split(",").map((t) => t.trim()).filter(Boolean)) {
+    if (!seen.has(tag.toLowerCase())) keywords.push(tag);
+    seen.add(tag.toLowerCase());
+  }
+  return {
+    title: result.subject,
+    description: result.description,
+    keywords,
+    altText: result.subject,
+    extractedText: result.extractedText,
+  };
+}
+
+/** The values of each embeddable field currently in a file; empty when unset. */
+export function readEmbedFields(buffer: Buffer): EmbedFields {
+  const existing = readEmbeddedMetadata(buffer);
+  const xmp = findMetadataBlocks(buffer).xmp ?? "";
+  return {
+    title: xmpValues(xmp, "dc:title")[0] ?? "",
+    description: existing.caption ?? "",
+    keywords: existing.keywords ?? [],
+    altText: xmpValues(xmp, "Iptc4xmpCore:AltTextAccessibility")[0] ?? "",
+    extractedText: xmpProperty(xmp, "m2md:extractedText") ?? "",
+  };
+}
+
+/** Fields that differ between what's embedded and what would be written. Empty new values are skipped. */
+export function diffEmbedFields(before: EmbedFields, after: EmbedFields): EmbedChange[] {
+  const changes: EmbedChange[] = [];
+  for (const field of Object.keys(after) as (keyof EmbedFields)[]) {
+    const from = field === "keywords" ? before.keywords.join(", ") : before[field];
+    const to = field === "keywords" ? after.keywords.join(", ") : after[field];
+    // Readers normalize quotes and whitespace; compare the same way
+    const normalize = (s: string) => s.replace(/"/g, "'").replace(/\s+/g, " ").trim();
+    if (to && normalize(from) !== normalize(to)) changes.push({ field, before: from, after: to });
+  }
+  return changes;
+}
+
+/**
+ * Write the fields into an image's XMP (and IPTC for JPEG and TIFF),
+ * keeping all other metadata and the compressed image data as they are.
+ */
+export function embedMetadata(buffer: Buffer, fields: EmbedFields): Buffer {
+  const existingXmp = findMetadataBlocks(buffer).xmp;
+  if (buffer[0] === 0xff && buffer[1] === 0xd8) return embedJpeg(buffer, fields, existingXmp);
+  if (buffer.toString("latin1", 1, 4) === "PNG") return embedPng(buffer, buildXmp(fields, existingXmp));
+  if (buffer.toString("latin1", 0, 4) === "RIFF" && buffer.toString("latin1", 8, 12) === "WEBP") {
+    return embedWebp(buffer, buildXmp(fields, existingXmp));
+  }
+  if (readTiffHeader(buffer)) return embedTiff(buffer, fields, existingXmp);
+  throw new Error("Embedding supports JPEG, PNG, WebP and TIFF files");
+}
+
+/**
+ * Embed fields into a file on disk. Writes through a temporary file so an
+ * interrupted run never leaves a half-written image.
+ */
+export async function embedFile(
+  filePath: string,
+  fields: EmbedFields,
+  options: EmbedFileOptions = {}
+): Promise<EmbedOutcome> {
+  const buffer = await readFile(filePath);
+  const changes = diffEmbedFields(readEmbedFields(buffer), fields);
+  if (options.dryRun || changes.length === 0) {
+    return { path: filePath, changes, written: false, sha256: sha256(buffer) };
+  }
+
+  const updated = embedMetadata(buffer, fields);
+  let backupPath: string | undefined;
+  if (options.backup) {
+    backupPath = `${filePath}.bak`;
+    // Keep the oldest backup: it's the only copy of the untouched original
+    const exists = await access(backupPath).then(() => true, () => false);
+    if (!exists) await copyFile(filePath, backupPath);
+  }
+
+  const tmpPath = `${filePath}.m2md-tmp`;
+  await writeFile(tmpPath, updated);
+  await rename(tmpPath, filePath);
+  return { path: filePath, changes, written: true, backupPath, sha256: sha256(updated) };
+}
+
+/**
+ * Embed a result into the image it describes. The cached analysis is
+ * copied to the new file hash so the next run is still a cache hit.
+ */
+export async function embedResult(
+  filePath: string,
+  result: ProcessResult,
+  options: Omit<ProcessOptions, "provider"> & EmbedFileOptions
+): Promise<EmbedOutcome> {
+  const outcome = await embedFile(filePath, embedFieldsFrom(result), options);
+  if (outcome.written && !options.noCache) {
+    const cached = await getCached(cacheKeyFor(result.metadata, options));
+    const moved = { ...result.metadata, sha256: outcome.sha256 };
+    if (cached) await setCached(cacheKeyFor(moved, options), { ...cached, hash: outcome.sha256 });
+  }
+  return outcome;
+}
+
+function sha256(buffer: Buffer): string {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+// ---------------------------------------------------------------------------
+// XMP packet
+// ---------------------------------------------------------------------------
+
+const XMP_NAMESPACES =
+  'xmlns:dc="http://purl.org/dc/elements/1.1/" ' +
+  'xmlns:Iptc4xmpCore="http://iptc.org/std/Iptc4xmpCore/1.0/xmlns/" ' +
+  'xmlns:m2md="https://github.com/marcvermeeren/media2md/ns/1.0/"';
+
+const WRITTEN_PROPERTIES: Record<keyof EmbedFields, string> = {
+  title: "dc:title",
+  description: "dc:description",
+  keywords: "dc:subject",
+  altText: "Iptc4xmpCore:AltTextAccessibility",
+  extractedText: "m2md:extractedText",
+};
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * An XMP packet with the fields set. Properties of an existing packet that
+ * m2md doesn't write (camera data, Lightroom settings, ratings) are kept.
+ */
+export function buildXmp(fields: EmbedFields, existing?: string): string {
+  const alt = (value: string) =>
+    `<rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt>`;
+  const properties: string[] = [];
+  const written: string[] = [];
+  const add = (field: keyof EmbedFields, body: string) => {
+    properties.push(`   <${WRITTEN_PROPERTIES[field]}>${body}</${WRITTEN_PROPERTIES[field]}>`);
+    written.push(WRITTEN_PROPERTIES[field]);
+  };
+  if (fields.title) add("title", alt(fields.title));
+  if (fields.description) add("description", alt(fields.description));
+  if (fields.keywords.length) {
+    add("keywords", `<rdf:Bag>${fields.keywords.map((k) => `<rdf:li>${escapeXml(k)}</rdf:li>`).join("")}</rdf:Bag>`);
+  }
+  if (fields.altText) add("altText", alt(fields.altText));
+  if (fields.extractedText) add("extractedText", escapeXml(fields.extractedText));
+
+  const description = `  <rdf:Description rdf:about="" ${XMP_NAMESPACES}>\n${properties.join("\n")}\n  </rdf:Description>`;
+  let rdf = `<x:xmpmeta xmlns:x="adobe:ns:meta/">\n <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">\n${description}\n </rdf:RDF>\n</x:xmpmeta>`;
+
+  const start = existing?.indexOf("<x:xmpmeta") ?? -1;
+  const end = existing?.lastIndexOf("</x:xmpmeta>") ?? -1;
+  if (existing && start >= 0 && end > start && existing.includes("</rdf:RDF>")) {
+    let kept = existing.slice(start, end + "</x:xmpmeta>".length);
+    for (const property of written) {
+      kept = kept
+        .replace(new RegExp(`\\s*<${property}\\b[^>]*>[\\s\\S]*?</${property}>`, "g"), "")
+        .replace(new RegExp(`\\s*<${property}\\b[^>]*/>`, "g"), "")
+        .replace(new RegExp(`\\s+${property}="[^"]*"`, "g"), "");
+    }
+    // Descriptions left with no properties would just repeat namespaces
+    kept = kept.replace(/\s*<rdf:Description\b([^>]*)>\s*<\/rdf:Description>/g, (match, attributes: string) =>
+      attributes.replace(/\s+(?:rdf:about|xmlns:[\w-]+)="[^"]*"/g, "").trim() ? match : "",
+    );
+    rdf = kept.replace("</rdf:RDF>", `${description}\n </rdf:RDF>`);
+  }
+
+  // Padding lets other tools edit the packet in place
+  return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>\n${rdf}\n${" ".repeat(2048)}\n<?xpacket end="w"?>`;
+}
+
+// ---------------------------------------------------------------------------
+// IPTC-IIM
+// ---------------------------------------------------------------------------
+
+// Dataset size limits from the IIM spec
+const IIM_LIMITS: Record<number, number> = { 5: 64, 25: 64, 120: 2000 };
+const UTF8_DECLARATION = Buffer.from([0x1b, 0x25, 0x47]);
+
+/** A string's UTF-8 bytes, cut to at most `max` without splitting a character. */
+function truncateBytes(value: string, max: number): Buffer {
+  let length = 0;
+  let end = 0;
+  for (const char of value) {
+    length += Buffer.byteLength(char);
+    if (length > max) break;
+    end += char.length;
+  }
+  return Buffer.from(value.slice(0, end), "utf8");
+}
+
+function dataset(record: number, number: number, value: Buffer): Buffer {
+  const header = Buffer.from([0x1c, record, number, 0, 0]);
+  header.writeUInt16BE(value.length, 3);
+  return Buffer.concat([header, value]);
+}
+
+/**
+ * An IPTC-IIM record with title, caption and keywords replaced. Other
+ * datasets are kept, re-encoded as UTF-8 if they weren't already.
+ */
+function buildIptc(fields: EmbedFields, existing?: Buffer): Buffer {
+  const kept: { record: number; number: number; value: Buffer }[] = [];
+  let utf8 = false;
+  let pos = 0;
+  while (existing && pos + 5 <= existing.length && existing[pos] === 0x1c) {
+    const record = existing[pos + 1];
+    const number = existing[pos + 2];
+    const length = existing.readUInt16BE(pos + 3);
+    if (length & 0x8000) break;
+    const value = existing.subarray(pos + 5, pos + 5 + length);
+    pos += 5 + length;
+    if (record === 1 && number === 90) {
+      utf8 = value.equals(UTF8_DECLARATION);
+      continue;
+    }
+    const replaced =
+      record === 2 &&
+      ((number === 5 && fields.title) || (number === 120 && fields.description) || (number === 25 && fields.keywords.length));
+    if (!replaced) kept.push({ record, number, value });
+  }
+
+  const text = (value: Buffer, number: number) =>
+    utf8 || number === 0 ? value : Buffer.from(value.toString("latin1"), "utf8");
+  const out: Buffer[] = [dataset(1, 90, UTF8_DECLARATION)];
+  for (const { record, number, value } of kept.filter((d) => d.record === 1)) out.push(dataset(record, number, value));
+  // Record version comes first in record 2
+  const version = kept.find((d) => d.record === 2 && d.number === 0);
+  out.push(dataset(2, 0, version?.value ?? Buffer.from([0, 4])));
+  for (const { record, number, value } of kept.filter((d) => d.record === 2 && d.number !== 0)) {
+    out.push(dataset(record, number, text(value, number)));
+  }
+  if (fields.title) out.push(dataset(2, 5, truncateBytes(fields.title, IIM_LIMITS[5])));
+  for (const keyword of fields.keywords) out.push(dataset(2, 25, truncateBytes(keyword, IIM_LIMITS[25])));
+  if (fields.description) out.push(dataset(2, 120, truncateBytes(fields.description, IIM_LIMITS[120])));
+  for (const { record, number, value } of kept.filter((d) => d.record > 2)) out.push(dataset(record, number, value));
+  return Buffer.concat(out);
+}
+
+// ---------------------------------------------------------------------------
+// Containers
+// ---------------------------------------------------------------------------
+
+const XMP_JPEG_HEADER = Buffer.from("http://ns.adobe.com/xap/1.0/\0", "latin1");
+const PHOTOSHOP_HEADER = Buffer.from("Photoshop 3.0\0", "latin1");
+// Segment length is a 16-bit count that includes its own two bytes
+const MAX_SEGMENT_DATA = 0xffff - 2;
+
+function jpegSegment(marker: number, data: Buffer): Buffer {
+  if (data.length > MAX_SEGMENT_DATA) throw new Error("Metadata is too large for a JPEG segment");
+  const header = Buffer.from([0xff, marker, 0, 0]);
+  header.writeUInt16BE(data.length + 2, 2);
+  return Buffer.concat([header, data]);
+}
+
+/** Photoshop image resources with the IPTC block (0x0404) replaced. */
+function photoshopResources(existing: Buffer | undefined, iptc: Buffer): Buffer {
+  const resources: Buffer[] = [];
+  let pos = 0;
+  while (existing && pos + 12 <= existing.length && existing.toString("latin1", pos, pos + 4) === "8BIM") {
+    const start = pos;
+    const id = existing.readUInt16BE(pos + 4);
+    const nameLength = existing[pos + 6];
+    pos += 6 + nameLength + 1 + ((nameLength + 1) % 2);
+    const size = existing.readUInt32BE(pos);
+    pos += 4 + size + (size % 2);
+    // 0x0425 is a digest of the old IPTC block; a stale one makes Photoshop ignore the new one
+    if (id !== 0x0404 && id !== 0x0425) resources.push(existing.subarray(start, pos));
+  }
+  const header = Buffer.from([0x38, 0x42, 0x49, 0x4d, 0x04, 0x04, 0, 0, 0, 0, 0, 0]);
+  header.writeUInt32BE(iptc.length, 8);
+  resources.push(header, iptc, Buffer.alloc(iptc.length % 2));
+  return Buffer.concat([PHOTOSHOP_HEADER, ...resources]);
+}
+
+function embedJpeg(buffer: Buffer, fields: EmbedFields, existingXmp: string | undefined): Buffer {
+  const segments: { marker: number; bytes: Buffer }[] = [];
+  let photoshop: Buffer | undefined;
+  let pos = 2;
+
+  while (pos + 4 <= buffer.length && buffer[pos] === 0xff) {
+    const marker = buffer[pos + 1];
+    if (marker === 0xff) {
+      pos++; // fill byte
+      continue;
+    }
+    if (marker === 0xda) break;
+    const length = buffer.readUInt16BE(pos + 2);
+    const data = buffer.subarray(pos + 4, pos + 2 + length);
+    const bytes = buffer.subarray(pos, pos + 2 + length);
+    pos += 2 + length;
+
+    if (marker === 0xe1 && data.subarray(0, XMP_JPEG_HEADER.length).equals(XMP_JPEG_HEADER)) continue;
+    if (marker === 0xed && data.subarray(0, PHOTOSHOP_HEADER.length).equals(PHOTOSHOP_HEADER)) {
+      photoshop ??= data.subarray(PHOTOSHOP_HEADER.length);
+      continue;
+    }
+    segments.push({ marker, bytes });
+  }
+
+  let xmp = buildXmp(fields, existingXmp);
+  // Without extended XMP a packet must fit one segment; drop the longest field first
+  if (Buffer.byteLength(xmp) + XMP_JPEG_HEADER.length > MAX_SEGMENT_DATA) {
+    xmp = buildXmp({ ...fields, extractedText: "" }, existingXmp);
+  }
+  const iptc = buildIptc(fields, findMetadataBlocks(buffer).iptc);
+  const added = [
+    jpegSegment(0xe1, Buffer.concat([XMP_JPEG_HEADER, Buffer.from(xmp, "utf8")])),
+    jpegSegment(0xed, photoshopResources(photoshop, iptc)),
+  ];
+
+  // New segments go after JFIF/EXIF, which readers expect first
+  let insertAt = 0;
+  while (insertAt < segments.length && (segments[insertAt].marker === 0xe0 || segments[insertAt].marker === 0xe1)) {
+    insertAt++;
+  }
+  return Buffer.concat([
+    buffer.subarray(0, 2),
+    ...segments.slice(0, insertAt).map((s) => s.bytes),
+    ...added,
+    ...segments.slice(insertAt).map((s) => s.bytes),
+    buffer.subarray(pos),
+  ]);
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "latin1"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+function embedPng(buffer: Buffer, xmp: string): Buffer {
+  const chunks: Buffer[] = [];
+  let inserted = false;
+  let pos = 8;
+  // keyword\0, uncompressed, method 0, no language\0, no translated keyword\0
+  const itxt = pngChunk("iTXt", Buffer.concat([Buffer.from("XML:com.adobe.xmp\0\0\0\0\0", "latin1"), Buffer.from(xmp, "utf8")]));
+
+  while (pos + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(pos);
+    const type = buffer.toString("latin1", pos + 4, pos + 8);
+    const chunk = buffer.subarray(pos, pos + 12 + length);
+    pos += 12 + length;
+
+    if (type === "iTXt" && chunk.toString("latin1", 8, 26) === "XML:com.adobe.xmp\0") continue;
+    // XMP goes before the image data so streaming readers see it
+    if ((type === "IDAT" || type === "IEND") && !inserted) {
+      chunks.push(itxt);
+      inserted = true;
+    }
+    chunks.push(chunk);
+    if (type === "IEND") break;
+  }
+  return Buffer.concat([buffer.subarray(0, 8), ...chunks]);
+}
+
+function riffChunk(type: string, data: Buffer): Buffer {
+  const header = Buffer.alloc(8);
+  header.write(type, 0, "latin1");
+  header.writeUInt32LE(data.length, 4);
+  return Buffer.concat([header, data, Buffer.alloc(data.length % 2)]);
+}
+
+function embedWebp(buffer: Buffer, xmp: string): Buffer {
+  const chunks: { type: string; bytes: Buffer; data: Buffer }[] = [];
+  let pos = 12;
+  while (pos + 8 <= buffer.length) {
+    const type = buffer.toString("latin1", pos, pos + 4);
+    const size = buffer.readUInt32LE(pos + 4);
+    const end = pos + 8 + size + (size % 2);
+    chunks.push({ type, bytes: buffer.subarray(pos, end), data: buffer.subarray(pos + 8, pos + 8 + size) });
+    pos = end;
+  }
+
+  const kept = chunks.filter((c) => c.type !== "XMP ").map((c) => c.bytes);
+  const vp8x = chunks.find((c) => c.type === "VP8X");
+  if (vp8x) {
+    // Set the XMP flag in place
+    const index = kept.indexOf(vp8x.bytes);
+    const updated = Buffer.from(vp8x.bytes);
+    updated[8] |= 0x04;
+    kept[index] = updated;
+  } else {
+    // Simple (lossy/lossless) files need an extended header to carry metadata
+    kept.unshift(riffChunk("VP8X", simpleWebpHeader(chunks[0])));
+  }
+  kept.push(riffChunk("XMP ", Buffer.from(xmp, "utf8")));
+
+  const body = Buffer.concat([Buffer.from("WEBP", "latin1"), ...kept]);
+  const header = Buffer.alloc(8);
+  header.write("RIFF", 0, "latin1");
+  header.writeUInt32LE(body.length, 4);
+  return Buffer.concat([header, body]);
+}
+
+/** VP8X payload for a simple WebP: flags plus canvas size from the bitstream. */
+function simpleWebpHeader(image: { type: string; data: Buffer } | undefined): Buffer {
+  let width: number;
+  let height: number;
+  let alpha = false;
+  if (image?.type === "VP8 ") {
+    width = image.data.readUInt16LE(6) & 0x3fff;
+    height = image.data.readUInt16LE(8) & 0x3fff;
+  } else if (image?.type === "VP8L") {
+    const bits = image.data.readUInt32LE(1);
+    width = (bits & 0x3fff) + 1;
+    height = ((bits >>> 14) & 0x3fff) + 1;
+    alpha = ((bits >>> 28) & 1) === 1;
+  } else {
+    throw new Error("Unrecognized WebP image data");
+  }
+  const data = Buffer.alloc(10);
+  data[0] = 0x04 | (alpha ? 0x10 : 0);
+  data.writeUIntLE(width - 1, 4, 3);
+  data.writeUIntLE(height - 1, 7, 3);
+  return data;
+}
+
+/**
+ * TIFFs get a rewritten first IFD appended to the file, pointing at new
+ * XMP and IPTC data. Existing values stay where they are, so every other
+ * offset in the file remains valid.
+ */
+function embedTiff(buffer: Buffer, fields: EmbedFields, existingXmp: string | undefined): Buffer {
+  const { littleEndian: le, ifd0 } = readTiffHeader(buffer)!;
+  const u16 = (n: number) => {
+    const b = Buffer.alloc(2);
+    if (le) b.writeUInt16LE(n);
+    else b.writeUInt16BE(n);
+    return b;
+  };
+  const u32 = (n: number) => {
+    const b = Buffer.alloc(4);
+    if (le) b.writeUInt32LE(n);
+    else b.writeUInt32BE(n);
+    return b;
+  };
+
+  const count = le ? buffer.readUInt16LE(ifd0) : buffer.readUInt16BE(ifd0);
+  const nextIfd = buffer.subarray(ifd0 + 2 + count * 12, ifd0 + 6 + count * 12);
+
+  const xmp = Buffer.from(buildXmp(fields, existingXmp), "utf8");
+  const iptc = buildIptc(fields, findMetadataBlocks(buffer).iptc);
+  let end = buffer.length + (buffer.length % 2);
+  const xmpOffset = end;
+  end += xmp.length + (xmp.length % 2);
+  const iptcOffset = end;
+  end += iptc.length + (iptc.length % 2);
+  const ifdOffset = end;
+
+  // Entries are copied as-is; their values and offsets stay valid
+  const rows = new Map<number, Buffer>();
+  for (let i = 0; i < count; i++) {
+    const row = buffer.subarray(ifd0 + 2 + i * 12, ifd0 + 14 + i * 12);
+    rows.set(le ? row.readUInt16LE(0) : row.readUInt16BE(0), row);
+  }
+  rows.set(0x02bc, Buffer.concat([u16(0x02bc), u16(1), u32(xmp.length), u32(xmpOffset)]));
+  rows.set(0x83bb, Buffer.concat([u16(0x83bb), u16(7), u32(iptc.length), u32(iptcOffset)]));
+  const sorted = [...rows.entries()].sort((a, b) => a[0] - b[0]).map(([, row]) => row);
+
+  const header = Buffer.from(buffer.subarray(0, 8));
+  if (le) header.writeUInt32LE(ifdOffset, 4);
+  else header.writeUInt32BE(ifdOffset, 4);
+  return Buffer.concat([
+    header,
+    buffer.subarray(8),
+    Buffer.alloc(buffer.length % 2),
+    xmp,
+    Buffer.alloc(xmp.length % 2),
+    iptc,
+    Buffer.alloc(iptc.length % 2),
+    u16(sorted.length),
+    ...sorted,
+    nextIfd,
+  ]);
+}
@@ -0,0 +1,534 @@
+import { inflateSync } from "node:zlib";
+
+/** Camera and catalog metadata embedded in an image file (EXIF, IPTC, XMP, ICC). */
+export interface EmbeddedMetadata {
+  /** When the photo was taken, as ISO 8601 local time (with offset when recorded). */
+  dateTaken?: string;
+  /** Camera make and model, e.g. "Canon EOS R5". */
+  camera?: string;
+  lens?: string;
+  gps?: GpsPosition;
+  /** EXIF orientation, 1-8; 1 is upright. */
+  orientation?: number;
+  /** Description of the embedded ICC color profile, e.g. "Display P3". */
+  colorProfile?: string;
+  /** Caption from IPTC or XMP. */
+  caption?: string;
+  /** Keywords from IPTC or XMP. */
+  keywords?: string[];
+}
+
+export interface GpsPosition {
+  /** Decimal degrees, negative south of the equator. */
+  latitude: number;
+  /** Decimal degrees, negative west of Greenwich. */
+  longitude: number;
+  /** Meters above sea level. */
+  altitude?: number;
+}
+
+/** Raw metadata blocks found in a file, before parsing. */
+export interface MetadataBlocks {
+  exif?: Buffer;
+  iptc?: Buffer;
+  xmp?: string;
+  icc?: Buffer;
+}
+
+const ORIENTATION_NAMES: Record<number, string> = {
+  1: "normal",
+  2: "mirrored",
+  3: "rotated-180",
+  4: "mirrored-rotated-180",
+  5: "mirrored-rotated-90",
+  6: "rotated-90",
+  7: "mirrored-rotated-270",
+  8: "rotated-270",
+};
+
+/** Readable name for an EXIF orientation; rotations are clockwise. */
+export function orientationName(orientation: number): string {
+  return ORIENTATION_NAMES[orientation] ?? "unknown";
+}
+
+/**
+ * Read capture date, camera, lens, GPS, orientation, color profile and
+ * existing captions and keywords from JPEG, PNG, WebP, TIFF and HEIC/AVIF
+ * files. Never throws: damaged or missing blocks are skipped.
+ */
+export function readEmbeddedMetadata(buffer: Buffer): EmbeddedMetadata {
+  const blocks = findMetadataBlocks(buffer);
+
+  // Earlier sources win: EXIF for camera fields, IPTC over XMP for captions
+  const parsed = [
+    attempt(() => blocks.exif && parseExif(blocks.exif)),
+    attempt(() => blocks.iptc && parseIptc(blocks.iptc)),
+    attempt(() => (blocks.xmp ? parseXmp(blocks.xmp) : undefined)),
+  ];
+  const result: EmbeddedMetadata = {};
+  for (const fields of parsed) {
+    for (const [key, value] of Object.entries(fields)) {
+      if (value !== undefined) (result as Record<string, unknown>)[key] ??= value;
+    }
+  }
+  const colorProfile = attempt(() => blocks.icc && { colorProfile: iccDescription(blocks.icc) }).colorProfile;
+  if (colorProfile) result.colorProfile = colorProfile;
+  return result;
+}
+
+/** Run one block's parser; a malformed block contributes nothing. */
+function attempt(parse: () => EmbeddedMetadata | undefined): EmbeddedMetadata {
+  try {
+    return parse() ?? {};
+  } catch {
+    return {};
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Locating blocks per container format
+// ---------------------------------------------------------------------------
+
+const EXIF_HEADER = Buffer.from("Exif\0\0", "latin1");
+const XMP_JPEG_HEADER = "http://ns.adobe.com/xap/1.0/\0";
+const ICC_JPEG_HEADER = "ICC_PROFILE\0";
+const PHOTOSHOP_HEADER = "Photoshop 3.0\0";
+
+/** Locate the EXIF, IPTC, XMP and ICC blocks of a file; damaged containers yield none. */
+export function findMetadataBlocks(buffer: Buffer): MetadataBlocks {
+  try {
+    return containerBlocks(buffer);
+  } catch {
+    return {};
+  }
+}
+
+function containerBlocks(buffer: Buffer): MetadataBlocks {
+  if (buffer[0] === 0xff && buffer[1] === 0xd8) return jpegBlocks(buffer);
+  if (buffer.toString("latin1", 1, 4) === "PNG") return pngBlocks(buffer);
+  if (buffer.toString("latin1", 0, 4) === "RIFF" && buffer.toString("latin1", 8, 12) === "WEBP") {
+    return webpBlocks(buffer);
+  }
+  const order = buffer.toString("latin1", 0, 2);
+  if ((order === "II" || order === "MM") && readTiffHeader(buffer)) return tiffBlocks(buffer);
+  return scanBlocks(buffer);
+}
+
+function jpegBlocks(buffer: Buffer): MetadataBlocks {
+  const blocks: MetadataBlocks = {};
+  const iccParts: { seq: number; data: Buffer }[] = [];
+  let pos = 2;
+
+  while (pos + 4 <= buffer.length && buffer[pos] === 0xff) {
+    const marker = buffer[pos + 1];
+    // Start of scan: metadata segments all come before image data
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = buffer.readUInt16BE(pos + 2);
+    const data = buffer.subarray(pos + 4, pos + 2 + length);
+
+    if (marker === 0xe1 && data.subarray(0, 6).equals(EXIF_HEADER)) {
+      blocks.exif ??= data.subarray(6);
+    } else if (marker === 0xe1 && data.toString("latin1", 0, XMP_JPEG_HEADER.length) === XMP_JPEG_HEADER) {
+      blocks.xmp ??= data.subarray(XMP_JPEG_HEADER.length).toString("utf8");
+    } else if (marker === 0xe2 && data.toString("latin1", 0, ICC_JPEG_HEADER.length) === ICC_JPEG_HEADER) {
+      // Profiles over 64KB span several segments, numbered from 1
+      iccParts.push({ seq: data[ICC_JPEG_HEADER.length], data: data.subarray(ICC_JPEG_HEADER.length + 2) });
+    } else if (marker === 0xed && data.toString("latin1", 0, PHOTOSHOP_HEADER.length) === PHOTOSHOP_HEADER) {
+      blocks.iptc ??= photoshopIptc(data.subarray(PHOTOSHOP_HEADER.length));
+    }
+    pos += 2 + length;
+  }
+
+  if (iccParts.length > 0) {
+    blocks.icc = Buffer.concat(iccParts.sort((a, b) => a.seq - b.seq).map((p) => p.data));
+  }
+  return blocks;
+}
+
+/** The IPTC-IIM resource (ID 0x0404) inside a Photoshop image resource block. */
+function photoshopIptc(data: Buffer): Buffer | undefined {
+  let pos = 0;
+  while (pos + 12 <= data.length && data.toString("latin1", pos, pos + 4) === "8BIM") {
+    const id = data.readUInt16BE(pos + 4);
+    const nameLength = data[pos + 6];
+    // Pascal name, padded so name length byte + name is even
+    pos += 6 + nameLength + 1 + ((nameLength + 1) % 2);
+    const size = data.readUInt32BE(pos);
+    pos += 4;
+    if (id === 0x0404) return data.subarray(pos, pos + size);
+    pos += size + (size % 2);
+  }
+  return undefined;
+}
+
+function pngBlocks(buffer: Buffer): MetadataBlocks {
+  const blocks: MetadataBlocks = {};
+  let pos = 8;
+
+  while (pos + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(pos);
+    const type = buffer.toString("latin1", pos + 4, pos + 8);
+    const data = buffer.subarray(pos + 8, pos + 8 + length);
+
+    if (type === "eXIf") {
+      blocks.exif ??= data.subarray(0, 6).equals(EXIF_HEADER) ? data.subarray(6) : data;
+    } else if (type === "iCCP") {
+      // name\0, compression method, zlib data
+      const nul = data.indexOf(0);
+      blocks.icc ??= inflateSync(data.subarray(nul + 2));
+    } else if (type === "iTXt" && data.toString("latin1", 0, 18) === "XML:com.adobe.xmp\0") {
+      // keyword\0, compressed flag, method, language\0, translated keyword\0, text
+      const compressed = data[18] === 1;
+      const language = data.indexOf(0, 20);
+      const translated = data.indexOf(0, language + 1);
+      const text = data.subarray(translated + 1);
+      blocks.xmp ??= (compressed ? inflateSync(text) : text).toString("utf8");
+    } else if (type === "IEND") {
+      break;
+    }
+    pos += 12 + length;
+  }
+  return blocks;
+}
+
+function webpBlocks(buffer: Buffer): MetadataBlocks {
+  const blocks: MetadataBlocks = {};
+  let pos = 12;
+
+  while (pos + 8 <= buffer.length) {
+    const type = buffer.toString("latin1", pos, pos + 4);
+    const size = buffer.readUInt32LE(pos + 4);
+    const data = buffer.subarray(pos + 8, pos + 8 + size);
+
+    if (type === "EXIF") blocks.exif ??= data.subarray(0, 6).equals(EXIF_HEADER) ? data.subarray(6) : data;
+    else if (type === "XMP ") blocks.xmp ??= data.toString("utf8");
+    else if (type === "ICCP") blocks.icc ??= data;
+    // Chunks are padded to an even size
+    pos += 8 + size + (size % 2);
+  }
+  return blocks;
+}
+
+function tiffBlocks(buffer: Buffer): MetadataBlocks {
+  const tiff = readTiffHeader(buffer)!;
+  const ifd0 = readIfd(buffer, tiff.littleEndian, tiff.ifd0);
+  const bytes = (tag: number) => {
+    const entry = ifd0.get(tag);
+    return entry ? rawValue(buffer, entry) : undefined;
+  };
+  return {
+    exif: buffer,
+    iptc: bytes(0x83bb),
+    xmp: bytes(0x02bc)?.toString("utf8"),
+    icc: bytes(0x8773),
+  };
+}
+
+/**
+ * Formats without a dedicated reader (HEIC, AVIF) store the same blocks in
+ * ISO-BMFF boxes; look for their signatures instead of walking the boxes.
+ */
+function scanBlocks(buffer: Buffer): MetadataBlocks {
+  const blocks: MetadataBlocks = {};
+
+  // The item type in the file's index also spells "Exif"; the data follows a TIFF header
+  for (let at = buffer.indexOf(EXIF_HEADER); at >= 0; at = buffer.indexOf(EXIF_HEADER, at + 1)) {
+    if (readTiffHeader(buffer.subarray(at + 6))) {
+      blocks.exif = buffer.subarray(at + 6);
+      break;
+    }
+  }
+
+  const xmpStart = buffer.indexOf("<x:xmpmeta");
+  const xmpEnd = buffer.indexOf("</x:xmpmeta>", xmpStart);
+  if (xmpStart >= 0 && xmpEnd > xmpStart) blocks.xmp = buffer.toString("utf8", xmpStart, xmpEnd + 12);
+
+  // colr box: size, "colr", "prof" or "rICC", ICC profile
+  let colr = buffer.indexOf("colrprof", 0, "latin1");
+  if (colr < 0) colr = buffer.indexOf("colrrICC", 0, "latin1");
+  if (colr >= 4) {
+    const size = buffer.readUInt32BE(colr - 4);
+    blocks.icc = buffer.subarray(colr + 8, colr - 4 + size);
+  }
+  return blocks;
+}
+
+// ---------------------------------------------------------------------------
+// EXIF (TIFF structure)
+// ---------------------------------------------------------------------------
+
+export interface IfdEntry {
+  type: number;
+  count: number;
+  /** Offset of the value, or of the 4-byte field holding it when small. */
+  offset: number;
+}
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+export function readTiffHeader(tiff: Buffer): { littleEndian: boolean; ifd0: number } | null {
+  if (tiff.length < 8) return null;
+  const order = tiff.toString("latin1", 0, 2);
+  if (order !== "II" && order !== "MM") return null;
+  const littleEndian = order === "II";
+  const magic = littleEndian ? tiff.readUInt16LE(2) : tiff.readUInt16BE(2);
+  if (magic !== 42) return null;
+  return { littleEndian, ifd0: littleEndian ? tiff.readUInt32LE(4) : tiff.readUInt32BE(4) };
+}
+
+export function readIfd(tiff: Buffer, le: boolean, offset: number): Map<number, IfdEntry> {
+  const entries = new Map<number, IfdEntry>();
+  if (offset <= 0 || offset + 2 > tiff.length) return entries;
+  const u16 = (at: number) => (le ? tiff.readUInt16LE(at) : tiff.readUInt16BE(at));
+  const u32 = (at: number) => (le ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at));
+
+  const count = u16(offset);
+  for (let i = 0; i < count; i++) {
+    const at = offset + 2 + i * 12;
+    if (at + 12 > tiff.length) break;
+    const type = u16(at + 2);
+    const n = u32(at + 4);
+    const size = (TYPE_SIZES[type] ?? 1) * n;
+    entries.set(u16(at), { type, count: n, offset: size <= 4 ? at + 8 : u32(at + 8) });
+  }
+  return entries;
+}
+
+function rawValue(tiff: Buffer, entry: IfdEntry): Buffer {
+  const size = (TYPE_SIZES[entry.type] ?? 1) * entry.count;
+  return tiff.subarray(entry.offset, entry.offset + size);
+}
+
+function numbers(tiff: Buffer, le: boolean, entry: IfdEntry | undefined): number[] {
+  if (!entry) return [];
+  const values: number[] = [];
+  for (let i = 0; i < entry.count; i++) {
+    const at = entry.offset + i * (TYPE_SIZES[entry.type] ?? 1);
+    if (at + (TYPE_SIZES[entry.type] ?? 1) > tiff.length) break;
+    switch (entry.type) {
+      case 1:
+      case 7:
+        values.push(tiff[at]);
+        break;
+      case 3:
+        values.push(le ? tiff.readUInt16LE(at) : tiff.readUInt16BE(at));
+        break;
+      case 4:
+        values.push(le ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at));
+        break;
+      case 9:
+        values.push(le ? tiff.readInt32LE(at) : tiff.readInt32BE(at));
+        break;
+      case 5:
+      case 10: {
+        const read = entry.type === 5
+          ? (p: number) => (le ? tiff.readUInt32LE(p) : tiff.readUInt32BE(p))
+          : (p: number) => (le ? tiff.readInt32LE(p) : tiff.readInt32BE(p));
+        const denominator = read(at + 4);
+        values.push(denominator === 0 ? 0 : read(at) / denominator);
+        break;
+      }
+    }
+  }
+  return values;
+}
+
+function text(tiff: Buffer, le: boolean, entry: IfdEntry | undefined): string | undefined {
+  if (!entry || entry.type !== 2) return undefined;
+  return clean(rawValue(tiff, entry).toString("utf8").replace(/\0[\s\S]*$/, ""));
+}
+
+function parseExif(tiff: Buffer): EmbeddedMetadata {
+  const header = readTiffHeader(tiff);
+  if (!header) return {};
+  const le = header.littleEndian;
+  const ifd0 = readIfd(tiff, le, header.ifd0);
+  const exif = readIfd(tiff, le, numbers(tiff, le, ifd0.get(0x8769))[0] ?? 0);
+  const gpsIfd = readIfd(tiff, le, numbers(tiff, le, ifd0.get(0x8825))[0] ?? 0);
+
+  const make = text(tiff, le, ifd0.get(0x010f));
+  const model = text(tiff, le, ifd0.get(0x0110));
+  const date = text(tiff, le, exif.get(0x9003)) ?? text(tiff, le, ifd0.get(0x0132));
+  const offset = text(tiff, le, exif.get(0x9011));
+  const lensMake = text(tiff, le, exif.get(0xa433));
+  const lensModel = text(tiff, le, exif.get(0xa434));
+  const orientation = numbers(tiff, le, ifd0.get(0x0112))[0];
+
+  return {
+    dateTaken: date ? exifDate(date, offset) : undefined,
+    camera: joinMake(make, model),
+    lens: joinMake(lensMake, lensModel),
+    gps: gpsPosition(tiff, le, gpsIfd),
+    orientation: orientation >= 1 && orientation <= 8 ? orientation : undefined,
+  };
+}
+
+/** "Canon" + "Canon EOS R5" → "Canon EOS R5"; "FUJIFILM" + "X-T4" → "FUJIFILM X-T4". */
+function joinMake(make: string | undefined, model: string | undefined): string | undefined {
+  if (!model) return make;
+  if (!make) return model;
+  const brand = make.split(/\s+/)[0].toLowerCase();
+  return model.toLowerCase().startsWith(brand) ? model : `${make} ${model}`;
+}
+
+/** "2023:06:14 18:22:05" (+ "+02:00") → "2023-06-14T18:22:05+02:00". */
+function exifDate(value: string, offset?: string): string | undefined {
+  const match = value.match(/^(\d{4})[:-](\d{2})[:-](\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match || match[1] === "0000") return undefined;
+  const [, y, mo, d, h, mi, s] = match;
+  const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : "";
+  return `${y}-${mo}-${d}T${h}:${mi}:${s}${zone}`;
+}
+
+function gpsPosition(tiff: Buffer, le: boolean, gps: Map<number, IfdEntry>): GpsPosition | undefined {
+  const lat = numbers(tiff, le, gps.get(0x0002));
+  const lon = numbers(tiff, le, gps.get(0x0004));
+  if (lat.length < 3 || lon.length < 3) return undefined;
+
+  const degrees = ([d, m, s]: number[]) => d + m / 60 + s / 3600;
+  const ref = (tag: number) => text(tiff, le, gps.get(tag))?.toUpperCase();
+  const round = (n: number) => Math.round(n * 1e6) / 1e6;
+  const latitude = round(degrees(lat) * (ref(0x0001) === "S" ? -1 : 1));
+  const longitude = round(degrees(lon) * (ref(0x0003) === "W" ? -1 : 1));
+  if (latitude === 0 && longitude === 0) return undefined;
+
+  const altitude = numbers(tiff, le, gps.get(0x0006))[0];
+  const below = numbers(tiff, le, gps.get(0x0005))[0] === 1;
+  return {
+    latitude,
+    longitude,
+    ...(altitude !== undefined ? { altitude: Math.round(altitude * (below ? -1 : 1) * 10) / 10 } : {}),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// IPTC-IIM
+// ---------------------------------------------------------------------------
+
+function parseIptc(data: Buffer): EmbeddedMetadata {
+  const keywords: string[] = [];
+  let caption: string | undefined;
+  let date: string | undefined;
+  let time: string | undefined;
+  // Without a 1:90 "ESC % G" declaration, IIM text is Latin-1
+  let encoding: BufferEncoding = "latin1";
+  let pos = 0;
+
+  while (pos + 5 <= data.length && data[pos] === 0x1c) {
+    const record = data[pos + 1];
+    const dataset = data[pos + 2];
+    const length = data.readUInt16BE(pos + 3);
+    // Extended lengths (high bit set) are only used for huge values
+    if (length & 0x8000) break;
+    const value = data.subarray(pos + 5, pos + 5 + length);
+    pos += 5 + length;
+
+    if (record === 1 && dataset === 90 && value.equals(Buffer.from([0x1b, 0x25, 0x47]))) encoding = "utf8";
+    if (record !== 2) continue;
+    const str = clean(value.toString(encoding));
+    if (!str) continue;
+    if (dataset === 25) keywords.push(str);
+    else if (dataset === 120) caption ??= str;
+    else if (dataset === 55) date ??= str;
+    else if (dataset === 60) time ??= str;
+  }
+
+  let dateTaken: string | undefined;
+  const d = date?.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (d) {
+    const t = time?.match(/^(\d{2})(\d{2})(\d{2})([+-]\d{2})?(\d{2})?/);
+    dateTaken = t
+      ? `${d[1]}-${d[2]}-${d[3]}T${t[1]}:${t[2]}:${t[3]}${t[4] ? `${t[4]}:${t[5] ?? "00"}` : ""}`
+      : `${d[1]}-${d[2]}-${d[3]}`;
+  }
+
+  return { caption, keywords: keywords.length ? keywords : undefined, dateTaken };
+}
+
+// ---------------------------------------------------------------------------
+// XMP
+// ---------------------------------------------------------------------------
+
+/** Values of an XMP array property (rdf:Bag, rdf:Seq or rdf:Alt), in order. */
+export function xmpValues(xml: string, property: string): string[] {
+  const block = xml.match(new RegExp(`<${property}\\b[^>]*>([\\s\\S]*?)</${property}>`));
+  if (!block) return [];
+  return [...block[1].matchAll(/<rdf:li\b[^>]*>([\s\S]*?)<\/rdf:li>/g)]
+    .map((m) => clean(decodeXml(m[1])))
+    .filter((s): s is string => !!s);
+}
+
+/** A simple XMP property, written either as an attribute or as an element. */
+export function xmpProperty(xml: string, property: string): string | undefined {
+  const match =
+    xml.match(new RegExp(`\\b${property}="([^"]*)"`)) ??
+    xml.match(new RegExp(`<${property}>([^<]*)</${property}>`));
+  return match ? clean(decodeXml(match[1])) : undefined;
+}
+
+function parseXmp(xml: string): EmbeddedMetadata {
+  const keywords = xmpValues(xml, "dc:subject");
+  const date =
+    xmpProperty(xml, "exif:DateTimeOriginal") ??
+    xmpProperty(xml, "photoshop:DateCreated") ??
+    xmpProperty(xml, "xmp:CreateDate");
+  return {
+    caption: xmpValues(xml, "dc:description")[0],
+    keywords: keywords.length ? keywords : undefined,
+    dateTaken: date ? xmpDate(date) : undefined,
+  };
+}
+
+/** XMP dates are ISO 8601 already; normalize to whole seconds, keeping date-only values as dates. */
+function xmpDate(value: string): string | undefined {
+  const match = value.match(/^(\d{4}-\d{2}-\d{2})(?:T(\d{2}:\d{2}(?::\d{2})?)(?:\.\d+)?(Z|[+-]\d{2}:\d{2})?)?$/);
+  if (!match) return undefined;
+  if (!match[2]) return match[1];
+  const time = match[2].length === 5 ? `${match[2]}:00` : match[2];
+  return `${match[1]}T${time}${match[3] ?? ""}`;
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, n) => String.fromCodePoint(parseInt(n, 10)))
+    .replace(/&#x([\da-f]+);/gi, (_, n) => String.fromCodePoint(parseInt(n, 16)))
+    .replace(/&amp;/g, "&");
+}
+
+// ---------------------------------------------------------------------------
+// ICC profile
+// ---------------------------------------------------------------------------
+
+/** The profile's description tag ('desc'), in v2 or v4 (mluc) form. */
+function iccDescription(icc: Buffer): string | undefined {
+  const tagCount = icc.readUInt32BE(128);
+  for (let i = 0; i < tagCount; i++) {
+    const at = 132 + i * 12;
+    if (icc.toString("latin1", at, at + 4) !== "desc") continue;
+    const offset = icc.readUInt32BE(at + 4);
+    const type = icc.toString("latin1", offset, offset + 4);
+
+    if (type === "desc") {
+      const length = icc.readUInt32BE(offset + 8);
+      return clean(icc.toString("latin1", offset + 12, offset + 12 + length).replace(/\0[\s\S]*$/, ""));
+    }
+    if (type === "mluc") {
+      // First record: language, country, length, offset (from tag start); UTF-16BE
+      const length = icc.readUInt32BE(offset + 20);
+      const start = offset + icc.readUInt32BE(offset + 24);
+      const utf16 = Buffer.from(icc.subarray(start, start + length)).swap16();
+      return clean(utf16.toString("utf16le"));
+    }
+  }
+  return undefined;
+}
+
+/** Trim, collapse whitespace and drop quotes so values sit safely in frontmatter. */
+function clean(value: string): string | undefined {
+  const cleaned = value.replace(/\0/g, "").replace(/"/g, "'").replace(/\s+/g, " ").trim();
+  return cleaned || undefined;
+}
@@ -2,8 +2,11 @@ import { readFile, stat } from "node:fs/promises";
 import { createHash } from "node:crypto";
 import { basename, extname } from "node:path";
 import imageSize from "image-size";
+import { probeAnimation } from "../animation.js";
+import { readEmbeddedMetadata, type EmbeddedMetadata } from "./exif.js";
 
-export interface ImageMetadata {
+/** File facts plus whatever EXIF, IPTC, XMP and ICC data the file carries. */
+export interface ImageMetadata extends EmbeddedMetadata {
   filename: string;
   basename: string;
   extension: string;
@@ -13,6 +16,24 @@ export interface ImageMetadata {
   sizeBytes: number;
   sizeHuman: string;
   sha256: string;
+  /** 1-based page number, for a rendered PDF page. */
+  page?: number;
+  /** Total pages, for PDFs and their pages. */
+  pageCount?: number;
+  /** Length in seconds, for videos, their frames and animations. */
+  duration?: number;
+  /** Video codec, e.g. "h264". */
+  codec?: string;
+  /** Position in seconds, for a sampled video frame. */
+  timestamp?: number;
+  /** Frames sampled, for videos; total frames, for animations. */
+  frameCount?: number;
+  /** Set for animated GIFs and APNGs. */
+  animated?: boolean;
+  /** Times an animation plays; 0 means it loops forever. */
+  loop?: number;
+  /** 64-bit perceptual hash as 16 hex digits; set for image files (not PDFs or videos) when sharp is installed. */
+  phash?: string;
 }
 
 export interface ExtractResult {
@@ -20,7 +41,38 @@ export interface ExtractResult {
   buffer: Buffer;
 }
 
-const SUPPORTED_EXTENSIONS = new Set([".png", ".jpg", ".jpeg", ".webp", ".gif"]);
+/** MIME types of every supported input format. Only the first four are sent to providers as-is. */
+export type ImageMimeType =
+  | "image/png"
+  | "image/jpeg"
+  | "image/webp"
+  | "image/gif"
+  | "image/heic"
+  | "image/heif"
+  | "image/avif"
+  | "image/tiff"
+  | "image/bmp"
+  | "image/svg+xml";
+
+const MIME_TYPES: Record<string, ImageMimeType> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+  ".gif": "image/gif",
+  ".heic": "image/heic",
+  ".heif": "image/heif",
+  ".avif": "image/avif",
+  ".tif": "image/tiff",
+  ".tiff": "image/tiff",
+  ".bmp": "image/bmp",
+  ".svg": "image/svg+xml",
+};
+
+// PDFs and videos, analyzed as rendered pages or sampled frames
+const MULTI_IMAGE_EXTENSIONS = [".pdf", ".mp4", ".mov", ".webm", ".m4v"];
+
+const SUPPORTED_EXTENSIONS = new Set([...Object.keys(MIME_TYPES), ...MULTI_IMAGE_EXTENSIONS]);
 
 const FORMAT_MAP: Record<string, string> = {
   png: "PNG",
@@ -28,6 +80,13 @@ const FORMAT_MAP: Record<string, string> = {
   jpeg: "JPEG",
   webp: "WebP",
   gif: "GIF",
+  heic: "HEIC",
+  heif: "HEIF",
+  avif: "AVIF",
+  tif: "TIFF",
+  tiff: "TIFF",
+  bmp: "BMP",
+  svg: "SVG",
 };
 
 export function isSupportedFormat(filePath: string): boolean {
@@ -35,24 +94,19 @@ export function isSupportedFormat(filePath: string): boolean {
 }
 
 export function getSupportedFormats(): string[] {
-  return [".png", ".jpg", ".jpeg", ".webp", ".gif"];
+  return [...SUPPORTED_EXTENSIONS];
 }
 
-function humanSize(bytes: number): string {
+export function humanSize(bytes: number): string {
   if (bytes < 1024) return `${bytes} B`;
   if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
   return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 }
 
-export function mimeTypeFromExtension(
-  ext: string
-): "image/png" | "image/jpeg" | "image/webp" | "image/gif" {
-  const lower = ext.toLowerCase();
-  if (lower === ".png") return "image/png";
-  if (lower === ".jpg" || lower === ".jpeg") return "image/jpeg";
-  if (lower === ".webp") return "image/webp";
-  if (lower === ".gif") return "image/gif";
-  throw new Error(`Unsupported extension: ${ext}`);
+export function mimeTypeFromExtension(ext: string): ImageMimeType {
+  const mimeType = MIME_TYPES[ext.toLowerCase()];
+  if (!mimeType) throw new Error(`Unsupported extension: ${ext}`);
+  return mimeType;
 }
 
 /**
@@ -85,14 +139,29 @@ export function extractMetadataFromBuffer(
     sizeBytes: buffer.length,
     sizeHuman: humanSize(buffer.length),
     sha256: hash,
+    ...animationFields(buffer),
+    ...readEmbeddedMetadata(buffer),
   };
 }
 
+/** Frame count, duration and loop for animated GIFs and APNGs; nothing for stills. */
+function animationFields(buffer: Buffer): Partial<ImageMetadata> {
+  const animation = probeAnimation(buffer);
+  if (!animation) return {};
+  return { animated: true, frameCount: animation.frameCount, duration: animation.duration, loop: animation.loop };
+}
+
 function extensionFromMimeType(mimeType: string): string {
   if (mimeType.includes("png")) return ".png";
   if (mimeType.includes("jpeg") || mimeType.includes("jpg")) return ".jpg";
   if (mimeType.includes("webp")) return ".webp";
   if (mimeType.includes("gif")) return ".gif";
+  if (mimeType.includes("heic")) return ".heic";
+  if (mimeType.includes("heif")) return ".heif";
+  if (mimeType.includes("avif")) return ".avif";
+  if (mimeType.includes("tiff")) return ".tiff";
+  if (mimeType.includes("bmp")) return ".bmp";
+  if (mimeType.includes("svg")) return ".svg";
   return ".png";
 }
 
@@ -117,6 +186,8 @@ export async function extractMetadata(filePath: string): Promise<ExtractResult>
       sizeBytes: fileStat.size,
       sizeHuman: humanSize(fileStat.size),
       sha256: hash,
+      ...animationFields(buffer),
+      ...readEmbeddedMetadata(buffer),
     },
     buffer,
   };
@@ -0,0 +1,115 @@
+import type { Provider, ProviderDefinition } from "./providers/types.js";
+import { requireProvider } from "./providers/registry.js";
+import { imageLimitsFor, type ImageLimits } from "./preprocess.js";
+
+/** Failures that hand an image to the next provider in the fallback chain. */
+export type FallbackReason = "rate_limit" | "overloaded" | "refusal" | "oversized";
+
+export const FALLBACK_REASONS: FallbackReason[] = ["rate_limit", "overloaded", "refusal", "oversized"];
+
+/** A provider/model to retry with after the primary fails. */
+export interface FallbackTarget {
+  provider: Provider;
+  providerName: string;
+  model?: string;
+  structured?: boolean;
+  imageLimits?: ImageLimits;
+}
+
+/** The model declined to describe the image. */
+export class RefusalError extends Error {
+  constructor(filename: string) {
+    super(`Model refused to process ${filename} — content may have been flagged by the provider's safety filter`);
+    this.name = "RefusalError";
+  }
+}
+
+/**
+ * Classify a provider error, or return null for failures that another
+ * provider wouldn't fix (bad key, malformed request, network down).
+ */
+export function fallbackReason(err: unknown): FallbackReason | null {
+  if (err instanceof RefusalError) return "refusal";
+
+  const status = (err as { status?: number } | null)?.status;
+  const message = err instanceof Error ? err.message : "";
+  if (status === 429) return "rate_limit";
+  if (status === 529 || status === 503 || /overloaded/i.test(message)) return "overloaded";
+  if (status === 413 || /image (exceeds|is too large)|too large|maximum allowed size/i.test(message)) {
+    return "oversized";
+  }
+  return null;
+}
+
+/**
+ * Resolve a model shorthand like "sonnet" to the provider's priced model
+ * containing it. Unknown names pass through unchanged.
+ */
+export function resolveFallbackModel(definition: ProviderDefinition, model: string): string {
+  if (definition.pricing[model]) return model;
+  if (definition.tiers?.[model]) return definition.tiers[model];
+  const matches = Object.keys(definition.pricing).filter((name) => name.includes(model));
+  return matches.length > 0 ? matches[0] : model;
+}
+
+/** One parsed `fallback` entry: "provider" or "provider:model". */
+export interface FallbackStep {
+  definition: ProviderDefinition;
+  model: string;
+}
+
+/**
+ * Parse `fallback` config entries into steps, dropping the primary and
+ * repeats so a chain may list the primary first. Throws for unknown providers.
+ */
+export function parseFallbackChain(
+  entries: string[],
+  primary: { providerName: string; model?: string }
+): FallbackStep[] {
+  const seen = new Set([`${primary.providerName}:${primary.model ?? requireProvider(primary.providerName).defaultModel}`]);
+  const steps: FallbackStep[] = [];
+
+  for (const entry of entries) {
+    const [name, ...rest] = entry.trim().split(":");
+    const definition = requireProvider(name);
+    const model = rest.length > 0 && rest.join(":")
+      ? resolveFallbackModel(definition, rest.join(":"))
+      : definition.defaultModel;
+
+    const key = `${definition.name}:${model}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    steps.push({ definition, model });
+  }
+
+  return steps;
+}
+
+/**
+ * Create providers for a parsed chain. Steps whose API key isn't set are
+ * left out and returned in `skipped` so callers can say why.
+ */
+export function createFallbackTargets(
+  steps: FallbackStep[],
+  structured = false
+): { targets: FallbackTarget[]; skipped: FallbackStep[] } {
+  const targets: FallbackTarget[] = [];
+  const skipped: FallbackStep[] = [];
+
+  for (const step of steps) {
+    const { definition, model } = step;
+    if (definition.apiKeyEnv && !process.env[definition.apiKeyEnv]) {
+      skipped.push(step);
+      continue;
+    }
+    targets.push({
+      provider: definition.create(),
+      providerName: definition.name,
+      model,
+      structured: structured && !!definition.capabilities.structuredOutput,
+      imageLimits: imageLimitsFor(definition.capabilities),
+    });
+  }
+
+  return { targets, skipped };
+}
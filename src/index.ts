@@ -1,18 +1,40 @@
-export { processFile, processBuffer, type ProcessOptions, type ProcessResult, type BufferInput } from "./processor.js";
-export { extractMetadata, extractMetadataFromBuffer, isSupportedFormat, getSupportedFormats, mimeTypeFromExtension, type ImageMetadata, type ExtractResult } from "./extractors/metadata.js";
+export { processFile, processBuffer, buildAnalyzeRequest, buildAnimationRequest, completeAnalysis, cacheKeyFor, runOcr, type ProcessOptions, type ProcessResult, type BufferInput, type FallbackUsed, type PreprocessInfo, type PageResult, type FrameResult, type Dimension } from "./processor.js";
+export { parseFallbackChain, createFallbackTargets, resolveFallbackModel, fallbackReason, RefusalError, FALLBACK_REASONS, type FallbackReason, type FallbackStep, type FallbackTarget } from "./fallback.js";
+export { prepareImage, prepareAnimationFrames, decodePixels, decodeGrayscale, decodeForOcr, prepareTiles, canPreprocess, imageLimitsFor, fitDimensions, isProviderMimeType, providerMimeType, type ImageLimits, type PreparedImage, type PreparedAnimation } from "./preprocess.js";
+export { probeAnimation, sampleFrameIndices, renderApngFrames, DEFAULT_ANIMATION_FRAMES, type AnimationInfo, type RgbaImage } from "./animation.js";
+export { extractPdf, openPdf, isPdf, parsePageRange, PDF_RENDER_DPI, type PdfDocument, type ExtractPdfResult } from "./pdf.js";
+export { extractVideo, probeVideo, detectKeyframes, extractFrame, formatTimestamp, isVideo, VIDEO_EXTENSIONS, DEFAULT_MAX_FRAMES, type VideoInfo, type ExtractVideoResult } from "./video.js";
+export { decodeBmp, type BmpPixels } from "./bmp.js";
+export { measureColors, mergeMeasuredColors, matchPaletteHex, COLOR_SOURCES, DEFAULT_COLOR_SOURCE, type ColorSource, type MeasuredColor } from "./colors.js";
+export { TesseractEngine, defaultOcrEngine, closeOcrEngines, recognizeImage, compareOcrText, mergeOcrResults, OCR_MODES, DEFAULT_OCR_LANGUAGE, type OcrMode, type OcrEngine, type OcrResult } from "./ocr.js";
+export { planTiles, tileCount, mergeTiles, mergeTileText, DEFAULT_TILE_SIZE, MIN_TILE_SIZE, type Tile, type TileAnalysis } from "./tiles.js";
+export { perceptualHash, computePerceptualHash, withPerceptualHash, hammingDistance, groupNearDuplicates, DEFAULT_DUPLICATE_DISTANCE, DEFAULT_REUSE_DISTANCE } from "./phash.js";
+export { findVault, loadVault, attachmentDir, notesDir, vaultPath, relativeLink, obsidianTags, OBSIDIAN_TEMPLATE_NAME, type ObsidianVault } from "./obsidian.js";
+export { extractMetadata, extractMetadataFromBuffer, isSupportedFormat, getSupportedFormats, mimeTypeFromExtension, type ImageMetadata, type ImageMimeType, type ExtractResult } from "./extractors/metadata.js";
+export { readEmbeddedMetadata, orientationName, type EmbeddedMetadata, type GpsPosition } from "./extractors/exif.js";
+export { embedMetadata, embedFile, embedResult, embedFieldsFrom, readEmbedFields, diffEmbedFields, buildXmp, canEmbed, EMBED_EXTENSIONS, type EmbedFields, type EmbedChange, type EmbedFileOptions, type EmbedOutcome } from "./embed.js";
 export { isUrl, looksLikeImageUrl, filenameFromUrl, fetchImage, screenshotPage, ContentTypeError } from "./url.js";
-export { parseResponse, type ParsedResponse } from "./parser.js";
-export { renderTemplate, stripFrontmatter } from "./templates/engine.js";
-export { DEFAULT_TEMPLATE, MINIMAL_TEMPLATE, ALT_TEXT_TEMPLATE, DETAILED_TEMPLATE, BUILTIN_TEMPLATES } from "./templates/builtins.js";
-export { loadTemplate } from "./templates/loader.js";
-export { buildSystemPrompt, buildUserPrompt, buildCompareSystemPrompt, buildCompareUserPrompt, formatCompareMarkdown } from "./prompts.js";
+export { parseResponse, parseJsonResponse, parseTileResponse, parseSections, findIncompleteSections, mergeParsed, type ParsedResponse } from "./parser.js";
+export { AnalysisSchema, analysisJsonSchema, ANALYSIS_SCHEMA_NAME, type Analysis } from "./schema.js";
+export { renderTemplate, inlinePartials, validateTemplate, validateFrontmatter, stripFrontmatter, type TemplateValue, type TemplateVars, type RenderOptions } from "./templates/engine.js";
+export { DEFAULT_TEMPLATE, MINIMAL_TEMPLATE, ALT_TEXT_TEMPLATE, DETAILED_TEMPLATE, OBSIDIAN_TEMPLATE, BUILTIN_TEMPLATES } from "./templates/builtins.js";
+export { loadTemplate, type LoadTemplateOptions } from "./templates/loader.js";
+export { buildSystemPrompt, buildUserPrompt, buildStructuredUserPrompt, buildFollowUpPrompt, buildAnimationUserPrompt, buildTileUserPrompt, buildKeywordHint, buildOcrHint, buildCompareSystemPrompt, buildCompareUserPrompt, formatCompareMarkdown } from "./prompts.js";
 export { discoverImages, runBatch, type DiscoverOptions, type BatchResult } from "./batch.js";
-export { sidecarPath, formatOutputPath, writeMarkdown, type WriteOptions } from "./output/writer.js";
-export { buildCacheKey, getCached, setCached, clearCache, getCacheStats, type CacheEntry, type CacheStats } from "./cache/store.js";
-export { loadConfig, mergeOptions, resolveTier, TIER_MAP, type M2mdConfig } from "./config.js";
+export { submitBatchJob, collectBatchJob, loadManifest, saveManifest, manifestPath, isBatchProvider, type BatchJobOptions, type BatchLimits, type BatchManifest, type BatchManifestItem, type SkippedBatchItem } from "./async-batch.js";
+export { RateLimiter, RateLimitedProvider, getRateLimiter, resetRateLimiters, RATE_LIMIT_RETRIES, type RateLimits, type RateLimiterOptions, type RateLimitedProviderOptions } from "./rate-limit.js";
+export { parseRateLimitHeaders, parseResetDuration, type HeadersLike } from "./providers/rate-limit-headers.js";
+export { sidecarPath, formatOutputPath, writeMarkdown, sidecarDiff, type WriteOptions, type SidecarOptions } from "./output/writer.js";
+export { mergeSidecar, MARKER_START, MARKER_END } from "./output/merge.js";
+export { OUTPUT_FORMATS, DEFAULT_OUTPUT_FORMAT, formatResults, resultRecord, outputExtension, type OutputFormat, type ResultRecord } from "./output/formats.js";
+export { buildCacheKey, getCached, setCached, clearCache, getCacheStats, indexSimilar, findSimilar, type CacheEntry, type CacheStats, type SimilarEntry } from "./cache/store.js";
+export { loadConfig, mergeOptions, resolveTier, registerConfigProviders, TIER_MAP, DEFAULT_REASK, type M2mdConfig, type ProviderConfig } from "./config.js";
 export { TYPES, CATEGORIES, STYLES, MOODS, MEDIUMS, COMPOSITIONS, buildTaxonomy, validateParsed, type Taxonomy, type TaxonomyOverrides, type ValidationResult } from "./taxonomy.js";
 export { startWatch, type WatchOptions } from "./watch.js";
-export { estimateCost, estimateImageTokens, formatCost, calculateCost, formatModel, type CostEstimate } from "./cost.js";
-export { AnthropicProvider, DEFAULT_ANTHROPIC_MODEL } from "./providers/anthropic.js";
-export { OpenAIProvider, DEFAULT_OPENAI_MODEL } from "./providers/openai.js";
-export type { Provider, ImageInput, AnalyzeOptions, ProviderResponse } from "./providers/types.js";
+export { estimateCost, estimateImageTokens, estimateInputTokens, formatCost, calculateCost, calculateUsageCost, cacheSavings, sumUsage, formatModel, BATCH_DISCOUNT, type CostEstimate, type PricingOptions, type EstimateOptions } from "./cost.js";
+export { AnthropicProvider, DEFAULT_ANTHROPIC_MODEL, anthropicDefinition, type AnthropicProviderOptions } from "./providers/anthropic.js";
+export { OpenAIProvider, DEFAULT_OPENAI_MODEL, openaiDefinition, type OpenAIProviderOptions } from "./providers/openai.js";
+export { defineOpenAICompatibleProvider, localDefinition, type OpenAICompatibleConfig } from "./providers/openai-compatible.js";
+export { ReplayProvider, RecordingProvider, replayDefinition, fixtureKey, replayDir, DEFAULT_REPLAY_DIR, type ReplayFixture } from "./providers/replay.js";
+export { registerProvider, getProviderDefinition, listProviders, providerNames, requireProvider, createProvider, getModelPricing } from "./providers/registry.js";
+export type { Provider, ImageInput, AnalyzeOptions, ProviderResponse, TokenUsage, ProviderDefinition, ProviderCapabilities, ModelPricing, ResponseSchema, RateLimitInfo, BatchProvider, BatchRequest, BatchJobStatus, BatchItemResult } from "./providers/types.js";
@@ -5,8 +5,15 @@ import { z } from "zod";
 import { processFile } from "./processor.js";
 import { loadTemplate } from "./templates/loader.js";
 import { stripFrontmatter } from "./templates/engine.js";
-import { AnthropicProvider, DEFAULT_ANTHROPIC_MODEL } from "./providers/anthropic.js";
-import { OpenAIProvider, DEFAULT_OPENAI_MODEL } from "./providers/openai.js";
+import { loadConfig, registerConfigProviders, DEFAULT_REASK } from "./config.js";
+import { parseFallbackChain, createFallbackTargets } from "./fallback.js";
+import { RateLimitedProvider } from "./rate-limit.js";
+import { imageLimitsFor } from "./preprocess.js";
+import { COLOR_SOURCES, DEFAULT_COLOR_SOURCE, type ColorSource } from "./colors.js";
+import { OCR_MODES, type OcrMode } from "./ocr.js";
+import { DEFAULT_TILE_SIZE, MIN_TILE_SIZE } from "./tiles.js";
+import { OUTPUT_FORMATS, formatResults, type OutputFormat } from "./output/formats.js";
+import { listProviders, providerNames, requireProvider } from "./providers/registry.js";
 import type { Provider } from "./providers/types.js";
 
 /**
@@ -15,7 +22,9 @@ import type { Provider } from "./providers/types.js";
  * so we spawn a login shell to extract them.
  */
 function resolveEnvKeys(): void {
-  const keys = ["ANTHROPIC_API_KEY", "OPENAI_API_KEY"];
+  const keys = listProviders()
+    .map((p) => p.apiKeyEnv)
+    .filter((k): k is string => !!k);
   const missing = keys.filter((k) => !process.env[k]);
   if (missing.length === 0) return;
 
@@ -54,68 +63,112 @@ function resolveEnvKeys(): void {
   }
 }
 
-resolveEnvKeys();
+/** Tile size from the `tile` parameter or config: true means the default, false or unset turns tiling off. */
+function tileSizeFrom(tile: boolean | number | undefined): number | undefined {
+  if (tile === true) return DEFAULT_TILE_SIZE;
+  return typeof tile === "number" && tile >= MIN_TILE_SIZE ? tile : undefined;
+}
 
 const server = new McpServer({
   name: "m2md",
   version: "0.1.0",
 });
 
-server.tool(
-  "describe_image",
-  "Analyze an image file and return structured markdown with AI-generated description, extracted text, and metadata",
-  {
-    filePath: z.string().describe("Absolute path to the image file. Example: /Users/me/screenshots/dashboard.png. Supported formats: PNG, JPEG, WebP, GIF."),
-    provider: z.enum(["anthropic", "openai"]).optional().describe("AI provider to use. 'anthropic' uses Claude (default, best quality), 'openai' uses GPT-4o (faster, cheaper)."),
-    model: z.string().optional().describe("AI model ID. Examples: 'claude-sonnet-4-5-20250929', 'gpt-4o', 'gpt-4o-mini'. Defaults to provider's best model."),
-    prompt: z.string().optional().describe("Custom instructions appended to the system prompt. Use for specialized analysis, e.g. 'List all visible product names and prices'."),
-    note: z.string().optional().describe("Focus directive layered on top of the analysis. Example: 'pay attention to color contrast and font sizes'."),
-    template: z.string().optional().describe("Output template. Built-in: 'default' (frontmatter + full description), 'minimal' (description + source link), 'alt-text' (description only), 'detailed' (metadata table + image embed). Or an absolute path to a custom .md template file."),
-    noFrontmatter: z.boolean().optional().describe("When true, strips the YAML frontmatter block from the output, returning only the markdown body."),
-  },
-  async ({ filePath, provider: providerName, model, prompt, note, template: templateName, noFrontmatter }) => {
-    try {
-      const name = providerName ?? "anthropic";
-      const defaultModel = name === "openai" ? DEFAULT_OPENAI_MODEL : DEFAULT_ANTHROPIC_MODEL;
-      const resolvedModel = model ?? defaultModel;
-
-      const apiKeyEnv = name === "openai" ? "OPENAI_API_KEY" : "ANTHROPIC_API_KEY";
-      if (!process.env[apiKeyEnv]) {
-        throw new Error(
-          `${apiKeyEnv} is not set. Add it to your shell profile or pass it via the MCP server env config.`
+function registerTools(): void {
+  const names = providerNames() as [string, ...string[]];
+
+  server.tool(
+    "describe_image",
+    "Analyze an image file and return structured markdown with AI-generated description, extracted text, and metadata",
+    {
+      filePath: z.string().describe("Absolute path to the image file. Example: /Users/me/screenshots/dashboard.png. Supported formats: PNG, JPEG, WebP, GIF, HEIC, AVIF, TIFF, BMP, SVG, PDF, MP4, MOV, WebM."),
+      provider: z.enum(names).optional().describe(`AI provider to use: ${names.map((n) => `'${n}'`).join(", ")}. 'anthropic' uses Claude (default, best quality), 'openai' uses GPT-4o (faster, cheaper).`),
+      model: z.string().optional().describe("AI model ID. Examples: 'claude-sonnet-4-5-20250929', 'gpt-4o', 'gpt-4o-mini'. Defaults to provider's best model."),
+      prompt: z.string().optional().describe("Custom instructions appended to the system prompt. Use for specialized analysis, e.g. 'List all visible product names and prices'."),
+      note: z.string().optional().describe("Focus directive layered on top of the analysis. Example: 'pay attention to color contrast and font sizes'."),
+      template: z.string().optional().describe("Output template. Built-in: 'default' (frontmatter + full description), 'minimal' (description + source link), 'alt-text' (description only), 'detailed' (metadata table + image embed), 'obsidian' (![[embed]], nested tags, Dataview fields). Or an absolute path to a custom .md template file."),
+      noFrontmatter: z.boolean().optional().describe("When true, strips the YAML frontmatter block from the output, returning only the markdown body."),
+      format: z.enum(OUTPUT_FORMATS as [OutputFormat, ...OutputFormat[]]).optional().describe("Output format: 'md' (default, the rendered template), 'json' (the full result with typed lists and file metadata), 'jsonl' (the same on one line) or 'csv' (a header and one row)."),
+      structured: z.boolean().optional().describe("When true, requests schema-validated JSON from the model instead of text sections. Ignored for providers without structured output support."),
+      reask: z.number().int().min(0).optional().describe(`How many times to re-ask the model for required sections missing from its answer. Defaults to ${DEFAULT_REASK}; 0 disables.`),
+      pages: z.string().optional().describe("For PDFs: pages to analyze, e.g. '1-5' or '2,4,9-'. Defaults to every page. The result has one section per page."),
+      maxFrames: z.number().int().min(1).optional().describe("Most frames to analyze: scene-change keyframes for videos (default 8, the result has a timestamped timeline section), or frames sent together for animated GIFs/APNGs (default 4, the result has a Motion section)."),
+      colorSource: z.enum(COLOR_SOURCES as [ColorSource, ...ColorSource[]]).optional().describe(`Where color_hex comes from: 'model' (the model's guess), 'measured' (dominant colors computed from the pixels), or 'both' (the model's, with color_hex_measured and palette_hex alongside). Defaults to '${DEFAULT_COLOR_SOURCE}'.`),
+      ocr: z.enum(OCR_MODES as [OcrMode, ...OcrMode[]]).optional().describe("Run local OCR (tesseract.js) on the image: 'ground' gives its text to the model as a reference, 'replace' uses it as the extracted text, 'check' reports lines the model and OCR disagree on. Adds ocr_confidence to the frontmatter. Off by default."),
+      tile: z.union([z.boolean(), z.number().int().min(MIN_TILE_SIZE)]).optional().describe(`For very large images (posters, scans, dense screenshots): also read the image as overlapping full-resolution tiles of this many pixels (true for ${DEFAULT_TILE_SIZE}), so small text isn't lost to downscaling. One extra request per tile. Off by default.`),
+    },
+    async ({ filePath, provider: providerName, model, prompt, note, template: templateName, noFrontmatter, format, structured, reask, pages, maxFrames, colorSource, ocr, tile }) => {
+      try {
+        const name = providerName ?? "anthropic";
+        const definition = requireProvider(name);
+        const resolvedModel = model ?? definition.defaultModel;
+
+        const apiKeyEnv = definition.apiKeyEnv;
+        if (apiKeyEnv && !process.env[apiKeyEnv]) {
+          throw new Error(
+            `${apiKeyEnv} is not set. Add it to your shell profile or pass it via the MCP server env config.`
+          );
+        }
+
+        // Calls share rate limits across requests; config sets the budgets
+        const config = await loadConfig();
+        const limited = (provider: Provider, providerName: string) =>
+          new RateLimitedProvider(provider, providerName, { maxConcurrency: config.concurrency, limits: config.rateLimits });
+
+        const providerInstance = limited(definition.create(), name);
+        const useStructured = structured === true && !!definition.capabilities.structuredOutput;
+
+        // Fallback chain comes from the config file; missing keys just shorten it
+        const { targets } = createFallbackTargets(
+          parseFallbackChain(config.fallback ?? [], { providerName: name, model: resolvedModel }),
+          useStructured
         );
-      }
+        const fallbacks = targets.map((target) => ({ ...target, provider: limited(target.provider, target.providerName) }));
 
-      const providerInstance: Provider = name === "openai"
-        ? new OpenAIProvider()
-        : new AnthropicProvider();
-
-      const template = await loadTemplate(templateName);
-
-      const result = await processFile(filePath, {
-        model: resolvedModel,
-        prompt,
-        note,
-        template,
-        templateName,
-        provider: providerInstance,
-        providerName: name,
-      });
-
-      const md = noFrontmatter ? stripFrontmatter(result.markdown) : result.markdown;
-      return {
-        content: [{ type: "text" as const, text: md }],
-      };
-    } catch (err) {
-      return {
-        content: [{ type: "text" as const, text: `Error: ${(err as Error).message}` }],
-        isError: true,
-      };
+        const template = await loadTemplate(templateName, { templatesDir: config.templatesDir });
+
+        const result = await processFile(filePath, {
+          model: resolvedModel,
+          prompt,
+          note,
+          template,
+          templateName,
+          provider: providerInstance,
+          providerName: name,
+          structured: useStructured,
+          reask: reask ?? DEFAULT_REASK,
+          fallbacks,
+          fallbackOn: config.fallbackOn,
+          imageLimits: imageLimitsFor(definition.capabilities),
+          pages,
+          maxFrames,
+          colorSource: colorSource ?? config.colorSource,
+          ocr: ocr ?? config.ocr,
+          ocrLanguage: config.ocrLanguage,
+          tileSize: tileSizeFrom(tile ?? config.tile),
+        });
+
+        const md = noFrontmatter ? stripFrontmatter(result.markdown) : result.markdown;
+        const text = formatResults([{ ...result, markdown: md }], format ?? config.format ?? "md");
+        return {
+          content: [{ type: "text" as const, text }],
+        };
+      } catch (err) {
+        return {
+          content: [{ type: "text" as const, text: `Error: ${(err as Error).message}` }],
+          isError: true,
+        };
+      }
     }
-  }
-);
+  );
+}
 
 async function main() {
+  // Config providers must be registered before the tool schema lists them
+  await registerConfigProviders(await loadConfig());
+  resolveEnvKeys();
+  registerTools();
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
 }
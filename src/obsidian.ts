@@ -0,0 +1,114 @@
+import { readFile, stat } from "node:fs/promises";
+import { dirname, isAbsolute, join, relative, resolve, sep } from "node:path";
+import { TAG_VOCABULARY } from "./taxonomy.js";
+
+/** Built-in template used by `--obsidian` unless another is given. */
+export const OBSIDIAN_TEMPLATE_NAME = "obsidian";
+
+/** Nested-tag parent for each TAG_VOCABULARY group: kraft-paper becomes material/kraft-paper. */
+const TAG_PARENTS: Record<keyof typeof TAG_VOCABULARY, string> = {
+  materials: "material",
+  techniques: "technique",
+  finishes: "finish",
+  effects: "effect",
+  photography: "photography",
+  production: "production",
+};
+
+const TAG_PARENT = new Map<string, string>(
+  Object.entries(TAG_VOCABULARY).flatMap(([group, tags]) =>
+    tags.map((tag): [string, string] => [tag, TAG_PARENTS[group as keyof typeof TAG_VOCABULARY]])
+  )
+);
+
+/** An Obsidian vault and the settings m2md follows from `.obsidian/app.json`. */
+export interface ObsidianVault {
+  /** Absolute path of the vault's root folder. */
+  root: string;
+  /**
+   * Obsidian's "Default location for new attachments": "/" for the vault
+   * root, "./" for the note's folder, "./sub" for a subfolder of it, or a
+   * folder path from the root.
+   */
+  attachmentFolder: string;
+  /** Folder for new notes, from the root, when Obsidian is set to use one. */
+  notesFolder?: string;
+}
+
+/** The vault containing `path`: the nearest folder upwards with a `.obsidian` folder in it. */
+export async function findVault(path: string): Promise<string | undefined> {
+  let dir = resolve(path);
+  if (!(await stat(dir).catch(() => null))?.isDirectory()) dir = dirname(dir);
+  for (;;) {
+    if ((await stat(join(dir, ".obsidian")).catch(() => null))?.isDirectory()) return dir;
+    const parent = dirname(dir);
+    if (parent === dir) return undefined;
+    dir = parent;
+  }
+}
+
+/** Read a vault's attachment and new-note folders. Missing settings mean Obsidian's defaults. */
+export async function loadVault(root: string): Promise<ObsidianVault> {
+  let settings: { attachmentFolderPath?: string; newFileLocation?: string; newFileFolderPath?: string } = {};
+  try {
+    settings = JSON.parse(await readFile(join(root, ".obsidian", "app.json"), "utf-8"));
+  } catch {
+    // No app.json until a setting is changed
+  }
+  return {
+    root: resolve(root),
+    attachmentFolder: settings.attachmentFolderPath ?? "/",
+    notesFolder: settings.newFileLocation === "folder" ? settings.newFileFolderPath : undefined,
+  };
+}
+
+/** Where a note's attachments go, following the vault's attachment setting. */
+export function attachmentDir(vault: ObsidianVault, noteDir: string): string {
+  const folder = vault.attachmentFolder;
+  if (folder === "" || folder === "/") return vault.root;
+  if (folder === "." || folder.startsWith("./")) return resolve(noteDir, folder);
+  return join(vault.root, folder);
+}
+
+/**
+ * Folder notes are written to: `notesDir` (from the vault root, or an
+ * absolute path), else the vault's new-note folder. Undefined means next
+ * to each image.
+ */
+export function notesDir(vault: ObsidianVault, configured?: string): string | undefined {
+  const folder = configured ?? vault.notesFolder;
+  if (!folder) return undefined;
+  return isAbsolute(folder) ? folder : join(vault.root, folder);
+}
+
+/**
+ * A file's path from the vault root, with forward slashes, as Obsidian
+ * writes absolute links. Throws for files outside the vault, which
+ * Obsidian can't embed.
+ */
+export function vaultPath(vault: ObsidianVault, file: string): string {
+  const path = relative(vault.root, resolve(file));
+  if (path.startsWith("..") || isAbsolute(path)) {
+    throw new Error(`${file} is outside the Obsidian vault ${vault.root}`);
+  }
+  return path.split(sep).join("/");
+}
+
+/** Markdown link from a note in `noteDir` to `file`: "./photo.png", "../attachments/photo.png". */
+export function relativeLink(noteDir: string, file: string): string {
+  const path = relative(resolve(noteDir), resolve(file)).split(sep).join("/");
+  return path.startsWith("../") ? path : `./${path}`;
+}
+
+/**
+ * Tags as Obsidian tags: vocabulary tags nest under their group
+ * (`material/kraft-paper`), others stay as they are. Characters Obsidian
+ * doesn't allow in tags become dashes, and all-digit tags are dropped.
+ */
+export function obsidianTags(tags: string[]): string[] {
+  const nested = tags
+    .map((tag) => tag.trim().replace(/\s+/g, "-").replace(/[^\p{L}\p{N}_/-]/gu, "-"))
+    .filter((tag) => tag && !/^\d+$/.test(tag))
+    .map((tag) => (TAG_PARENT.has(tag) ? `${TAG_PARENT.get(tag)}/${tag}` : tag));
+  return [...new Set(nested)];
+}
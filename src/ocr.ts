@@ -0,0 +1,186 @@
+import { mimeTypeFromExtension, type ImageMetadata } from "./extractors/metadata.js";
+import { decodeForOcr } from "./preprocess.js";
+
+/**
+ * How local OCR is used: sent to the model as grounding for its
+ * EXTRACTED_TEXT, used in place of it, or compared with it and any
+ * disagreement reported as validation warnings.
+ */
+export type OcrMode = "ground" | "replace" | "check";
+
+export const OCR_MODES: OcrMode[] = ["ground", "replace", "check"];
+
+/** Tesseract language(s), joined with "+" for several, e.g. "eng+deu". */
+export const DEFAULT_OCR_LANGUAGE = "eng";
+
+/** Text read by the OCR engine. */
+export interface OcrResult {
+  text: string;
+  /** Mean word confidence, 0-100. */
+  confidence: number;
+}
+
+/** A local OCR engine. Tests and library users can pass their own. */
+export interface OcrEngine {
+  recognize(image: Buffer): Promise<OcrResult>;
+}
+
+// Below this confidence the OCR text is too unreliable to judge the model's by
+const MIN_CHECK_CONFIDENCE = 60;
+// Share of a line's words the other text must contain for the line to count as found
+const LINE_MATCH = 0.5;
+// Lines quoted per warning; the rest are counted
+const QUOTED_LINES = 3;
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+let tesseractModule: any | undefined;
+
+/** Load tesseract.js (optional dependency) once. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function loadTesseract(): Promise<any> {
+  if (!tesseractModule) {
+    try {
+      // Dynamic module name to avoid TypeScript resolving the optional dep
+      const mod = ["tesseract", ".js"].join("");
+      tesseractModule = await import(mod);
+    } catch {
+      throw new Error(
+        `--ocr needs tesseract.js to read text locally.\n` +
+        `Install it with:\n\n` +
+        `  npm install tesseract.js\n`
+      );
+    }
+  }
+  return tesseractModule;
+}
+
+/**
+ * Tesseract compiled to WebAssembly (tesseract.js). The worker and its
+ * language data are loaded on first use and kept until `terminate()`.
+ */
+export class TesseractEngine implements OcrEngine {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private worker: Promise<any> | null = null;
+
+  constructor(private language = DEFAULT_OCR_LANGUAGE) {}
+
+  async recognize(image: Buffer): Promise<OcrResult> {
+    if (!this.worker) {
+      this.worker = loadTesseract().then((tesseract) => tesseract.createWorker(this.language));
+      // Let the next call retry instead of reusing a failed load
+      this.worker.catch(() => { this.worker = null; });
+    }
+    const { data } = await (await this.worker).recognize(image);
+    return { text: cleanOcrText(data.text ?? ""), confidence: Math.round((data.confidence ?? 0) * 10) / 10 };
+  }
+
+  async terminate(): Promise<void> {
+    const worker = this.worker;
+    this.worker = null;
+    if (worker) await (await worker).terminate();
+  }
+}
+
+const engines = new Map<string, TesseractEngine>();
+
+/** The shared Tesseract engine for a language, created on first use. */
+export function defaultOcrEngine(language = DEFAULT_OCR_LANGUAGE): TesseractEngine {
+  let engine = engines.get(language);
+  if (!engine) {
+    engine = new TesseractEngine(language);
+    engines.set(language, engine);
+  }
+  return engine;
+}
+
+/**
+ * Stop the shared Tesseract workers. Their threads keep Node running, so
+ * call this once a run is done.
+ */
+export async function closeOcrEngines(): Promise<void> {
+  const running = [...engines.values()];
+  engines.clear();
+  await Promise.all(running.map((engine) => engine.terminate()));
+}
+
+/**
+ * OCR an image file at full resolution. Null when the format can't be
+ * decoded for OCR (sharp isn't installed, or HEVC HEIC without heic-convert).
+ */
+export async function recognizeImage(
+  buffer: Buffer,
+  metadata: Pick<ImageMetadata, "extension" | "width" | "height">,
+  engine: OcrEngine
+): Promise<OcrResult | null> {
+  const image = await decodeForOcr(buffer, mimeTypeFromExtension(metadata.extension), metadata);
+  return image ? engine.recognize(image) : null;
+}
+
+/** Trim trailing spaces and collapse the blank lines Tesseract leaves between blocks. */
+function cleanOcrText(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/** Lowercase words of two or more letters or digits, without `**Label:**` prefixes. */
+function words(line: string): string[] {
+  return line.replace(/\*\*[^*]+:\*\*/g, " ").toLowerCase().match(/[\p{L}\p{N}]{2,}/gu) ?? [];
+}
+
+/** Lines of at least two words whose words are mostly missing from `other`. */
+function unmatchedLines(text: string, other: Set<string>): string[] {
+  return text
+    .split("\n")
+    .filter((line) => {
+      const lineWords = words(line);
+      if (lineWords.length < 2) return false;
+      return lineWords.filter((word) => other.has(word)).length / lineWords.length < LINE_MATCH;
+    })
+    .map((line) => line.replace(/\*\*[^*]+:\*\*/g, "").trim());
+}
+
+function quoteLines(lines: string[]): string {
+  const quoted = lines.slice(0, QUOTED_LINES).map((line) => `"${line}"`).join(", ");
+  return lines.length > QUOTED_LINES ? `${quoted} and ${lines.length - QUOTED_LINES} more` : quoted;
+}
+
+/**
+ * Compare the model's extracted text with the OCR's, line by line on the
+ * words they contain. Returns one warning for lines the model left out and
+ * one for lines the OCR didn't see, which are often hallucinated.
+ */
+export function compareOcrText(extractedText: string, ocr: OcrResult): string[] {
+  if (ocr.confidence < MIN_CHECK_CONFIDENCE) {
+    return [`OCR: confidence ${ocr.confidence}% is too low to cross-check the extracted text`];
+  }
+  const modelText = extractedText.trim().toLowerCase() === "none" ? "" : extractedText;
+  const missed = unmatchedLines(ocr.text, new Set(words(modelText)));
+  const unseen = unmatchedLines(modelText, new Set(words(ocr.text)));
+
+  const warnings: string[] = [];
+  if (missed.length > 0) {
+    warnings.push(`OCR: ${missed.length} line${missed.length !== 1 ? "s" : ""} missing from the extracted text: ${quoteLines(missed)}`);
+  }
+  if (unseen.length > 0) {
+    warnings.push(`OCR: ${unseen.length} extracted line${unseen.length !== 1 ? "s" : ""} not found by OCR: ${quoteLines(unseen)}`);
+  }
+  return warnings;
+}
+
+/**
+ * OCR of a file analyzed in parts (PDF pages, video frames): the parts'
+ * text in order, and their mean confidence.
+ */
+export function mergeOcrResults(parts: (OcrResult | undefined)[]): OcrResult | undefined {
+  const results = parts.filter((part): part is OcrResult => part !== undefined);
+  if (results.length === 0) return undefined;
+  const confidence = results.reduce((sum, r) => sum + r.confidence, 0) / results.length;
+  return {
+    text: results.map((r) => r.text).filter(Boolean).join("\n\n"),
+    confidence: Math.round(confidence * 10) / 10,
+  };
+}
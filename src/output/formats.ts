@@ -0,0 +1,129 @@
+import { splitList, splitLines, parseDimension, type Dimension, type ProcessResult } from "../processor.js";
+
+export type OutputFormat = "md" | "json" | "jsonl" | "csv";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["md", "json", "jsonl", "csv"];
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = "md";
+
+/** Formats written once per batch to stdout rather than as one sidecar per image. */
+export const STREAM_FORMATS: readonly OutputFormat[] = ["jsonl", "csv"];
+
+/** Comma-separated fields of a result, which records hold as lists. */
+const LIST_FIELDS = [
+  "category", "style", "mood", "composition", "palette", "colors", "tags",
+  "visualElements", "references", "useCase", "colorHex",
+  "era", "artifact", "typography", "script", "culturalInfluence",
+] as const;
+type ListField = (typeof LIST_FIELDS)[number];
+
+/** A ProcessResult with its list fields as arrays, ready to serialize. */
+export type ResultRecord = Omit<ProcessResult, ListField | "searchPhrases" | "dimensions" | "pages" | "frames"> &
+  Record<ListField | "searchPhrases", string[]> & {
+    dimensions: Dimension[];
+    pages?: (ResultRecord & { page: number })[];
+    frames?: (ResultRecord & { timestamp: number })[];
+  };
+
+/** File extension of a sidecar in this format. */
+export function outputExtension(format: OutputFormat): string {
+  return `.${format}`;
+}
+
+/** The full result with typed lists, as written by the JSON formats; pages and frames nest. */
+export function resultRecord(result: ProcessResult): ResultRecord {
+  const { pages, frames, ...rest } = result;
+  const lists = Object.fromEntries(LIST_FIELDS.map((field) => [field, splitList(result[field])])) as Record<ListField, string[]>;
+  const record: ResultRecord = {
+    ...rest,
+    ...lists,
+    searchPhrases: splitLines(result.searchPhrases),
+    dimensions: splitLines(result.dimensions).map(parseDimension),
+  };
+  if (pages) record.pages = pages.map((page) => ({ ...resultRecord(page), page: page.page }));
+  if (frames) record.frames = frames.map((frame) => ({ ...resultRecord(frame), timestamp: frame.timestamp }));
+  return record;
+}
+
+const list = (items: string[]) => items.join("; ");
+
+/** CSV columns: header and cell. Lists are joined with "; ". */
+const CSV_COLUMNS: [string, (r: ResultRecord) => string | number | boolean | undefined][] = [
+  ["file", (r) => r.metadata.filename],
+  ["type", (r) => r.type],
+  ["subject", (r) => r.subject],
+  ["description", (r) => r.description],
+  ["extracted_text", (r) => r.extractedText],
+  ["category", (r) => list(r.category)],
+  ["style", (r) => list(r.style)],
+  ["mood", (r) => list(r.mood)],
+  ["medium", (r) => r.medium],
+  ["composition", (r) => list(r.composition)],
+  ["palette", (r) => list(r.palette)],
+  ["colors", (r) => list(r.colors)],
+  ["color_hex", (r) => list(r.colorHex)],
+  ["tags", (r) => list(r.tags)],
+  ["visual_elements", (r) => list(r.visualElements)],
+  ["references", (r) => list(r.references)],
+  ["use_case", (r) => list(r.useCase)],
+  ["era", (r) => list(r.era)],
+  ["artifact", (r) => list(r.artifact)],
+  ["typography", (r) => list(r.typography)],
+  ["script", (r) => list(r.script)],
+  ["cultural_influence", (r) => list(r.culturalInfluence)],
+  ["search_phrases", (r) => list(r.searchPhrases)],
+  ["dimensions", (r) => list(r.dimensions.map((d) => (d.description ? `${d.name}: ${d.description}` : d.name)))],
+  ["motion", (r) => r.motion],
+  ["format", (r) => r.metadata.format],
+  ["width", (r) => r.metadata.width],
+  ["height", (r) => r.metadata.height],
+  ["size_bytes", (r) => r.metadata.sizeBytes],
+  ["sha256", (r) => r.metadata.sha256],
+  ["phash", (r) => r.metadata.phash],
+  ["page_count", (r) => r.metadata.pageCount],
+  ["duration", (r) => r.metadata.duration],
+  ["date_taken", (r) => r.metadata.dateTaken],
+  ["camera", (r) => r.metadata.camera],
+  ["lens", (r) => r.metadata.lens],
+  ["latitude", (r) => r.metadata.gps?.latitude],
+  ["longitude", (r) => r.metadata.gps?.longitude],
+  ["model", (r) => r.model],
+  ["cached", (r) => r.cached],
+];
+
+function csvCell(value: string | number | boolean | undefined): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvHeader(): string {
+  return CSV_COLUMNS.map(([name]) => name).join(",") + "\n";
+}
+
+/**
+ * Serialize results as one document: markdown joined by `---` separators,
+ * a JSON object (or array for several), one JSON line each, or CSV rows
+ * (after a header unless `header` is false).
+ */
+export function formatResults(
+  results: ProcessResult[],
+  format: OutputFormat,
+  options: { header?: boolean } = {}
+): string {
+  switch (format) {
+    case "md":
+      return results.map((r) => r.markdown).join("\n---\n\n");
+    case "json": {
+      const records = results.map(resultRecord);
+      return JSON.stringify(records.length === 1 ? records[0] : records, null, 2) + "\n";
+    }
+    case "jsonl":
+      return results.map((r) => JSON.stringify(resultRecord(r)) + "\n").join("");
+    case "csv": {
+      const rows = results.map((r) => {
+        const record = resultRecord(r);
+        return CSV_COLUMNS.map(([, cell]) => csvCell(cell(record))).join(",") + "\n";
+      });
+      return (options.header === false ? "" : csvHeader()) + rows.join("");
+    }
+  }
+}
@@ -0,0 +1,104 @@
+import { Document, parseDocument, isMap } from "yaml";
+import { FRONTMATTER, YAML_OPTIONS } from "../templates/engine.js";
+
+/** The generated part of a sidecar sits between these; anything around them is the user's. */
+export const MARKER_START = "<!-- m2md:start -->";
+export const MARKER_END = "<!-- m2md:end -->";
+
+/**
+ * Merge a freshly rendered sidecar into the one on disk, keeping what a
+ * person changed:
+ *
+ * - fields named in the existing frontmatter's `locked` list (`subject`,
+ *   `exif.camera` for nested ones) keep their value, as does `locked`
+ * - text before `<!-- m2md:start -->` and after `<!-- m2md:end -->` is
+ *   kept; only the part between the markers is replaced
+ *
+ * Everything else is regenerated, including fields a person added but
+ * didn't lock. The generated body is wrapped in the markers unless the
+ * template places them itself. A file without markers (written before
+ * they existed) has its body replaced only if it matches the generated
+ * one; otherwise it may hold edits, so it is kept after the new markers.
+ */
+export function mergeSidecar(generated: string, existing: string | null): string {
+  const fresh = splitSidecar(generated);
+  const body = wrapBody(fresh.body);
+  if (existing === null) return fresh.frontmatter + body;
+
+  const old = splitSidecar(existing);
+  return mergeFrontmatter(fresh.frontmatter, old.frontmatter) + mergeBody(body, old.body);
+}
+
+/** Frontmatter (with its `---` lines, or "") and the body after it. */
+function splitSidecar(markdown: string): { frontmatter: string; body: string } {
+  const match = markdown.match(FRONTMATTER);
+  const frontmatter = match ? match[0].endsWith("\n") ? match[0] : `${match[0]}\n` : "";
+  return { frontmatter, body: markdown.slice(match?.[0].length ?? 0) };
+}
+
+/** A generated body between the markers, after its leading blank lines. */
+function wrapBody(body: string): string {
+  if (body.includes(MARKER_START)) return body;
+  const blank = body.match(/^\n*/)![0];
+  const text = body.slice(blank.length);
+  return `${blank}${MARKER_START}\n${text}${text && !text.endsWith("\n") ? "\n" : ""}${MARKER_END}\n`;
+}
+
+/** Where the markers are in a body, or null if it has none. Throws for a half-marked body. */
+function markers(body: string, label: string): { start: number; end: number } | null {
+  const start = body.indexOf(MARKER_START);
+  const end = body.indexOf(MARKER_END, start + MARKER_START.length);
+  if (start === -1 && !body.includes(MARKER_END)) return null;
+  if (start === -1 || end === -1) {
+    throw new Error(`${label} has ${start === -1 ? MARKER_END : MARKER_START} without a matching ${start === -1 ? MARKER_START : MARKER_END}`);
+  }
+  return { start, end: end + MARKER_END.length };
+}
+
+/** The existing body with the generated part between its markers replaced. */
+function mergeBody(body: string, existing: string): string {
+  const old = markers(existing, "The existing sidecar");
+  if (!old) {
+    const kept = existing.replace(/^\n+/, "");
+    return kept.trim() === "" || kept.trim() === withoutMarkers(body).trim() ? body : `${body}\n${kept}`;
+  }
+  const fresh = markers(body, "The template")!;
+  return existing.slice(0, old.start) + body.slice(fresh.start, fresh.end) + existing.slice(old.end);
+}
+
+/** A body with its marker lines taken out. */
+function withoutMarkers(body: string): string {
+  return body.replace(`${MARKER_START}\n`, "").replace(`${MARKER_END}\n`, "");
+}
+
+/**
+ * The generated frontmatter with the existing file's locked fields put
+ * back; just those fields if the template writes none.
+ */
+function mergeFrontmatter(frontmatter: string, existing: string): string {
+  const locked = lockedFields(existing);
+  if (locked.length === 0) return frontmatter;
+
+  const oldDoc = parseDocument(existing.match(FRONTMATTER)![1]);
+  const doc = frontmatter ? parseDocument(frontmatter.match(FRONTMATTER)![1]) : new Document({});
+  if (!isMap(doc.contents)) return frontmatter;
+  for (const field of [...locked, "locked"]) {
+    const path = field.split(".");
+    if (oldDoc.hasIn(path)) doc.setIn(path, oldDoc.getIn(path, true));
+  }
+  return `---\n${doc.toString(YAML_OPTIONS)}---\n`;
+}
+
+/**
+ * Field names in a frontmatter's `locked` list (or comma-separated
+ * string). None when there's no frontmatter or it isn't valid YAML.
+ */
+function lockedFields(frontmatter: string): string[] {
+  const match = frontmatter.match(FRONTMATTER);
+  if (!match) return [];
+  const doc = parseDocument(match[1]);
+  if (doc.errors.length > 0 || !isMap(doc.contents)) return [];
+  const locked: unknown = doc.toJS().locked;
+  const fields = Array.isArray(locked) ? locked : typeof locked === "string" ? locked.split(",") : [];
+  return fields.map((field) => String(field).trim()).filter(Boolean);
+}
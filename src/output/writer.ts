@@ -1,5 +1,7 @@
-import { writeFile, mkdir } from "node:fs/promises";
+import { writeFile, mkdir, readFile } from "node:fs/promises";
 import { dirname, join, basename, extname } from "node:path";
+import { mergeSidecar } from "./merge.js";
+import { unifiedDiff } from "../utils/diff.js";
 
 export interface WriteOptions {
   /** Output directory. If set, writes there instead of sidecar. */
@@ -8,8 +10,9 @@ export interface WriteOptions {
   stdout?: boolean;
 }
 
-export function sidecarPath(imagePath: string, outputDir?: string): string {
-  const name = basename(imagePath, extname(imagePath)) + ".md";
+/** Path of the file written for an image; `extension` is ".json" for JSON sidecars. */
+export function sidecarPath(imagePath: string, outputDir?: string, extension = ".md"): string {
+  const name = basename(imagePath, extname(imagePath)) + extension;
   if (outputDir) {
     return join(outputDir, name);
   }
@@ -19,13 +22,14 @@ export function sidecarPath(imagePath: string, outputDir?: string): string {
 /**
  * Build an output path from a naming pattern.
  * Supported placeholders: {filename}, {date}, {type}, {subject}
- * Always appends .md if not already present.
+ * Always appends the extension (.md by default) if not already present.
  */
 export function formatOutputPath(
   imagePath: string,
   pattern: string,
   vars: { date?: string; type?: string; subject?: string },
   outputDir?: string,
+  extension = ".md",
 ): string {
   const base = basename(imagePath, extname(imagePath));
   const date = vars.date ?? new Date().toISOString().split("T")[0];
@@ -36,7 +40,7 @@ export function formatOutputPath(
     .replace(/\{type\}/g, slugify(vars.type || "image"))
     .replace(/\{subject\}/g, slugify(vars.subject || base));
 
-  if (!name.endsWith(".md")) name += ".md";
+  if (!name.endsWith(extension)) name += extension;
 
   const dir = outputDir ?? dirname(imagePath);
   return join(dir, name);
@@ -49,10 +53,41 @@ function slugify(str: string): string {
     .replace(/^-|-$/g, "");
 }
 
+export interface SidecarOptions {
+  /** Merge into an existing markdown sidecar, keeping locked fields and text outside the markers. */
+  merge?: boolean;
+}
+
+/** Write a sidecar: markdown, or a result serialized in another output format. */
 export async function writeMarkdown(
   markdown: string,
-  outputPath: string
+  outputPath: string,
+  options: SidecarOptions = {}
 ): Promise<void> {
+  const { content } = await sidecarContent(markdown, outputPath, options);
   await mkdir(dirname(outputPath), { recursive: true });
-  await writeFile(outputPath, markdown, "utf-8");
+  await writeFile(outputPath, content, "utf-8");
+}
+
+/** Unified diff of what writeMarkdown would change in `outputPath`; empty if nothing. */
+export async function sidecarDiff(
+  markdown: string,
+  outputPath: string,
+  options: SidecarOptions = {}
+): Promise<string> {
+  const { content, existing } = await sidecarContent(markdown, outputPath, options);
+  return unifiedDiff(existing ?? "", content, existing === null ? "/dev/null" : outputPath, outputPath);
+}
+
+/** What writing a sidecar puts in `outputPath`, and what's there now (null if nothing). */
+async function sidecarContent(
+  markdown: string,
+  outputPath: string,
+  options: SidecarOptions
+): Promise<{ content: string; existing: string | null }> {
+  const existing = await readFile(outputPath, "utf-8").catch((err: NodeJS.ErrnoException) => {
+    if (err.code === "ENOENT") return null;
+    throw err;
+  });
+  return { content: options.merge ? mergeSidecar(markdown, existing) : markdown, existing };
 }
@@ -1,3 +1,5 @@
+import { AnalysisSchema, type Analysis } from "./schema.js";
+
 export interface ParsedResponse {
   type: string;
   category: string;
@@ -22,6 +24,8 @@ export interface ParsedResponse {
   searchPhrases: string;
   dimensions: string;
   extractedText: string;
+  /** How an animation moves between frames; empty for still images. */
+  motion: string;
 }
 
 const VALID_TYPES = new Set([
@@ -47,7 +51,7 @@ const ALL_SECTIONS = [
   "PALETTE", "SUBJECT", "COLORS", "TAGS",
   "VISUAL_ELEMENTS", "REFERENCES", "USE_CASE", "COLOR_HEX",
   "ERA", "ARTIFACT", "TYPOGRAPHY", "SCRIPT", "CULTURAL_INFLUENCE",
-  "DESCRIPTION", "SEARCH_PHRASES", "DIMENSIONS", "EXTRACTED_TEXT",
+  "DESCRIPTION", "SEARCH_PHRASES", "DIMENSIONS", "EXTRACTED_TEXT", "MOTION",
 ];
 
 const SECTION_BOUNDARY = ALL_SECTIONS.join("|");
@@ -120,9 +124,11 @@ function parseStructured(
   const description = extractMultiLine(rawText, "DESCRIPTION", SECTION_BOUNDARY);
   const searchPhrases = extractMultiLine(rawText, "SEARCH_PHRASES", SECTION_BOUNDARY);
   const dimensions = extractMultiLine(rawText, "DIMENSIONS", SECTION_BOUNDARY);
+  let motion = extractMultiLine(rawText, "MOTION", SECTION_BOUNDARY);
+  if (motion.toLowerCase() === "none") motion = "";
 
-  // EXTRACTED_TEXT captures to EOF
-  const textMatch = rawText.match(/EXTRACTED_TEXT:\s*\n([\s\S]*?)$/);
+  // EXTRACTED_TEXT captures to EOF, or to MOTION when an animation's answer puts it last
+  const textMatch = rawText.match(/EXTRACTED_TEXT:\s*\n([\s\S]*?)(?=\nMOTION:|$)/);
   let extractedText = "";
 
   if (textMatch) {
@@ -136,7 +142,7 @@ function parseStructured(
     type, category, style, mood, medium, composition, palette,
     subject, colors, tags, visualElements, references, useCase, colorHex,
     era, artifact, typography, script, culturalInfluence,
-    description, searchPhrases, dimensions, extractedText,
+    description, searchPhrases, dimensions, extractedText, motion,
   };
 }
 
@@ -170,6 +176,7 @@ function parseLegacy(rawText: string): ParsedResponse {
     searchPhrases: "",
     dimensions: "",
     extractedText: "",
+    motion: "",
   };
 
   // Fallback: if format wasn't followed, use entire response as description
@@ -189,3 +196,228 @@ function parseLegacy(rawText: string): ParsedResponse {
 
   return { ...empty, description, extractedText };
 }
+
+/**
+ * Parse a structured-output (JSON) response and validate it against
+ * AnalysisSchema. Returns null when the text isn't a JSON object, so callers
+ * can fall back to the section format. Fields that fail validation are
+ * dropped individually and reported in `issues` instead of discarding the
+ * whole response.
+ */
+export function parseJsonResponse(
+  rawText: string
+): { parsed: ParsedResponse; issues: string[] } | null {
+  let data: unknown;
+  try {
+    // Some models wrap JSON in a markdown code fence despite the schema
+    data = JSON.parse(rawText.trim().replace(/^```(?:json)?\s*\n?|\n?```$/g, ""));
+  } catch {
+    return null;
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) return null;
+
+  // Motion is only asked of animations, so a response without it is still complete
+  const record: Record<string, unknown> = { motion: "", ...data };
+  const result = AnalysisSchema.safeParse(record);
+  if (result.success) {
+    return { parsed: analysisToParsed(result.data), issues: [] };
+  }
+
+  const issues = result.error.issues.map(
+    (issue) => `${issue.path.join(".") || "response"}: ${issue.message}`
+  );
+  const partial: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(AnalysisSchema.shape)) {
+    const fieldResult = field.safeParse(record[key]);
+    if (fieldResult.success) partial[key] = fieldResult.data;
+  }
+
+  return { parsed: analysisToParsed(partial as Partial<Analysis>), issues };
+}
+
+/** Drop "none" placeholders and blanks the model may still emit inside arrays. */
+function cleanList(values: string[] | undefined): string[] {
+  return (values ?? [])
+    .map((v) => v.trim())
+    .filter((v) => v && v.toLowerCase() !== "none");
+}
+
+/**
+ * Flatten a (possibly partial) Analysis into the string-based ParsedResponse
+ * the rest of the pipeline consumes, using the same joins as the text format.
+ */
+function analysisToParsed(analysis: Partial<Analysis>): ParsedResponse {
+  const list = (values: string[] | undefined) => cleanList(values).join(", ");
+  const rawType = (analysis.type ?? "").trim().toLowerCase();
+  const palette = list(analysis.palette);
+  const extractedText = (analysis.extractedText ?? "").trim();
+
+  return {
+    type: VALID_TYPES.has(rawType) ? rawType : "other",
+    category: list(analysis.category),
+    style: list(analysis.style),
+    mood: list(analysis.mood),
+    medium: (analysis.medium ?? "").trim(),
+    composition: list(analysis.composition),
+    palette,
+    subject: (analysis.subject ?? "").trim().slice(0, 80),
+    colors: palette,
+    tags: list(analysis.tags),
+    visualElements: list(analysis.visualElements),
+    references: list(analysis.references),
+    useCase: list(analysis.useCase),
+    colorHex: list(analysis.colorHex),
+    era: list(analysis.era),
+    artifact: list(analysis.artifact),
+    typography: list(analysis.typography),
+    script: list(analysis.script),
+    culturalInfluence: list(analysis.culturalInfluence),
+    description: (analysis.description ?? "").trim(),
+    searchPhrases: cleanList(analysis.searchPhrases).join("\n"),
+    dimensions: (analysis.dimensions ?? [])
+      .filter((d) => d.name?.trim())
+      .map((d) => `${d.name.trim()}: ${d.description.trim()}`)
+      .join("\n"),
+    extractedText: extractedText.toLowerCase() === "none" ? "" : extractedText,
+    motion: (analysis.motion ?? "").trim(),
+  };
+}
+
+/** Section header → ParsedResponse field, for sections the re-ask loop can request. */
+const SECTION_FIELDS: Record<string, keyof ParsedResponse> = {
+  TYPE: "type",
+  CATEGORY: "category",
+  STYLE: "style",
+  MOOD: "mood",
+  MEDIUM: "medium",
+  COMPOSITION: "composition",
+  PALETTE: "palette",
+  SUBJECT: "subject",
+  TAGS: "tags",
+  VISUAL_ELEMENTS: "visualElements",
+  USE_CASE: "useCase",
+  COLOR_HEX: "colorHex",
+  ERA: "era",
+  DESCRIPTION: "description",
+  SEARCH_PHRASES: "searchPhrases",
+  DIMENSIONS: "dimensions",
+};
+
+const MULTI_LINE_SECTIONS = new Set(["DESCRIPTION", "SEARCH_PHRASES", "DIMENSIONS"]);
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * List the required sections a parsed response is missing or got wrong,
+ * as section headers (e.g. "COLOR_HEX"). Sections the prompt allows to be
+ * "none" (REFERENCES, ARTIFACT, TYPOGRAPHY, …) are never reported.
+ */
+export function findIncompleteSections(parsed: ParsedResponse): string[] {
+  const incomplete: string[] = [];
+
+  for (const [section, field] of Object.entries(SECTION_FIELDS)) {
+    const value = parsed[field].trim();
+    if (!value) {
+      incomplete.push(section);
+    } else if (section === "COLOR_HEX" && !value.split(",").every((c) => HEX_COLOR.test(c.trim()))) {
+      incomplete.push(section);
+    } else if (section === "DIMENSIONS" && !value.split("\n").every((l) => !l.trim() || l.includes(":"))) {
+      incomplete.push(section);
+    }
+  }
+
+  // The legacy fallback labels everything "other" — only trust TYPE when SUBJECT came through too
+  if (!incomplete.includes("SUBJECT")) return incomplete;
+  return incomplete.includes("TYPE") ? incomplete : ["TYPE", ...incomplete];
+}
+
+/**
+ * Parse a follow-up answer that contains only some sections. Returns just
+ * the fields that were found, so they can be merged over the first answer.
+ */
+export function parseSections(rawText: string, sections: string[]): Partial<ParsedResponse> {
+  const result: Partial<ParsedResponse> = {};
+
+  for (const section of sections) {
+    const field = SECTION_FIELDS[section];
+    if (!field) continue;
+
+    let value = MULTI_LINE_SECTIONS.has(section)
+      ? extractMultiLine(rawText, section, SECTION_BOUNDARY)
+      : extractSingleLine(rawText, section);
+    if (!value || value.toLowerCase() === "none") continue;
+
+    if (section === "TYPE") {
+      value = value.toLowerCase();
+      if (!VALID_TYPES.has(value)) continue;
+    }
+    if (section === "SUBJECT") value = value.slice(0, 80);
+
+    result[field] = value;
+    if (section === "PALETTE") result.colors = value;
+  }
+
+  return result;
+}
+
+/**
+ * Parse the answer for one tile of a tiled image: its EXTRACTED_TEXT
+ * (lines kept as written) and VISUAL_ELEMENTS.
+ */
+export function parseTileResponse(rawText: string): Pick<ParsedResponse, "extractedText" | "visualElements"> {
+  const text = rawText.match(/EXTRACTED_TEXT:\s*\n([\s\S]*?)(?=\nVISUAL_ELEMENTS:|\s*$)/)?.[1].trim() ?? "";
+  return {
+    extractedText: text.toLowerCase() === "none" ? "" : text,
+    visualElements: parseSections(rawText, ["VISUAL_ELEMENTS"]).visualElements ?? "",
+  };
+}
+
+// Comma-separated fields unioned by mergeParsed
+const LIST_FIELDS = [
+  "category", "style", "mood", "composition", "palette", "colors", "tags",
+  "visualElements", "references", "useCase", "colorHex", "era", "artifact",
+  "typography", "script", "culturalInfluence",
+] as const;
+
+/**
+ * Merge analyses of the parts of one file (PDF pages, video frames) into
+ * one: list fields are unioned in order, type and medium take the most
+ * common value, and the first part supplies the subject and description.
+ */
+export function mergeParsed(parts: ParsedResponse[]): ParsedResponse {
+  const merged: ParsedResponse = { ...parts[0] };
+
+  for (const field of LIST_FIELDS) {
+    merged[field] = unique(parts.flatMap((p) => p[field].split(","))).join(", ");
+  }
+  merged.type = mostCommon(parts.map((p) => p.type));
+  merged.medium = mostCommon(parts.map((p) => p.medium));
+  merged.searchPhrases = unique(parts.flatMap((p) => p.searchPhrases.split("\n"))).join("\n");
+  merged.dimensions = unique(parts.flatMap((p) => p.dimensions.split("\n"))).join("\n");
+  merged.extractedText = parts.map((p) => p.extractedText).filter(Boolean).join("\n\n");
+
+  return merged;
+}
+
+/** Trimmed, non-empty values, first occurrence wins (case-insensitive). */
+function unique(values: string[]): string[] {
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const value of values) {
+    const trimmed = value.trim();
+    if (!trimmed || seen.has(trimmed.toLowerCase())) continue;
+    seen.add(trimmed.toLowerCase());
+    out.push(trimmed);
+  }
+  return out;
+}
+
+function mostCommon(values: string[]): string {
+  const counts = new Map<string, number>();
+  for (const value of values.filter(Boolean)) counts.set(value, (counts.get(value) ?? 0) + 1);
+  let best = "";
+  for (const [value, count] of counts) {
+    if (count > (counts.get(best) ?? 0)) best = value;
+  }
+  return best;
+}
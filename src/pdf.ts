@@ -0,0 +1,155 @@
+import { readFile } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import { basename, extname } from "node:path";
+import { humanSize, type ImageMetadata } from "./extractors/metadata.js";
+
+/** Pages are rendered at this resolution; PDF units are 1/72 inch. */
+export const PDF_RENDER_DPI = 150;
+
+/** A parsed PDF that renders pages on demand. Pages are 1-based. */
+export interface PdfDocument {
+  pageCount: number;
+  /** Rendered size of a page in pixels. */
+  pageSize(page: number): { width: number; height: number };
+  /** Render a page to PNG. */
+  render(page: number): Buffer;
+}
+
+export interface ExtractPdfResult {
+  /** The PDF itself; width and height are the first selected page's rendered size. */
+  metadata: ImageMetadata;
+  buffer: Buffer;
+  document: PdfDocument;
+  /** One entry per selected page, ready for the image pipeline. */
+  pages: ImageMetadata[];
+}
+
+export function isPdf(filePath: string): boolean {
+  return extname(filePath).toLowerCase() === ".pdf";
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+let mupdfModule: any | undefined;
+
+/** Load mupdf (optional dependency) once, with its console warnings silenced. */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function loadMupdf(): Promise<any> {
+  if (!mupdfModule) {
+    try {
+      // Dynamic module name to avoid TypeScript resolving the optional dep
+      const mod = ["mu", "pdf"].join("");
+      mupdfModule = await import(mod);
+    } catch {
+      throw new Error(
+        `PDF input needs mupdf to render pages.\n` +
+        `Install it with:\n\n` +
+        `  npm install mupdf\n`
+      );
+    }
+    // Repairs of slightly broken files are routine; don't print them
+    mupdfModule.setLog?.(() => {});
+  }
+  return mupdfModule;
+}
+
+/** Parse a PDF. Throws for files mupdf can't read. */
+export async function openPdf(buffer: Buffer, filename = "PDF"): Promise<PdfDocument> {
+  const mupdf = await loadMupdf();
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let doc: any;
+  try {
+    doc = mupdf.Document.openDocument(buffer, "application/pdf");
+  } catch (err) {
+    throw new Error(`Could not read ${filename}: ${(err as Error).message}`);
+  }
+
+  const scale = PDF_RENDER_DPI / 72;
+  const pageCount: number = doc.countPages();
+  const checkPage = (page: number) => {
+    if (!Number.isInteger(page) || page < 1 || page > pageCount) {
+      throw new Error(`${filename} has no page ${page} (it has ${pageCount})`);
+    }
+  };
+
+  return {
+    pageCount,
+    pageSize(page) {
+      checkPage(page);
+      const loaded = doc.loadPage(page - 1);
+      const [x0, y0, x1, y1] = loaded.getBounds();
+      loaded.destroy?.();
+      // mupdf rounds the pixmap outward to whole pixels
+      return { width: Math.ceil((x1 - x0) * scale), height: Math.ceil((y1 - y0) * scale) };
+    },
+    render(page) {
+      checkPage(page);
+      const loaded = doc.loadPage(page - 1);
+      const pixmap = loaded.toPixmap(mupdf.Matrix.scale(scale, scale), mupdf.ColorSpace.DeviceRGB, false, true);
+      const png = Buffer.from(pixmap.asPNG());
+      pixmap.destroy?.();
+      loaded.destroy?.();
+      return png;
+    },
+  };
+}
+
+/**
+ * Parse a page selector like "1-5", "2,4,9-12" or "10-" (to the end) into
+ * sorted, de-duplicated page numbers. No selector means every page.
+ */
+export function parsePageRange(spec: string | undefined, pageCount: number): number[] {
+  if (!spec?.trim()) return Array.from({ length: pageCount }, (_, i) => i + 1);
+
+  const pages = new Set<number>();
+  for (const part of spec.split(",")) {
+    const match = part.trim().match(/^(\d+)?\s*(-)?\s*(\d+)?$/);
+    if (!match || (!match[1] && !match[3])) {
+      throw new Error(`Invalid page range "${part.trim()}". Use e.g. 1-5, 3,7,9 or 10-`);
+    }
+    const start = match[1] ? parseInt(match[1], 10) : 1;
+    const end = match[2] ? (match[3] ? parseInt(match[3], 10) : pageCount) : start;
+    if (start < 1 || end < start) throw new Error(`Invalid page range "${part.trim()}"`);
+    for (let page = start; page <= Math.min(end, pageCount); page++) pages.add(page);
+  }
+
+  if (pages.size === 0) {
+    throw new Error(`Page range "${spec}" selects no pages (the document has ${pageCount})`);
+  }
+  return [...pages].sort((a, b) => a - b);
+}
+
+/**
+ * Read a PDF and build metadata for it and for each selected page. Pages
+ * aren't rendered here, so estimates can count them cheaply.
+ */
+export async function extractPdf(filePath: string, pageSpec?: string): Promise<ExtractPdfResult> {
+  const buffer = await readFile(filePath);
+  const filename = basename(filePath);
+  const document = await openPdf(buffer, filename);
+  const selected = parsePageRange(pageSpec, document.pageCount);
+  const first = document.pageSize(selected[0]);
+
+  const metadata: ImageMetadata = {
+    filename,
+    basename: basename(filePath, extname(filePath)),
+    extension: ".pdf",
+    format: "PDF",
+    width: first.width,
+    height: first.height,
+    sizeBytes: buffer.length,
+    sizeHuman: humanSize(buffer.length),
+    sha256: createHash("sha256").update(buffer).digest("hex"),
+    pageCount: document.pageCount,
+  };
+
+  // Pages share the PDF's hash; the page number keeps their cache keys apart
+  const pages = selected.map((page): ImageMetadata => ({
+    ...metadata,
+    ...document.pageSize(page),
+    basename: `${metadata.basename}-p${page}`,
+    extension: ".png",
+    page,
+  }));
+
+  return { metadata, buffer, document, pages };
+}
@@ -0,0 +1,101 @@
+import { mimeTypeFromExtension, type ImageMetadata } from "./extractors/metadata.js";
+import { decodeGrayscale } from "./preprocess.js";
+
+/** Largest Hamming distance `m2md dupes` still groups as the same picture. */
+export const DEFAULT_DUPLICATE_DISTANCE = 10;
+
+/** Largest distance `--reuse-similar` accepts without a value: resized or re-encoded copies, not edits. */
+export const DEFAULT_REUSE_DISTANCE = 4;
+
+// Images are squashed to this many pixels square before the DCT
+const SAMPLE_SIZE = 32;
+// Low-frequency coefficients kept per axis: 8 x 8 = 64 bits
+const HASH_SIZE = 8;
+
+/**
+ * 64-bit DCT perceptual hash (pHash) of `SAMPLE_SIZE` x `SAMPLE_SIZE`
+ * grayscale pixels, as 16 hex digits. Each bit says whether a low-frequency
+ * coefficient is above the median, so resizing, re-encoding and small crops
+ * or color shifts flip only a few bits.
+ */
+export function perceptualHash(gray: Buffer): string {
+  const n = SAMPLE_SIZE;
+  const cosines = Array.from({ length: HASH_SIZE }, (_, u) =>
+    Array.from({ length: n }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * n)))
+  );
+
+  // Separable 2D DCT-II, only for the coefficients that make it into the hash
+  const rows = Array.from({ length: n }, (_, y) =>
+    cosines.map((cos) => cos.reduce((sum, c, x) => sum + c * gray[y * n + x], 0))
+  );
+  const coefficients: number[] = [];
+  for (let v = 0; v < HASH_SIZE; v++) {
+    for (let u = 0; u < HASH_SIZE; u++) {
+      coefficients.push(cosines[v].reduce((sum, c, y) => sum + c * rows[y][u], 0));
+    }
+  }
+
+  // The DC term is overall brightness; leave it out of the median
+  const median = [...coefficients.slice(1)].sort((a, b) => a - b)[(coefficients.length - 1) >> 1];
+  let hex = "";
+  for (let i = 0; i < coefficients.length; i += 4) {
+    let nibble = 0;
+    for (let bit = 0; bit < 4; bit++) nibble = (nibble << 1) | (coefficients[i + bit] > median ? 1 : 0);
+    hex += nibble.toString(16);
+  }
+  return hex;
+}
+
+/**
+ * Perceptual hash of an image file's pixels. Undefined when sharp isn't
+ * installed or the image can't be decoded.
+ */
+export async function computePerceptualHash(
+  buffer: Buffer,
+  metadata: Pick<ImageMetadata, "extension" | "width" | "height">
+): Promise<string | undefined> {
+  const gray = await decodeGrayscale(buffer, mimeTypeFromExtension(metadata.extension), metadata, SAMPLE_SIZE);
+  return gray ? perceptualHash(gray) : undefined;
+}
+
+/** The metadata with `phash` filled in, when the image can be decoded. */
+export async function withPerceptualHash(metadata: ImageMetadata, buffer: Buffer): Promise<ImageMetadata> {
+  const phash = await computePerceptualHash(buffer, metadata);
+  return phash ? { ...metadata, phash } : metadata;
+}
+
+/** Number of differing bits between two hashes of the same length. */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    for (; diff; diff &= diff - 1) distance++;
+  }
+  return distance;
+}
+
+/**
+ * Group items whose hashes are within `maxDistance` bits of each other,
+ * transitively. Only groups of two or more are returned, largest first;
+ * items keep their input order within a group.
+ */
+export function groupNearDuplicates<T extends { phash: string }>(items: T[], maxDistance = DEFAULT_DUPLICATE_DISTANCE): T[][] {
+  const parent = items.map((_, i) => i);
+  const root = (i: number): number => {
+    while (parent[i] !== i) i = parent[i] = parent[parent[i]];
+    return i;
+  };
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      if (hammingDistance(items[i].phash, items[j].phash) <= maxDistance) parent[root(j)] = root(i);
+    }
+  }
+
+  const groups = new Map<number, T[]>();
+  items.forEach((item, i) => {
+    const group = groups.get(root(i)) ?? [];
+    group.push(item);
+    groups.set(root(i), group);
+  });
+  return [...groups.values()].filter((group) => group.length > 1).sort((a, b) => b.length - a.length);
+}
@@ -0,0 +1,455 @@
+import type { ImageInput, ProviderCapabilities } from "./providers/types.js";
+import { mimeTypeFromExtension, type ImageMetadata, type ImageMimeType } from "./extractors/metadata.js";
+import { decodeBmp } from "./bmp.js";
+import { probeAnimation, renderApngFrames, sampleFrameIndices, type RgbaImage } from "./animation.js";
+import { planTiles, type Tile } from "./tiles.js";
+
+/** Size limits an image must fit before it is sent to a provider. */
+export interface ImageLimits {
+  /** Largest encoded image, in bytes. */
+  maxBytes?: number;
+  /** Longest edge, in pixels. */
+  maxDimension?: number;
+}
+
+/** The image as sent to the provider, after any preprocessing. */
+export interface PreparedImage {
+  buffer: Buffer;
+  mimeType: ImageInput["mimeType"];
+  width?: number;
+  height?: number;
+  /** What was changed, e.g. "rotated", "resized to 4000x3000", "converted to JPEG". Empty when sent as-is. */
+  transforms: string[];
+}
+
+// Re-encode quality for rotated or resized images — high enough to be visually lossless
+const REENCODE_QUALITY = 90;
+// JPEG qualities tried, in order, to get under a byte limit; later steps use the last
+const SHRINK_QUALITIES = [85, 75, 60];
+// Scale applied per step when quality alone doesn't fit the byte limit
+const SHRINK_SCALE = 0.75;
+const MAX_SHRINK_STEPS = 6;
+// SVGs smaller than this (longest edge) are rasterized up to it, so icons aren't sent as a few pixels
+const SVG_RASTER_SIZE = 1024;
+// Density SVG sizes are defined at (CSS pixels per inch)
+const SVG_BASE_DENSITY = 72;
+
+const PROVIDER_MIME_TYPES = new Set<string>(["image/png", "image/jpeg", "image/webp", "image/gif"]);
+
+// Formats providers don't accept: display name, and what to convert them to.
+// Photo formats become JPEG; scans, bitmaps and vector art stay lossless.
+const CONVERSIONS: Record<string, { label: string; to: ImageInput["mimeType"] }> = {
+  "image/heic": { label: "HEIC", to: "image/jpeg" },
+  "image/heif": { label: "HEIF", to: "image/jpeg" },
+  "image/avif": { label: "AVIF", to: "image/jpeg" },
+  "image/tiff": { label: "TIFF", to: "image/png" },
+  "image/bmp": { label: "BMP", to: "image/png" },
+  "image/svg+xml": { label: "SVG", to: "image/png" },
+};
+
+/** Whether providers accept this MIME type without conversion. */
+export function isProviderMimeType(mimeType: string): mimeType is ImageInput["mimeType"] {
+  return PROVIDER_MIME_TYPES.has(mimeType);
+}
+
+/**
+ * MIME type for an image sent without preprocessing. Throws for formats
+ * that must go through `prepareImage` first.
+ */
+export function providerMimeType(extension: string): ImageInput["mimeType"] {
+  const mimeType = mimeTypeFromExtension(extension);
+  if (!isProviderMimeType(mimeType)) {
+    throw new Error(`${CONVERSIONS[mimeType].label} images must be converted with prepareImage before sending`);
+  }
+  return mimeType;
+}
+
+export function imageLimitsFor(capabilities: ProviderCapabilities): ImageLimits {
+  return { maxBytes: capabilities.maxImageBytes, maxDimension: capabilities.maxImageDimension };
+}
+
+/** Scale dimensions down to fit within the longest-edge limit. */
+export function fitDimensions(
+  width: number,
+  height: number,
+  maxDimension?: number
+): { width: number; height: number } {
+  const longest = Math.max(width, height);
+  if (!maxDimension || longest <= maxDimension) return { width, height };
+  const scale = maxDimension / longest;
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+let sharpModule: any | null | undefined;
+
+/**
+ * Load sharp (optional dependency) once. Returns null when it isn't
+ * installed, in which case images are sent as-is.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function loadSharp(): Promise<any | null> {
+  if (sharpModule === undefined) {
+    try {
+      // Dynamic module name to avoid TypeScript resolving the optional dep
+      const mod = ["sh", "arp"].join("");
+      sharpModule = (await import(mod)).default;
+    } catch {
+      sharpModule = null;
+    }
+  }
+  return sharpModule;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+let heicConvertModule: any | null | undefined;
+
+/**
+ * Load heic-convert (optional dependency) once. Prebuilt sharp binaries
+ * can't decode HEVC-coded HEIC photos, so those go through it instead.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+async function loadHeicConvert(): Promise<any | null> {
+  if (heicConvertModule === undefined) {
+    try {
+      const mod = ["heic", "-convert"].join("");
+      heicConvertModule = (await import(mod)).default;
+    } catch {
+      heicConvertModule = null;
+    }
+  }
+  return heicConvertModule;
+}
+
+/** Whether oversized images can be shrunk locally (sharp is installed). */
+export async function canPreprocess(): Promise<boolean> {
+  return (await loadSharp()) !== null;
+}
+
+/**
+ * Input for sharp: BMPs are decoded to raw pixels, SVGs get a density that
+ * rasterizes small drawings up to SVG_RASTER_SIZE, and HEVC-coded HEIC is
+ * decoded with heic-convert when available.
+ */
+async function decodeSource(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  sharp: any,
+  buffer: Buffer,
+  mimeType: ImageMimeType,
+  metadata: Pick<ImageMetadata, "width" | "height">
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ input: Buffer; options: Record<string, any>; hevc: boolean }> {
+  if (mimeType === "image/bmp") {
+    const { data, width, height, channels } = decodeBmp(buffer);
+    return { input: data, options: { raw: { width, height, channels } }, hevc: false };
+  }
+
+  if (mimeType === "image/svg+xml") {
+    const longest = Math.max(metadata.width ?? 0, metadata.height ?? 0);
+    const scale = longest > 0 && longest < SVG_RASTER_SIZE ? SVG_RASTER_SIZE / longest : 1;
+    return { input: buffer, options: { density: SVG_BASE_DENSITY * scale }, hevc: false };
+  }
+
+  if (mimeType === "image/heic" || mimeType === "image/heif") {
+    const info = await sharp(buffer).metadata();
+    if (info.compression === "hevc") {
+      const convert = await loadHeicConvert();
+      if (convert) {
+        const jpeg = Buffer.from(await convert({ buffer, format: "JPEG", quality: REENCODE_QUALITY / 100 }));
+        return { input: jpeg, options: {}, hevc: false };
+      }
+      return { input: buffer, options: {}, hevc: true };
+    }
+  }
+
+  return { input: buffer, options: {}, hevc: false };
+}
+
+/**
+ * Make an image fit the provider: convert formats providers don't accept
+ * (HEIC, AVIF, TIFF, BMP, SVG), auto-rotate by EXIF orientation, downscale
+ * past the pixel limit, and recompress (converting to JPEG if needed) past
+ * the byte limit. Images that already fit are returned untouched.
+ */
+export async function prepareImage(
+  buffer: Buffer,
+  mimeType: ImageMimeType,
+  metadata: Pick<ImageMetadata, "filename" | "width" | "height">,
+  limits: ImageLimits = {}
+): Promise<PreparedImage> {
+  const conversion = isProviderMimeType(mimeType) ? undefined : CONVERSIONS[mimeType];
+  // Only returned when no conversion is needed
+  const asIs: PreparedImage = {
+    buffer,
+    mimeType: mimeType as ImageInput["mimeType"],
+    width: metadata.width,
+    height: metadata.height,
+    transforms: [],
+  };
+  const tooManyBytes = limits.maxBytes !== undefined && buffer.length > limits.maxBytes;
+
+  const sharp = await loadSharp();
+  if (!sharp) {
+    if (conversion) {
+      throw new Error(
+        `${metadata.filename} is ${conversion.label}, which vision providers don't accept.\n` +
+        `Install sharp to convert it automatically:\n\n` +
+        `  npm install sharp\n`
+      );
+    }
+    if (tooManyBytes) {
+      throw new Error(
+        `${metadata.filename} is too large for the provider's ${formatMB(limits.maxBytes!)} limit.\n` +
+        `Install sharp to shrink oversized images automatically:\n\n` +
+        `  npm install sharp\n`
+      );
+    }
+    return asIs;
+  }
+
+  const source = await decodeSource(sharp, buffer, mimeType, metadata);
+  const info = await sharp(source.input, source.options).metadata();
+  const rotated = (info.orientation ?? 1) > 1;
+  // Orientations 5-8 swap width and height
+  const swap = (info.orientation ?? 1) >= 5;
+  const width: number = (swap ? info.height : info.width) ?? metadata.width ?? 0;
+  const height: number = (swap ? info.width : info.height) ?? metadata.height ?? 0;
+  const target = fitDimensions(width, height, limits.maxDimension);
+  const resized = target.width !== width || target.height !== height;
+
+  if (!conversion && !rotated && !resized && !tooManyBytes) return asIs;
+
+  const encode = (w: number, h: number, mime: ImageInput["mimeType"], quality: number) => {
+    let pipeline = sharp(source.input, source.options)
+      .rotate()
+      .resize({ width: w, height: h, fit: "inside", withoutEnlargement: true });
+    // JPEG has no alpha channel; flatten onto white rather than black
+    if (mime === "image/jpeg") pipeline = pipeline.flatten({ background: "#ffffff" });
+    return pipeline
+      .toFormat(mime.slice("image/".length), { quality })
+      .toBuffer({ resolveWithObject: true }) as Promise<{ data: Buffer; info: { width: number; height: number } }>;
+  };
+
+  // First pass keeps the format; GIFs become PNG (first frame only)
+  let outMime: ImageInput["mimeType"] = conversion?.to ?? (mimeType === "image/gif" ? "image/png" : asIs.mimeType);
+  let out: Awaited<ReturnType<typeof encode>>;
+  try {
+    out = await encode(target.width, target.height, outMime, REENCODE_QUALITY);
+  } catch (err) {
+    if (!source.hevc) throw err;
+    throw new Error(
+      `Can't decode ${metadata.filename}: this sharp build has no HEIC (HEVC) decoder.\n` +
+      `Install heic-convert to convert HEIC photos:\n\n` +
+      `  npm install heic-convert\n`
+    );
+  }
+  let recompressed = false;
+
+  if (limits.maxBytes !== undefined && out.data.length > limits.maxBytes) {
+    // Still too big: JPEG at falling quality, then smaller dimensions
+    outMime = "image/jpeg";
+    recompressed = true;
+    let { width: w, height: h } = target;
+    for (let step = 0; step < MAX_SHRINK_STEPS && out.data.length > limits.maxBytes; step++) {
+      for (const quality of step === 0 ? SHRINK_QUALITIES : SHRINK_QUALITIES.slice(-1)) {
+        out = await encode(w, h, outMime, quality);
+        if (out.data.length <= limits.maxBytes) break;
+      }
+      w = Math.max(1, Math.round(w * SHRINK_SCALE));
+      h = Math.max(1, Math.round(h * SHRINK_SCALE));
+    }
+
+    if (out.data.length > limits.maxBytes) {
+      throw new Error(`${metadata.filename} is too large to shrink under the provider's ${formatMB(limits.maxBytes)} limit`);
+    }
+  }
+
+  const outLabel = outMime === "image/jpeg" ? "JPEG" : "PNG";
+  const transforms: string[] = [];
+  if (conversion) transforms.push(`converted from ${conversion.label} to ${outLabel}`);
+  if (rotated) transforms.push("rotated");
+  if (out.info.width !== width || out.info.height !== height) {
+    transforms.push(`resized to ${out.info.width}x${out.info.height}`);
+  }
+  if (!conversion && outMime !== mimeType) transforms.push(`converted to ${outLabel}`);
+  if (recompressed) transforms.push("recompressed");
+
+  return {
+    buffer: out.data,
+    mimeType: outMime,
+    width: out.info.width,
+    height: out.info.height,
+    transforms,
+  };
+}
+
+/**
+ * Cut an upright image into overlapping tiles of at most `tileSize` pixels
+ * (see planTiles), each cropped at full resolution as PNG and fitted to
+ * the provider's limits. A single tile means the image fits as a whole.
+ */
+export async function prepareTiles(
+  buffer: Buffer,
+  mimeType: ImageMimeType,
+  metadata: Pick<ImageMetadata, "filename" | "width" | "height">,
+  tileSize: number,
+  limits: ImageLimits = {}
+): Promise<{ tile: Tile; image: PreparedImage }[]> {
+  const sharp = await loadSharp();
+  if (!sharp) {
+    throw new Error(
+      `Tiling ${metadata.filename} needs sharp to crop it.\n` +
+      `Install it with:\n\n` +
+      `  npm install sharp\n`
+    );
+  }
+
+  const source = await decodeSource(sharp, buffer, mimeType, metadata);
+  // Decode and rotate once; every tile is cut from these pixels
+  const { data, info } = await sharp(source.input, source.options)
+    .rotate()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const raw = { width: info.width, height: info.height, channels: info.channels };
+  const tiles = planTiles(info.width, info.height, tileSize);
+  if (tiles.length === 1) return [];
+
+  const prepared: { tile: Tile; image: PreparedImage }[] = [];
+  for (const tile of tiles) {
+    const png = await sharp(data, { raw })
+      .extract({ left: tile.left, top: tile.top, width: tile.width, height: tile.height })
+      .png()
+      .toBuffer();
+    const image = await prepareImage(png, "image/png", { filename: metadata.filename, width: tile.width, height: tile.height }, limits);
+    prepared.push({ tile, image });
+  }
+  return prepared;
+}
+
+/** Frames sampled from an animation and fitted to the provider, in playback order. */
+export interface PreparedAnimation {
+  frames: PreparedImage[];
+  /** 0-based source frame of each sampled frame. */
+  indices: number[];
+  /** Frames in the whole animation. */
+  frameCount: number;
+}
+
+/**
+ * Decode up to `count` representative frames of an animated GIF or APNG as
+ * PNGs and fit each to the provider's limits. Returns null for still
+ * images, and when sharp isn't installed (the animation is then sent as-is
+ * and analyzed as a still).
+ */
+export async function prepareAnimationFrames(
+  buffer: Buffer,
+  metadata: Pick<ImageMetadata, "filename">,
+  count: number,
+  limits: ImageLimits = {}
+): Promise<PreparedAnimation | null> {
+  const animation = probeAnimation(buffer);
+  const sharp = await loadSharp();
+  if (!animation || !sharp) return null;
+
+  const indices = sampleFrameIndices(animation, count);
+  const pngs: Buffer[] = [];
+  if (buffer.toString("ascii", 0, 3) === "GIF") {
+    // libvips composites each GIF page onto the frames before it
+    for (const page of indices) pngs.push(await sharp(buffer, { page }).png().toBuffer());
+  } else {
+    const rendered = await renderApngFrames(buffer, indices, async (png) => {
+      const { data, info } = await sharp(png).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+      return { data, width: info.width, height: info.height };
+    });
+    for (const frame of rendered) {
+      pngs.push(await sharp(frame.data, { raw: { width: frame.width, height: frame.height, channels: 4 } }).png().toBuffer());
+    }
+  }
+
+  const frames: PreparedImage[] = [];
+  for (const png of pngs) {
+    // Size from the PNG header, so frames that already fit report it too
+    const size = { width: png.readUInt32BE(16), height: png.readUInt32BE(20) };
+    frames.push(await prepareImage(png, "image/png", { filename: metadata.filename, ...size }, limits));
+  }
+  return { frames, indices, frameCount: animation.frameCount };
+}
+
+/**
+ * Decode an image sent to a provider into RGBA pixels, scaled to fit
+ * within `maxDimension`. Returns null when sharp isn't installed or the
+ * image can't be decoded.
+ */
+export async function decodePixels(image: Pick<ImageInput, "buffer">, maxDimension: number): Promise<RgbaImage | null> {
+  const sharp = await loadSharp();
+  if (!sharp) return null;
+  try {
+    const { data, info } = await sharp(image.buffer)
+      .rotate()
+      .resize({ width: maxDimension, height: maxDimension, fit: "inside", withoutEnlargement: true })
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+    return { data, width: info.width, height: info.height };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decode any supported still image to upright grayscale pixels, squashed to
+ * exactly `size` x `size`. Returns null when sharp isn't installed or the
+ * image can't be decoded.
+ */
+export async function decodeGrayscale(
+  buffer: Buffer,
+  mimeType: ImageMimeType,
+  metadata: Pick<ImageMetadata, "width" | "height">,
+  size: number
+): Promise<Buffer | null> {
+  const sharp = await loadSharp();
+  if (!sharp) return null;
+  try {
+    const source = await decodeSource(sharp, buffer, mimeType, metadata);
+    if (source.hevc) return null;
+    return await sharp(source.input, source.options)
+      .rotate()
+      .resize({ width: size, height: size, fit: "fill" })
+      .grayscale()
+      .raw()
+      .toBuffer();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decode any supported still image to an upright grayscale PNG at full
+ * resolution, for local OCR. Without sharp, PNG, JPEG, WebP and GIF pass
+ * through as-is; other formats return null.
+ */
+export async function decodeForOcr(
+  buffer: Buffer,
+  mimeType: ImageMimeType,
+  metadata: Pick<ImageMetadata, "width" | "height">
+): Promise<Buffer | null> {
+  const sharp = await loadSharp();
+  if (!sharp) return PROVIDER_MIME_TYPES.has(mimeType) ? buffer : null;
+  try {
+    const source = await decodeSource(sharp, buffer, mimeType, metadata);
+    if (source.hevc) return null;
+    return await sharp(source.input, source.options)
+      .rotate()
+      // Transparent text (logos, UI exports) reads best on white
+      .flatten({ background: "#ffffff" })
+      .toColourspace("b-w")
+      .png()
+      .toBuffer();
+  } catch {
+    return null;
+  }
+}
+
+function formatMB(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
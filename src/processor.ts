@@ -6,15 +6,81 @@ import {
   isSupportedFormat,
   getSupportedFormats,
   mimeTypeFromExtension,
+  humanSize,
   type ImageMetadata,
 } from "./extractors/metadata.js";
-import type { Provider } from "./providers/types.js";
-import { parseResponse } from "./parser.js";
-import { buildSystemPrompt, buildUserPrompt } from "./prompts.js";
-import { renderTemplate } from "./templates/engine.js";
+import type { AnalyzeOptions, ImageInput, Provider, ProviderResponse, TokenUsage } from "./providers/types.js";
+import { sumUsage } from "./cost.js";
+import {
+  parseResponse,
+  parseJsonResponse,
+  parseSections,
+  findIncompleteSections,
+  mergeParsed,
+  parseTileResponse,
+  type ParsedResponse,
+} from "./parser.js";
+import {
+  buildSystemPrompt,
+  buildUserPrompt,
+  buildStructuredUserPrompt,
+  buildFollowUpPrompt,
+  buildAnimationUserPrompt,
+  buildKeywordHint,
+  buildOcrHint,
+  buildTileUserPrompt,
+} from "./prompts.js";
+import { analysisJsonSchema, ANALYSIS_SCHEMA_NAME } from "./schema.js";
+import { renderTemplate, stripFrontmatter, type TemplateVars } from "./templates/engine.js";
 import { DEFAULT_TEMPLATE } from "./templates/builtins.js";
-import { buildCacheKey, getCached, setCached } from "./cache/store.js";
+import { buildCacheKey, getCached, setCached, findSimilar, indexSimilar, type CacheEntry } from "./cache/store.js";
 import { type Taxonomy, buildTaxonomy, validateParsed } from "./taxonomy.js";
+import {
+  FALLBACK_REASONS,
+  RefusalError,
+  fallbackReason,
+  type FallbackReason,
+  type FallbackTarget,
+} from "./fallback.js";
+import {
+  prepareImage,
+  prepareAnimationFrames,
+  providerMimeType,
+  decodePixels,
+  prepareTiles,
+  type ImageLimits,
+  type PreparedImage,
+} from "./preprocess.js";
+import { DEFAULT_ANIMATION_FRAMES } from "./animation.js";
+import {
+  DEFAULT_COLOR_SOURCE,
+  matchPaletteHex,
+  measureColors,
+  mergeMeasuredColors,
+  type ColorSource,
+  type MeasuredColor,
+} from "./colors.js";
+import { orientationName } from "./extractors/exif.js";
+import {
+  compareOcrText,
+  defaultOcrEngine,
+  mergeOcrResults,
+  recognizeImage,
+  type OcrEngine,
+  type OcrMode,
+  type OcrResult,
+} from "./ocr.js";
+import { mergeTiles, type TileAnalysis } from "./tiles.js";
+import { withPerceptualHash } from "./phash.js";
+import { obsidianTags } from "./obsidian.js";
+import { extractPdf, isPdf } from "./pdf.js";
+import { extractFrame, extractVideo, formatTimestamp, isVideo } from "./video.js";
+import { runBatch } from "./batch.js";
+
+// Pages of one PDF, or frames of one video, analyzed at a time
+const PART_CONCURRENCY = 4;
+// Longest edge images are scaled to before their colors are measured
+const COLOR_SAMPLE_SIZE = 128;
 
 export interface ProcessOptions {
   model?: string;
@@ -26,6 +92,88 @@ export interface ProcessOptions {
   providerName?: string;
   noCache?: boolean;
   taxonomy?: Taxonomy;
+  /**
+   * Ask the provider for schema-validated JSON instead of text sections.
+   * Falls back to the text parser when the provider answers in text.
+   */
+  structured?: boolean;
+  /**
+   * Re-ask the model up to this many times for required sections that are
+   * missing or malformed. Defaults to 0 (accept the first answer as-is).
+   */
+  reask?: number;
+  /**
+   * Providers to try, in order, when the primary fails for one of the
+   * `fallbackOn` reasons. The result is cached under the primary's key.
+   */
+  fallbacks?: FallbackTarget[];
+  /** Failures that trigger a fallback. Defaults to all of FALLBACK_REASONS. */
+  fallbackOn?: FallbackReason[];
+  /**
+   * Provider size limits. Larger images are downscaled or recompressed
+   * before sending; the cache key still uses the original's sha256.
+   */
+  imageLimits?: ImageLimits;
+  /** PDF pages to analyze, e.g. "1-5" or "2,4,9-". Defaults to every page. */
+  pages?: string;
+  /**
+   * Most keyframes sampled from a video (default DEFAULT_MAX_FRAMES), or
+   * frames sent from an animated GIF/APNG (default DEFAULT_ANIMATION_FRAMES).
+   */
+  maxFrames?: number;
+  /**
+   * Where `colorHex` comes from: the model's COLOR_HEX, colors measured
+   * from the pixels, or the model's with the measured ones alongside.
+   * Defaults to DEFAULT_COLOR_SOURCE.
+   */
+  colorSource?: ColorSource;
+  /**
+   * On a cache miss, reuse the cached analysis of an image whose perceptual
+   * hash is within this many bits (and was run with the same options)
+   * instead of calling the provider. Off when undefined.
+   */
+  reuseSimilar?: number;
+  /**
+   * Run local OCR and use it to ground the model's extracted text, replace
+   * it, or check it. Off when undefined.
+   */
+  ocr?: OcrMode;
+  /** Tesseract language(s) for `ocr`. Defaults to DEFAULT_OCR_LANGUAGE. */
+  ocrLanguage?: string;
+  /** OCR engine for `ocr`. Defaults to the shared Tesseract engine for `ocrLanguage`. */
+  ocrEngine?: OcrEngine;
+  /**
+   * Also analyze images larger than this many pixels as overlapping tiles
+   * at full resolution, for text and small details the provider would
+   * lose to downscaling. Off when undefined.
+   */
+  tileSize?: number;
+  /**
+   * Link from the note to the image, for `{{sourcePath}}`. Defaults to
+   * `./<filename>`, for a sidecar next to the image.
+   */
+  sourcePath?: string;
+  /**
+   * The image's path from the root of an Obsidian vault, for
+   * `![[{{vaultPath}}]]` embeds. Defaults to the filename.
+   */
+  vaultPath?: string;
+}
+
+/** How the image sent to the provider differs from the original. */
+export interface PreprocessInfo {
+  width?: number;
+  height?: number;
+  sizeBytes: number;
+  mimeType: string;
+  transforms: string[];
+}
+
+/** Which fallback produced a result, and why the primary was skipped. */
+export interface FallbackUsed {
+  providerName: string;
+  model?: string;
+  reason: FallbackReason;
 }
 
 export interface ProcessResult {
@@ -52,15 +200,39 @@ export interface ProcessResult {
   culturalInfluence: string;
   searchPhrases: string;
   dimensions: string;
+  /** How an animated GIF/APNG moves; empty for still images. */
+  motion: string;
+  /** Dominant colors measured from the pixels; empty with `colorSource: "model"` or without sharp. */
+  measuredColors?: MeasuredColor[];
   metadata: ImageMetadata;
   markdown: string;
   cached: boolean;
-  usage?: { inputTokens: number; outputTokens: number };
+  usage?: TokenUsage;
   model?: string;
   validationWarnings?: string[];
+  fallback?: FallbackUsed;
+  /** Set when the analysis of a near-identical image was reused (`reuseSimilar`). */
+  reused?: { filename: string; distance: number };
+  /** Local OCR text and confidence, with `ocr` on and the image decodable. */
+  ocr?: OcrResult;
+  /** Number of tiles analyzed besides the whole image, with `tileSize` on. */
+  tiles?: number;
+  /** Set when the image was rotated, resized or recompressed before sending. */
+  preprocessed?: PreprocessInfo;
+  /** For PDFs: one result per analyzed page. The rest of the result combines them. */
+  pages?: PageResult[];
+  /** For videos: one result per sampled keyframe, in time order. */
+  frames?: FrameResult[];
 }
 
-const FILE_SIZE_WARNING_BYTES = 15 * 1024 * 1024; // 15MB
+/** A named aspect of the image from the DIMENSIONS field. */
+export type Dimension = { name: string; description: string };
+
+/** One analyzed PDF page. */
+export type PageResult = ProcessResult & { page: number };
+
+/** One analyzed video keyframe; `timestamp` is in seconds. */
+export type FrameResult = ProcessResult & { timestamp: number };
 
 export async function processFile(
   filePath: string,
@@ -80,17 +252,13 @@ export async function processFile(
     throw new Error(`File not found: ${filePath}`);
   });
 
+  if (isPdf(filePath)) return processPdf(filePath, options);
+  if (isVideo(filePath)) return processVideo(filePath, options);
+
   // Extract metadata and get buffer (single read)
   const { metadata, buffer } = await extractMetadata(filePath);
 
-  // Warn for large files
-  if (metadata.sizeBytes > FILE_SIZE_WARNING_BYTES) {
-    process.stderr.write(
-      `Warning: File is ${metadata.sizeHuman} (Anthropic limit is 20MB)\n`
-    );
-  }
-
-  return _processCore(metadata, buffer, options);
+  return _processCore(await withPerceptualHash(metadata, buffer), buffer, options);
 }
 
 export interface BufferInput {
@@ -108,7 +276,116 @@ export async function processBuffer(
   options: ProcessOptions
 ): Promise<ProcessResult> {
   const metadata = extractMetadataFromBuffer(input.buffer, input.filename, input.mimeType);
-  return _processCore(metadata, input.buffer, options);
+  return _processCore(await withPerceptualHash(metadata, input.buffer), input.buffer, options);
+}
+
+/**
+ * Render the selected pages of a PDF, run each through the image pipeline
+ * and combine them into one document with a section per page.
+ */
+async function processPdf(filePath: string, options: ProcessOptions): Promise<ProcessResult> {
+  const { metadata, document, pages } = await extractPdf(filePath, options.pages);
+  const results: PageResult[] = [];
+
+  await runBatch(pages, PART_CONCURRENCY, async (pageMetadata) => {
+    const page = pageMetadata.page!;
+    const buffer = document.render(page);
+    try {
+      const result = await _processCore(
+        { ...pageMetadata, sizeBytes: buffer.length, sizeHuman: humanSize(buffer.length) },
+        buffer,
+        options
+      );
+      results.push({ ...result, page });
+    } catch (err) {
+      if (err instanceof Error) err.message = `Page ${page}: ${err.message}`;
+      throw err;
+    }
+  });
+
+  results.sort((a, b) => a.page - b.page);
+  const sections = results.map((p) => `## Page ${p.page}\n\n${demotedBody(p.markdown, 1)}\n`);
+  return {
+    ...combineParts(metadata, results, (p) => `page ${p.page}`, sections, options),
+    pages: results,
+  };
+}
+
+/**
+ * Sample a video's keyframes, run each through the image pipeline and
+ * combine them into one document with a timestamped timeline.
+ */
+async function processVideo(filePath: string, options: ProcessOptions): Promise<ProcessResult> {
+  const { metadata, frames } = await extractVideo(filePath, options.maxFrames);
+  const results: FrameResult[] = [];
+
+  await runBatch(frames, PART_CONCURRENCY, async (frameMetadata) => {
+    const timestamp = frameMetadata.timestamp!;
+    try {
+      const buffer = await extractFrame(filePath, timestamp);
+      const result = await _processCore(
+        { ...frameMetadata, sizeBytes: buffer.length, sizeHuman: humanSize(buffer.length) },
+        buffer,
+        options
+      );
+      results.push({ ...result, timestamp });
+    } catch (err) {
+      if (err instanceof Error) err.message = `Frame at ${formatTimestamp(timestamp)}: ${err.message}`;
+      throw err;
+    }
+  });
+
+  results.sort((a, b) => a.timestamp - b.timestamp);
+  const timeline = results.map((f) => `### ${formatTimestamp(f.timestamp)}\n\n${demotedBody(f.markdown, 2)}\n`);
+  return {
+    ...combineParts(metadata, results, (f) => formatTimestamp(f.timestamp), ["## Timeline\n", ...timeline], options),
+    frames: results,
+  };
+}
+
+/** A part's markdown without frontmatter, headings demoted to nest under its section. */
+function demotedBody(markdown: string, levels: number): string {
+  const prefix = "#".repeat(levels);
+  return stripFrontmatter(markdown).trim().replace(new RegExp(`^(#{1,${6 - levels}}) `, "gm"), `${prefix}$1 `);
+}
+
+/**
+ * One result for a file analyzed in parts (PDF pages, video frames):
+ * frontmatter from the template rendered with the merged fields, then
+ * the given body sections. Warnings are prefixed with the part's label.
+ */
+function combineParts<T extends ProcessResult>(
+  metadata: ImageMetadata,
+  parts: T[],
+  label: (part: T) => string,
+  sections: string[],
+  options: ProcessOptions
+): ProcessResult {
+  const merged = mergeParsed(parts);
+  const measuredColors = mergeMeasuredColors(parts.map((p) => p.measuredColors ?? []));
+  if (options.colorSource === "measured" && measuredColors.length > 0) {
+    merged.colorHex = measuredColors.map((c) => c.hex).join(", ");
+  }
+  const ocr = mergeOcrResults(parts.map((p) => p.ocr));
+  const rendered = render(
+    options.template ?? DEFAULT_TEMPLATE,
+    templateVars(metadata, merged, parts.find((p) => p.model)?.model ?? options.model ?? "default", options, measuredColors, ocr)
+  );
+  const frontmatter = rendered.match(/^---\n[\s\S]*?\n---\n/)?.[0];
+  const warnings = parts.flatMap((p) => (p.validationWarnings ?? []).map((w) => `${label(p)}: ${w}`));
+
+  return {
+    ...merged,
+    measuredColors,
+    ocr,
+    metadata,
+    markdown: [frontmatter, ...sections].filter(Boolean).join("\n"),
+    cached: parts.every((p) => p.cached),
+    usage: sumUsage(...parts.map((p) => p.usage)),
+    model: parts.find((p) => p.model)?.model,
+    validationWarnings: warnings.length ? warnings : undefined,
+    fallback: parts.find((p) => p.fallback)?.fallback,
+  };
 }
 
 async function _processCore(
@@ -117,145 +394,395 @@ async function _processCore(
   options: ProcessOptions
 ): Promise<ProcessResult> {
   // Check cache
-  const cacheKey = buildCacheKey(metadata.sha256, {
-    model: options.model,
-    prompt: options.prompt,
-    templateName: options.templateName,
-    note: options.note,
-    provider: options.providerName,
-  });
+  const cacheKey = cacheKeyFor(metadata, options);
 
   if (!options.noCache) {
     const cached = await getCached(cacheKey);
     if (cached) {
       return {
-        type: cached.type ?? "other",
-        category: cached.category ?? "",
-        style: cached.style ?? "",
-        mood: cached.mood ?? "",
-        medium: cached.medium ?? "",
-        composition: cached.composition ?? "",
-        palette: cached.palette ?? "",
-        subject: cached.subject ?? "",
-        description: cached.description,
-        extractedText: cached.extractedText,
-        colors: cached.colors ?? "",
-        tags: cached.tags ?? "",
-        visualElements: cached.visualElements ?? "",
-        references: cached.references ?? "",
-        useCase: cached.useCase ?? "",
-        colorHex: cached.colorHex ?? "",
-        era: cached.era ?? "",
-        artifact: cached.artifact ?? "",
-        typography: cached.typography ?? "",
-        script: cached.script ?? "",
-        culturalInfluence: cached.culturalInfluence ?? "",
-        searchPhrases: cached.searchPhrases ?? "",
-        dimensions: cached.dimensions ?? "",
+        ...parsedFromCache(cached),
+        measuredColors: cached.measuredColors,
+        ocr: cached.ocr,
         metadata,
         markdown: cached.markdown,
         cached: true,
       };
     }
+
+    const similar = await reuseSimilar(metadata, cacheKey, options);
+    if (similar) return similar;
   }
 
-  // Build prompts
-  const systemPrompt = buildSystemPrompt(options.prompt, options.note, options.taxonomy);
-  const userPrompt = buildUserPrompt(metadata.filename, metadata.format);
+  const ocr = await runOcr(metadata, buffer, options);
+  const attempt = await analyzeWithFallback(metadata, buffer, options, ocr);
+  const result = await completeAnalysis(metadata, attempt.image, attempt.response, options, {
+    fallback: attempt.fallback,
+    ocr,
+    tiles: attempt.tiles,
+  });
+  const { prepared } = attempt;
+  if (prepared.transforms.length === 0) return result;
+  return {
+    ...result,
+    preprocessed: {
+      width: prepared.width,
+      height: prepared.height,
+      sizeBytes: prepared.buffer.length,
+      mimeType: prepared.mimeType,
+      transforms: prepared.transforms,
+    },
+  };
+}
+
+/** Analysis fields of a cache entry, with older entries' missing fields empty. */
+function parsedFromCache(cached: CacheEntry): ParsedResponse {
+  return {
+    type: cached.type ?? "other",
+    category: cached.category ?? "",
+    style: cached.style ?? "",
+    mood: cached.mood ?? "",
+    medium: cached.medium ?? "",
+    composition: cached.composition ?? "",
+    palette: cached.palette ?? "",
+    subject: cached.subject ?? "",
+    description: cached.description,
+    extractedText: cached.extractedText,
+    colors: cached.colors ?? "",
+    tags: cached.tags ?? "",
+    visualElements: cached.visualElements ?? "",
+    references: cached.references ?? "",
+    useCase: cached.useCase ?? "",
+    colorHex: cached.colorHex ?? "",
+    era: cached.era ?? "",
+    artifact: cached.artifact ?? "",
+    typography: cached.typography ?? "",
+    script: cached.script ?? "",
+    culturalInfluence: cached.culturalInfluence ?? "",
+    searchPhrases: cached.searchPhrases ?? "",
+    dimensions: cached.dimensions ?? "",
+    motion: cached.motion ?? "",
+  };
+}
+
+/**
+ * `reuseSimilar`: render the cached analysis of the nearest near-identical
+ * image for this one, and cache it under this image's own key. Null when
+ * there is none within the distance.
+ */
+async function reuseSimilar(
+  metadata: ImageMetadata,
+  cacheKey: string,
+  options: ProcessOptions
+): Promise<ProcessResult | null> {
+  if (options.reuseSimilar === undefined || !metadata.phash) return null;
+  const match = await findSimilar(metadata.phash, similarityKeyFor(metadata, options), options.reuseSimilar);
+  const source = match ? await getCached(match.entry.key) : null;
+  if (!match || !source) return null;
+
+  const parsed = parsedFromCache(source);
+  const now = new Date();
+  const vars = templateVars(metadata, parsed, source.model, options, source.measuredColors, source.ocr, now);
+  const markdown = render(options.template ?? DEFAULT_TEMPLATE, vars);
+  await setCached(cacheKey, { ...source, hash: metadata.sha256, phash: metadata.phash, markdown, cachedAt: now.toISOString() });
+
+  return {
+    ...parsed,
+    measuredColors: source.measuredColors,
+    ocr: source.ocr,
+    metadata,
+    markdown,
+    cached: true,
+    model: source.model,
+    reused: { filename: match.entry.filename, distance: match.distance },
+  };
+}
+
+/**
+ * Call the primary provider, then each fallback in turn while failures
+ * are ones the next provider might not hit. Refusals are detected here
+ * so a squeamish model hands the image on instead of failing the file.
+ */
+async function analyzeWithFallback(
+  metadata: ImageMetadata,
+  buffer: Buffer,
+  options: ProcessOptions,
+  ocr?: OcrResult
+): Promise<{
+  image: ImageInput;
+  prepared: PreparedImage;
+  response: ProviderResponse;
+  fallback?: FallbackTarget & { reason: FallbackReason };
+  tiles?: TileAnalysis[];
+}> {
+  const targets: FallbackTarget[] = [
+    {
+      provider: options.provider,
+      providerName: options.providerName ?? "",
+      model: options.model,
+      structured: options.structured,
+      imageLimits: options.imageLimits,
+    },
+    ...(options.fallbacks ?? []),
+  ];
+  const allowed = new Set(options.fallbackOn ?? FALLBACK_REASONS);
+  let reason: FallbackReason | undefined;
 
-  // Call provider
-  const mimeType = mimeTypeFromExtension(metadata.extension);
-  const response = await options.provider.analyze(
-    { buffer, mimeType, filename: metadata.filename },
-    { model: options.model, systemPrompt, userPrompt }
+  for (let i = 0; i < targets.length; i++) {
+    const target = targets[i];
+    try {
+      // Animations send sampled frames together so the model sees the motion
+      const animation = metadata.animated
+        ? await prepareAnimationFrames(buffer, metadata, animationFrames(options), target.imageLimits)
+        : null;
+      let image: ImageInput;
+      let prepared: PreparedImage;
+      let response: ProviderResponse;
+      if (animation) {
+        const request = buildAnimationRequest(metadata, animation.frames, { ...options, ...target }, ocr);
+        response = await target.provider.compare(request.images, request.options);
+        image = request.images[0];
+        prepared = {
+          ...animation.frames[0],
+          transforms: [`sampled ${animation.frames.length} of ${animation.frameCount} frames`],
+        };
+      } else {
+        prepared = await prepareImage(buffer, mimeTypeFromExtension(metadata.extension), metadata, target.imageLimits);
+        const request = buildAnalyzeRequest(metadata, prepared.buffer, { ...options, ...target }, prepared.mimeType, ocr);
+        response = await target.provider.analyze(request.image, request.options);
+        image = request.image;
+      }
+      if (isRefusal(response.rawText)) throw new RefusalError(metadata.filename);
+      const tiles = options.tileSize && !animation ? await analyzeTiles(metadata, buffer, { ...options, ...target }) : undefined;
+      return { image, prepared, response, fallback: reason ? { ...target, reason } : undefined, tiles };
+    } catch (err) {
+      const next = fallbackReason(err);
+      if (!next || !allowed.has(next) || i === targets.length - 1) throw err;
+      // Report why the primary was abandoned, not the last hop
+      reason ??= next;
+    }
+  }
+
+  throw new Error(`No provider available for ${metadata.filename}`);
+}
+
+/**
+ * Analyze the full-resolution tiles of an image larger than `tileSize`,
+ * for text and details only. Empty when the image fits in one tile.
+ */
+async function analyzeTiles(
+  metadata: ImageMetadata,
+  buffer: Buffer,
+  options: ProcessOptions
+): Promise<TileAnalysis[]> {
+  const prepared = await prepareTiles(
+    buffer,
+    mimeTypeFromExtension(metadata.extension),
+    metadata,
+    options.tileSize!,
+    options.imageLimits
   );
+  const systemPrompt = buildSystemPrompt(options.prompt, options.note, options.taxonomy);
+  const results: TileAnalysis[] = [];
+
+  await runBatch(prepared, PART_CONCURRENCY, async ({ tile, image }) => {
+    const response = await options.provider.analyze(
+      { buffer: image.buffer, mimeType: image.mimeType, filename: metadata.filename },
+      { model: options.model, systemPrompt, userPrompt: buildTileUserPrompt(metadata.filename, metadata.format, tile) }
+    );
+    if (isRefusal(response.rawText)) throw new RefusalError(metadata.filename);
+    results.push({ tile, parsed: parseTileResponse(response.rawText), usage: response.usage });
+  });
+
+  return results.sort((a, b) => a.tile.index - b.tile.index);
+}
+
+/** Cache key for an image under the options that affect its output. */
+export function cacheKeyFor(metadata: ImageMetadata, options: Omit<ProcessOptions, "provider">): string {
+  return buildCacheKey(metadata.sha256, {
+    model: options.model,
+    prompt: options.prompt,
+    templateName: options.templateName,
+    note: options.note,
+    provider: options.providerName,
+    page: metadata.page,
+    timestamp: metadata.timestamp,
+    frames: metadata.animated ? animationFrames(options) : undefined,
+    colors: options.colorSource === DEFAULT_COLOR_SOURCE ? undefined : options.colorSource,
+    ocr: options.ocr && (options.ocrLanguage ? `${options.ocr}:${options.ocrLanguage}` : options.ocr),
+    tiles: options.tileSize,
+    links: options.sourcePath !== undefined || options.vaultPath !== undefined
+      ? `${options.sourcePath ?? ""}|${options.vaultPath ?? ""}`
+      : undefined,
+  });
+}
+
+/**
+ * Cache key of the options alone, shared by every image analyzed with them.
+ * Links differ per image and are re-rendered on reuse, so they're left out.
+ */
+function similarityKeyFor(metadata: ImageMetadata, options: Omit<ProcessOptions, "provider">): string {
+  return cacheKeyFor({ ...metadata, sha256: "" }, { ...options, sourcePath: undefined, vaultPath: undefined });
+}
+
+function animationFrames(options: Pick<ProcessOptions, "maxFrames">): number {
+  return options.maxFrames ?? DEFAULT_ANIMATION_FRAMES;
+}
+
+/**
+ * Local OCR of the image for `options.ocr`. Undefined when OCR is off or
+ * the image can't be decoded for it.
+ */
+export async function runOcr(
+  metadata: ImageMetadata,
+  buffer: Buffer,
+  options: Pick<ProcessOptions, "ocr" | "ocrLanguage" | "ocrEngine">
+): Promise<OcrResult | undefined> {
+  if (!options.ocr) return undefined;
+  const engine = options.ocrEngine ?? defaultOcrEngine(options.ocrLanguage);
+  return (await recognizeImage(buffer, metadata, engine)) ?? undefined;
+}
+
+/**
+ * Image and prompts for one analysis call. Live runs send it straight to
+ * the provider; `--async-batch` queues it in a batch job instead.
+ */
+export function buildAnalyzeRequest(
+  metadata: ImageMetadata,
+  buffer: Buffer,
+  options: Omit<ProcessOptions, "provider">,
+  mimeType: ImageInput["mimeType"] = providerMimeType(metadata.extension),
+  ocr?: OcrResult
+): { image: ImageInput; options: AnalyzeOptions } {
+  const structured = options.structured === true;
+  const systemPrompt = buildSystemPrompt(options.prompt, options.note, options.taxonomy, structured);
+  const userPrompt =
+    (structured
+      ? buildStructuredUserPrompt(metadata.filename, metadata.format)
+      : buildUserPrompt(metadata.filename, metadata.format)) + buildKeywordHint(metadata.keywords) + groundingHint(options, ocr);
+  const responseSchema = structured
+    ? { name: ANALYSIS_SCHEMA_NAME, description: "Record the structured image analysis", schema: analysisJsonSchema() }
+    : undefined;
+
+  return {
+    image: { buffer, mimeType, filename: metadata.filename },
+    options: { model: options.model, systemPrompt, userPrompt, responseSchema },
+  };
+}
+
+/**
+ * Sampled frames and prompts for one animated GIF/APNG, sent together
+ * through the provider's multi-image `compare` call.
+ */
+export function buildAnimationRequest(
+  metadata: ImageMetadata,
+  frames: PreparedImage[],
+  options: Omit<ProcessOptions, "provider">,
+  ocr?: OcrResult
+): { images: ImageInput[]; options: AnalyzeOptions } {
+  const { options: analyzeOptions } = buildAnalyzeRequest(metadata, frames[0].buffer, options, frames[0].mimeType);
+  const userPrompt = buildAnimationUserPrompt(
+    metadata.filename,
+    metadata.format,
+    frames.length,
+    { frameCount: metadata.frameCount ?? frames.length, duration: metadata.duration ?? 0 },
+    options.structured === true
+  ) + buildKeywordHint(metadata.keywords) + groundingHint(options, ocr);
+
+  return {
+    images: frames.map((frame) => ({ buffer: frame.buffer, mimeType: frame.mimeType, filename: metadata.filename })),
+    options: { ...analyzeOptions, userPrompt },
+  };
+}
+
+/** The OCR text as prompt grounding, with `ocr: "ground"`. */
+function groundingHint(options: Pick<ProcessOptions, "ocr">, ocr: OcrResult | undefined): string {
+  return options.ocr === "ground" ? buildOcrHint(ocr?.text) : "";
+}
+
+/**
+ * Turn a provider response into a result: parse, re-ask for missing
+ * sections, validate, render and cache. Shared by live runs and batch
+ * collection so both produce identical sidecars.
+ */
+export async function completeAnalysis(
+  metadata: ImageMetadata,
+  image: ImageInput,
+  response: ProviderResponse,
+  options: ProcessOptions,
+  extras: {
+    /** The fallback that answered instead of the primary. */
+    fallback?: FallbackTarget & { reason: FallbackReason };
+    /** Local OCR of the image, with `ocr` on. */
+    ocr?: OcrResult;
+    /** Analyses of the image's tiles, with `tileSize` on. */
+    tiles?: TileAnalysis[];
+  } = {}
+): Promise<ProcessResult> {
+  const { fallback, ocr, tiles } = extras;
+  // Cache under the primary's key so the next run hits without retrying
+  const cacheKey = cacheKeyFor(metadata, options);
+  const active: ProcessOptions = fallback ? { ...options, ...fallback } : options;
 
   // Detect model refusals (e.g. OpenAI content moderation)
   if (isRefusal(response.rawText)) {
-    throw new Error(`Model refused to process ${metadata.filename} — content may have been flagged by the provider's safety filter`);
+    throw new RefusalError(metadata.filename);
   }
 
-  // Parse response
-  const parsed = parseResponse(response.rawText);
+  // Parse response — JSON when structured output was honored, text sections otherwise
+  const json = active.structured === true ? parseJsonResponse(response.rawText) : null;
+  const firstParsed = json?.parsed ?? parseResponse(response.rawText);
+
+  // Ask again for whatever the first answer left out
+  const reask = await reaskMissingSections(firstParsed, image, metadata, active);
+  // Tiles read the text and details the downscaled whole image loses
+  const parsed = tiles?.length ? mergeTiles(reask.parsed, tiles) : reask.parsed;
+  const usage = sumUsage(response.usage, ...reask.responses.map((r) => r.usage), ...(tiles ?? []).map((t) => t.usage));
 
   // Validate against taxonomy (silently corrects strict fields)
   const taxonomy = options.taxonomy ?? buildTaxonomy();
-  const { corrections, warnings } = validateParsed(parsed as unknown as Record<string, string>, taxonomy);
+  const validation = validateParsed(parsed as unknown as Record<string, string>, taxonomy);
+  const { corrections } = validation;
+  const warnings = [
+    ...(json?.issues ?? []).map((issue) => `structured output: ${issue}`),
+    ...reask.warnings,
+    ...validation.warnings,
+  ];
 
   // Apply corrections over parsed values
   const validated = { ...parsed, ...corrections };
+
+  // Local OCR replaces the model's extracted text, or is checked against it
+  if (options.ocr && !ocr) {
+    warnings.push(`OCR: skipped, couldn't decode ${metadata.format} (is sharp installed?)`);
+  } else if (ocr && options.ocr === "replace") {
+    validated.extractedText = ocr.text || "None";
+  } else if (ocr && options.ocr === "check") {
+    warnings.push(...compareOcrText(validated.extractedText, ocr));
+  }
+
+  // Measure the real palette; with "measured" it replaces the model's guess
+  const colorSource = options.colorSource ?? DEFAULT_COLOR_SOURCE;
+  const pixels = colorSource === "model" ? null : await decodePixels(image, COLOR_SAMPLE_SIZE);
+  const measuredColors = pixels ? measureColors(pixels) : [];
+  if (colorSource === "measured" && measuredColors.length > 0) {
+    validated.colorHex = measuredColors.map((c) => c.hex).join(", ");
+  }
   const {
     type, category, style, mood, medium, composition, palette,
     subject, description, extractedText, colors, tags,
     visualElements, references, useCase, colorHex,
     era, artifact, typography, script, culturalInfluence,
-    searchPhrases, dimensions: rawDimensions,
+    searchPhrases, dimensions: rawDimensions, motion,
   } = validated;
 
-  // Build template variables
-  const dimensionsPx =
-    metadata.width && metadata.height
-      ? `${metadata.width}x${metadata.height}`
-      : "unknown";
-
-  // Pre-format YAML variants for new multi-line/list fields
-  const searchPhrasesYaml = searchPhrases
-    ? searchPhrases.split("\n").filter(l => l.trim()).map(l => `  - "${l.trim()}"`).join("\n")
-    : "";
-  const dimensionsYaml = rawDimensions
-    ? rawDimensions.split("\n").filter(l => l.trim()).map(l => `  ${l.trim()}`).join("\n")
-    : "";
-  const colorHexYaml = colorHex
-    ? colorHex.split(",").map(c => `"${c.trim()}"`).join(", ")
-    : "";
-
   const now = new Date();
-  const vars: Record<string, string> = {
-    type,
-    category,
-    style,
-    mood,
-    medium,
-    composition,
-    palette,
-    subject,
-    filename: metadata.filename,
-    basename: metadata.basename,
-    format: metadata.format,
-    dimensionsPx,
-    width: metadata.width?.toString() ?? "unknown",
-    height: metadata.height?.toString() ?? "unknown",
-    sizeHuman: metadata.sizeHuman,
-    sizeBytes: metadata.sizeBytes.toString(),
-    sha256: metadata.sha256,
-    processedDate: now.toISOString().split("T")[0],
-    datetime: now.toISOString(),
-    model: options.model ?? "default",
-    note: options.note ?? "",
-    sourcePath: `./${metadata.filename}`,
-    description,
-    extractedText,
-    colors,
-    tags,
-    visualElements,
-    references,
-    useCase,
-    colorHex,
-    colorHexYaml,
-    era,
-    artifact,
-    typography,
-    script,
-    culturalInfluence,
-    searchPhrases,
-    searchPhrasesYaml,
-    dimensions: rawDimensions,
-    dimensionsYaml,
-  };
+  // The model that answered, which differs from the requested one for aliases and defaults
+  const model = response.model ?? active.model ?? "default";
+  const vars = templateVars(metadata, validated, model, options, measuredColors, ocr, now);
 
   // Render template
   const template = options.template ?? DEFAULT_TEMPLATE;
-  const markdown = renderTemplate(template, vars);
+  const markdown = render(template, vars);
 
   // Store in cache
   if (!options.noCache) {
@@ -285,9 +812,21 @@ async function _processCore(
       culturalInfluence,
       searchPhrases,
       dimensions: rawDimensions,
-      model: options.model ?? "default",
+      motion,
+      measuredColors,
+      phash: metadata.phash,
+      ocr,
+      model,
       cachedAt: now.toISOString(),
     });
+    if (metadata.phash) {
+      await indexSimilar({
+        phash: metadata.phash,
+        key: cacheKey,
+        signature: similarityKeyFor(metadata, options),
+        filename: metadata.filename,
+      });
+    }
   }
 
   return {
@@ -314,15 +853,202 @@ async function _processCore(
     culturalInfluence,
     searchPhrases,
     dimensions: rawDimensions,
+    motion,
+    measuredColors,
+    ocr,
+    tiles: tiles?.length || undefined,
     metadata,
     markdown,
     cached: false,
-    usage: response.usage,
+    usage,
     model: response.model,
     validationWarnings: warnings.length ? warnings : undefined,
+    fallback: fallback
+      ? { providerName: fallback.providerName, model: fallback.model, reason: fallback.reason }
+      : undefined,
   };
 }
 
+/** Template variables for an analysis of one image, page or document. */
+function templateVars(
+  metadata: ImageMetadata,
+  fields: ParsedResponse,
+  model: string,
+  options: Pick<ProcessOptions, "note" | "sourcePath" | "vaultPath">,
+  measured: MeasuredColor[] = [],
+  ocr?: OcrResult,
+  now = new Date()
+): TemplateVars {
+  const {
+    type, category, style, mood, medium, composition, palette,
+    subject, description, extractedText, colors, tags,
+    visualElements, references, useCase, colorHex,
+    era, artifact, typography, script, culturalInfluence,
+    searchPhrases, dimensions, motion,
+  } = fields;
+
+  const dimensionsPx =
+    metadata.width && metadata.height
+      ? `${metadata.width}x${metadata.height}`
+      : "unknown";
+  const { gps } = metadata;
+
+  return {
+    type,
+    category: splitList(category),
+    style: splitList(style),
+    mood: splitList(mood),
+    medium,
+    composition: splitList(composition),
+    palette: splitList(palette),
+    subject,
+    filename: metadata.filename,
+    basename: metadata.basename,
+    format: metadata.format,
+    dimensionsPx,
+    width: metadata.width ?? "unknown",
+    height: metadata.height ?? "unknown",
+    sizeHuman: metadata.sizeHuman,
+    sizeBytes: metadata.sizeBytes,
+    sha256: metadata.sha256,
+    phash: metadata.phash,
+    page: metadata.page,
+    pageCount: metadata.pageCount,
+    duration: metadata.duration !== undefined ? Number(metadata.duration.toFixed(1)) : "",
+    codec: metadata.codec,
+    frameCount: metadata.frameCount,
+    loop: metadata.loop === undefined ? "" : metadata.loop === 0 ? "forever" : metadata.loop,
+    dateTaken: metadata.dateTaken,
+    camera: metadata.camera,
+    lens: metadata.lens,
+    gps: gps ? [gps.latitude, gps.longitude] : [],
+    latitude: gps?.latitude,
+    longitude: gps?.longitude,
+    altitude: gps?.altitude,
+    orientation: metadata.orientation ? orientationName(metadata.orientation) : "",
+    colorProfile: metadata.colorProfile,
+    caption: metadata.caption,
+    keywords: metadata.keywords ?? [],
+    processedDate: now.toISOString().split("T")[0],
+    datetime: now.toISOString(),
+    model,
+    note: options.note ?? "",
+    sourcePath: options.sourcePath ?? `./${metadata.filename}`,
+    vaultPath: options.vaultPath ?? metadata.filename,
+    description,
+    extractedText,
+    colors: splitList(colors),
+    tags: splitList(tags),
+    obsidianTags: obsidianTags(splitList(tags)),
+    visualElements: splitList(visualElements),
+    references: splitList(references),
+    useCase: splitList(useCase),
+    colorHex: splitList(colorHex),
+    colorHexMeasured: measured.map((c) => printedAs({ hex: c.hex, coverage: c.coverage }, `${c.hex} ${c.coverage}%`)),
+    paletteHex: matchPaletteHex(palette, measured).map((p) => ({ name: p.name, hex: p.hex })),
+    ocrText: ocr?.text ?? "",
+    ocrConfidence: ocr?.confidence,
+    era: splitList(era),
+    artifact: splitList(artifact),
+    typography: splitList(typography),
+    script: splitList(script),
+    culturalInfluence: splitList(culturalInfluence),
+    colorHexYaml: splitList(colorHex).map((c) => `"${c}"`).join(", "),
+    searchPhrasesYaml: splitLines(searchPhrases).map((l) => `  - "${l}"`).join("\n"),
+    dimensionsYaml: splitLines(dimensions).map((l) => `  ${l}`).join("\n"),
+    // One per line, as these printed before they were lists
+    searchPhrases: printedAs(splitLines(searchPhrases), splitLines(searchPhrases).join("\n")),
+    dimensions: printedAs(
+      splitLines(dimensions).map((line) => printedAs(parseDimension(line), line)),
+      splitLines(dimensions).join("\n")
+    ),
+    motion,
+  };
+}
+
+/**
+ * Variables from before list fields were lists, kept for custom templates.
+ * A bare `{{colorHexYaml}}` expands to the loop that prints what it used
+ * to, so the frontmatter serializer still escapes the values; with filters
+ * or in `{{#if}}` they're the same text, pre-rendered by templateVars.
+ */
+const LEGACY_VARIABLES: Record<string, string> = {
+  colorHexYaml: '{{#each colorHex}}"{{this}}"{{#unless @last}}, {{/unless}}{{/each}}',
+  searchPhrasesYaml: '{{#each searchPhrases}}  - "{{this}}"{{#unless @last}}\n{{/unless}}{{/each}}',
+  dimensionsYaml: "{{#each dimensions}}  {{name}}:{{#if description}} {{description}}{{/if}}{{#unless @last}}\n{{/unless}}{{/each}}",
+};
+
+const LEGACY_TAG = /\{\{\s*(colorHexYaml|searchPhrasesYaml|dimensionsYaml)\s*\}\}/g;
+
+/** Render a template, with legacy variables expanded. */
+function render(template: string, vars: TemplateVars): string {
+  return renderTemplate(template.replace(LEGACY_TAG, (_tag, name: string) => LEGACY_VARIABLES[name]), vars);
+}
+
+/** Items of a comma-separated field. */
+export function splitList(value: string): string[] {
+  return value.split(",").map((v) => v.trim()).filter(Boolean);
+}
+
+/** Lines of a one-per-line field. */
+export function splitLines(value: string): string[] {
+  return value.split("\n").map((l) => l.trim()).filter(Boolean);
+}
+
+/** One line of the DIMENSIONS field, "name: description". */
+export function parseDimension(line: string): Dimension {
+  const colon = line.indexOf(":");
+  return colon === -1
+    ? { name: line, description: "" }
+    : { name: line.slice(0, colon).trim(), description: line.slice(colon + 1).trim() };
+}
+
+/** An object or list that prints as `text` in `{{var}}`, while `{{#each}}` and `| yaml` still see its fields. */
+function printedAs<T extends object>(fields: T, text: string): T {
+  return Object.defineProperty(fields, "toString", { value: () => text, enumerable: false });
+}
+
+/**
+ * Follow-up round trips for required sections the model skipped or got
+ * wrong. Each round only asks for what is still missing and merges the
+ * answer over what we already have.
+ */
+async function reaskMissingSections(
+  parsed: ParsedResponse,
+  image: ImageInput,
+  metadata: ImageMetadata,
+  options: ProcessOptions
+): Promise<{ parsed: ParsedResponse; responses: ProviderResponse[]; warnings: string[] }> {
+  const limit = options.reask ?? 0;
+  const responses: ProviderResponse[] = [];
+  const warnings: string[] = [];
+  if (limit <= 0) return { parsed, responses, warnings };
+
+  // Follow-ups always use the text format so partial answers parse
+  const systemPrompt = buildSystemPrompt(options.prompt, options.note, options.taxonomy);
+  let missing = findIncompleteSections(parsed);
+
+  for (let attempt = 1; attempt <= limit && missing.length > 0; attempt++) {
+    warnings.push(`re-asked for missing sections: ${missing.join(", ")} (attempt ${attempt})`);
+    const response = await options.provider.analyze(image, {
+      model: options.model,
+      systemPrompt,
+      userPrompt: buildFollowUpPrompt(metadata.filename, metadata.format, missing),
+    });
+    responses.push(response);
+    if (isRefusal(response.rawText)) break;
+
+    parsed = { ...parsed, ...parseSections(response.rawText, missing) };
+    missing = findIncompleteSections(parsed);
+  }
+
+  if (missing.length > 0) {
+    warnings.push(`still missing after ${responses.length} re-ask(s): ${missing.join(", ")}`);
+  }
+
+  return { parsed, responses, warnings };
+}
+
 const REFUSAL_PATTERNS = [
   /^i'?m sorry,? i can'?t/i,
   /^i cannot assist/i,
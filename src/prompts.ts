@@ -165,10 +165,25 @@ Rules:
 - If text is partially obscured or unclear, indicate with [unclear]`;
 }
 
-export function buildSystemPrompt(customPrompt?: string, note?: string, taxonomy?: Taxonomy): string {
+const STRUCTURED_OUTPUT_NOTE = `Structured output:
+Instead of writing the sections as text, return them as a single JSON object matching the provided schema.
+Each section maps to the camelCase field of the same name (VISUAL_ELEMENTS → visualElements, COLOR_HEX → colorHex).
+Comma-separated and one-per-line sections become arrays of strings. Each DIMENSIONS line becomes { "name", "description" }.
+Where a section says to write "none", use an empty array (or an empty string for extractedText). All other rules above still apply.`;
+
+export function buildSystemPrompt(
+  customPrompt?: string,
+  note?: string,
+  taxonomy?: Taxonomy,
+  structured?: boolean
+): string {
   const resolved = taxonomy ?? buildTaxonomy();
   let prompt = buildBaseSystemPrompt(resolved);
 
+  if (structured) {
+    prompt += `\n\n${STRUCTURED_OUTPUT_NOTE}`;
+  }
+
   if (customPrompt) {
     prompt += `\n\n${customPrompt}`;
   }
@@ -184,6 +199,51 @@ export function buildUserPrompt(filename: string, format: string): string {
   return `Analyze this ${format} image (${filename}). Respond with TYPE:, CATEGORY:, STYLE:, MOOD:, MEDIUM:, COMPOSITION:, PALETTE:, SUBJECT:, TAGS:, VISUAL_ELEMENTS:, REFERENCES:, USE_CASE:, COLOR_HEX:, ERA:, ARTIFACT:, TYPOGRAPHY:, SCRIPT:, CULTURAL_INFLUENCE:, DESCRIPTION:, SEARCH_PHRASES:, DIMENSIONS:, and EXTRACTED_TEXT: sections as specified.`;
 }
 
+export function buildStructuredUserPrompt(filename: string, format: string): string {
+  return `Analyze this ${format} image (${filename}). Return every field of the JSON schema as specified.`;
+}
+
+/**
+ * Keywords already embedded in the file (IPTC/XMP), appended to the user
+ * prompt as hints. Empty when there are none.
+ */
+export function buildKeywordHint(keywords: string[] | undefined): string {
+  if (!keywords?.length) return "";
+  return `\n\nThe file is already tagged with these keywords: ${keywords.join(", ")}. Use them as hints for names, places and subjects, but only where the image supports them.`;
+}
+
+/**
+ * Text read by local OCR (`--ocr ground`), appended to the user prompt so
+ * the extracted text doesn't drop or invent lines. Empty when OCR found none.
+ */
+export function buildOcrHint(text: string | undefined): string {
+  if (!text?.trim()) return "";
+  return `\n\nLocal OCR read this text from the image:\n\n<ocr>\n${text.trim()}\n</ocr>\n\nUse it to ground the extracted text: include every line it found that you can see, fix its misreadings, keep the reading order, and don't add text that isn't in the image.`;
+}
+
+const MOTION_INSTRUCTIONS = `MOTION:
+[2-4 sentences on how the animation moves: what changes between frames and in what order, pacing and
+easing, and whether it loops seamlessly. For UI animations, name the interaction or state change
+(hover, loading, expand, page transition).]`;
+
+/**
+ * User prompt for an animated GIF or APNG sent as sampled frames. The usual
+ * sections describe the animation as a whole; MOTION covers what changes.
+ */
+export function buildAnimationUserPrompt(
+  filename: string,
+  format: string,
+  sampled: number,
+  animation: { frameCount: number; duration: number },
+  structured = false
+): string {
+  const intro = `These ${sampled} images are frames sampled in order from an animated ${format} (${filename}, ${animation.frameCount} frames, ${animation.duration}s per loop). Analyze the animation as a whole.`;
+  if (structured) {
+    return `${intro} Return every field of the JSON schema as specified, and describe the movement in the motion field:\n\n${MOTION_INSTRUCTIONS}`;
+  }
+  return `${intro} Respond with TYPE:, CATEGORY:, STYLE:, MOOD:, MEDIUM:, COMPOSITION:, PALETTE:, SUBJECT:, TAGS:, VISUAL_ELEMENTS:, REFERENCES:, USE_CASE:, COLOR_HEX:, ERA:, ARTIFACT:, TYPOGRAPHY:, SCRIPT:, CULTURAL_INFLUENCE:, DESCRIPTION:, SEARCH_PHRASES:, DIMENSIONS:, MOTION:, and EXTRACTED_TEXT: sections as specified, with MOTION: written as:\n\n${MOTION_INSTRUCTIONS}`;
+}
+
 const COMPARE_SYSTEM_PROMPT = `You are an expert image analyst comparing two images. Produce a structured comparison in markdown.
 
 Format your response with exactly these sections:
@@ -249,3 +309,31 @@ export function formatCompareMarkdown(rawText: string, filenames: string[]): str
 
   return header + body.trimEnd() + "\n";
 }
+
+/**
+ * User prompt for one full-resolution tile of a large image (`--tile`).
+ * Only text and small details are asked for; the rest of the analysis
+ * comes from the whole image.
+ */
+export function buildTileUserPrompt(
+  filename: string,
+  format: string,
+  tile: { row: number; col: number; rows: number; cols: number }
+): string {
+  return `This is one tile (row ${tile.row + 1} of ${tile.rows}, column ${tile.col + 1} of ${tile.cols}) cut at full resolution from a large ${format} image (${filename}). Neighboring tiles overlap slightly. Respond with ONLY these two sections:
+
+EXTRACTED_TEXT:
+[Every piece of text in this tile, exactly as written, one line per line of text, top to bottom and left to right. Include small print, labels, legends, axis values and numbers. No bold labels or grouping. Include partly cut-off text only where it is legible. If there is no text, write "None"]
+
+VISUAL_ELEMENTS:
+[Comma-separated, hyphenated-lowercase literal objects and small details visible in this tile]`;
+}
+
+/**
+ * Follow-up prompt asking only for the sections the first answer was
+ * missing or got wrong. Uses the text section format regardless of mode.
+ */
+export function buildFollowUpPrompt(filename: string, format: string, sections: string[]): string {
+  const headers = sections.map((s) => `${s}:`).join(", ");
+  return `Your previous analysis of this ${format} image (${filename}) was missing or malformed these sections: ${headers}. Look at the image again and respond with ONLY those sections, in the exact format specified. Do not repeat any other sections.`;
+}
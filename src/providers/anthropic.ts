@@ -1,100 +1,224 @@
 import Anthropic from "@anthropic-ai/sdk";
-import type { Provider, ImageInput, AnalyzeOptions, ProviderResponse } from "./types.js";
+import type {
+  Provider,
+  ProviderDefinition,
+  ImageInput,
+  AnalyzeOptions,
+  ProviderResponse,
+  ResponseSchema,
+  BatchProvider,
+  BatchRequest,
+  BatchJobStatus,
+  BatchItemResult,
+  TokenUsage,
+} from "./types.js";
+import { parseRateLimitHeaders } from "./rate-limit-headers.js";
 
 const DEFAULT_MODEL = "claude-sonnet-4-5-20250929";
 const MAX_TOKENS = 4096;
 
-export class AnthropicProvider implements Provider {
+export interface AnthropicProviderOptions {
+  /** Override the API endpoint, e.g. a proxy or a local stand-in for tests. */
+  baseURL?: string;
+  apiKey?: string;
+}
+
+export class AnthropicProvider implements Provider, BatchProvider {
+  private options: AnthropicProviderOptions;
+
+  constructor(options: AnthropicProviderOptions = {}) {
+    this.options = options;
+  }
+
   async analyze(
     image: ImageInput,
     options: AnalyzeOptions
   ): Promise<ProviderResponse> {
-    const client = new Anthropic({ maxRetries: 3 });
-    const model = options.model ?? DEFAULT_MODEL;
-
-    const base64 = image.buffer.toString("base64");
-
-    const response = await client.messages.create({
-      model,
-      max_tokens: MAX_TOKENS,
-      system: options.systemPrompt,
-      messages: [
-        {
-          role: "user",
-          content: [
-            {
-              type: "image",
-              source: {
-                type: "base64",
-                media_type: image.mimeType,
-                data: base64,
-              },
-            },
-            {
-              type: "text",
-              text: options.userPrompt,
-            },
-          ],
-        },
-      ],
-    });
-
-    const textBlock = response.content.find((block) => block.type === "text");
-    if (!textBlock || textBlock.type !== "text") {
-      throw new Error("No text response from API");
-    }
-
-    return {
-      rawText: textBlock.text,
-      usage: {
-        inputTokens: response.usage.input_tokens,
-        outputTokens: response.usage.output_tokens,
-      },
-      model: response.model,
-    };
+    return this.send(messageParams([image], options), options.responseSchema?.name);
   }
 
   async compare(
     images: ImageInput[],
     options: AnalyzeOptions
   ): Promise<ProviderResponse> {
-    const client = new Anthropic({ maxRetries: 3 });
-    const model = options.model ?? DEFAULT_MODEL;
-
-    const content: Anthropic.Messages.ContentBlockParam[] = [];
-    for (const image of images) {
-      content.push({
-        type: "image",
-        source: {
-          type: "base64",
-          media_type: image.mimeType,
-          data: image.buffer.toString("base64"),
-        },
-      });
-    }
-    content.push({ type: "text", text: options.userPrompt });
+    return this.send(messageParams(images, options), options.responseSchema?.name);
+  }
 
-    const response = await client.messages.create({
-      model,
-      max_tokens: MAX_TOKENS,
-      system: options.systemPrompt,
-      messages: [{ role: "user", content }],
+  async submitBatch(requests: BatchRequest[]): Promise<string> {
+    const batch = await this.createClient().messages.batches.create({
+      requests: requests.map((req) => ({
+        custom_id: req.id,
+        params: messageParams([req.image], req.options),
+      })),
     });
+    return batch.id;
+  }
 
-    const textBlock = response.content.find((block) => block.type === "text");
-    if (!textBlock || textBlock.type !== "text") {
-      throw new Error("No text response from API");
+  async getBatchStatus(jobId: string): Promise<BatchJobStatus> {
+    const batch = await this.createClient().messages.batches.retrieve(jobId);
+    const counts = batch.request_counts;
+    const failed = counts.errored + counts.canceled + counts.expired;
+    return {
+      id: batch.id,
+      state: batch.processing_status === "ended" ? "ended" : "in_progress",
+      counts: { total: counts.processing + counts.succeeded + failed, succeeded: counts.succeeded, failed },
+    };
+  }
+
+  async getBatchResults(jobId: string): Promise<BatchItemResult[]> {
+    const results: BatchItemResult[] = [];
+    for await (const entry of await this.createClient().messages.batches.results(jobId)) {
+      const { result } = entry;
+      if (result.type === "succeeded") {
+        // The tool name isn't echoed back, but a batch only ever sends one tool
+        const tool = result.message.content.find((block) => block.type === "tool_use");
+        try {
+          results.push({ id: entry.custom_id, response: toProviderResponse(result.message, tool?.name) });
+        } catch (err) {
+          results.push({ id: entry.custom_id, error: (err as Error).message });
+        }
+      } else if (result.type === "errored") {
+        results.push({ id: entry.custom_id, error: result.error.error.message });
+      } else {
+        results.push({ id: entry.custom_id, error: `Request ${result.type}` });
+      }
     }
+    return results;
+  }
 
-    return {
-      rawText: textBlock.text,
-      usage: {
-        inputTokens: response.usage.input_tokens,
-        outputTokens: response.usage.output_tokens,
+  /** Live request; rate-limit headers ride along for the scheduler. */
+  private async send(
+    params: Anthropic.Messages.MessageCreateParamsNonStreaming,
+    toolName?: string
+  ): Promise<ProviderResponse> {
+    const { data, response } = await this.createClient().messages.create(params).withResponse();
+    const rateLimit = parseRateLimitHeaders(response.headers);
+    return { ...toProviderResponse(data, toolName), ...(rateLimit && { rateLimit }) };
+  }
+
+  private createClient(): Anthropic {
+    const { baseURL, apiKey } = this.options;
+    // No SDK retries: the shared rate limiter retries 429s, overloads, 5xx and dropped connections
+    return new Anthropic({ maxRetries: 0, baseURL, apiKey });
+  }
+}
+
+/**
+ * Request body for one or more images followed by the user prompt.
+ * Shared by live calls and batch submissions so both send the same thing.
+ */
+function messageParams(
+  images: ImageInput[],
+  options: AnalyzeOptions
+): Anthropic.Messages.MessageCreateParamsNonStreaming {
+  const content: Anthropic.Messages.ContentBlockParam[] = [];
+  for (const image of images) {
+    content.push({
+      type: "image",
+      source: {
+        type: "base64",
+        media_type: image.mimeType,
+        data: image.buffer.toString("base64"),
       },
-      model: response.model,
-    };
+    });
+  }
+  content.push({ type: "text", text: options.userPrompt });
+
+  return {
+    model: options.model ?? DEFAULT_MODEL,
+    max_tokens: MAX_TOKENS,
+    // The system prompt carries the whole taxonomy and is identical across a
+    // run, so cache it; later images then pay the cache-read rate for it
+    system: [{ type: "text", text: options.systemPrompt, cache_control: { type: "ephemeral" } }],
+    ...toolParams(options.responseSchema),
+    messages: [{ role: "user", content }],
+  };
+}
+
+/**
+ * Structured output on Anthropic is a forced tool call whose input schema
+ * is the response schema.
+ */
+function toolParams(schema?: ResponseSchema) {
+  if (!schema) return {};
+  return {
+    tools: [
+      {
+        name: schema.name,
+        description: schema.description ?? "Record the analysis",
+        input_schema: schema.schema as Anthropic.Messages.Tool.InputSchema,
+      },
+    ],
+    tool_choice: { type: "tool" as const, name: schema.name },
+  };
+}
+
+function toProviderResponse(
+  response: Anthropic.Messages.Message,
+  toolName?: string
+): ProviderResponse {
+  const usage: TokenUsage = {
+    inputTokens: response.usage.input_tokens,
+    outputTokens: response.usage.output_tokens,
+  };
+  // Older API versions and stand-ins omit the cache counters
+  if (response.usage.cache_read_input_tokens) {
+    usage.cacheReadTokens = response.usage.cache_read_input_tokens;
+  }
+  if (response.usage.cache_creation_input_tokens) {
+    usage.cacheWriteTokens = response.usage.cache_creation_input_tokens;
+  }
+
+  if (toolName) {
+    const toolBlock = response.content.find(
+      (block) => block.type === "tool_use" && block.name === toolName
+    );
+    if (toolBlock && toolBlock.type === "tool_use") {
+      return { rawText: JSON.stringify(toolBlock.input), usage, model: response.model };
+    }
   }
+
+  // Text answer: the normal path, or a refusal in place of the tool call
+  const textBlock = response.content.find((block) => block.type === "text");
+  if (!textBlock || textBlock.type !== "text") {
+    throw new Error("No text response from API");
+  }
+
+  return { rawText: textBlock.text, usage, model: response.model };
 }
 
 export const DEFAULT_ANTHROPIC_MODEL = DEFAULT_MODEL;
+
+export const anthropicDefinition: ProviderDefinition = {
+  name: "anthropic",
+  label: "Anthropic",
+  defaultModel: DEFAULT_MODEL,
+  apiKeyEnv: "ANTHROPIC_API_KEY",
+  apiKeyUrl: "https://console.anthropic.com/settings/keys",
+  apiKeyExample: 'export ANTHROPIC_API_KEY="sk-ant-..."',
+  pricing: {
+    "claude-sonnet-4-5-20250929": { input: 3.0, output: 15.0, cacheRead: 0.3, cacheWrite: 3.75 },
+    "claude-opus-4-6": { input: 15.0, output: 75.0, cacheRead: 1.5, cacheWrite: 18.75 },
+    "claude-haiku-4-5-20251001": { input: 0.8, output: 4.0, cacheRead: 0.08, cacheWrite: 1.0 },
+  },
+  tiers: { quality: DEFAULT_MODEL },
+  capabilities: {
+    compare: true,
+    // The 5 MB limit applies to the base64 payload, which is 4/3 of the raw size
+    maxImageBytes: Math.floor((5 * 1024 * 1024 * 3) / 4),
+    maxImageDimension: 8000,
+    structuredOutput: true,
+    batch: true,
+    maxBatchBytes: 256 * 1024 * 1024,
+    maxBatchRequests: 100_000,
+  },
+  create: () => new AnthropicProvider(),
+  async verify() {
+    const client = new Anthropic();
+    await client.messages.create({
+      model: DEFAULT_MODEL,
+      max_tokens: 10,
+      messages: [{ role: "user", content: "Hi" }],
+    });
+  },
+};
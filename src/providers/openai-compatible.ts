@@ -0,0 +1,81 @@
+import { OpenAIProvider } from "./openai.js";
+import type { ModelPricing, ProviderDefinition } from "./types.js";
+
+export interface OpenAICompatibleConfig {
+  /** Endpoint serving `/chat/completions`, e.g. http://localhost:11434/v1 */
+  baseURL: string;
+  /** Env var holding the API key. Omit for servers that don't check keys. */
+  apiKeyEnv?: string;
+  /** Extra headers sent with every request. */
+  headers?: Record<string, string>;
+  /** Model to use when none is given. "auto" (default) picks the first model the server lists. */
+  defaultModel?: string;
+  label?: string;
+  /** Defaults to free for every model — local inference has no per-token cost. */
+  pricing?: Record<string, ModelPricing>;
+  tiers?: Record<string, string>;
+  maxImageBytes?: number;
+  /** Server supports `response_format: json_schema` (recent Ollama and vLLM do). */
+  structuredOutput?: boolean;
+}
+
+// Local servers ignore the key, but the OpenAI SDK refuses to start without one
+const PLACEHOLDER_API_KEY = "not-needed";
+
+const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1";
+const DEFAULT_LOCAL_MODEL = "llava";
+
+const FREE: ModelPricing = { input: 0, output: 0 };
+
+/**
+ * Build a provider definition for any server speaking the OpenAI chat
+ * completions API with image inputs: Ollama, LM Studio, vLLM, llama.cpp.
+ */
+export function defineOpenAICompatibleProvider(
+  name: string,
+  config: OpenAICompatibleConfig
+): ProviderDefinition {
+  const defaultModel = config.defaultModel ?? "auto";
+
+  const create = () =>
+    new OpenAIProvider({
+      baseURL: config.baseURL,
+      apiKey: (config.apiKeyEnv && process.env[config.apiKeyEnv]) || PLACEHOLDER_API_KEY,
+      defaultHeaders: config.headers,
+      defaultModel,
+    });
+
+  return {
+    name,
+    label: config.label ?? name,
+    defaultModel,
+    apiKeyEnv: config.apiKeyEnv,
+    pricing: config.pricing ?? { [defaultModel]: FREE },
+    // Discovered and --model names aren't known up front
+    defaultPricing: config.pricing ? undefined : FREE,
+    tiers: config.tiers,
+    capabilities: {
+      compare: true,
+      maxImageBytes: config.maxImageBytes,
+      structuredOutput: config.structuredOutput ?? false,
+    },
+    create,
+    async verify() {
+      const models = await create().listModels();
+      if (models.length === 0) {
+        throw new Error(`No models available at ${config.baseURL}`);
+      }
+    },
+  };
+}
+
+/**
+ * Built-in local provider. Targets Ollama's default port; point it elsewhere
+ * with M2MD_LOCAL_BASE_URL or override it with a `local` entry in config.
+ */
+export const localDefinition: ProviderDefinition = defineOpenAICompatibleProvider("local", {
+  baseURL: process.env.M2MD_LOCAL_BASE_URL ?? DEFAULT_LOCAL_BASE_URL,
+  defaultModel: DEFAULT_LOCAL_MODEL,
+  label: "Local (OpenAI-compatible)",
+  tiers: { local: DEFAULT_LOCAL_MODEL },
+});
@@ -1,100 +1,277 @@
-import OpenAI from "openai";
-import type { Provider, ImageInput, AnalyzeOptions, ProviderResponse } from "./types.js";
+import OpenAI, { toFile } from "openai";
+import type {
+  Provider,
+  ProviderDefinition,
+  ImageInput,
+  AnalyzeOptions,
+  ProviderResponse,
+  ResponseSchema,
+  BatchProvider,
+  BatchRequest,
+  BatchJobStatus,
+  BatchItemResult,
+} from "./types.js";
+import { parseRateLimitHeaders } from "./rate-limit-headers.js";
 
 const DEFAULT_MODEL = "gpt-4o";
 const MAX_TOKENS = 4096;
+const BATCH_ENDPOINT = "/v1/chat/completions";
+
+export interface OpenAIProviderOptions {
+  /** Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1 */
+  baseURL?: string;
+  apiKey?: string;
+  defaultHeaders?: Record<string, string>;
+  /** Model used when none is requested. "auto" picks the first model the server lists. */
+  defaultModel?: string;
+}
+
+export class OpenAIProvider implements Provider, BatchProvider {
+  private options: OpenAIProviderOptions;
+  private discoveredModel?: string;
+
+  constructor(options: OpenAIProviderOptions = {}) {
+    this.options = options;
+  }
 
-export class OpenAIProvider implements Provider {
   async analyze(
     image: ImageInput,
     options: AnalyzeOptions
   ): Promise<ProviderResponse> {
-    const client = new OpenAI({ maxRetries: 3 });
-    const model = options.model ?? DEFAULT_MODEL;
-
-    const base64 = image.buffer.toString("base64");
-    const dataUri = `data:${image.mimeType};base64,${base64}`;
-
-    const response = await client.chat.completions.create({
-      model,
-      max_tokens: MAX_TOKENS,
-      messages: [
-        {
-          role: "system",
-          content: options.systemPrompt,
-        },
-        {
-          role: "user",
-          content: [
-            {
-              type: "image_url",
-              image_url: { url: dataUri },
-            },
-            {
-              type: "text",
-              text: options.userPrompt,
-            },
-          ],
-        },
-      ],
-    });
-
-    const choice = response.choices[0];
-    if (!choice?.message?.content) {
-      throw new Error("No text response from API");
-    }
-
-    return {
-      rawText: choice.message.content,
-      usage: response.usage
-        ? {
-            inputTokens: response.usage.prompt_tokens,
-            outputTokens: response.usage.completion_tokens,
-          }
-        : undefined,
-      model: response.model,
-    };
+    return this.complete([image], options);
   }
 
   async compare(
     images: ImageInput[],
     options: AnalyzeOptions
   ): Promise<ProviderResponse> {
-    const client = new OpenAI({ maxRetries: 3 });
-    const model = options.model ?? DEFAULT_MODEL;
+    return this.complete(images, options);
+  }
 
-    const content: OpenAI.Chat.Completions.ChatCompletionContentPart[] = [];
-    for (const image of images) {
-      const dataUri = `data:${image.mimeType};base64,${image.buffer.toString("base64")}`;
-      content.push({ type: "image_url", image_url: { url: dataUri } });
-    }
-    content.push({ type: "text", text: options.userPrompt });
-
-    const response = await client.chat.completions.create({
-      model,
-      max_tokens: MAX_TOKENS,
-      messages: [
-        { role: "system", content: options.systemPrompt },
-        { role: "user", content },
-      ],
-    });
+  async submitBatch(requests: BatchRequest[]): Promise<string> {
+    const client = this.createClient();
+    const model = await this.resolveModel(client, requests[0]?.options.model);
 
-    const choice = response.choices[0];
-    if (!choice?.message?.content) {
-      throw new Error("No text response from API");
-    }
+    const lines = requests.map((req) =>
+      JSON.stringify({
+        custom_id: req.id,
+        method: "POST",
+        url: BATCH_ENDPOINT,
+        body: chatParams([req.image], req.options, req.options.model ?? model),
+      })
+    );
+    const file = await client.files.create({
+      file: await toFile(Buffer.from(lines.join("\n") + "\n"), "m2md-batch.jsonl"),
+      purpose: "batch",
+    });
+    const batch = await client.batches.create({
+      input_file_id: file.id,
+      endpoint: BATCH_ENDPOINT,
+      completion_window: "24h",
+    });
+    return batch.id;
+  }
 
+  async getBatchStatus(jobId: string): Promise<BatchJobStatus> {
+    const batch = await this.createClient().batches.retrieve(jobId);
+    const counts = batch.request_counts ?? { total: 0, completed: 0, failed: 0 };
     return {
-      rawText: choice.message.content,
-      usage: response.usage
-        ? {
-            inputTokens: response.usage.prompt_tokens,
-            outputTokens: response.usage.completion_tokens,
-          }
-        : undefined,
-      model: response.model,
+      id: batch.id,
+      state: batchState(batch.status),
+      counts: { total: counts.total, succeeded: counts.completed, failed: counts.failed },
     };
   }
+
+  async getBatchResults(jobId: string): Promise<BatchItemResult[]> {
+    const client = this.createClient();
+    const batch = await client.batches.retrieve(jobId);
+    const results: BatchItemResult[] = [];
+
+    // Successful requests land in the output file, rejected ones in the error file
+    for (const fileId of [batch.output_file_id, batch.error_file_id]) {
+      if (!fileId) continue;
+      const text = await (await client.files.content(fileId)).text();
+      for (const line of text.split("\n")) {
+        if (line.trim()) results.push(batchLineResult(JSON.parse(line)));
+      }
+    }
+    return results;
+  }
+  /** List model IDs served by the endpoint. */
+  async listModels(): Promise<string[]> {
+    const client = this.createClient();
+    const ids: string[] = [];
+    for await (const model of client.models.list()) {
+      ids.push(model.id);
+    }
+    return ids;
+  }
+
+  private async complete(images: ImageInput[], options: AnalyzeOptions): Promise<ProviderResponse> {
+    const client = this.createClient();
+    const model = await this.resolveModel(client, options.model);
+    const { data, response } = await client.chat.completions.create(chatParams(images, options, model)).withResponse();
+    const rateLimit = parseRateLimitHeaders(response.headers);
+    return { ...toProviderResponse(data, model), ...(rateLimit && { rateLimit }) };
+  }
+
+  private createClient(): OpenAI {
+    const { baseURL, apiKey, defaultHeaders } = this.options;
+    // No SDK retries: the shared rate limiter retries 429s, overloads, 5xx and dropped connections
+    return new OpenAI({ maxRetries: 0, baseURL, apiKey, defaultHeaders });
+  }
+
+  private async resolveModel(client: OpenAI, requested?: string): Promise<string> {
+    const model = requested ?? this.options.defaultModel ?? DEFAULT_MODEL;
+    if (model !== "auto") return model;
+
+    if (!this.discoveredModel) {
+      const page = await client.models.list();
+      const first = page.data[0]?.id;
+      if (!first) {
+        throw new Error(`No models available at ${this.options.baseURL ?? "the OpenAI API"}`);
+      }
+      this.discoveredModel = first;
+    }
+    return this.discoveredModel;
+  }
+}
+
+/**
+ * Request body for one or more images followed by the user prompt.
+ * Shared by live calls and batch submissions so both send the same thing.
+ */
+function chatParams(
+  images: ImageInput[],
+  options: AnalyzeOptions,
+  model: string
+): OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming {
+  const content: OpenAI.Chat.Completions.ChatCompletionContentPart[] = [];
+  for (const image of images) {
+    const dataUri = `data:${image.mimeType};base64,${image.buffer.toString("base64")}`;
+    content.push({ type: "image_url", image_url: { url: dataUri } });
+  }
+  content.push({ type: "text", text: options.userPrompt });
+
+  return {
+    model,
+    max_tokens: MAX_TOKENS,
+    ...responseFormat(options.responseSchema),
+    messages: [
+      { role: "system", content: options.systemPrompt },
+      { role: "user", content },
+    ],
+  };
+}
+
+function batchState(status: OpenAI.Batches.Batch["status"]): BatchJobStatus["state"] {
+  switch (status) {
+    case "completed":
+    case "expired":
+    case "cancelled":
+      // Expired and cancelled jobs still return whatever finished
+      return "ended";
+    case "failed":
+      return "failed";
+    default:
+      return "in_progress";
+  }
+}
+
+interface BatchOutputLine {
+  custom_id: string;
+  response?: { status_code: number; body: OpenAI.Chat.Completions.ChatCompletion & { error?: { message: string } } } | null;
+  error?: { message: string } | null;
+}
+
+function batchLineResult(line: BatchOutputLine): BatchItemResult {
+  const body = line.response?.body;
+  if (line.error || !body || line.response!.status_code !== 200) {
+    const message = line.error?.message ?? body?.error?.message ?? `HTTP ${line.response?.status_code}`;
+    return { id: line.custom_id, error: message };
+  }
+  try {
+    return { id: line.custom_id, response: toProviderResponse(body, body.model) };
+  } catch (err) {
+    return { id: line.custom_id, error: (err as Error).message };
+  }
+}
+
+function responseFormat(schema?: ResponseSchema) {
+  if (!schema) return {};
+  return {
+    response_format: {
+      type: "json_schema" as const,
+      json_schema: {
+        name: schema.name,
+        description: schema.description,
+        schema: schema.schema,
+        strict: true,
+      },
+    },
+  };
+}
+
+/**
+ * Local OpenAI-compatible servers often omit `usage` or `model`, or send
+ * partial usage objects — only report usage when token counts are present.
+ */
+function toProviderResponse(
+  response: OpenAI.Chat.Completions.ChatCompletion,
+  requestedModel: string
+): ProviderResponse {
+  const choice = response.choices[0];
+  // Structured output reports refusals separately from content
+  const rawText = choice?.message?.content ?? choice?.message?.refusal;
+  if (!rawText) {
+    throw new Error("No text response from API");
+  }
+
+  const usage = response.usage;
+  const hasUsage = typeof usage?.prompt_tokens === "number" && typeof usage?.completion_tokens === "number";
+
+  return {
+    rawText,
+    usage: hasUsage
+      ? {
+          inputTokens: usage!.prompt_tokens,
+          outputTokens: usage!.completion_tokens,
+        }
+      : undefined,
+    model: response.model || requestedModel,
+  };
 }
 
 export const DEFAULT_OPENAI_MODEL = DEFAULT_MODEL;
+
+export const openaiDefinition: ProviderDefinition = {
+  name: "openai",
+  label: "OpenAI",
+  defaultModel: DEFAULT_MODEL,
+  apiKeyEnv: "OPENAI_API_KEY",
+  apiKeyUrl: "https://platform.openai.com/api-keys",
+  apiKeyExample: 'export OPENAI_API_KEY="sk-..."',
+  pricing: {
+    "gpt-4o": { input: 2.5, output: 10.0 },
+    "gpt-4o-mini": { input: 0.15, output: 0.60 },
+  },
+  tiers: { fast: "gpt-4o-mini" },
+  capabilities: {
+    compare: true,
+    maxImageBytes: 20 * 1024 * 1024,
+    structuredOutput: true,
+    batch: true,
+    // Limits of the uploaded JSONL input file
+    maxBatchBytes: 200 * 1024 * 1024,
+    maxBatchRequests: 50_000,
+  },
+  create: () => new OpenAIProvider(),
+  async verify() {
+    const client = new OpenAI();
+    await client.chat.completions.create({
+      model: DEFAULT_MODEL,
+      max_tokens: 10,
+      messages: [{ role: "user", content: "Hi" }],
+    });
+  },
+};
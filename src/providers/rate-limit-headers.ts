@@ -0,0 +1,64 @@
+import type { RateLimitInfo } from "./types.js";
+
+/** Response headers as either SDK exposes them: a fetch Headers or a plain record. */
+export type HeadersLike =
+  | { get(name: string): string | null }
+  | Record<string, string | null | undefined>;
+
+function header(headers: HeadersLike, name: string): string | undefined {
+  const value = typeof headers.get === "function"
+    ? (headers as { get(name: string): string | null }).get(name)
+    : (headers as Record<string, string | null | undefined>)[name];
+  return value ?? undefined;
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+const DURATION_UNITS: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 };
+
+/**
+ * Milliseconds until a reset, from a Go-style duration ("6m0s", "250ms"),
+ * plain seconds, or an RFC 3339 / HTTP date.
+ */
+export function parseResetDuration(value: string | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = toNumber(value);
+  if (seconds !== undefined) return Math.max(0, seconds * 1000);
+
+  const parts = [...value.matchAll(/(\d+(?:\.\d+)?)(ms|s|m|h)/g)];
+  if (parts.length > 0 && parts.map((p) => p[0]).join("") === value) {
+    return parts.reduce((ms, [, n, unit]) => ms + Number(n) * DURATION_UNITS[unit], 0);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Read Anthropic (`anthropic-ratelimit-*`) or OpenAI (`x-ratelimit-*`)
+ * rate-limit headers plus retry-after. Returns undefined when none are set,
+ * e.g. for local servers.
+ */
+export function parseRateLimitHeaders(headers: HeadersLike | null | undefined): RateLimitInfo | undefined {
+  if (!headers) return undefined;
+
+  const info: RateLimitInfo = {
+    requestsLimit: toNumber(header(headers, "anthropic-ratelimit-requests-limit") ?? header(headers, "x-ratelimit-limit-requests")),
+    requestsRemaining: toNumber(header(headers, "anthropic-ratelimit-requests-remaining") ?? header(headers, "x-ratelimit-remaining-requests")),
+    requestsResetMs: parseResetDuration(header(headers, "anthropic-ratelimit-requests-reset") ?? header(headers, "x-ratelimit-reset-requests")),
+    tokensLimit: toNumber(header(headers, "anthropic-ratelimit-tokens-limit") ?? header(headers, "x-ratelimit-limit-tokens")),
+    tokensRemaining: toNumber(header(headers, "anthropic-ratelimit-tokens-remaining") ?? header(headers, "x-ratelimit-remaining-tokens")),
+    tokensResetMs: parseResetDuration(header(headers, "anthropic-ratelimit-tokens-reset") ?? header(headers, "x-ratelimit-reset-tokens")),
+  };
+
+  const retryAfterMs = toNumber(header(headers, "retry-after-ms"));
+  info.retryAfterMs = retryAfterMs ?? parseResetDuration(header(headers, "retry-after"));
+
+  const set = Object.fromEntries(Object.entries(info).filter(([, v]) => v !== undefined)) as RateLimitInfo;
+  return Object.keys(set).length > 0 ? set : undefined;
+}
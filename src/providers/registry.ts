@@ -0,0 +1,79 @@
+import type { ModelPricing, Provider, ProviderDefinition } from "./types.js";
+import { anthropicDefinition } from "./anthropic.js";
+import { openaiDefinition } from "./openai.js";
+import { localDefinition } from "./openai-compatible.js";
+import { replayDefinition } from "./replay.js";
+
+const registry = new Map<string, ProviderDefinition>();
+
+/**
+ * Tier presets collected from every registered provider.
+ * Mutated in place by registerProvider() so existing imports stay live.
+ */
+export const TIER_MAP: Record<string, { provider: string; model: string }> = {};
+
+/**
+ * Add a provider to the registry. Registering an existing name replaces it,
+ * which lets config or library users swap out a built-in.
+ */
+export function registerProvider(definition: ProviderDefinition): void {
+  const previous = registry.get(definition.name);
+  if (previous?.tiers) {
+    for (const tier of Object.keys(previous.tiers)) {
+      if (TIER_MAP[tier]?.provider === definition.name) delete TIER_MAP[tier];
+    }
+  }
+
+  registry.set(definition.name, definition);
+
+  for (const [tier, model] of Object.entries(definition.tiers ?? {})) {
+    TIER_MAP[tier] = { provider: definition.name, model };
+  }
+}
+
+export function getProviderDefinition(name: string): ProviderDefinition | undefined {
+  return registry.get(name);
+}
+
+export function listProviders(): ProviderDefinition[] {
+  return [...registry.values()];
+}
+
+export function providerNames(): string[] {
+  return [...registry.keys()];
+}
+
+/**
+ * Look up a provider by name, throwing a user-facing error for unknown names.
+ */
+export function requireProvider(name: string): ProviderDefinition {
+  const definition = registry.get(name);
+  if (!definition) {
+    throw new Error(`Unknown provider: ${name}. Supported: ${providerNames().join(", ")}`);
+  }
+  return definition;
+}
+
+export function createProvider(name: string): Provider {
+  return requireProvider(name).create();
+}
+
+/**
+ * Find pricing for a model: the given provider's price or default price
+ * first, then any registered provider's price for it.
+ */
+export function getModelPricing(model: string, providerName?: string): ModelPricing | undefined {
+  const own = providerName ? registry.get(providerName) : undefined;
+  const pricing = own?.pricing[model] ?? own?.defaultPricing;
+  if (pricing) return pricing;
+  for (const definition of registry.values()) {
+    const pricing = definition.pricing[model];
+    if (pricing) return pricing;
+  }
+  return undefined;
+}
+
+registerProvider(anthropicDefinition);
+registerProvider(openaiDefinition);
+registerProvider(localDefinition);
+registerProvider(replayDefinition);
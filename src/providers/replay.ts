@@ -0,0 +1,143 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import type { Provider, ProviderDefinition, ImageInput, AnalyzeOptions, ProviderResponse } from "./types.js";
+
+/** Fixture directory used by `--record` and the replay provider when none is given. */
+export const DEFAULT_REPLAY_DIR = "m2md-fixtures";
+
+type CallKind = "analyze" | "compare";
+
+export interface ReplayFixture {
+  kind: CallKind;
+  /** Original filenames, for humans browsing the fixture directory. */
+  images: string[];
+  /** Model requested when the fixture was recorded. */
+  model?: string;
+  response: ProviderResponse;
+  recordedAt: string;
+}
+
+export function replayDir(): string {
+  return process.env.M2MD_REPLAY_DIR ?? DEFAULT_REPLAY_DIR;
+}
+
+/**
+ * Fixture filename for a call: image sha256 plus a fingerprint of the
+ * prompts. The model is left out so fixtures recorded with any model
+ * replay under `--provider replay` without extra flags.
+ */
+export function fixtureKey(kind: CallKind, images: ImageInput[], options: AnalyzeOptions): string {
+  const hashes = images.map((img) => createHash("sha256").update(img.buffer).digest("hex"));
+  const imageHash = hashes.length === 1
+    ? hashes[0]
+    : createHash("sha256").update(hashes.join("|")).digest("hex");
+
+  const fingerprint = createHash("sha256")
+    .update([kind, options.systemPrompt, options.userPrompt, options.responseSchema?.name ?? ""].join("|"))
+    .digest("hex")
+    .slice(0, 16);
+
+  return `${imageHash}-${fingerprint}`;
+}
+
+/**
+ * Serves stored responses instead of calling an API. Fixtures are written
+ * by RecordingProvider (`--record`), so a recorded run replays exactly,
+ * offline and without API keys.
+ */
+export class ReplayProvider implements Provider {
+  private dir: string;
+
+  constructor(dir: string = replayDir()) {
+    this.dir = resolve(dir);
+  }
+
+  async analyze(image: ImageInput, options: AnalyzeOptions): Promise<ProviderResponse> {
+    return this.load("analyze", [image], options);
+  }
+
+  async compare(images: ImageInput[], options: AnalyzeOptions): Promise<ProviderResponse> {
+    return this.load("compare", images, options);
+  }
+
+  private async load(kind: CallKind, images: ImageInput[], options: AnalyzeOptions): Promise<ProviderResponse> {
+    const key = fixtureKey(kind, images, options);
+    const path = join(this.dir, `${key}.json`);
+
+    let raw: string;
+    try {
+      raw = await readFile(path, "utf-8");
+    } catch {
+      const names = images.map((img) => img.filename).join(", ");
+      throw new Error(
+        `No replay fixture for ${names} (${key}) in ${this.dir}. Record one with --record ${this.dir}`
+      );
+    }
+
+    const fixture = JSON.parse(raw) as ReplayFixture;
+    return fixture.response;
+  }
+}
+
+/**
+ * Wraps a real provider and writes every response it returns as a replay
+ * fixture. Failed calls are not recorded.
+ */
+export class RecordingProvider implements Provider {
+  private inner: Provider;
+  private dir: string;
+
+  constructor(inner: Provider, dir: string = replayDir()) {
+    this.inner = inner;
+    this.dir = resolve(dir);
+  }
+
+  async analyze(image: ImageInput, options: AnalyzeOptions): Promise<ProviderResponse> {
+    const response = await this.inner.analyze(image, options);
+    await this.save("analyze", [image], options, response);
+    return response;
+  }
+
+  async compare(images: ImageInput[], options: AnalyzeOptions): Promise<ProviderResponse> {
+    const response = await this.inner.compare(images, options);
+    await this.save("compare", images, options, response);
+    return response;
+  }
+
+  private async save(
+    kind: CallKind,
+    images: ImageInput[],
+    options: AnalyzeOptions,
+    response: ProviderResponse
+  ): Promise<void> {
+    // Rate-limit state is only meaningful at recording time
+    const { rateLimit: _rateLimit, ...recorded } = response;
+    const fixture: ReplayFixture = {
+      kind,
+      images: images.map((img) => img.filename),
+      model: options.model,
+      response: recorded,
+      recordedAt: new Date().toISOString(),
+    };
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(
+      join(this.dir, `${fixtureKey(kind, images, options)}.json`),
+      JSON.stringify(fixture, null, 2) + "\n",
+      "utf-8"
+    );
+  }
+}
+
+export const replayDefinition: ProviderDefinition = {
+  name: "replay",
+  label: "Replay (recorded fixtures)",
+  defaultModel: "replay",
+  pricing: { replay: { input: 0, output: 0 } },
+  capabilities: {
+    compare: true,
+    // Replays whatever was recorded, including structured answers
+    structuredOutput: true,
+  },
+  create: () => new ReplayProvider(),
+};
@@ -4,19 +4,143 @@ export interface ImageInput {
   filename: string;
 }
 
+export interface TokenUsage {
+  /** Input tokens billed at the normal rate (excludes cache reads and writes). */
+  inputTokens: number;
+  outputTokens: number;
+  /** Input tokens served from the provider's prompt cache. */
+  cacheReadTokens?: number;
+  /** Input tokens written to the provider's prompt cache. */
+  cacheWriteTokens?: number;
+}
+
 export interface ProviderResponse {
   rawText: string;
-  usage?: { inputTokens: number; outputTokens: number };
+  usage?: TokenUsage;
   model?: string;
+  rateLimit?: RateLimitInfo;
+}
+
+/** Rate-limit state from the response headers, when the API sends them. */
+export interface RateLimitInfo {
+  requestsLimit?: number;
+  requestsRemaining?: number;
+  /** Milliseconds until the request budget refills. */
+  requestsResetMs?: number;
+  tokensLimit?: number;
+  tokensRemaining?: number;
+  /** Milliseconds until the token budget refills. */
+  tokensResetMs?: number;
+  /** Server-requested wait before retrying, from retry-after. */
+  retryAfterMs?: number;
+}
+
+/** JSON Schema the provider should constrain its answer to. */
+export interface ResponseSchema {
+  name: string;
+  description?: string;
+  schema: Record<string, unknown>;
 }
 
 export interface AnalyzeOptions {
   model?: string;
   systemPrompt: string;
   userPrompt: string;
+  /**
+   * Request structured output. Providers that support it return the JSON
+   * object as `rawText`; others ignore it and answer in free text.
+   */
+  responseSchema?: ResponseSchema;
 }
 
 export interface Provider {
   analyze(image: ImageInput, options: AnalyzeOptions): Promise<ProviderResponse>;
   compare(images: ImageInput[], options: AnalyzeOptions): Promise<ProviderResponse>;
 }
+
+/** One analyze() call queued in a provider batch job. */
+export interface BatchRequest {
+  /** Caller-chosen id (letters, digits, `-`, `_`, max 64) used to match results. */
+  id: string;
+  image: ImageInput;
+  options: AnalyzeOptions;
+}
+
+export interface BatchJobStatus {
+  id: string;
+  /** `ended` once results can be collected, `failed` if the job was rejected. */
+  state: "in_progress" | "ended" | "failed";
+  counts: { total: number; succeeded: number; failed: number };
+}
+
+/** Outcome of one request in a finished batch job: a response or an error. */
+export interface BatchItemResult {
+  id: string;
+  response?: ProviderResponse;
+  error?: string;
+}
+
+/**
+ * Providers that can run many analyze() calls as one asynchronous job,
+ * billed at a discount in exchange for results arriving later.
+ */
+export interface BatchProvider {
+  submitBatch(requests: BatchRequest[]): Promise<string>;
+  getBatchStatus(jobId: string): Promise<BatchJobStatus>;
+  getBatchResults(jobId: string): Promise<BatchItemResult[]>;
+}
+
+/** Price per million tokens, in USD. */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  /** Prompt cache reads. Defaults to 10% of `input`. */
+  cacheRead?: number;
+  /** Prompt cache writes. Defaults to 125% of `input`. */
+  cacheWrite?: number;
+}
+
+export interface ProviderCapabilities {
+  /** Supports multi-image `compare()` calls. */
+  compare: boolean;
+  /** Max raw image size the API accepts, in bytes (before base64). */
+  maxImageBytes?: number;
+  /** Max width or height the API accepts, in pixels. */
+  maxImageDimension?: number;
+  /** Honors `AnalyzeOptions.responseSchema` (tool use / JSON schema). */
+  structuredOutput?: boolean;
+  /** Instances implement BatchProvider (`--async-batch`). */
+  batch?: boolean;
+  /** Largest batch job the API accepts, in bytes of request payload. */
+  maxBatchBytes?: number;
+  /** Most requests the API accepts in one batch job. */
+  maxBatchRequests?: number;
+}
+
+/**
+ * Everything m2md needs to know about a provider: how to build it,
+ * which key it needs, what it costs, and what it can do.
+ */
+export interface ProviderDefinition {
+  /** Identifier used by `--provider`, config and the MCP tool. */
+  name: string;
+  /** Display name for setup and error messages. */
+  label: string;
+  defaultModel: string;
+  /** Env var holding the API key. Omit for providers that need none. */
+  apiKeyEnv?: string;
+  /** Where users can get a key. */
+  apiKeyUrl?: string;
+  /** Example `export` line shown in setup hints. */
+  apiKeyExample?: string;
+  /** Known models and their pricing. */
+  pricing: Record<string, ModelPricing>;
+  /** Pricing for models missing from `pricing`, e.g. free for a local server. */
+  defaultPricing?: ModelPricing;
+  /** Tier presets this provider serves: tier name → model. */
+  tiers?: Record<string, string>;
+  capabilities: ProviderCapabilities;
+  create(): Provider;
+  /** Cheap round-trip used by `m2md setup` to check the key. */
+  verify?(): Promise<void>;
+}
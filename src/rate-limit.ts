@@ -0,0 +1,260 @@
+import type { AnalyzeOptions, ImageInput, Provider, ProviderResponse, RateLimitInfo } from "./providers/types.js";
+import { parseRateLimitHeaders, type HeadersLike } from "./providers/rate-limit-headers.js";
+import { fallbackReason } from "./fallback.js";
+
+const WINDOW_MS = 60_000;
+const BASE_BACKOFF_MS = 1_000;
+const MAX_BACKOFF_MS = 60_000;
+/** Token estimate for a request before any have completed. */
+const DEFAULT_REQUEST_TOKENS = 2_000;
+
+/** Retries after a 429/529, 5xx or dropped connection before the error reaches the caller (and any fallback chain). */
+export const RATE_LIMIT_RETRIES = 4;
+
+/** Per-minute budgets, from config or learned from response headers. */
+export interface RateLimits {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+export interface RateLimiterOptions extends RateLimits {
+  /** Upper bound for concurrent requests. Defaults to 5. */
+  maxConcurrency?: number;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Request scheduler for one provider and model. Keeps requests within the
+ * per-minute request and token budgets, pauses when the server asks, and
+ * adapts concurrency: halved on every rate-limit error, raised by one
+ * after a full round of successes.
+ */
+export class RateLimiter {
+  maxConcurrency: number;
+  concurrency: number;
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+
+  private configured: RateLimits;
+  private active = 0;
+  private sent: { at: number; tokens: number }[] = [];
+  private tokenSamples: number[] = [];
+  private pausedUntil = 0;
+  private successes = 0;
+  private failures = 0;
+  private waiters: (() => void)[] = [];
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.maxConcurrency = Math.max(1, options.maxConcurrency ?? 5);
+    this.concurrency = this.maxConcurrency;
+    this.configured = { requestsPerMinute: options.requestsPerMinute, tokensPerMinute: options.tokensPerMinute };
+    this.requestsPerMinute = options.requestsPerMinute;
+    this.tokensPerMinute = options.tokensPerMinute;
+  }
+
+  /**
+   * Wait for a slot within the concurrency and per-minute budgets. Call the
+   * returned function when the request finishes, with its token count if known.
+   */
+  async acquire(): Promise<(tokens?: number) => void> {
+    for (;;) {
+      if (this.active >= this.concurrency) {
+        await new Promise<void>((resolve) => this.waiters.push(resolve));
+        continue;
+      }
+
+      const wait = this.waitTime(Date.now());
+      if (wait > 0) {
+        await sleep(wait);
+        continue;
+      }
+
+      this.active++;
+      const entry = { at: Date.now(), tokens: this.averageTokens() };
+      this.sent.push(entry);
+
+      let released = false;
+      return (tokens?: number) => {
+        if (released) return;
+        released = true;
+        if (tokens !== undefined) {
+          entry.tokens = tokens;
+          this.tokenSamples = [...this.tokenSamples.slice(-19), tokens];
+        }
+        this.active--;
+        this.wake();
+      };
+    }
+  }
+
+  /** Record a successful request; concurrency grows after a full round of them. */
+  succeed(): void {
+    this.failures = 0;
+    this.successes++;
+    if (this.successes >= this.concurrency && this.concurrency < this.maxConcurrency) {
+      this.concurrency++;
+      this.successes = 0;
+      this.wake();
+    }
+  }
+
+  /** Back off after a rate-limit error: halve concurrency and pause. */
+  throttle(retryAfterMs?: number): void {
+    this.successes = 0;
+    this.failures++;
+    this.concurrency = Math.max(1, Math.floor(this.concurrency / 2));
+    this.pause(retryAfterMs ?? Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (this.failures - 1)));
+  }
+
+  /** Learn limits from response headers and pause when a budget is spent. */
+  update(info: RateLimitInfo): void {
+    if (info.requestsLimit) this.requestsPerMinute = Math.min(info.requestsLimit, this.configured.requestsPerMinute ?? Infinity);
+    if (info.tokensLimit) this.tokensPerMinute = Math.min(info.tokensLimit, this.configured.tokensPerMinute ?? Infinity);
+
+    if (info.retryAfterMs !== undefined) this.pause(info.retryAfterMs);
+    if (info.requestsRemaining === 0 && info.requestsResetMs !== undefined) this.pause(info.requestsResetMs);
+    if (
+      info.tokensRemaining !== undefined &&
+      info.tokensRemaining < this.averageTokens() &&
+      info.tokensResetMs !== undefined
+    ) {
+      this.pause(info.tokensResetMs);
+    }
+  }
+
+  /** Milliseconds before another request may start. */
+  waitTime(now = Date.now()): number {
+    this.sent = this.sent.filter((entry) => now - entry.at < WINDOW_MS);
+    let wait = this.pausedUntil - now;
+
+    const oldest = this.sent[0];
+    if (oldest) {
+      const untilOldestExpires = oldest.at + WINDOW_MS - now;
+      if (this.requestsPerMinute && this.sent.length >= this.requestsPerMinute) {
+        wait = Math.max(wait, untilOldestExpires);
+      }
+      const windowTokens = this.sent.reduce((sum, entry) => sum + entry.tokens, 0);
+      if (this.tokensPerMinute && windowTokens + this.averageTokens() > this.tokensPerMinute) {
+        wait = Math.max(wait, untilOldestExpires);
+      }
+    }
+
+    return wait;
+  }
+
+  private pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  private averageTokens(): number {
+    if (this.tokenSamples.length === 0) return DEFAULT_REQUEST_TOKENS;
+    return this.tokenSamples.reduce((a, b) => a + b, 0) / this.tokenSamples.length;
+  }
+
+  private wake(): void {
+    const waiters = this.waiters;
+    this.waiters = [];
+    for (const resolve of waiters) resolve();
+  }
+}
+
+// One limiter per provider and model for the whole process, so the main
+// command, watch mode and the MCP server share budgets
+const limiters = new Map<string, RateLimiter>();
+
+/**
+ * Shared limiter for a provider and model. Options only apply when the
+ * limiter is first created.
+ */
+export function getRateLimiter(providerName: string, model: string, options?: RateLimiterOptions): RateLimiter {
+  const key = `${providerName}:${model}`;
+  let limiter = limiters.get(key);
+  if (!limiter) {
+    limiter = new RateLimiter(options);
+    limiters.set(key, limiter);
+  }
+  return limiter;
+}
+
+/** Drop all shared limiters. */
+export function resetRateLimiters(): void {
+  limiters.clear();
+}
+
+export interface RateLimitedProviderOptions {
+  maxConcurrency?: number;
+  /** Budgets keyed by "provider" or "provider:model"; the model entry wins. */
+  limits?: Record<string, RateLimits>;
+  retries?: number;
+}
+
+/**
+ * Routes every call through the shared limiter for its provider and model,
+ * retrying rate-limit and overload errors after the server's retry-after,
+ * and server errors and dropped connections with backoff.
+ */
+export class RateLimitedProvider implements Provider {
+  private inner: Provider;
+  private providerName: string;
+  private options: RateLimitedProviderOptions;
+
+  constructor(inner: Provider, providerName: string, options: RateLimitedProviderOptions = {}) {
+    this.inner = inner;
+    this.providerName = providerName;
+    this.options = options;
+  }
+
+  async analyze(image: ImageInput, options: AnalyzeOptions): Promise<ProviderResponse> {
+    return this.schedule(options.model, () => this.inner.analyze(image, options));
+  }
+
+  async compare(images: ImageInput[], options: AnalyzeOptions): Promise<ProviderResponse> {
+    return this.schedule(options.model, () => this.inner.compare(images, options));
+  }
+
+  private async schedule(model: string | undefined, call: () => Promise<ProviderResponse>): Promise<ProviderResponse> {
+    const modelKey = model ?? "default";
+    const { limits = {}, maxConcurrency, retries = RATE_LIMIT_RETRIES } = this.options;
+    const limiter = getRateLimiter(this.providerName, modelKey, {
+      maxConcurrency,
+      ...limits[this.providerName],
+      ...limits[`${this.providerName}:${modelKey}`],
+    });
+
+    for (let attempt = 0; ; attempt++) {
+      const release = await limiter.acquire();
+      try {
+        const response = await call();
+        const usage = response.usage;
+        release(usage ? usage.inputTokens + usage.outputTokens + (usage.cacheReadTokens ?? 0) + (usage.cacheWriteTokens ?? 0) : undefined);
+        if (response.rateLimit) limiter.update(response.rateLimit);
+        limiter.succeed();
+        return response;
+      } catch (err) {
+        release();
+        const reason = fallbackReason(err);
+        const limited = reason === "rate_limit" || reason === "overloaded";
+        if ((!limited && !isTransient(err)) || attempt >= retries) throw err;
+
+        const info = parseRateLimitHeaders((err as { headers?: HeadersLike }).headers);
+        if (limited) {
+          if (info) limiter.update(info);
+          limiter.throttle(info?.retryAfterMs);
+        } else {
+          // Not a sign of load, so only this request waits
+          await sleep(info?.retryAfterMs ?? Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt));
+        }
+      }
+    }
+  }
+}
+
+/** Server errors, timeouts and dropped connections: worth another try as-is. */
+function isTransient(err: unknown): boolean {
+  const status = (err as { status?: number } | null)?.status;
+  if (status !== undefined) return status === 408 || status === 409 || status >= 500;
+  const name = err instanceof Error ? err.name : "";
+  const message = err instanceof Error ? err.message : "";
+  return /^APIConnection(Timeout)?Error$/.test(name) || /ECONNRESET|ETIMEDOUT|socket hang up|timed out/i.test(message);
+}
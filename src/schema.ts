@@ -0,0 +1,45 @@
+import { z } from "zod";
+
+/**
+ * JSON shape requested from providers in structured-output mode.
+ * Mirrors ParsedResponse, but list fields are real arrays instead of
+ * comma- or newline-joined strings.
+ */
+export const AnalysisSchema = z.object({
+  type: z.string().describe("Exactly one value from the TYPE vocabulary"),
+  category: z.array(z.string()).describe("1-2 values from the CATEGORY vocabulary"),
+  style: z.array(z.string()).describe("2-5 style terms"),
+  mood: z.array(z.string()).describe("2-4 mood terms"),
+  medium: z.string().describe("Exactly one medium"),
+  composition: z.array(z.string()).describe("1-3 composition terms"),
+  palette: z.array(z.string()).describe("3-6 material-driven hyphenated color names"),
+  subject: z.string().describe("One-line summary, max 80 characters"),
+  tags: z.array(z.string()).describe("6-8 hyphenated keywords"),
+  visualElements: z.array(z.string()).describe("5-15 literal visible objects"),
+  references: z.array(z.string()).describe("3-5 movements, styles or designers; empty if none"),
+  useCase: z.array(z.string()).describe("1-5 designer reference use cases"),
+  colorHex: z.array(z.string()).describe("3-5 dominant colors as #RRGGBB"),
+  era: z.array(z.string()).describe("1-2 design periods or decades"),
+  artifact: z.array(z.string()).describe("1-2 designed object types; empty if none"),
+  typography: z.array(z.string()).describe("1-5 typography characteristics; empty if no text"),
+  script: z.array(z.string()).describe("1-3 writing systems or languages; empty if no text"),
+  culturalInfluence: z.array(z.string()).describe("1-3 aesthetic lineages; empty if none"),
+  description: z.string().describe("Exactly 4 sentences, no bullet points"),
+  searchPhrases: z.array(z.string()).describe("8-10 distinct natural language search phrases"),
+  dimensions: z
+    .array(z.object({ name: z.string(), description: z.string() }))
+    .describe("2-5 axes explaining why the image is reference-worthy"),
+  extractedText: z.string().describe("All visible text, minimally formatted; empty string if none"),
+  // No .default(""): strict JSON schema modes reject `default`; parseJsonResponse fills it in
+  motion: z.string().describe("For animations only: how the frames move, 2-4 sentences; empty string for still images"),
+});
+
+export type Analysis = z.infer<typeof AnalysisSchema>;
+
+export const ANALYSIS_SCHEMA_NAME = "image_analysis";
+
+/** JSON Schema for AnalysisSchema, in the subset providers accept for tools/response formats. */
+export function analysisJsonSchema(): Record<string, unknown> {
+  const { $schema: _ignored, ...schema } = z.toJSONSchema(AnalysisSchema) as Record<string, unknown>;
+  return schema;
+}
@@ -6,30 +6,46 @@ type: {{type}}
 {{/if}}{{#if medium}}medium: {{medium}}
 {{/if}}{{#if composition}}composition: [{{composition}}]
 {{/if}}{{#if palette}}palette: [{{palette}}]
+{{/if}}{{#if paletteHex}}palette_hex: { {{#each paletteHex}}"{{name}}": "{{hex}}"{{#unless @last}}, {{/unless}}{{/each}} }
 {{/if}}subject: "{{subject}}"
 tags: [{{tags}}]
 {{#if visualElements}}visual_elements: [{{visualElements}}]
 {{/if}}{{#if references}}references: [{{references}}]
 {{/if}}{{#if useCase}}use_case: [{{useCase}}]
-{{/if}}{{#if colorHexYaml}}color_hex: [{{colorHexYaml}}]
+{{/if}}{{#if colorHex}}color_hex: [{{colorHex}}]
+{{/if}}{{#if colorHexMeasured}}color_hex_measured: [{{#each colorHexMeasured}}{ hex: "{{hex}}", coverage: {{coverage}} }{{#unless @last}}, {{/unless}}{{/each}}]
 {{/if}}{{#if era}}era: [{{era}}]
 {{/if}}{{#if artifact}}artifact: [{{artifact}}]
 {{/if}}{{#if typography}}typography: [{{typography}}]
 {{/if}}{{#if script}}script: [{{script}}]
 {{/if}}{{#if culturalInfluence}}cultural_influence: [{{culturalInfluence}}]
-{{/if}}{{#if searchPhrasesYaml}}search_phrases:
-{{searchPhrasesYaml}}
-{{/if}}{{#if dimensionsYaml}}dimensions:
-{{dimensionsYaml}}
+{{/if}}{{#if searchPhrases}}search_phrases:
+{{#each searchPhrases}}  - "{{this}}"
+{{/each}}{{/if}}{{#if dimensions}}dimensions:
+{{#each dimensions}}  {{name}}:{{#if description}} {{description}}{{/if}}
+{{/each}}{{/if}}{{#if ocrConfidence}}ocr_confidence: {{ocrConfidence}}
 {{/if}}source: {{filename}}
-dimensions_px: {{dimensionsPx}}
-processed: {{processedDate}}
+{{#if page}}page: {{page}}
+{{/if}}{{#if pageCount}}page_count: {{pageCount}}
+{{/if}}{{#if duration}}duration: {{duration}}
+{{/if}}{{#if codec}}codec: {{codec}}
+{{/if}}{{#if frameCount}}frames: {{frameCount}}
+{{/if}}{{#if loop}}loop: {{loop}}
+{{/if}}dimensions_px: {{dimensionsPx}}
+{{#if phash}}phash: "{{phash}}"
+{{/if}}processed: {{processedDate}}
 model: {{model}}
 {{#if note}}note: "{{note}}"
 {{/if}}---
 
 {{description}}
 
+{{#if motion}}
+## Motion
+
+{{motion}}
+{{/if}}
+
 {{#if extractedText}}
 ## Text
 
@@ -53,31 +69,50 @@ type: {{type}}
 {{/if}}{{#if medium}}medium: {{medium}}
 {{/if}}{{#if composition}}composition: [{{composition}}]
 {{/if}}{{#if palette}}palette: [{{palette}}]
+{{/if}}{{#if paletteHex}}palette_hex: { {{#each paletteHex}}"{{name}}": "{{hex}}"{{#unless @last}}, {{/unless}}{{/each}} }
 {{/if}}subject: "{{subject}}"
 colors: [{{colors}}]
 tags: [{{tags}}]
 {{#if visualElements}}visual_elements: [{{visualElements}}]
 {{/if}}{{#if references}}references: [{{references}}]
 {{/if}}{{#if useCase}}use_case: [{{useCase}}]
-{{/if}}{{#if colorHexYaml}}color_hex: [{{colorHexYaml}}]
+{{/if}}{{#if colorHex}}color_hex: [{{colorHex}}]
+{{/if}}{{#if colorHexMeasured}}color_hex_measured: [{{#each colorHexMeasured}}{ hex: "{{hex}}", coverage: {{coverage}} }{{#unless @last}}, {{/unless}}{{/each}}]
 {{/if}}{{#if era}}era: [{{era}}]
 {{/if}}{{#if artifact}}artifact: [{{artifact}}]
 {{/if}}{{#if typography}}typography: [{{typography}}]
 {{/if}}{{#if script}}script: [{{script}}]
 {{/if}}{{#if culturalInfluence}}cultural_influence: [{{culturalInfluence}}]
-{{/if}}{{#if searchPhrasesYaml}}search_phrases:
-{{searchPhrasesYaml}}
-{{/if}}{{#if dimensionsYaml}}dimensions:
-{{dimensionsYaml}}
+{{/if}}{{#if searchPhrases}}search_phrases:
+{{#each searchPhrases}}  - "{{this}}"
+{{/each}}{{/if}}{{#if dimensions}}dimensions:
+{{#each dimensions}}  {{name}}:{{#if description}} {{description}}{{/if}}
+{{/each}}{{/if}}{{#if ocrConfidence}}ocr_confidence: {{ocrConfidence}}
 {{/if}}source: {{filename}}
-format: {{format}}
+{{#if page}}page: {{page}}
+{{/if}}{{#if pageCount}}page_count: {{pageCount}}
+{{/if}}{{#if duration}}duration: {{duration}}
+{{/if}}{{#if codec}}codec: {{codec}}
+{{/if}}{{#if frameCount}}frames: {{frameCount}}
+{{/if}}{{#if loop}}loop: {{loop}}
+{{/if}}format: {{format}}
 dimensions_px: {{dimensionsPx}}
 width: {{width}}
 height: {{height}}
 size: {{sizeHuman}}
 sizeBytes: {{sizeBytes}}
 sha256: {{sha256}}
-processed: {{processedDate}}
+{{#if phash}}phash: "{{phash}}"
+{{/if}}{{#if dateTaken}}date_taken: {{dateTaken}}
+{{/if}}{{#if camera}}camera: "{{camera}}"
+{{/if}}{{#if lens}}lens: "{{lens}}"
+{{/if}}{{#if gps}}gps: [{{gps}}]
+{{/if}}{{#if altitude}}altitude_m: {{altitude}}
+{{/if}}{{#if orientation}}orientation: {{orientation}}
+{{/if}}{{#if colorProfile}}color_profile: "{{colorProfile}}"
+{{/if}}{{#if caption}}caption: "{{caption}}"
+{{/if}}{{#if keywords}}keywords: ["{{keywords}}"]
+{{/if}}processed: {{processedDate}}
 model: {{model}}
 {{#if note}}note: "{{note}}"
 {{/if}}---
@@ -88,6 +123,12 @@ model: {{model}}
 
 {{description}}
 
+{{#if motion}}
+## Motion
+
+{{motion}}
+{{/if}}
+
 {{#if extractedText}}
 ## Text
 
@@ -103,7 +144,11 @@ model: {{model}}
 | Dimensions | {{dimensionsPx}} |
 | Size | {{sizeHuman}} |
 | SHA-256 | {{sha256}} |
-| Processed | {{processedDate}} |
+{{#if dateTaken}}| Taken | {{dateTaken}} |
+{{/if}}{{#if camera}}| Camera | {{camera}} |
+{{/if}}{{#if lens}}| Lens | {{lens}} |
+{{/if}}{{#if gps}}| Location | {{gps}} |
+{{/if}}| Processed | {{processedDate}} |
 | Model | {{model}} |
 
 ## Source
@@ -111,9 +156,68 @@ model: {{model}}
 ![{{basename}}]({{sourcePath}})
 `;
 
+/** For `--obsidian`: an embed of the image, nested tags, and flat fields Dataview can query. */
+export const OBSIDIAN_TEMPLATE = `---
+type: {{type}}
+subject: "{{subject}}"
+image: "[[{{vaultPath}}]]"
+tags: [{{obsidianTags}}]
+{{#if category}}category: [{{category}}]
+{{/if}}{{#if style}}style: [{{style}}]
+{{/if}}{{#if mood}}mood: [{{mood}}]
+{{/if}}{{#if medium}}medium: {{medium}}
+{{/if}}{{#if composition}}composition: [{{composition}}]
+{{/if}}{{#if palette}}palette: [{{palette}}]
+{{/if}}{{#if colorHex}}color_hex: [{{colorHex}}]
+{{/if}}{{#if visualElements}}visual_elements: [{{visualElements}}]
+{{/if}}{{#if references}}references: [{{references}}]
+{{/if}}{{#if useCase}}use_case: [{{useCase}}]
+{{/if}}{{#if era}}era: [{{era}}]
+{{/if}}{{#if artifact}}artifact: [{{artifact}}]
+{{/if}}{{#if typography}}typography: [{{typography}}]
+{{/if}}{{#if script}}script: [{{script}}]
+{{/if}}{{#if culturalInfluence}}cultural_influence: [{{culturalInfluence}}]
+{{/if}}{{#if searchPhrases}}search_phrases:
+{{#each searchPhrases}}  - "{{this}}"
+{{/each}}{{/if}}{{#if ocrConfidence}}ocr_confidence: {{ocrConfidence}}
+{{/if}}format: {{format}}
+width: {{width}}
+height: {{height}}
+size_bytes: {{sizeBytes}}
+{{#if page}}page: {{page}}
+{{/if}}{{#if pageCount}}page_count: {{pageCount}}
+{{/if}}{{#if duration}}duration: {{duration}}
+{{/if}}{{#if dateTaken}}date_taken: {{dateTaken}}
+{{/if}}{{#if camera}}camera: "{{camera}}"
+{{/if}}{{#if lens}}lens: "{{lens}}"
+{{/if}}{{#if gps}}location: [{{gps}}]
+{{/if}}{{#if phash}}phash: "{{phash}}"
+{{/if}}processed: {{processedDate}}
+model: {{model}}
+{{#if note}}note: "{{note}}"
+{{/if}}---
+
+![[{{vaultPath}}]]
+
+{{description}}
+
+{{#if motion}}
+## Motion
+
+{{motion}}
+{{/if}}
+
+{{#if extractedText}}
+## Text
+
+{{extractedText}}
+{{/if}}
+`;
+
 export const BUILTIN_TEMPLATES: Record<string, string> = {
   default: DEFAULT_TEMPLATE,
   minimal: MINIMAL_TEMPLATE,
   "alt-text": ALT_TEXT_TEMPLATE,
   detailed: DETAILED_TEMPLATE,
+  obsidian: OBSIDIAN_TEMPLATE,
 };
@@ -1,24 +1,452 @@
+import { parse, parseDocument, isMap, isScalar, isSeq, type Document, type Scalar } from "yaml";
+
+/** A value templates can print, test with `{{#if}}` or loop over with `{{#each}}`. */
+export type TemplateValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | TemplateValue[]
+  | { [key: string]: TemplateValue };
+
+export type TemplateVars = Record<string, TemplateValue>;
+
+export interface RenderOptions {
+  /** Partial templates by name, included with `{{> name}}`. */
+  partials?: Record<string, string>;
+}
+
+interface FilterCall {
+  name: string;
+  args: string[];
+}
+
+type Node =
+  | { kind: "text"; text: string }
+  | { kind: "value"; path: string; filters: FilterCall[] }
+  | { kind: "if"; path: string; negate: boolean; then: Node[]; else: Node[] }
+  | { kind: "each"; path: string; body: Node[]; else: Node[] };
+
+type BlockNode = Extract<Node, { kind: "if" | "each" }>;
+
+/** Variables in scope: the vars, or the current `{{#each}}` item, and `@index`-style data. */
+interface Scope {
+  value: TemplateValue;
+  data: Record<string, TemplateValue>;
+  parent?: Scope;
+}
+
+/** A value tag's result, printed once we know whether it landed in the frontmatter. */
+interface Printed {
+  value: TemplateValue;
+  /** Ended in `| yaml`, which the frontmatter's serializer makes redundant. */
+  yaml: boolean;
+}
+
+const TAG = /\{\{([\s\S]*?)\}\}/g;
+// Private-use characters mark where each value tag's result goes
+const PLACEHOLDER = /\uE000(\d+)\uE001/g;
+/** A leading frontmatter block; the first group is its YAML. */
+export const FRONTMATTER = /^---\n([\s\S]*?\n)---(?:\n|$)/;
+/** How frontmatter YAML is printed: unwrapped lines, `[a, b]` lists, empty nulls. */
+export const YAML_OPTIONS = { lineWidth: 0, flowCollectionPadding: false, nullStr: "" };
+const PARTIAL_TAG = /\{\{>\s*([\w./-]+)\s*\}\}/g;
+
+const FILTERS: Record<string, (value: TemplateValue, args: string[]) => TemplateValue> = {
+  yaml: (value) => toYaml(value),
+  slug: (value) => mapText(value, slugify),
+  upper: (value) => mapText(value, (s) => s.toUpperCase()),
+  lower: (value) => mapText(value, (s) => s.toLowerCase()),
+  wikilink: (value) => mapText(value, (s) => `[[${s}]]`),
+  truncate: (value, [length]) => truncate(display(value), Number(length)),
+  join: (value, [separator = ", "]) => (Array.isArray(value) ? value.map(display).join(separator) : display(value)),
+};
+
+// Filters that need an argument, checked when the template is parsed
+const FILTER_ARGS: Record<string, string> = { truncate: "a length, e.g. {{description | truncate 120}}" };
+
+/**
+ * Render a template:
+ *
+ * - `{{name}}` and `{{a.b}}` print a variable; lists print comma-separated
+ * - `{{name | filter arg}}` pipes it through filters (yaml, slug, upper,
+ *   lower, wikilink, truncate, join), left to right
+ * - `{{#if name}}...{{else}}...{{/if}}` and `{{#unless name}}`
+ * - `{{#each list}}...{{else}}...{{/each}}`, with `{{this}}`, the item's
+ *   fields by name, and `{{@index}}`, `{{@first}}`, `{{@last}}`, `{{@key}}`;
+ *   objects loop over their fields, other values once
+ * - `{{> name}}` includes a partial; `{{! comment}}` prints nothing
+ *
+ * Blocks nest. Empty strings and lists, false, null and undefined are
+ * falsy; numbers are always truthy. Malformed templates throw.
+ *
+ * A leading `---` frontmatter block is YAML written with the real values:
+ * the template sets the fields, their order and quoting, and the values
+ * are serialized, so quotes, colons or `---` in them can't break it.
+ */
 export function renderTemplate(
   template: string,
-  vars: Record<string, string | undefined>
+  vars: TemplateVars,
+  options: RenderOptions = {}
 ): string {
-  // Process {{#if var}}...{{/if}} blocks
-  let result = template.replace(
-    /\{\{#if\s+(\w+)\}\}([\s\S]*?)\{\{\/if\}\}/g,
-    (_match, key: string, content: string) => {
-      return vars[key] ? content : "";
+  const source = options.partials ? inlinePartials(template, options.partials) : template;
+  const printed: Printed[] = [];
+  const rendered = renderNodes(parseTemplate(source), { value: vars, data: {} }, printed);
+
+  const match = rendered.match(FRONTMATTER);
+  const frontmatter = match ? `---\n${serializeFrontmatter(match[1], printed)}---\n` : "";
+  // Clean up multiple consecutive blank lines
+  const body = fillText(rendered.slice(match?.[0].length ?? 0), printed).replace(/\n{3,}/g, "\n\n");
+
+  const result = (frontmatter + body).trim() + "\n";
+  validateFrontmatter(result);
+  return result;
+}
+
+/** Throw if markdown starts with a frontmatter block that isn't valid YAML. */
+export function validateFrontmatter(markdown: string): void {
+  const match = markdown.match(FRONTMATTER);
+  if (!match) return;
+  try {
+    parse(match[1]);
+  } catch (err) {
+    throw new Error(`Invalid YAML frontmatter: ${firstLine((err as Error).message)}`);
+  }
+}
+
+/**
+ * Parse the rendered frontmatter (values still placeholders) as YAML, put
+ * the values in, and serialize it. Plain placeholders take the value's
+ * type; quoted ones stay quoted strings; a list in `[{{tags}}]` or a
+ * `- {{tags}}` item is spliced in item by item.
+ */
+function serializeFrontmatter(text: string, printed: Printed[]): string {
+  const doc = parseDocument(text);
+  if (doc.errors.length > 0) {
+    const message = firstLine(doc.errors[0].message).replace(PLACEHOLDER, "{{…}}");
+    throw new Error(`Template error: frontmatter is not valid YAML: ${message}`);
+  }
+  doc.contents = fillNode(doc, doc.contents, printed) as typeof doc.contents;
+  return doc.toString(YAML_OPTIONS);
+}
+
+function fillNode(doc: Document, node: unknown, printed: Printed[]): unknown {
+  if (isMap(node)) {
+    for (const pair of node.items) {
+      if (isScalar(pair.key) && typeof pair.key.value === "string") pair.key.value = fillText(pair.key.value, printed);
+      pair.value = fillNode(doc, pair.value, printed);
+    }
+    return node;
+  }
+  if (isSeq(node)) {
+    node.items = node.items.flatMap((item) => {
+      const value = isScalar(item) ? placeholderValue(item, printed) : undefined;
+      if (!Array.isArray(value)) return [fillNode(doc, item, printed)];
+      return value.map((v) => styled(doc.createNode(v, { flow: true }), item as Scalar));
+    });
+    return node;
+  }
+  if (isScalar(node) && typeof node.value === "string") {
+    if (placeholderIndex(node.value) === undefined) {
+      node.value = fillText(node.value, printed);
+      return node;
     }
-  );
+    const value = placeholderValue(node, printed);
+    if (isQuoted(node)) {
+      node.value = display(value);
+      return node;
+    }
+    if (value === undefined || value === null) {
+      node.value = null;
+      return node;
+    }
+    // Lists and objects stay on the key's line, like the `| yaml` filter prints them
+    return typeof value === "object" ? doc.createNode(value, { flow: true }) : Object.assign(node, { value });
+  }
+  return node;
+}
 
-  // Replace {{var}} placeholders
-  result = result.replace(/\{\{(\w+)\}\}/g, (_match, key: string) => {
-    return vars[key] ?? "";
+/** A spliced list item keeps the quoting of the `"{{list}}"` it replaced. */
+function styled(node: unknown, template: Scalar): unknown {
+  if (isScalar(node) && isQuoted(template)) {
+    node.value = display(node.value as TemplateValue);
+    node.type = template.type;
+  }
+  return node;
+}
+
+function isQuoted(node: Scalar): boolean {
+  return node.type === "QUOTE_DOUBLE" || node.type === "QUOTE_SINGLE";
+}
+
+/** Index of the value a scalar is nothing but the placeholder of. */
+function placeholderIndex(text: string): number | undefined {
+  const match = text.match(/^\uE000(\d+)\uE001$/);
+  return match ? Number(match[1]) : undefined;
+}
+
+function placeholderValue(node: Scalar, printed: Printed[]): TemplateValue {
+  const index = typeof node.value === "string" ? placeholderIndex(node.value) : undefined;
+  return index === undefined ? undefined : printed[index].value;
+}
+
+/** The yaml library's message without its code excerpt. */
+function firstLine(message: string): string {
+  return message.split("\n")[0].replace(/:$/, "");
+}
+
+/** Replace placeholders with their values as text. */
+function fillText(text: string, printed: Printed[]): string {
+  return text.replace(PLACEHOLDER, (_match, index: string) => {
+    const { value, yaml } = printed[Number(index)];
+    return yaml ? toYaml(value) : display(value);
   });
+}
 
-  // Clean up multiple consecutive blank lines
-  result = result.replace(/\n{3,}/g, "\n\n");
+/** Throw if a template is malformed, before anything is rendered with it. */
+export function validateTemplate(template: string): void {
+  parseTemplate(template);
+}
+
+/** Names of the partials a template includes with `{{> name}}`. */
+export function partialNames(template: string): string[] {
+  return [...new Set([...template.matchAll(PARTIAL_TAG)].map((m) => m[1]))];
+}
+
+/**
+ * Replace each `{{> name}}` with the partial's source, including partials
+ * of partials. Throws for unknown partials and partials that include
+ * themselves.
+ */
+export function inlinePartials(template: string, partials: Record<string, string>, including: string[] = []): string {
+  return template.replace(PARTIAL_TAG, (_match, name: string) => {
+    if (!(name in partials)) throw new Error(`Template error: no partial named "${name}"`);
+    if (including.includes(name)) throw new Error(`Template error: partial "${name}" includes itself`);
+    return inlinePartials(partials[name].replace(/\n$/, ""), partials, [...including, name]);
+  });
+}
+
+function parseTemplate(template: string): Node[] {
+  const root: Node[] = [];
+  const open: { node: BlockNode; name: string; inElse: boolean }[] = [];
+  let nodes = root;
+  let last = 0;
+
+  for (const match of template.matchAll(TAG)) {
+    if (match.index > last) nodes.push({ kind: "text", text: template.slice(last, match.index) });
+    last = match.index + match[0].length;
+    const tag = match[1].trim();
+
+    if (tag.startsWith("!")) continue;
+
+    if (tag.startsWith("#")) {
+      const block = tag.match(/^#(\w+)\s+(\S+)$/);
+      if (!block) throw new Error(`Template error: malformed block {{${tag}}}`);
+      const [, name, path] = block;
+      let node: BlockNode;
+      if (name === "if" || name === "unless") {
+        node = { kind: "if", path, negate: name === "unless", then: [], else: [] };
+      } else if (name === "each") {
+        node = { kind: "each", path, body: [], else: [] };
+      } else {
+        throw new Error(`Template error: unknown block {{#${name}}}`);
+      }
+      nodes.push(node);
+      open.push({ node, name, inElse: false });
+      nodes = node.kind === "if" ? node.then : node.body;
+    } else if (tag === "else") {
+      const top = open.at(-1);
+      if (!top || top.inElse) throw new Error("Template error: {{else}} outside an {{#if}}, {{#unless}} or {{#each}}");
+      top.inElse = true;
+      nodes = top.node.else;
+    } else if (tag.startsWith("/")) {
+      const name = tag.slice(1).trim();
+      const top = open.pop();
+      if (!top) throw new Error(`Template error: {{/${name}}} without an open {{#${name}}}`);
+      if (top.name !== name) throw new Error(`Template error: {{#${top.name}}} closed by {{/${name}}}`);
+      const parent = open.at(-1);
+      nodes = !parent ? root : parent.inElse ? parent.node.else : parent.node.kind === "if" ? parent.node.then : parent.node.body;
+    } else if (tag.startsWith(">")) {
+      throw new Error(`Template error: no partial named "${tag.slice(1).trim()}"`);
+    } else {
+      nodes.push(parseValue(tag));
+    }
+  }
+
+  if (open.length > 0) throw new Error(`Template error: {{#${open.at(-1)!.name}}} is never closed`);
+  if (last < template.length) nodes.push({ kind: "text", text: template.slice(last) });
+  return root;
+}
+
+/** `path | filter arg | filter` */
+function parseValue(tag: string): Node {
+  const [path, ...calls] = splitPipes(tag).map((part) => part.trim());
+  if (!/^(@?[\w-]+)(\.[\w-]+)*$/.test(path)) throw new Error(`Template error: malformed tag {{${tag}}}`);
+
+  const filters = calls.map((call) => {
+    const [name, ...args] = [...call.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)].map((m) => m[1] ?? m[2] ?? m[3]);
+    if (!name || !(name in FILTERS)) {
+      throw new Error(`Template error: unknown filter "${name ?? ""}" in {{${tag}}}. Filters: ${Object.keys(FILTERS).join(", ")}`);
+    }
+    if (name in FILTER_ARGS && (args.length === 0 || Number.isNaN(Number(args[0])))) {
+      throw new Error(`Template error: ${name} needs ${FILTER_ARGS[name]}`);
+    }
+    return { name, args };
+  });
+  return { kind: "value", path, filters };
+}
+
+/** Split on `|` outside quotes. */
+function splitPipes(tag: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quote = "";
+  for (const char of tag) {
+    if (quote) {
+      if (char === quote) quote = "";
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "|") {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
+
+function renderNodes(nodes: Node[], scope: Scope, printed: Printed[]): string {
+  let out = "";
+  for (const node of nodes) {
+    switch (node.kind) {
+      case "text":
+        out += node.text;
+        break;
+      case "value": {
+        // A closing `| yaml` is applied when printing, and only outside the frontmatter
+        const yaml = node.filters.at(-1)?.name === "yaml";
+        let value = lookup(node.path, scope);
+        for (const filter of yaml ? node.filters.slice(0, -1) : node.filters) value = FILTERS[filter.name](value, filter.args);
+        printed.push({ value, yaml });
+        out += `\uE000${printed.length - 1}\uE001`;
+        break;
+      }
+      case "if":
+        out += renderNodes(truthy(lookup(node.path, scope)) !== node.negate ? node.then : node.else, scope, printed);
+        break;
+      case "each": {
+        const items = entries(lookup(node.path, scope));
+        if (items.length === 0) {
+          out += renderNodes(node.else, scope, printed);
+          break;
+        }
+        items.forEach(([key, value], index) => {
+          const data = { index, key, first: index === 0, last: index === items.length - 1 };
+          out += renderNodes(node.body, { value, data, parent: scope }, printed);
+        });
+        break;
+      }
+    }
+  }
+  return out;
+}
+
+/** A list's items or an object's fields, as [key, value] pairs. */
+function entries(value: TemplateValue): [string | number, TemplateValue][] {
+  if (Array.isArray(value)) return value.map((item, i) => [i, item]);
+  if (isRecord(value)) return Object.entries(value);
+  return truthy(value) ? [[0, value]] : [];
+}
+
+/** Resolve `name`, `a.b`, `this`, `this.a` or `@index` from the innermost scope outwards. */
+function lookup(path: string, scope: Scope): TemplateValue {
+  if (path.startsWith("@")) {
+    const name = path.slice(1);
+    for (let s: Scope | undefined = scope; s; s = s.parent) {
+      if (name in s.data) return s.data[name];
+    }
+    return undefined;
+  }
+
+  const [head, ...rest] = path.split(".");
+  let value: TemplateValue;
+  if (head === "this") {
+    value = scope.value;
+  } else {
+    for (let s: Scope | undefined = scope; s; s = s.parent) {
+      if (isRecord(s.value) && head in s.value) {
+        value = s.value[head];
+        break;
+      }
+    }
+  }
+  for (const key of rest) value = isRecord(value) ? value[key] : undefined;
+  return value;
+}
+
+function isRecord(value: TemplateValue): value is { [key: string]: TemplateValue } {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function truthy(value: TemplateValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (isRecord(value)) return Object.keys(value).length > 0;
+  return typeof value === "number" || Boolean(value);
+}
+
+/**
+ * Text of a value: lists are comma-separated, objects their values
+ * space-separated; lists and objects with their own `toString()` print that.
+ */
+function display(value: TemplateValue): string {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) return value.toString !== Array.prototype.toString ? String(value) : value.map(display).join(", ");
+  if (isRecord(value)) {
+    return value.toString !== Object.prototype.toString
+      ? String(value)
+      : Object.values(value).map(display).filter(Boolean).join(" ");
+  }
+  return String(value);
+}
+
+/** Apply a text transform to a value, or to each item of a list. Empty stays empty. */
+function mapText(value: TemplateValue, transform: (text: string) => string): TemplateValue {
+  if (Array.isArray(value)) return value.map((item) => mapText(item, transform));
+  const text = display(value);
+  return text ? transform(text) : "";
+}
+
+/** YAML flow value: quoted strings, bare numbers and booleans, `[...]` lists and `{ ... }` maps. */
+function toYaml(value: TemplateValue): string {
+  if (value === undefined || value === null) return '""';
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  if (Array.isArray(value)) return `[${value.map(toYaml).join(", ")}]`;
+  if (isRecord(value)) {
+    const fields = Object.entries(value).map(([k, v]) => `${JSON.stringify(k)}: ${toYaml(v)}`);
+    return fields.length ? `{ ${fields.join(", ")} }` : "{}";
+  }
+  // JSON strings are valid YAML double-quoted scalars
+  return JSON.stringify(value);
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
 
-  return result.trim() + "\n";
+/** Cut to at most `length` characters, ending with an ellipsis, at a word break when there's one nearby. */
+function truncate(text: string, length: number): string {
+  if (text.length <= length) return text;
+  const cut = text.slice(0, Math.max(0, length - 1));
+  const space = cut.lastIndexOf(" ");
+  return (space > length * 0.6 ? cut.slice(0, space) : cut).trimEnd() + "…";
 }
 
 /**
@@ -1,7 +1,18 @@
 import { readFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
 import { BUILTIN_TEMPLATES, DEFAULT_TEMPLATE } from "./builtins.js";
+import { inlinePartials, partialNames, validateTemplate } from "./engine.js";
 
-export async function loadTemplate(nameOrPath?: string): Promise<string> {
+export interface LoadTemplateOptions {
+  /**
+   * Directory of custom templates and partials: `--template card` loads
+   * `card.md` from it, and `{{> footer}}` loads `footer.md`. Partials of a
+   * template loaded by path default to the template's own directory.
+   */
+  templatesDir?: string;
+}
+
+export async function loadTemplate(nameOrPath?: string, options: LoadTemplateOptions = {}): Promise<string> {
   if (!nameOrPath) return DEFAULT_TEMPLATE;
 
   // Check built-in templates first
@@ -9,13 +20,48 @@ export async function loadTemplate(nameOrPath?: string): Promise<string> {
     return BUILTIN_TEMPLATES[nameOrPath];
   }
 
-  // Try loading as a file path
-  try {
-    return await readFile(nameOrPath, "utf-8");
-  } catch {
-    const builtinNames = Object.keys(BUILTIN_TEMPLATES).join(", ");
-    throw new Error(
-      `Template not found: "${nameOrPath}". Built-in templates: ${builtinNames}. Or provide a path to a template file.`
-    );
+  // Then a template by name in the templates directory, then a file path
+  const candidates = options.templatesDir && /^[\w-]+$/.test(nameOrPath)
+    ? [join(options.templatesDir, `${nameOrPath}.md`), nameOrPath]
+    : [nameOrPath];
+  for (const path of candidates) {
+    let template: string;
+    try {
+      template = await readFile(path, "utf-8");
+    } catch {
+      continue;
+    }
+    const resolved = await resolvePartials(template, options.templatesDir ?? dirname(path));
+    try {
+      validateTemplate(resolved);
+    } catch (err) {
+      throw new Error(`${path}: ${(err as Error).message}`);
+    }
+    return resolved;
+  }
+
+  const builtinNames = Object.keys(BUILTIN_TEMPLATES).join(", ");
+  throw new Error(
+    `Template not found: "${nameOrPath}". Built-in templates: ${builtinNames}. Or provide a path to a template file.`
+  );
+}
+
+/** Inline the `{{> name}}` partials of a template, and theirs, from `name.md` files in `dir`. */
+async function resolvePartials(template: string, dir: string): Promise<string> {
+  const partials: Record<string, string> = {};
+  let pending = partialNames(template);
+
+  while (pending.length > 0) {
+    const name = pending.shift()!;
+    if (name in partials) continue;
+    const path = join(dir, `${name}.md`);
+    try {
+      partials[name] = await readFile(path, "utf-8");
+    } catch {
+      throw new Error(`Partial not found: "${name}" (looked for ${path}).`);
+    }
+    pending = pending.concat(partialNames(partials[name]));
   }
+
+  return inlinePartials(template, partials);
 }
@@ -0,0 +1,131 @@
+import type { ParsedResponse } from "./parser.js";
+import type { TokenUsage } from "./providers/types.js";
+
+/**
+ * Longest tile edge, in pixels: close to the largest square Claude reads
+ * without downscaling (about 1.15 megapixels).
+ */
+export const DEFAULT_TILE_SIZE = 1024;
+
+/** Smallest tile size worth a request of its own. */
+export const MIN_TILE_SIZE = 256;
+
+// Pixels neighboring tiles share, so a line of text cut by one edge is whole in the other tile
+const TILE_OVERLAP = 128;
+
+/** One region of a tiled image, in original pixels. */
+export interface Tile {
+  /** 0-based, in reading order (row by row, left to right). */
+  index: number;
+  row: number;
+  col: number;
+  rows: number;
+  cols: number;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/** What one tile's analysis contributed. */
+export interface TileAnalysis {
+  tile: Tile;
+  /** EXTRACTED_TEXT and VISUAL_ELEMENTS of the tile; other fields come from the overview. */
+  parsed: Partial<ParsedResponse>;
+  usage?: TokenUsage;
+}
+
+/** Start offsets of `count` spans of `size` spread evenly over `length`. */
+function spans(length: number, size: number): number[] {
+  if (length <= size) return [0];
+  const count = Math.ceil((length - TILE_OVERLAP) / (size - TILE_OVERLAP));
+  return Array.from({ length: count }, (_, i) => Math.round((i * (length - size)) / (count - 1)));
+}
+
+/**
+ * Split an image into a grid of overlapping tiles no larger than
+ * `tileSize`, spread evenly so every overlap is at least TILE_OVERLAP.
+ * A single tile means the image doesn't need tiling.
+ */
+export function planTiles(width: number, height: number, tileSize = DEFAULT_TILE_SIZE): Tile[] {
+  const lefts = spans(width, tileSize);
+  const tops = spans(height, tileSize);
+  return tops.flatMap((top, row) =>
+    lefts.map((left, col) => ({
+      index: row * lefts.length + col,
+      row,
+      col,
+      rows: tops.length,
+      cols: lefts.length,
+      left,
+      top,
+      width: Math.min(tileSize, width),
+      height: Math.min(tileSize, height),
+    }))
+  );
+}
+
+/** Number of tiles an image is analyzed as, or 1 when it fits in a single tile. */
+export function tileCount(width: number | undefined, height: number | undefined, tileSize = DEFAULT_TILE_SIZE): number {
+  if (!width || !height) return 1;
+  return planTiles(width, height, tileSize).length;
+}
+
+/** Lowercase letters and digits only, for spotting the same line in two tiles. */
+function normalizeLine(line: string): string {
+  return line.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "");
+}
+
+/**
+ * Text of all tiles in reading order. Lines repeated from the tile to the
+ * left or the row above (the overlap) are dropped; repeats elsewhere in
+ * the image are kept.
+ */
+export function mergeTileText(tiles: TileAnalysis[]): string {
+  const ordered = [...tiles].sort((a, b) => a.tile.index - b.tile.index);
+  const linesOf = new Map<number, Set<string>>();
+  const blocks: string[] = [];
+
+  for (const { tile, parsed } of ordered) {
+    const text = parsed.extractedText?.trim() ?? "";
+    const lines = text && text.toLowerCase() !== "none" ? text.split("\n").map((l) => l.trim()).filter(Boolean) : [];
+    const neighbors = ordered
+      .filter(({ tile: other }) =>
+        (other.row === tile.row && other.col === tile.col - 1) ||
+        (other.row === tile.row - 1 && Math.abs(other.col - tile.col) <= 1)
+      )
+      .flatMap(({ tile: other }) => [...(linesOf.get(other.index) ?? [])]);
+    const seen = new Set(neighbors);
+
+    const kept = lines.filter((line) => {
+      const key = normalizeLine(line);
+      return key === "" || !seen.has(key);
+    });
+    linesOf.set(tile.index, new Set(lines.map(normalizeLine).filter(Boolean)));
+    if (kept.length > 0) blocks.push(kept.join("\n"));
+  }
+
+  return blocks.join("\n\n");
+}
+
+/**
+ * Merge tile analyses into the overview's: the overview (the whole image,
+ * downscaled) keeps every field except the extracted text, which is read
+ * from the full-resolution tiles in reading order, and visual elements,
+ * which gain the tiles' small details.
+ */
+export function mergeTiles(overview: ParsedResponse, tiles: TileAnalysis[]): ParsedResponse {
+  const text = mergeTileText(tiles);
+  const elements = new Map<string, string>();
+  for (const value of [overview.visualElements, ...tiles.map((t) => t.parsed.visualElements ?? "")]) {
+    for (const element of value.split(",")) {
+      const trimmed = element.trim();
+      if (trimmed && !elements.has(trimmed.toLowerCase())) elements.set(trimmed.toLowerCase(), trimmed);
+    }
+  }
+  return {
+    ...overview,
+    extractedText: text || overview.extractedText,
+    visualElements: [...elements.values()].join(", "),
+  };
+}
@@ -12,10 +12,18 @@ const IMAGE_CONTENT_TYPES = new Set([
   "image/jpeg",
   "image/webp",
   "image/gif",
+  "image/heic",
+  "image/heif",
+  "image/avif",
+  "image/tiff",
+  "image/bmp",
+  "image/x-ms-bmp",
+  "image/svg+xml",
 ]);
 
 const IMAGE_EXTENSIONS = new Set([
   ".png", ".jpg", ".jpeg", ".webp", ".gif",
+  ".heic", ".heif", ".avif", ".tif", ".tiff", ".bmp", ".svg",
 ]);
 
 export function isUrl(input: string): boolean {
@@ -65,6 +73,12 @@ export function extensionFromMimeType(
   if (mimeType.includes("jpeg") || mimeType.includes("jpg")) return ".jpg";
   if (mimeType.includes("webp")) return ".webp";
   if (mimeType.includes("gif")) return ".gif";
+  if (mimeType.includes("heic")) return ".heic";
+  if (mimeType.includes("heif")) return ".heif";
+  if (mimeType.includes("avif")) return ".avif";
+  if (mimeType.includes("tiff")) return ".tiff";
+  if (mimeType.includes("bmp")) return ".bmp";
+  if (mimeType.includes("svg")) return ".svg";
   return ".png"; // safe default
 }
 
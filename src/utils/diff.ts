@@ -0,0 +1,80 @@
+type Op = { kind: " " | "-" | "+"; line: string };
+
+// Unchanged lines shown around each change
+const CONTEXT = 3;
+
+/**
+ * Unified diff of two texts, line by line, labeled `from` and `to` like
+ * `diff -u`. Empty when they are the same.
+ */
+export function unifiedDiff(before: string, after: string, from: string, to: string): string {
+  if (before === after) return "";
+  const ops = diffLines(lines(before), lines(after));
+
+  // Hunks: runs of changes with their context, merged when the context would touch
+  const changed = ops.flatMap((op, i) => (op.kind === " " ? [] : [i]));
+  const hunks: [number, number][] = [];
+  for (const i of changed) {
+    const start = Math.max(0, i - CONTEXT);
+    const end = Math.min(ops.length, i + CONTEXT + 1);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last[1]) last[1] = end;
+    else hunks.push([start, end]);
+  }
+
+  let out = `--- ${from}\n+++ ${to}\n`;
+  for (const [start, end] of hunks) {
+    const before = ops.slice(0, start);
+    const oldStart = before.filter((op) => op.kind !== "+").length;
+    const newStart = before.filter((op) => op.kind !== "-").length;
+    const hunk = ops.slice(start, end);
+    const oldCount = hunk.filter((op) => op.kind !== "+").length;
+    const newCount = hunk.filter((op) => op.kind !== "-").length;
+    out += `@@ -${range(oldStart, oldCount)} +${range(newStart, newCount)} @@\n`;
+    out += hunk.map((op) => `${op.kind}${op.line}\n`).join("");
+  }
+  return out;
+}
+
+/** Lines of a text, without the empty one after a final newline. */
+function lines(text: string): string[] {
+  if (text === "") return [];
+  const split = text.split("\n");
+  if (split[split.length - 1] === "") split.pop();
+  return split;
+}
+
+/** `start,count` of a hunk side; an empty side points at the line before it. */
+function range(linesBefore: number, count: number): string {
+  return `${count === 0 ? linesBefore : linesBefore + 1},${count}`;
+}
+
+/** Edit script from the longest common subsequence of lines. */
+function diffLines(a: string[], b: string[]): Op[] {
+  const width = b.length + 1;
+  // common[i * width + j]: LCS length of a[i..] and b[j..]
+  const common = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i * width + j] = a[i] === b[j]
+        ? common[(i + 1) * width + j + 1] + 1
+        : Math.max(common[(i + 1) * width + j], common[i * width + j + 1]);
+    }
+  }
+
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ kind: " ", line: a[i++] });
+      j++;
+    } else if (i < a.length && (j === b.length || common[(i + 1) * width + j] >= common[i * width + j + 1])) {
+      // Removals before additions, like diff -u
+      ops.push({ kind: "-", line: a[i++] });
+    } else {
+      ops.push({ kind: "+", line: b[j++] });
+    }
+  }
+  return ops;
+}
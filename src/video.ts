@@ -0,0 +1,204 @@
+import { execFile } from "node:child_process";
+import { createReadStream } from "node:fs";
+import { stat } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import { basename, extname } from "node:path";
+import { humanSize, type ImageMetadata } from "./extractors/metadata.js";
+
+export const VIDEO_EXTENSIONS = [".mp4", ".mov", ".webm", ".m4v"];
+
+/** Frames sampled from a video unless `maxFrames` says otherwise. */
+export const DEFAULT_MAX_FRAMES = 8;
+
+// ffmpeg scene score (0-1) above which a frame counts as a cut
+const SCENE_THRESHOLD = 0.3;
+// Cuts closer than this to the previous keyframe are dropped (flashes, fast pans)
+const MIN_FRAME_GAP_S = 1;
+// Decoded PNG frames can be large; ffmpeg's stderr on long clips too
+const MAX_OUTPUT_BYTES = 256 * 1024 * 1024;
+
+const FORMAT_NAMES: Record<string, string> = {
+  ".mp4": "MP4",
+  ".m4v": "MP4",
+  ".mov": "MOV",
+  ".webm": "WebM",
+};
+
+/** What ffprobe reports about a video's first video stream. */
+export interface VideoInfo {
+  /** Length in seconds. */
+  duration: number;
+  width: number;
+  height: number;
+  codec: string;
+}
+
+export interface ExtractVideoResult {
+  /** The video itself, with duration, codec and the number of sampled frames. */
+  metadata: ImageMetadata;
+  /** One entry per sampled frame, ready for the image pipeline. */
+  frames: ImageMetadata[];
+}
+
+export function isVideo(filePath: string): boolean {
+  return VIDEO_EXTENSIONS.includes(extname(filePath).toLowerCase());
+}
+
+/** Run an ffmpeg tool, returning stdout and stderr as buffers. */
+function run(command: string, args: string[]): Promise<{ stdout: Buffer; stderr: Buffer }> {
+  return new Promise((resolve, reject) => {
+    execFile(command, args, { encoding: "buffer", maxBuffer: MAX_OUTPUT_BYTES }, (err, stdout, stderr) => {
+      if (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+          reject(new Error(
+            `Video input needs ${command} on your PATH.\n` +
+            `Install ffmpeg (which includes ffprobe), e.g.:\n\n` +
+            `  brew install ffmpeg   or   apt install ffmpeg\n`
+          ));
+          return;
+        }
+        const detail = stderr?.toString().trim().split("\n").pop();
+        reject(new Error(`${command} failed${detail ? `: ${detail}` : ""}`));
+        return;
+      }
+      resolve({ stdout, stderr });
+    });
+  });
+}
+
+/** Read duration, resolution and codec of the first video stream. */
+export async function probeVideo(filePath: string): Promise<VideoInfo> {
+  const { stdout } = await run("ffprobe", [
+    "-v", "error",
+    "-select_streams", "v:0",
+    "-show_entries", "stream=width,height,codec_name:format=duration",
+    "-of", "json",
+    filePath,
+  ]);
+  const info = JSON.parse(stdout.toString()) as {
+    streams?: { width?: number; height?: number; codec_name?: string }[];
+    format?: { duration?: string };
+  };
+  const stream = info.streams?.[0];
+  if (!stream) throw new Error(`${basename(filePath)} has no video stream`);
+
+  return {
+    duration: parseFloat(info.format?.duration ?? "0") || 0,
+    width: stream.width ?? 0,
+    height: stream.height ?? 0,
+    codec: stream.codec_name ?? "unknown",
+  };
+}
+
+/**
+ * Pick up to `maxFrames` timestamps: the opening frame plus each scene
+ * change ffmpeg detects, evenly thinned when there are too many. Clips
+ * without cuts (a single shot) are sampled at even intervals instead.
+ */
+export async function detectKeyframes(
+  filePath: string,
+  duration: number,
+  maxFrames = DEFAULT_MAX_FRAMES
+): Promise<number[]> {
+  const { stderr } = await run("ffmpeg", [
+    "-hide_banner", "-nostats",
+    "-i", filePath,
+    "-an",
+    "-vf", `select='gt(scene,${SCENE_THRESHOLD})',showinfo`,
+    "-f", "null", "-",
+  ]);
+
+  const timestamps = [0];
+  for (const match of stderr.toString().matchAll(/pts_time:\s*([\d.]+)/g)) {
+    const t = parseFloat(match[1]);
+    if (t - timestamps[timestamps.length - 1] >= MIN_FRAME_GAP_S) timestamps.push(t);
+  }
+
+  if (timestamps.length === 1 && duration > 0) {
+    return evenSample(duration, Math.min(maxFrames, Math.max(1, Math.floor(duration / MIN_FRAME_GAP_S))));
+  }
+  if (timestamps.length <= maxFrames) return timestamps;
+  if (maxFrames <= 1) return [0];
+
+  // Keep the opening frame and spread the rest across the cuts
+  const step = (timestamps.length - 1) / (maxFrames - 1);
+  return Array.from({ length: maxFrames }, (_, i) => timestamps[Math.round(i * step)]);
+}
+
+/** `count` timestamps spread evenly over a clip, starting at 0. */
+function evenSample(duration: number, count: number): number[] {
+  return Array.from({ length: count }, (_, i) => Math.round(((duration * i) / count) * 1000) / 1000);
+}
+
+/** Decode the frame at `seconds` to PNG. */
+export async function extractFrame(filePath: string, seconds: number): Promise<Buffer> {
+  const { stdout } = await run("ffmpeg", [
+    "-hide_banner", "-loglevel", "error",
+    "-ss", seconds.toString(),
+    "-i", filePath,
+    "-frames:v", "1",
+    "-f", "image2pipe",
+    "-vcodec", "png",
+    "-",
+  ]);
+  if (stdout.length === 0) throw new Error(`No frame at ${formatTimestamp(seconds)} in ${basename(filePath)}`);
+  return stdout;
+}
+
+/** "m:ss", or "h:mm:ss" from an hour on. */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash("sha256");
+    createReadStream(filePath)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("end", () => resolve(hash.digest("hex")))
+      .on("error", reject);
+  });
+}
+
+/**
+ * Probe a video, choose its keyframes and build metadata for it and for
+ * each frame. Frames aren't decoded here, so estimates can count them cheaply.
+ */
+export async function extractVideo(
+  filePath: string,
+  maxFrames = DEFAULT_MAX_FRAMES
+): Promise<ExtractVideoResult> {
+  const info = await probeVideo(filePath);
+  const timestamps = await detectKeyframes(filePath, info.duration, maxFrames);
+  const { size } = await stat(filePath);
+  const ext = extname(filePath).toLowerCase();
+
+  const metadata: ImageMetadata = {
+    filename: basename(filePath),
+    basename: basename(filePath, extname(filePath)),
+    extension: ext,
+    format: FORMAT_NAMES[ext] ?? ext.slice(1).toUpperCase(),
+    width: info.width,
+    height: info.height,
+    sizeBytes: size,
+    sizeHuman: humanSize(size),
+    sha256: await hashFile(filePath),
+    duration: info.duration,
+    codec: info.codec,
+    frameCount: timestamps.length,
+  };
+
+  // Frames share the video's hash; the timestamp keeps their cache keys apart
+  const frames = timestamps.map((timestamp): ImageMetadata => ({
+    ...metadata,
+    basename: `${metadata.basename}-${Math.floor(timestamp)}s`,
+    extension: ".png",
+    timestamp,
+  }));
+
+  return { metadata, frames };
+}
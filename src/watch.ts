@@ -8,6 +8,10 @@ import { loadTemplate } from "./templates/loader.js";
 import { stripFrontmatter } from "./templates/engine.js";
 import { isSupportedFormat } from "./extractors/metadata.js";
 import type { Provider } from "./providers/types.js";
+import type { FallbackReason, FallbackTarget } from "./fallback.js";
+import type { ImageLimits } from "./preprocess.js";
+import type { ColorSource } from "./colors.js";
+import type { OcrMode } from "./ocr.js";
 import * as logger from "./utils/logger.js";
 import { accent, brand } from "./utils/logger.js";
 import { formatModel } from "./cost.js";
@@ -19,10 +23,20 @@ export interface WatchOptions {
   prompt?: string;
   note?: string;
   template?: string;
+  templatesDir?: string;
   output?: string;
   namePattern?: string;
   noFrontmatter?: boolean;
   noCache?: boolean;
+  structured?: boolean;
+  reask?: number;
+  colorSource?: ColorSource;
+  ocr?: OcrMode;
+  ocrLanguage?: string;
+  tileSize?: number;
+  fallbacks?: FallbackTarget[];
+  fallbackOn?: FallbackReason[];
+  imageLimits?: ImageLimits;
   verbose?: boolean;
 }
 
@@ -35,7 +49,7 @@ export async function startWatch(
   // Load template once
   let template: string;
   try {
-    template = await loadTemplate(options.template);
+    template = await loadTemplate(options.template, { templatesDir: options.templatesDir });
   } catch (err) {
     logger.error((err as Error).message);
     process.exit(1);
@@ -165,8 +179,17 @@ export async function startWatch(
         template: tpl,
         templateName: opts.template,
         noCache: opts.noCache,
+        structured: opts.structured,
+        reask: opts.reask,
+        colorSource: opts.colorSource,
+        ocr: opts.ocr,
+        ocrLanguage: opts.ocrLanguage,
+        tileSize: opts.tileSize,
         provider: opts.provider,
         providerName: opts.providerName,
+        fallbacks: opts.fallbacks,
+        fallbackOn: opts.fallbackOn,
+        imageLimits: opts.imageLimits,
       });
 
       const outPath = opts.namePattern
@@ -177,12 +200,13 @@ export async function startWatch(
           }, opts.output)
         : sidecarPath(filePath, opts.output);
       const md = opts.noFrontmatter ? stripFrontmatter(result.markdown) : result.markdown;
-      await writeMarkdown(md, outPath);
+      await writeMarkdown(md, outPath, { merge: true });
 
       const modelLabel = result.model ? formatModel(result.model) : "";
       const cachedLabel = result.cached ? pc.dim(" (cached)") : "";
+      const fallbackLabel = result.fallback ? pc.dim(` via ${result.fallback.providerName}`) : "";
       logger.succeedSpinner(
-        `${filename} ${pc.dim("→ .md")}${cachedLabel}${modelLabel ? pc.dim(` · ${modelLabel}`) : ""}`
+        `${filename} ${pc.dim("→ .md")}${cachedLabel}${fallbackLabel}${modelLabel ? pc.dim(` · ${modelLabel}`) : ""}`
       );
 
       watchCount++;
@@ -0,0 +1,276 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { join } from "node:path";
+import { mkdir, writeFile, rm } from "node:fs/promises";
+import { deflateSync } from "node:zlib";
+import sharp from "sharp";
+import { probeAnimation, sampleFrameIndices, renderApngFrames, type AnimationInfo } from "../src/animation.js";
+import { prepareAnimationFrames } from "../src/preprocess.js";
+import { processFile, cacheKeyFor } from "../src/processor.js";
+import { extractMetadata } from "../src/extractors/metadata.js";
+import type { Provider, ImageInput, ProviderResponse } from "../src/providers/types.js";
+
+const TMP_DIR = join(import.meta.dirname, "fixtures", "tmp-animation");
+const GIF_PATH = join(TMP_DIR, "spinner.gif");
+
+type Rgba = [number, number, number, number];
+
+/** A GIF of solid-color frames, one per entry. */
+async function gif(colors: Rgba[], delay: number[], loop = 0): Promise<Buffer> {
+  const width = 16;
+  const height = 16;
+  const raw = Buffer.alloc(width * height * colors.length * 4);
+  colors.forEach((color, frame) => {
+    for (let i = 0; i < width * height; i++) raw.set(color, (frame * width * height + i) * 4);
+  });
+  return sharp(raw, { raw: { width, height: height * colors.length, channels: 4, pageHeight: height } })
+    .gif({ loop, delay })
+    .toBuffer();
+}
+
+interface ApngFrame {
+  width: number;
+  height: number;
+  x?: number;
+  y?: number;
+  color: Rgba;
+  delayMs?: number;
+  dispose?: number;
+  blend?: number;
+}
+
+/** An RGBA APNG; the first frame is the default image. */
+function apng(frames: ApngFrame[], plays = 0): Buffer {
+  let sequence = 0;
+  const chunks: Buffer[] = [Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])];
+  const chunk = (type: string, data: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const body = Buffer.concat([Buffer.from(type), data]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(body));
+    chunks.push(length, body, crc);
+  };
+  const u32 = (...values: number[]) => {
+    const b = Buffer.alloc(values.length * 4);
+    values.forEach((v, i) => b.writeUInt32BE(v, i * 4));
+    return b;
+  };
+
+  const ihdr = Buffer.concat([u32(frames[0].width, frames[0].height), Buffer.from([8, 6, 0, 0, 0])]);
+  chunk("IHDR", ihdr);
+  chunk("acTL", u32(frames.length, plays));
+  frames.forEach((frame, i) => {
+    const control = Buffer.alloc(26);
+    control.writeUInt32BE(sequence++, 0);
+    control.writeUInt32BE(frame.width, 4);
+    control.writeUInt32BE(frame.height, 8);
+    control.writeUInt32BE(frame.x ?? 0, 12);
+    control.writeUInt32BE(frame.y ?? 0, 16);
+    control.writeUInt16BE(frame.delayMs ?? 100, 20);
+    control.writeUInt16BE(1000, 22);
+    control[24] = frame.dispose ?? 0;
+    control[25] = frame.blend ?? 0;
+    chunk("fcTL", control);
+
+    const row = Buffer.concat([Buffer.from([0]), ...Array.from({ length: frame.width }, () => Buffer.from(frame.color))]);
+    const data = deflateSync(Buffer.concat(Array.from({ length: frame.height }, () => row)));
+    if (i === 0) chunk("IDAT", data);
+    else chunk("fdAT", Buffer.concat([u32(sequence++), data]));
+  });
+  chunk("IEND", Buffer.alloc(0));
+  return Buffer.concat(chunks);
+}
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function pixel(png: Buffer, x: number, y: number): Promise<number[]> {
+  const { data, info } = await sharp(png).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  const at = (y * info.width + x) * 4;
+  return [...data.subarray(at, at + 4)];
+}
+
+const RED: Rgba = [255, 0, 0, 255];
+const GREEN: Rgba = [0, 255, 0, 255];
+const BLUE: Rgba = [0, 0, 255, 255];
+const CLEAR: Rgba = [0, 0, 0, 0];
+const YELLOW: Rgba = [255, 255, 0, 255];
+const CYAN: Rgba = [0, 255, 255, 255];
+const MAGENTA: Rgba = [255, 0, 255, 255];
+
+/** Answers compare() calls with an analysis that counts the frames it was sent. */
+class MotionProvider implements Provider {
+  analyzeCalls = 0;
+  frames: ImageInput[] = [];
+  userPrompt = "";
+
+  async analyze(): Promise<ProviderResponse> {
+    this.analyzeCalls++;
+    return { rawText: "TYPE:\nillustration\n\nSUBJECT:\nA still\n\nDESCRIPTION:\nA still frame.\n\nEXTRACTED_TEXT:\nNone" };
+  }
+
+  async compare(images: ImageInput[], options: { userPrompt: string }): Promise<ProviderResponse> {
+    this.frames = images;
+    this.userPrompt = options.userPrompt;
+    return {
+      rawText: `TYPE:\nillustration\n\nSUBJECT:\nA color-cycling spinner\n\nTAGS:\nloader, animation\n\nDESCRIPTION:\nA square cycling through colors.\n\nEXTRACTED_TEXT:\nNone\n\nMOTION:\nThe square flips from red to green to blue across ${images.length} frames, then loops.`,
+      usage: { inputTokens: 400, outputTokens: 80 },
+    };
+  }
+}
+
+beforeAll(async () => {
+  await mkdir(TMP_DIR, { recursive: true });
+  await writeFile(GIF_PATH, await gif([RED, YELLOW, GREEN, CYAN, BLUE, MAGENTA], [100, 100, 100, 100, 100, 100]));
+});
+
+afterAll(async () => {
+  await rm(TMP_DIR, { recursive: true, force: true });
+});
+
+describe("probeAnimation", () => {
+  it("reads frame count, delays and loop from a GIF", async () => {
+    const info = probeAnimation(await gif([RED, GREEN, BLUE], [100, 200, 300]));
+    expect(info).toEqual({ frameCount: 3, delays: [100, 200, 300], duration: 0.6, loop: 0 });
+  });
+
+  it("counts GIF plays from the NETSCAPE loop count", async () => {
+    // Three plays are stored as a NETSCAPE loop count of 2 (repeats after the first play)
+    expect(probeAnimation(await gif([RED, GREEN], [100, 100], 3))?.loop).toBe(3);
+  });
+
+  it("reads an APNG's frame controls", () => {
+    const info = probeAnimation(apng([
+      { width: 4, height: 4, color: RED, delayMs: 50 },
+      { width: 4, height: 4, color: GREEN, delayMs: 250 },
+    ], 2));
+    expect(info).toEqual({ frameCount: 2, delays: [50, 250], duration: 0.3, loop: 2 });
+  });
+
+  it("returns null for stills", async () => {
+    expect(probeAnimation(await gif([RED], [100]))).toBeNull();
+    expect(probeAnimation(await sharp({ create: { width: 4, height: 4, channels: 3, background: "red" } }).png().toBuffer())).toBeNull();
+  });
+});
+
+describe("sampleFrameIndices", () => {
+  const even = (frameCount: number): AnimationInfo => ({
+    frameCount,
+    delays: Array(frameCount).fill(100),
+    duration: frameCount / 10,
+    loop: 0,
+  });
+
+  it("spreads samples over the timeline, keeping the first and last frame", () => {
+    expect(sampleFrameIndices(even(10), 4)).toEqual([0, 3, 6, 9]);
+  });
+
+  it("returns every frame when there are few enough", () => {
+    expect(sampleFrameIndices(even(3), 4)).toEqual([0, 1, 2]);
+  });
+
+  it("favors frames held on screen longer", () => {
+    const held: AnimationInfo = { frameCount: 5, delays: [100, 100, 2000, 100, 100], duration: 2.4, loop: 0 };
+    expect(sampleFrameIndices(held, 4)).toEqual([0, 2, 4]);
+  });
+});
+
+describe("renderApngFrames", () => {
+  const decode = async (png: Buffer) => {
+    const { data, info } = await sharp(png).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+    return { data, width: info.width, height: info.height };
+  };
+
+  it("composites partial frames at their offsets", async () => {
+    const buffer = apng([
+      { width: 4, height: 4, color: RED },
+      { width: 2, height: 2, x: 2, y: 2, color: GREEN, blend: 1 },
+    ]);
+    const [second] = await renderApngFrames(buffer, [1], decode);
+
+    expect([...second.data.subarray(0, 4)]).toEqual(RED);
+    expect([...second.data.subarray((3 * 4 + 3) * 4, (3 * 4 + 3) * 4 + 4)]).toEqual(GREEN);
+  });
+
+  it("applies dispose ops before the next frame", async () => {
+    const buffer = apng([
+      { width: 4, height: 4, color: RED, dispose: 1 },
+      { width: 2, height: 2, color: BLUE, blend: 1 },
+    ]);
+    const [second] = await renderApngFrames(buffer, [1], decode);
+
+    expect([...second.data.subarray(0, 4)]).toEqual(BLUE);
+    // The red frame was cleared to transparent after it was shown
+    expect([...second.data.subarray((3 * 4 + 3) * 4, (3 * 4 + 3) * 4 + 4)]).toEqual(CLEAR);
+  });
+});
+
+describe("prepareAnimationFrames", () => {
+  it("decodes sampled GIF frames to PNG", async () => {
+    const animation = await prepareAnimationFrames(await gif([RED, GREEN, BLUE], [100, 100, 100]), { filename: "a.gif" }, 4);
+
+    expect(animation?.indices).toEqual([0, 1, 2]);
+    expect(animation?.frames.every((f) => f.mimeType === "image/png")).toBe(true);
+    expect(await pixel(animation!.frames[1].buffer, 8, 8)).toEqual(GREEN);
+  });
+
+  it("renders APNG frames onto the full canvas", async () => {
+    const buffer = apng([
+      { width: 4, height: 4, color: RED },
+      { width: 2, height: 2, x: 2, y: 2, color: GREEN, blend: 1 },
+    ]);
+    const animation = await prepareAnimationFrames(buffer, { filename: "a.png" }, 4);
+
+    expect(animation?.frames.map((f) => [f.width, f.height])).toEqual([[4, 4], [4, 4]]);
+    expect(await pixel(animation!.frames[1].buffer, 0, 0)).toEqual(RED);
+    expect(await pixel(animation!.frames[1].buffer, 3, 3)).toEqual(GREEN);
+  });
+
+  it("fits frames to the provider's pixel limit", async () => {
+    const animation = await prepareAnimationFrames(await gif([RED, GREEN], [100, 100]), { filename: "a.gif" }, 4, { maxDimension: 8 });
+    expect(animation?.frames.map((f) => [f.width, f.height])).toEqual([[8, 8], [8, 8]]);
+  });
+
+  it("returns null for still images", async () => {
+    expect(await prepareAnimationFrames(await gif([RED], [100]), { filename: "a.gif" }, 4)).toBeNull();
+  });
+});
+
+describe("processFile with animations", () => {
+  it("records frame count, duration and loop in metadata", async () => {
+    const { metadata } = await extractMetadata(GIF_PATH);
+    expect(metadata).toMatchObject({ animated: true, frameCount: 6, duration: 0.6, loop: 0 });
+  });
+
+  it("sends sampled frames together and writes a Motion section", async () => {
+    const provider = new MotionProvider();
+    const result = await processFile(GIF_PATH, { provider, noCache: true });
+
+    expect(provider.analyzeCalls).toBe(0);
+    expect(provider.frames).toHaveLength(4);
+    expect(provider.userPrompt).toContain("frames sampled in order from an animated GIF");
+    expect(provider.userPrompt).toContain("MOTION:");
+    expect(result.motion).toBe("The square flips from red to green to blue across 4 frames, then loops.");
+    expect(result.markdown).toContain("duration: 0.6\nframes: 6\nloop: forever");
+    expect(result.markdown).toContain("## Motion\n\nThe square flips");
+    expect(result.preprocessed?.transforms).toEqual(["sampled 4 of 6 frames"]);
+  });
+
+  it("samples at most maxFrames frames", async () => {
+    const provider = new MotionProvider();
+    await processFile(GIF_PATH, { provider, noCache: true, maxFrames: 2 });
+    expect(provider.frames).toHaveLength(2);
+  });
+
+  it("keys the cache by the number of sampled frames", async () => {
+    const { metadata } = await extractMetadata(GIF_PATH);
+    expect(cacheKeyFor(metadata, {})).not.toBe(cacheKeyFor(metadata, { maxFrames: 2 }));
+    expect(cacheKeyFor(metadata, {})).toBe(cacheKeyFor(metadata, { maxFrames: 4 }));
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@anthropic-ai/sdk", () => {
+  const createMock = vi.fn();
+  const responseHeaders: Record<string, string> = {};
+  const clientOptions: unknown[] = [];
+  // The SDK returns an APIPromise; providers read headers via withResponse()
+  const apiPromise = (result: Promise<unknown>) =>
+    Object.assign(Promise.resolve(result), {
+      withResponse: async () => ({ data: await result, response: { headers: new Headers(responseHeaders) } }),
+    });
+  return {
+    default: class Anthropic {
+      messages = { create: (...args: unknown[]) => apiPromise(createMock(...args)) };
+      constructor(options: unknown) {
+        clientOptions.push(options);
+      }
+      static _createMock = createMock;
+      static _responseHeaders = responseHeaders;
+      static _clientOptions = clientOptions;
+    },
+  };
+});
+
+import AnthropicMod from "@anthropic-ai/sdk";
+import { AnthropicProvider } from "../src/providers/anthropic.js";
+import type { ImageInput, AnalyzeOptions } from "../src/providers/types.js";
+
+const createMock = (AnthropicMod as unknown as { _createMock: ReturnType<typeof vi.fn> })._createMock;
+const responseHeaders = (AnthropicMod as unknown as { _responseHeaders: Record<string, string> })._responseHeaders;
+const clientOptions = (AnthropicMod as unknown as { _clientOptions: { maxRetries?: number }[] })._clientOptions;
+
+function makeImage(): ImageInput {
+  return {
+    buffer: Buffer.from("fake-png-data"),
+    mimeType: "image/png",
+    filename: "test.png",
+  };
+}
+
+function makeOptions(overrides?: Partial<AnalyzeOptions>): AnalyzeOptions {
+  return {
+    systemPrompt: "You are a helpful assistant.",
+    userPrompt: "Describe this image.",
+    ...overrides,
+  };
+}
+
+const schema = { name: "image_analysis", schema: { type: "object", properties: {} } };
+
+describe("AnthropicProvider", () => {
+  beforeEach(() => {
+    createMock.mockReset();
+  });
+
+  it("returns the text block for plain requests", async () => {
+    createMock.mockResolvedValue({
+      content: [{ type: "text", text: "A test image." }],
+      usage: { input_tokens: 100, output_tokens: 50 },
+      model: "claude-sonnet-4-5-20250929",
+    });
+
+    const result = await new AnthropicProvider().analyze(makeImage(), makeOptions());
+
+    expect(createMock.mock.calls[0][0].tools).toBeUndefined();
+    expect(result.rawText).toBe("A test image.");
+    expect(result.usage).toEqual({ inputTokens: 100, outputTokens: 50 });
+  });
+
+  it("leaves retries to the shared rate limiter", async () => {
+    createMock.mockResolvedValue({ content: [{ type: "text", text: "ok" }], usage: { input_tokens: 1, output_tokens: 1 } });
+    await new AnthropicProvider().analyze(makeImage(), makeOptions());
+    expect(clientOptions.at(-1)!.maxRetries).toBe(0);
+  });
+
+  it("forces a tool call when a response schema is given", async () => {
+    createMock.mockResolvedValue({
+      content: [{ type: "tool_use", id: "t1", name: "image_analysis", input: { type: "photo" } }],
+      usage: { input_tokens: 100, output_tokens: 50 },
+      model: "claude-sonnet-4-5-20250929",
+    });
+
+    const result = await new AnthropicProvider().analyze(makeImage(), makeOptions({ responseSchema: schema }));
+
+    const call = createMock.mock.calls[0][0];
+    expect(call.tools[0]).toMatchObject({ name: "image_analysis", input_schema: schema.schema });
+    expect(call.tool_choice).toEqual({ type: "tool", name: "image_analysis" });
+    expect(JSON.parse(result.rawText)).toEqual({ type: "photo" });
+  });
+
+  it("falls back to text when the model answers without the tool", async () => {
+    createMock.mockResolvedValue({
+      content: [{ type: "text", text: "I'm sorry, I can't help with that." }],
+      usage: { input_tokens: 100, output_tokens: 10 },
+      model: "claude-sonnet-4-5-20250929",
+    });
+
+    const result = await new AnthropicProvider().analyze(makeImage(), makeOptions({ responseSchema: schema }));
+    expect(result.rawText).toBe("I'm sorry, I can't help with that.");
+  });
+
+  it("throws when there is neither a tool call nor text", async () => {
+    createMock.mockResolvedValue({
+      content: [],
+      usage: { input_tokens: 1, output_tokens: 0 },
+      model: "claude-sonnet-4-5-20250929",
+    });
+
+    await expect(new AnthropicProvider().analyze(makeImage(), makeOptions())).rejects.toThrow(
+      "No text response from API"
+    );
+  });
+
+  it("marks the system prompt as cacheable", async () => {
+    createMock.mockResolvedValue({
+      content: [{ type: "text", text: "A test image." }],
+      usage: { input_tokens: 100, output_tokens: 50 },
+      model: "claude-sonnet-4-5-20250929",
+    });
+
+    await new AnthropicProvider().analyze(makeImage(), makeOptions());
+
+    expect(createMock.mock.calls[0][0].system).toEqual([
+      { type: "text", text: "You are a helpful assistant.", cache_control: { type: "ephemeral" } },
+    ]);
+  });
+
+  it("reports prompt cache reads and writes", async () => {
+    createMock.mockResolvedValue({
+      content: [{ type: "text", text: "A test image." }],
+      usage: { input_tokens: 1200, output_tokens: 50, cache_read_input_tokens: 3000, cache_creation_input_tokens: 0 },
+      model: "claude-sonnet-4-5-20250929",
+    });
+
+    const result = await new AnthropicProvider().analyze(makeImage(), makeOptions());
+
+    expect(result.usage).toEqual({ inputTokens: 1200, outputTokens: 50, cacheReadTokens: 3000 });
+  });
+
+  it("passes rate-limit headers through", async () => {
+    createMock.mockResolvedValue({
+      content: [{ type: "text", text: "A test image." }],
+      usage: { input_tokens: 100, output_tokens: 50 },
+      model: "claude-sonnet-4-5-20250929",
+    });
+    Object.assign(responseHeaders, {
+      "anthropic-ratelimit-requests-limit": "50",
+      "anthropic-ratelimit-requests-remaining": "49",
+    });
+
+    const result = await new AnthropicProvider().analyze(makeImage(), makeOptions());
+
+    expect(result.rateLimit).toEqual({ requestsLimit: 50, requestsRemaining: 49 });
+    for (const key of Object.keys(responseHeaders)) delete responseHeaders[key];
+  });
+});
@@ -0,0 +1,377 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer, type Server, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { join } from "node:path";
+import { copyFile, mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import sharp from "sharp";
+import { AnthropicProvider } from "../src/providers/anthropic.js";
+import { OpenAIProvider } from "../src/providers/openai.js";
+import {
+  submitBatchJob,
+  collectBatchJob,
+  loadManifest,
+  isBatchProvider,
+} from "../src/async-batch.js";
+import { DEFAULT_TEMPLATE } from "../src/templates/builtins.js";
+import { calculateCost, estimateCost } from "../src/cost.js";
+import type { ImageMetadata } from "../src/extractors/metadata.js";
+
+const FIXTURES = join(import.meta.dirname, "fixtures");
+const TMP_DIR = join(FIXTURES, "tmp-async-batch");
+const CACHE_DIR = join(TMP_DIR, "cache");
+
+const ANALYSIS = `TYPE:
+photo
+
+SUBJECT:
+Batched red square
+
+TAGS:
+batch, red-square
+
+DESCRIPTION:
+A red square analyzed in a batch job.
+
+EXTRACTED_TEXT:
+None`;
+
+/**
+ * Minimal stand-in for the Anthropic Message Batches and OpenAI Batch
+ * endpoints. Jobs stay in progress until `finished` is set.
+ */
+class BatchStandIn {
+  server: Server;
+  baseURL = "";
+  finished = false;
+  anthropicRequests: { custom_id: string; params: Record<string, unknown> }[] = [];
+  /** custom_ids of each Anthropic job submitted, in order; job n is `msgbatch_n`. */
+  anthropicJobs: string[][] = [];
+  openaiLines: { custom_id: string; body: Record<string, unknown> }[] = [];
+  /** custom_ids answered with an error instead of a message. */
+  failIds = new Set<string>();
+
+  constructor() {
+    this.server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => this.handle(req, res, body));
+    });
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((done) => this.server.listen(0, "127.0.0.1", done));
+    this.baseURL = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((done) => this.server.close(() => done()));
+  }
+
+  reset(): void {
+    this.finished = false;
+    this.anthropicRequests = [];
+    this.anthropicJobs = [];
+    this.openaiLines = [];
+    this.failIds.clear();
+  }
+
+  private json(res: ServerResponse, data: unknown): void {
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify(data));
+  }
+
+  private handle(req: IncomingMessage, res: ServerResponse, body: string): void {
+    const url = req.url ?? "";
+
+    // Anthropic Messages, for live follow-ups
+    if (req.method === "POST" && url === "/v1/messages") {
+      return this.json(res, {
+        id: "msg_live", type: "message", role: "assistant", model: JSON.parse(body).model,
+        content: [{ type: "text", text: ANALYSIS }],
+        stop_reason: "end_turn", usage: { input_tokens: 500, output_tokens: 100 },
+      });
+    }
+
+    // Anthropic Message Batches
+    if (req.method === "POST" && url === "/v1/messages/batches") {
+      this.anthropicRequests = JSON.parse(body).requests;
+      this.anthropicJobs.push(this.anthropicRequests.map((r) => r.custom_id));
+      return this.json(res, this.anthropicBatch(`msgbatch_${this.anthropicJobs.length}`));
+    }
+    if (req.method === "GET" && url === "/v1/messages/batches/msgbatch_1") {
+      return this.json(res, this.anthropicBatch());
+    }
+    if (req.method === "GET" && url === "/v1/messages/batches/msgbatch_1/results") {
+      const lines = this.anthropicRequests.map((r) =>
+        this.failIds.has(r.custom_id)
+          ? { custom_id: r.custom_id, result: { type: "errored", error: { type: "error", error: { type: "invalid_request_error", message: "Image could not be processed" } } } }
+          : {
+              custom_id: r.custom_id,
+              result: {
+                type: "succeeded",
+                message: {
+                  id: "msg_1", type: "message", role: "assistant", model: r.params.model,
+                  content: [{ type: "text", text: ANALYSIS }],
+                  stop_reason: "end_turn", usage: { input_tokens: 1000, output_tokens: 200 },
+                },
+              },
+            }
+      );
+      res.writeHead(200, { "content-type": "application/binary" });
+      return res.end(lines.map((l) => JSON.stringify(l)).join("\n") + "\n");
+    }
+
+    // OpenAI Files + Batch
+    if (req.method === "POST" && url === "/v1/files") {
+      // Multipart upload — pull the JSONL lines out of the form body
+      this.openaiLines = body
+        .split(/\r?\n/)
+        .filter((line) => line.startsWith('{"custom_id"'))
+        .map((line) => JSON.parse(line));
+      return this.json(res, { id: "file-in", object: "file", purpose: "batch", filename: "m2md-batch.jsonl", bytes: body.length, created_at: 0, status: "processed" });
+    }
+    if (req.method === "POST" && url === "/v1/batches") {
+      return this.json(res, this.openaiBatch());
+    }
+    if (req.method === "GET" && url === "/v1/batches/batch_1") {
+      return this.json(res, this.openaiBatch());
+    }
+    if (req.method === "GET" && url === "/v1/files/file-out/content") {
+      const lines = this.openaiLines.map((l) => ({
+        id: `req-${l.custom_id}`,
+        custom_id: l.custom_id,
+        response: {
+          status_code: 200,
+          body: {
+            id: "chatcmpl-1", object: "chat.completion", created: 0, model: l.body.model,
+            choices: [{ index: 0, message: { role: "assistant", content: ANALYSIS }, finish_reason: "stop" }],
+            usage: { prompt_tokens: 800, completion_tokens: 150, total_tokens: 950 },
+          },
+        },
+        error: null,
+      }));
+      res.writeHead(200, { "content-type": "application/octet-stream" });
+      return res.end(lines.map((l) => JSON.stringify(l)).join("\n") + "\n");
+    }
+
+    res.writeHead(404, { "content-type": "application/json" });
+    res.end(JSON.stringify({ error: { message: `No route for ${req.method} ${url}` } }));
+  }
+
+  private anthropicBatch(id = "msgbatch_1") {
+    const total = this.anthropicRequests.length;
+    const failed = [...this.failIds].length;
+    return {
+      id,
+      type: "message_batch",
+      processing_status: this.finished ? "ended" : "in_progress",
+      request_counts: {
+        processing: this.finished ? 0 : total,
+        succeeded: this.finished ? total - failed : 0,
+        errored: this.finished ? failed : 0,
+        canceled: 0,
+        expired: 0,
+      },
+      results_url: this.finished ? `${this.baseURL}/v1/messages/batches/msgbatch_1/results` : null,
+      created_at: "2026-01-01T00:00:00Z",
+      expires_at: "2026-01-02T00:00:00Z",
+      ended_at: null,
+      cancel_initiated_at: null,
+      archived_at: null,
+    };
+  }
+
+  private openaiBatch() {
+    const total = this.openaiLines.length;
+    return {
+      id: "batch_1",
+      object: "batch",
+      endpoint: "/v1/chat/completions",
+      input_file_id: "file-in",
+      completion_window: "24h",
+      status: this.finished ? "completed" : "in_progress",
+      output_file_id: this.finished ? "file-out" : null,
+      error_file_id: null,
+      created_at: 0,
+      request_counts: { total, completed: this.finished ? total : 0, failed: 0 },
+    };
+  }
+}
+
+const standIn = new BatchStandIn();
+let images: string[];
+
+beforeAll(async () => {
+  await standIn.start();
+});
+
+afterAll(async () => {
+  await standIn.stop();
+  await rm(TMP_DIR, { recursive: true, force: true });
+  delete process.env.M2MD_CACHE_DIR;
+});
+
+beforeEach(async () => {
+  standIn.reset();
+  await rm(TMP_DIR, { recursive: true, force: true });
+  await mkdir(TMP_DIR, { recursive: true });
+  process.env.M2MD_CACHE_DIR = CACHE_DIR;
+
+  images = [join(TMP_DIR, "a.png"), join(TMP_DIR, "b.jpg")];
+  await copyFile(join(FIXTURES, "test-image.png"), images[0]);
+  await copyFile(join(FIXTURES, "test-image.jpg"), images[1]);
+});
+
+const jobOptions = (providerName: string) => ({ providerName, noCache: false });
+
+describe("async batch — Anthropic Message Batches", () => {
+  const provider = () => new AnthropicProvider({ baseURL: standIn.baseURL, apiKey: "test-key" });
+
+  it("submits one request per image and saves a manifest", async () => {
+    const { manifests } = await submitBatchJob(images, provider(), jobOptions("anthropic"));
+
+    expect(manifests.map((m) => m.jobId)).toEqual(["msgbatch_1"]);
+    expect(standIn.anthropicRequests.map((r) => r.custom_id)).toEqual(["img-0", "img-1"]);
+    expect(standIn.anthropicRequests[0].params).toHaveProperty("system");
+
+    const saved = await loadManifest("msgbatch_1");
+    expect(saved.items.map((i) => i.path)).toEqual(images);
+    expect(saved.options.providerName).toBe("anthropic");
+  });
+
+  it("reports progress until the job ends", async () => {
+    await submitBatchJob(images, provider(), jobOptions("anthropic"));
+
+    expect((await provider().getBatchStatus("msgbatch_1")).state).toBe("in_progress");
+    standIn.finished = true;
+    const status = await provider().getBatchStatus("msgbatch_1");
+    expect(status.state).toBe("ended");
+    expect(status.counts).toEqual({ total: 2, succeeded: 2, failed: 0 });
+  });
+
+  it("collects results into sidecars and caches them", async () => {
+    const { manifests: [manifest] } = await submitBatchJob(images, provider(), jobOptions("anthropic"));
+    standIn.finished = true;
+
+    const { results, usage } = await collectBatchJob(manifest, provider(), DEFAULT_TEMPLATE);
+
+    expect(results.every((r) => r.success)).toBe(true);
+    expect(usage).toEqual({ inputTokens: 2000, outputTokens: 400 });
+    const md = await readFile(join(TMP_DIR, "a.md"), "utf-8");
+    expect(md).toContain("Batched red square");
+    expect((await loadManifest("msgbatch_1")).collectedAt).toBeDefined();
+
+    // Collected images are cached, so a second submission has nothing to send
+    const again = await submitBatchJob(images, provider(), jobOptions("anthropic"));
+    expect(again.manifests).toEqual([]);
+    expect(again.cached).toHaveLength(2);
+  });
+
+  it("keeps the usage of live follow-ups apart from the batch", async () => {
+    const { manifests: [manifest] } = await submitBatchJob(images, provider(), { ...jobOptions("anthropic"), reask: 1 });
+    standIn.finished = true;
+
+    const { results, usage, followUpUsage } = await collectBatchJob(manifest, provider(), DEFAULT_TEMPLATE);
+
+    expect(results.every((r) => r.success)).toBe(true);
+    expect(usage).toEqual({ inputTokens: 2000, outputTokens: 400 });
+    expect(followUpUsage).toEqual({ inputTokens: 1000, outputTokens: 200 });
+  });
+
+  it("reports per-image errors without failing the rest", async () => {
+    const { manifests: [manifest] } = await submitBatchJob(images, provider(), jobOptions("anthropic"));
+    standIn.failIds.add("img-1");
+    standIn.finished = true;
+
+    const { results } = await collectBatchJob(manifest, provider(), DEFAULT_TEMPLATE);
+
+    expect(results[0].success).toBe(true);
+    expect(results[1]).toMatchObject({ success: false, error: "Image could not be processed" });
+  });
+
+  it("refuses to collect an image that changed after submission", async () => {
+    const { manifests: [manifest] } = await submitBatchJob(images, provider(), jobOptions("anthropic"));
+    standIn.finished = true;
+    await copyFile(join(FIXTURES, "test-image.webp"), images[0]);
+
+    const { results } = await collectBatchJob(manifest, provider(), DEFAULT_TEMPLATE);
+
+    expect(results[0].error).toMatch(/changed since the batch was submitted/);
+    expect(results[1].success).toBe(true);
+  });
+  it("splits requests over the count limit into several jobs", async () => {
+    const { manifests } = await submitBatchJob(images, provider(), { ...jobOptions("anthropic"), batchLimits: { maxRequests: 1 } });
+
+    expect(manifests.map((m) => m.jobId)).toEqual(["msgbatch_1", "msgbatch_2"]);
+    expect(standIn.anthropicJobs).toEqual([["img-0"], ["img-0"]]);
+    expect((await loadManifest("msgbatch_2")).items.map((i) => i.path)).toEqual([images[1]]);
+  });
+
+  it("splits requests over the size limit into several jobs", async () => {
+    const { manifests } = await submitBatchJob(images, provider(), { ...jobOptions("anthropic"), batchLimits: { maxBytes: 10_000 } });
+
+    expect(manifests).toHaveLength(2);
+    expect(standIn.anthropicJobs).toEqual([["img-0"], ["img-0"]]);
+  });
+
+  it("skips animations and unreadable files without failing the rest", async () => {
+    const animation = join(TMP_DIR, "spinner.gif");
+    // Two 16x16 frames, white then gray
+    const raw = Buffer.concat([Buffer.alloc(16 * 16 * 4, 255), Buffer.alloc(16 * 16 * 4, 128)]);
+    await writeFile(animation, await sharp(raw, { raw: { width: 16, height: 32, channels: 4, pageHeight: 16 } }).gif({ delay: [100, 100] }).toBuffer());
+    const missing = join(TMP_DIR, "missing.png");
+
+    const { manifests, skipped } = await submitBatchJob([animation, missing, ...images], provider(), jobOptions("anthropic"));
+
+    expect(standIn.anthropicJobs).toEqual([["img-0", "img-1"]]);
+    expect(manifests[0].items.map((i) => i.path)).toEqual(images);
+    expect(skipped.map((s) => s.path)).toEqual([animation, missing]);
+    expect(skipped[0].reason).toMatch(/animations/);
+  });
+});
+
+describe("async batch — OpenAI Batch API", () => {
+  const provider = () => new OpenAIProvider({ baseURL: `${standIn.baseURL}/v1`, apiKey: "test-key" });
+
+  it("uploads a JSONL file of chat completion requests", async () => {
+    const { manifests } = await submitBatchJob(images, provider(), { ...jobOptions("openai"), model: "gpt-4o-mini" });
+
+    expect(manifests.map((m) => m.jobId)).toEqual(["batch_1"]);
+    expect(standIn.openaiLines.map((l) => l.custom_id)).toEqual(["img-0", "img-1"]);
+    expect(standIn.openaiLines[0].body.model).toBe("gpt-4o-mini");
+  });
+
+  it("collects completed jobs from the output file", async () => {
+    const { manifests: [manifest] } = await submitBatchJob(images, provider(), jobOptions("openai"));
+    standIn.finished = true;
+
+    expect((await provider().getBatchStatus("batch_1")).state).toBe("ended");
+    const { results, usage, model } = await collectBatchJob(manifest, provider(), DEFAULT_TEMPLATE);
+
+    expect(results.every((r) => r.success)).toBe(true);
+    expect(usage).toEqual({ inputTokens: 1600, outputTokens: 300 });
+    expect(model).toBe("gpt-4o");
+    expect(await readFile(join(TMP_DIR, "b.md"), "utf-8")).toContain("Batched red square");
+  });
+});
+
+describe("async batch helpers", () => {
+  it("detects batch-capable providers", () => {
+    expect(isBatchProvider(new AnthropicProvider())).toBe(true);
+    expect(isBatchProvider({ analyze: async () => ({ rawText: "" }), compare: async () => ({ rawText: "" }) })).toBe(false);
+  });
+
+  it("fails clearly for unknown jobs", async () => {
+    await expect(loadManifest("msgbatch_missing")).rejects.toThrow(/No batch job msgbatch_missing/);
+  });
+
+  it("prices batch jobs at half the live rate", () => {
+    const live = calculateCost(1_000_000, 100_000, "gpt-4o");
+    expect(calculateCost(1_000_000, 100_000, "gpt-4o", { batch: true })).toBeCloseTo(live / 2);
+
+    const metadata = { width: 1000, height: 1000 } as ImageMetadata;
+    const estimate = estimateCost([{ metadata, cached: false }], "gpt-4o", { batch: true });
+    expect(estimate.estimatedCost).toBeCloseTo(estimateCost([{ metadata, cached: false }], "gpt-4o").estimatedCost / 2);
+    expect(estimate.batch).toBe(true);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { decodeBmp } from "../src/bmp.js";
+
+/** Build a BMP with a 40-byte header. `rows` are raw pixel bytes, stored as given. */
+function bmp(options: {
+  width: number;
+  height: number;
+  bitsPerPixel: number;
+  rows: number[][];
+  compression?: number;
+  palette?: number[][];
+  masks?: number[];
+}): Buffer {
+  const { width, height, bitsPerPixel, rows, compression = 0, palette = [], masks = [] } = options;
+  const rowSize = Math.ceil((width * bitsPerPixel) / 32) * 4;
+  const extra = masks.length * 4 + palette.length * 4;
+  const dataOffset = 54 + extra;
+  const buffer = Buffer.alloc(dataOffset + rowSize * rows.length);
+
+  buffer.write("BM", 0, "ascii");
+  buffer.writeUInt32LE(buffer.length, 2);
+  buffer.writeUInt32LE(dataOffset, 10);
+  buffer.writeUInt32LE(40, 14);
+  buffer.writeInt32LE(width, 18);
+  buffer.writeInt32LE(height, 22);
+  buffer.writeUInt16LE(1, 26);
+  buffer.writeUInt16LE(bitsPerPixel, 28);
+  buffer.writeUInt32LE(compression, 30);
+  buffer.writeUInt32LE(palette.length, 46);
+  masks.forEach((mask, i) => buffer.writeUInt32LE(mask, 54 + i * 4));
+  palette.forEach(([r, g, b], i) => buffer.set([b, g, r, 0], 54 + masks.length * 4 + i * 4));
+  rows.forEach((row, i) => buffer.set(row, dataOffset + i * rowSize));
+  return buffer;
+}
+
+const pixel = (data: Buffer, width: number, x: number, y: number) =>
+  [...data.subarray((y * width + x) * 4, (y * width + x) * 4 + 4)];
+
+describe("decodeBmp", () => {
+  it("decodes 24-bit bottom-up bitmaps", () => {
+    // Rows stored bottom row first, pixels as BGR
+    const image = bmp({
+      width: 2,
+      height: 2,
+      bitsPerPixel: 24,
+      rows: [
+        [0, 0, 255, 0, 255, 0],
+        [255, 0, 0, 255, 255, 255],
+      ],
+    });
+
+    const { data, width, height } = decodeBmp(image);
+
+    expect([width, height]).toEqual([2, 2]);
+    expect(pixel(data, 2, 0, 0)).toEqual([0, 0, 255, 255]);
+    expect(pixel(data, 2, 1, 0)).toEqual([255, 255, 255, 255]);
+    expect(pixel(data, 2, 0, 1)).toEqual([255, 0, 0, 255]);
+    expect(pixel(data, 2, 1, 1)).toEqual([0, 255, 0, 255]);
+  });
+
+  it("decodes palette bitmaps", () => {
+    const image = bmp({
+      width: 3,
+      height: 1,
+      bitsPerPixel: 8,
+      palette: [[0, 0, 0], [10, 20, 30], [200, 100, 50]],
+      rows: [[2, 1, 0]],
+    });
+
+    const { data } = decodeBmp(image);
+
+    expect(pixel(data, 3, 0, 0)).toEqual([200, 100, 50, 255]);
+    expect(pixel(data, 3, 1, 0)).toEqual([10, 20, 30, 255]);
+    expect(pixel(data, 3, 2, 0)).toEqual([0, 0, 0, 255]);
+  });
+
+  it("decodes 32-bit bitfields with alpha, top-down", () => {
+    const image = bmp({
+      width: 1,
+      height: -2,
+      bitsPerPixel: 32,
+      compression: 6,
+      masks: [0x00ff0000, 0x0000ff00, 0x000000ff, 0xff000000],
+      rows: [
+        [0x33, 0x22, 0x11, 0x80],
+        [0x00, 0x00, 0xff, 0xff],
+      ],
+    });
+
+    const { data, height } = decodeBmp(image);
+
+    expect(height).toBe(2);
+    expect(pixel(data, 1, 0, 0)).toEqual([0x11, 0x22, 0x33, 0x80]);
+    expect(pixel(data, 1, 0, 1)).toEqual([255, 0, 0, 255]);
+  });
+
+  it("rejects RLE-compressed and non-BMP data", () => {
+    expect(() => decodeBmp(bmp({ width: 1, height: 1, bitsPerPixel: 8, compression: 1, rows: [[0]] })))
+      .toThrow("Unsupported BMP compression");
+    expect(() => decodeBmp(Buffer.from("not a bitmap at all, just some text padding it out"))).toThrow("Not a BMP file");
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { join } from "node:path";
+import { mkdir, rm } from "node:fs/promises";
+import sharp from "sharp";
+import { measureColors, mergeMeasuredColors, matchPaletteHex, type MeasuredColor } from "../src/colors.js";
+import { processFile } from "../src/processor.js";
+import type { RgbaImage } from "../src/animation.js";
+import type { Provider, ProviderResponse } from "../src/providers/types.js";
+
+const TMP_DIR = join(import.meta.dirname, "fixtures", "tmp-colors");
+const TEST_CACHE_DIR = join(import.meta.dirname, "fixtures", "tmp-colors-cache");
+const IMAGE = join(TMP_DIR, "split.png");
+
+/** RGBA pixels made of solid runs: [rgba, pixel count] pairs. */
+function pixels(...runs: [[number, number, number, number], number][]): RgbaImage {
+  const data = Buffer.concat(runs.map(([rgba, count]) => Buffer.from(Array.from({ length: count }, () => rgba).flat())));
+  return { data, width: data.length / 4, height: 1 };
+}
+
+class PaletteProvider implements Provider {
+  async analyze(): Promise<ProviderResponse> {
+    return {
+      rawText: [
+        "TYPE:\nphoto",
+        "PALETTE:\nbrick-red, slate-blue",
+        "SUBJECT:\nTwo color fields",
+        "TAGS:\ncolor-field",
+        "COLOR_HEX:\n#111111, #222222",
+        "DESCRIPTION:\nA red field above a blue one.",
+        "EXTRACTED_TEXT:\nNone",
+      ].join("\n\n"),
+    };
+  }
+
+  async compare(): Promise<ProviderResponse> {
+    return { rawText: "" };
+  }
+}
+
+beforeAll(async () => {
+  await mkdir(TMP_DIR, { recursive: true });
+  // Top three quarters red, bottom quarter blue
+  const red = await sharp({ create: { width: 40, height: 30, channels: 3, background: "#B03A2E" } }).png().toBuffer();
+  await sharp({ create: { width: 40, height: 40, channels: 3, background: "#2E4A8C" } })
+    .composite([{ input: red, top: 0, left: 0 }])
+    .png()
+    .toFile(IMAGE);
+});
+
+afterAll(async () => {
+  await rm(TMP_DIR, { recursive: true, force: true });
+  await rm(TEST_CACHE_DIR, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  process.env.M2MD_CACHE_DIR = TEST_CACHE_DIR;
+  await rm(TEST_CACHE_DIR, { recursive: true, force: true });
+});
+
+describe("measureColors", () => {
+  it("finds dominant colors with their coverage", () => {
+    const colors = measureColors(pixels([[255, 255, 255, 255], 60], [[20, 30, 200, 255], 30], [[200, 20, 20, 255], 10]));
+    expect(colors).toEqual([
+      { hex: "#FFFFFF", coverage: 60 },
+      { hex: "#141EC8", coverage: 30 },
+      { hex: "#C81414", coverage: 10 },
+    ]);
+  });
+
+  it("merges shades that look the same", () => {
+    const colors = measureColors(pixels([[250, 250, 250, 255], 50], [[255, 255, 255, 255], 50]));
+    expect(colors).toHaveLength(1);
+    expect(colors[0].coverage).toBe(100);
+  });
+
+  it("ignores transparent pixels", () => {
+    expect(measureColors(pixels([[0, 0, 0, 0], 90], [[0, 128, 0, 255], 10]))).toEqual([{ hex: "#008000", coverage: 100 }]);
+    expect(measureColors(pixels([[0, 0, 0, 0], 10]))).toEqual([]);
+  });
+
+  it("keeps at most the requested number of colors", () => {
+    const runs = Array.from({ length: 8 }, (_, i) => [[i * 32, 255 - i * 32, (i * 80) % 256, 255], 10] as [[number, number, number, number], number]);
+    expect(measureColors(pixels(...runs), 3)).toHaveLength(3);
+  });
+});
+
+describe("mergeMeasuredColors", () => {
+  it("averages coverage across parts", () => {
+    const merged = mergeMeasuredColors([
+      [{ hex: "#FFFFFF", coverage: 80 }, { hex: "#000000", coverage: 20 }],
+      [{ hex: "#FEFEFE", coverage: 40 }, { hex: "#FF0000", coverage: 60 }],
+      [],
+    ]);
+    expect(merged).toEqual([
+      { hex: "#FFFFFF", coverage: 60 },
+      { hex: "#FF0000", coverage: 30 },
+      { hex: "#000000", coverage: 10 },
+    ]);
+  });
+});
+
+describe("matchPaletteHex", () => {
+  const measured: MeasuredColor[] = [
+    { hex: "#F1ECE2", coverage: 50 },
+    { hex: "#1B1C22", coverage: 30 },
+    { hex: "#9A4A22", coverage: 20 },
+  ];
+
+  it("pairs palette names with the nearest measured color", () => {
+    expect(matchPaletteHex("bone-white, ink-black, cognac-leather", measured)).toEqual([
+      { name: "bone-white", hex: "#F1ECE2" },
+      { name: "ink-black", hex: "#1B1C22" },
+      { name: "cognac-leather", hex: "#9A4A22" },
+    ]);
+  });
+
+  it("skips names without a known color word", () => {
+    expect(matchPaletteHex("constructor, vaporwave-haze", measured)).toEqual([]);
+    expect(matchPaletteHex("bone-white", [])).toEqual([]);
+  });
+});
+
+describe("processFile color sources", () => {
+  it("adds measured colors and palette hex alongside the model's by default", async () => {
+    const result = await processFile(IMAGE, { provider: new PaletteProvider() });
+
+    expect(result.colorHex).toBe("#111111, #222222");
+    expect(result.measuredColors).toEqual([
+      { hex: "#B03A2E", coverage: 75 },
+      { hex: "#2E4A8C", coverage: 25 },
+    ]);
+    expect(result.markdown).toContain('color_hex: ["#111111", "#222222"]');
+    expect(result.markdown).toContain('color_hex_measured: [{hex: "#B03A2E", coverage: 75}, {hex: "#2E4A8C", coverage: 25}]');
+    expect(result.markdown).toContain('palette_hex: {"brick-red": "#B03A2E", "slate-blue": "#2E4A8C"}');
+  });
+
+  it("replaces the model's hex values with measured", async () => {
+    const result = await processFile(IMAGE, { provider: new PaletteProvider(), colorSource: "measured" });
+    expect(result.colorHex).toBe("#B03A2E, #2E4A8C");
+    expect(result.markdown).toContain('color_hex: ["#B03A2E", "#2E4A8C"]');
+  });
+
+  it("skips measuring when trusting the model", async () => {
+    const result = await processFile(IMAGE, { provider: new PaletteProvider(), colorSource: "model" });
+    expect(result.measuredColors).toEqual([]);
+    expect(result.markdown).not.toContain("color_hex_measured");
+    expect(result.markdown).not.toContain("palette_hex");
+  });
+
+  it("caches each color source separately", async () => {
+    const provider = new PaletteProvider();
+    await processFile(IMAGE, { provider, colorSource: "model" });
+    const measured = await processFile(IMAGE, { provider, colorSource: "measured" });
+    const again = await processFile(IMAGE, { provider, colorSource: "measured" });
+
+    expect(measured.cached).toBe(false);
+    expect(again.cached).toBe(true);
+    expect(again.measuredColors).toEqual(measured.measuredColors);
+  });
+});
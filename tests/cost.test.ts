@@ -1,5 +1,14 @@
 import { describe, it, expect } from "vitest";
-import { estimateImageTokens, estimateCost, formatCost, calculateCost, formatModel } from "../src/cost.js";
+import {
+  estimateImageTokens,
+  estimateCost,
+  formatCost,
+  calculateCost,
+  calculateUsageCost,
+  cacheSavings,
+  sumUsage,
+  formatModel,
+} from "../src/cost.js";
 import type { ImageMetadata } from "../src/extractors/metadata.js";
 
 function makeMetadata(width: number, height: number): ImageMetadata {
@@ -35,9 +44,30 @@ describe("estimateImageTokens", () => {
     // (1000*1000)/750 = 1333.3 → 1334 + 350 = 1684
     expect(tokens).toBe(1684);
   });
+
+  it("estimates from the downscaled size the provider will receive", () => {
+    const tokens = estimateImageTokens(makeMetadata(8000, 4000), { maxDimension: 2000 });
+    // 2000x1000 → (2000*1000)/750 = 2666.7 → 2667 + 350 = 3017
+    expect(tokens).toBe(3017);
+  });
+
+  it("adds a request per tile for images larger than the tile size", () => {
+    const tokens = estimateImageTokens(makeMetadata(1920, 1080), {}, 1024);
+    // 3115 for the whole image + 2x2 tiles of 1024x1024 → 4 * (1399 + 350) = 6996
+    expect(tokens).toBe(10111);
+    // Fits in one tile: no extra requests
+    expect(estimateImageTokens(makeMetadata(800, 600), {}, 1024)).toBe(estimateImageTokens(makeMetadata(800, 600)));
+  });
 });
 
 describe("estimateCost", () => {
+  it("counts tile output tokens with a tile size", () => {
+    const items = [{ metadata: makeMetadata(1920, 1080), cached: false }];
+    const estimate = estimateCost(items, "claude-sonnet-4-5-20250929", { tileSize: 1024 });
+    expect(estimate.totalInputTokens).toBe(10111);
+    expect(estimate.totalOutputTokens).toBe(900); // 300 + 4 tiles * 150
+  });
+
   it("calculates cost for uncached images", () => {
     const items = [
       { metadata: makeMetadata(1920, 1080), cached: false },
@@ -72,6 +102,26 @@ describe("estimateCost", () => {
     expect(estimate.toProcess).toBe(0);
   });
 
+  it("counts one analysis per sampled video frame", () => {
+    const single = estimateCost([{ metadata: makeMetadata(1280, 720), cached: false }], "claude-sonnet-4-5-20250929");
+    const video = estimateCost([{ metadata: makeMetadata(1280, 720), cached: false, frames: 6 }], "claude-sonnet-4-5-20250929");
+    expect(video.totalInputTokens).toBe(single.totalInputTokens * 6);
+    expect(video.totalOutputTokens).toBe(1800); // 6 * 300
+    expect(video.toProcess).toBe(1);
+  });
+
+  it("counts an animation's sampled frames as one analysis", () => {
+    const single = estimateCost([{ metadata: makeMetadata(1280, 720), cached: false }], "claude-sonnet-4-5-20250929");
+    const animation = estimateCost(
+      [{ metadata: { ...makeMetadata(1280, 720), animated: true, frameCount: 24 }, cached: false, frames: 8 }],
+      "claude-sonnet-4-5-20250929"
+    );
+    // Seven more images in the same request, without their own prompts
+    const imageTokens = Math.ceil((1280 * 720) / 750);
+    expect(animation.totalInputTokens).toBe(single.totalInputTokens + imageTokens * 7);
+    expect(animation.totalOutputTokens).toBe(single.totalOutputTokens);
+  });
+
   it("uses higher pricing for opus", () => {
     const items = [
       { metadata: makeMetadata(1920, 1080), cached: false },
@@ -140,6 +190,66 @@ describe("calculateCost", () => {
   });
 });
 
+describe("calculateUsageCost", () => {
+  it("prices cache reads and writes at the model's cache rates", () => {
+    // 1K input * $3/M + 1K output * $15/M + 10K read * $0.30/M + 10K write * $3.75/M
+    const cost = calculateUsageCost(
+      { inputTokens: 1_000, outputTokens: 1_000, cacheReadTokens: 10_000, cacheWriteTokens: 10_000 },
+      "claude-sonnet-4-5-20250929"
+    );
+    expect(cost).toBeCloseTo(0.003 + 0.015 + 0.003 + 0.0375, 6);
+  });
+
+  it("derives cache rates from the input price for models without them", () => {
+    // gpt-4o: $2.50/M input → reads at $0.25/M
+    const cost = calculateUsageCost({ inputTokens: 0, outputTokens: 0, cacheReadTokens: 1_000_000 }, "gpt-4o");
+    expect(cost).toBeCloseTo(0.25, 6);
+  });
+
+  it("matches calculateCost without cache tokens", () => {
+    expect(calculateUsageCost({ inputTokens: 10_000, outputTokens: 1_000 }, "claude-opus-4-6")).toBe(
+      calculateCost(10_000, 1_000, "claude-opus-4-6")
+    );
+  });
+
+  it("applies the batch discount to cached tokens too", () => {
+    const usage = { inputTokens: 1_000, outputTokens: 1_000, cacheReadTokens: 10_000 };
+    expect(calculateUsageCost(usage, "claude-sonnet-4-5-20250929", { batch: true })).toBeCloseTo(
+      calculateUsageCost(usage, "claude-sonnet-4-5-20250929") / 2,
+      6
+    );
+  });
+});
+
+describe("cacheSavings", () => {
+  it("compares against sending every input token uncached", () => {
+    // 10K read tokens at $3/M instead of $0.30/M saves $0.027
+    const saved = cacheSavings({ inputTokens: 1_000, outputTokens: 500, cacheReadTokens: 10_000 }, "claude-sonnet-4-5-20250929");
+    expect(saved).toBeCloseTo(0.027, 6);
+  });
+
+  it("is negative when only writing to the cache", () => {
+    const saved = cacheSavings({ inputTokens: 0, outputTokens: 0, cacheWriteTokens: 10_000 }, "claude-sonnet-4-5-20250929");
+    expect(saved).toBeLessThan(0);
+  });
+});
+
+describe("sumUsage", () => {
+  it("adds up token counts including cache counters", () => {
+    expect(
+      sumUsage(
+        { inputTokens: 100, outputTokens: 10, cacheWriteTokens: 3000 },
+        undefined,
+        { inputTokens: 100, outputTokens: 10, cacheReadTokens: 3000 }
+      )
+    ).toEqual({ inputTokens: 200, outputTokens: 20, cacheReadTokens: 3000, cacheWriteTokens: 3000 });
+  });
+
+  it("returns undefined when nothing reported usage", () => {
+    expect(sumUsage(undefined, undefined)).toBeUndefined();
+  });
+});
+
 describe("formatModel", () => {
   it("shortens sonnet model ID", () => {
     expect(formatModel("claude-sonnet-4-5-20250929")).toBe("sonnet-4-5");
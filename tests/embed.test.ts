@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { join } from "node:path";
+import { readFileSync } from "node:fs";
+import { mkdir, readFile, writeFile, rm, access } from "node:fs/promises";
+import sharp from "sharp";
+import {
+  embedMetadata,
+  embedFile,
+  embedResult,
+  embedFieldsFrom,
+  readEmbedFields,
+  diffEmbedFields,
+  canEmbed,
+  type EmbedFields,
+} from "../src/embed.js";
+import { readEmbeddedMetadata } from "../src/extractors/exif.js";
+import { processFile } from "../src/processor.js";
+import type { Provider, ProviderResponse } from "../src/providers/types.js";
+
+const FIXTURES = join(import.meta.dirname, "fixtures");
+const TMP_DIR = join(FIXTURES, "tmp-embed");
+const TEST_CACHE_DIR = join(FIXTURES, "tmp-embed-cache");
+
+const FIELDS: EmbedFields = {
+  title: "Eiffel Tower at dusk",
+  description: "The tower lit at blue hour, seen from the Trocadéro <gardens> & fountains.",
+  keywords: ["Paris", "landmark", "iron-lattice"],
+  altText: "Eiffel Tower at dusk",
+  extractedText: "**Sign:** Tour Eiffel",
+};
+
+function jpegSegment(marker: number, data: Buffer): Buffer {
+  const header = Buffer.from([0xff, marker, 0, 0]);
+  header.writeUInt16BE(data.length + 2, 2);
+  return Buffer.concat([header, data]);
+}
+
+/** Bytes from the JPEG start-of-scan marker on: the compressed image. */
+function scanData(jpeg: Buffer): Buffer {
+  return jpeg.subarray(jpeg.indexOf(Buffer.from([0xff, 0xda])));
+}
+
+class TowerProvider implements Provider {
+  calls = 0;
+
+  async analyze(): Promise<ProviderResponse> {
+    this.calls++;
+    return {
+      rawText: "TYPE:\nphoto\n\nSUBJECT:\nEiffel Tower at dusk\n\nTAGS:\nlandmark, iron-lattice\n\nDESCRIPTION:\nThe tower lit at blue hour.\n\nEXTRACTED TEXT:\nNone",
+    };
+  }
+
+  async compare(): Promise<ProviderResponse> {
+    return { rawText: "" };
+  }
+}
+
+beforeAll(async () => {
+  await mkdir(TMP_DIR, { recursive: true });
+});
+
+afterAll(async () => {
+  await rm(TMP_DIR, { recursive: true, force: true });
+  await rm(TEST_CACHE_DIR, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  process.env.M2MD_CACHE_DIR = TEST_CACHE_DIR;
+  await rm(TEST_CACHE_DIR, { recursive: true, force: true });
+});
+
+describe("embedMetadata", () => {
+  it("writes XMP and IPTC into a JPEG without touching the image data", () => {
+    const jpeg = readFileSync(join(FIXTURES, "test-image.jpg"));
+    const embedded = embedMetadata(jpeg, FIELDS);
+
+    expect(scanData(embedded).equals(scanData(jpeg))).toBe(true);
+    expect(readEmbedFields(embedded)).toEqual({ ...FIELDS, description: FIELDS.description });
+    // IPTC carries the caption and keywords for tools that don't read XMP
+    const iptcOnly = embedMetadata(jpeg, { ...FIELDS, extractedText: "" });
+    expect(readEmbeddedMetadata(iptcOnly)).toMatchObject({ caption: FIELDS.description, keywords: FIELDS.keywords });
+  });
+
+  it("keeps other metadata and replaces its own on re-embed", () => {
+    const jpeg = readFileSync(join(FIXTURES, "test-image.jpg"));
+    const xmp = `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"><rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:dc="http://purl.org/dc/elements/1.1/" xmp:Rating="5"><dc:title><rdf:Alt><rdf:li xml:lang="x-default">Old title</rdf:li></rdf:Alt></dc:title></rdf:Description></rdf:RDF></x:xmpmeta>`;
+    const tagged = Buffer.concat([
+      jpeg.subarray(0, 2),
+      jpegSegment(0xe1, Buffer.from(`http://ns.adobe.com/xap/1.0/\0${xmp}`, "utf8")),
+      jpeg.subarray(2),
+    ]);
+
+    const once = embedMetadata(tagged, FIELDS);
+    const twice = embedMetadata(once, { ...FIELDS, title: "Second title" });
+    const packet = twice.toString("utf8");
+
+    expect(packet).toContain('xmp:Rating="5"');
+    expect(packet).not.toContain("Old title");
+    expect(packet.match(/<dc:title>/g)).toHaveLength(1);
+    expect(readEmbedFields(twice).title).toBe("Second title");
+  });
+
+  it("adds an XMP chunk before the PNG image data", async () => {
+    const png = readFileSync(join(FIXTURES, "test-image.png"));
+    const embedded = embedMetadata(png, FIELDS);
+
+    expect(embedded.indexOf("iTXt")).toBeLessThan(embedded.indexOf("IDAT"));
+    expect(readEmbedFields(embedded).keywords).toEqual(FIELDS.keywords);
+    // sharp checks chunk CRCs
+    const { xmp } = await sharp(embedded).metadata();
+    expect(xmp?.toString()).toContain("Eiffel Tower at dusk");
+  });
+
+  it("converts simple WebPs to the extended format to carry XMP", async () => {
+    const webp = await sharp({ create: { width: 33, height: 17, channels: 3, background: "#336699" } }).webp().toBuffer();
+    const embedded = embedMetadata(webp, FIELDS);
+
+    expect(embedded.toString("latin1", 12, 16)).toBe("VP8X");
+    const metadata = await sharp(embedded).metadata();
+    expect([metadata.width, metadata.height]).toEqual([33, 17]);
+    expect(readEmbedFields(embedded).title).toBe(FIELDS.title);
+  });
+
+  it("appends a new first IFD to TIFFs", async () => {
+    const tiff = await sharp({ create: { width: 4, height: 4, channels: 3, background: "#ff0000" } }).tiff().toBuffer();
+    const embedded = embedMetadata(tiff, FIELDS);
+
+    expect(embedded.subarray(8, tiff.length).equals(tiff.subarray(8))).toBe(true);
+    expect(readEmbeddedMetadata(embedded).keywords).toEqual(FIELDS.keywords);
+    const pixels = await sharp(embedded).raw().toBuffer();
+    expect(pixels.equals(await sharp(tiff).raw().toBuffer())).toBe(true);
+  });
+
+  it("refuses formats without XMP support", () => {
+    expect(canEmbed("anim.gif")).toBe(false);
+    expect(canEmbed("photo.JPG")).toBe(true);
+    expect(() => embedMetadata(Buffer.from("GIF89a"), FIELDS)).toThrow("JPEG, PNG, WebP and TIFF");
+  });
+});
+
+describe("embed fields", () => {
+  it("keeps keywords already in the file ahead of new tags", () => {
+    const fields = embedFieldsFrom({
+      subject: "Tower",
+      description: "A tower.",
+      tags: "landmark, paris",
+      extractedText: "",
+      metadata: { keywords: ["Paris", "holiday"] } as never,
+    });
+    expect(fields.keywords).toEqual(["Paris", "holiday", "landmark"]);
+    expect(fields.altText).toBe("Tower");
+  });
+
+  it("diffs only fields that would change", () => {
+    const before = { ...FIELDS, description: "Old caption", extractedText: "" };
+    const changes = diffEmbedFields(before, { ...FIELDS, extractedText: "" });
+    expect(changes).toEqual([{ field: "description", before: "Old caption", after: FIELDS.description }]);
+  });
+});
+
+describe("embedFile", () => {
+  it("reports changes on a dry run without writing", async () => {
+    const path = join(TMP_DIR, "dry.jpg");
+    await writeFile(path, readFileSync(join(FIXTURES, "test-image.jpg")));
+    const before = await readFile(path);
+
+    const outcome = await embedFile(path, FIELDS, { dryRun: true });
+
+    expect(outcome.written).toBe(false);
+    expect(outcome.changes.map((c) => c.field)).toEqual(["title", "description", "keywords", "altText", "extractedText"]);
+    expect((await readFile(path)).equals(before)).toBe(true);
+  });
+
+  it("keeps the first backup of the original", async () => {
+    const path = join(TMP_DIR, "backup.jpg");
+    const original = readFileSync(join(FIXTURES, "test-image.jpg"));
+    await writeFile(path, original);
+
+    const first = await embedFile(path, FIELDS, { backup: true });
+    await embedFile(path, { ...FIELDS, title: "Changed" }, { backup: true });
+
+    expect(first.backupPath).toBe(`${path}.bak`);
+    expect((await readFile(`${path}.bak`)).equals(original)).toBe(true);
+    expect(readEmbedFields(await readFile(path)).title).toBe("Changed");
+    await expect(access(`${path}.m2md-tmp`)).rejects.toThrow();
+  });
+
+  it("leaves unchanged files alone", async () => {
+    const path = join(TMP_DIR, "same.jpg");
+    await writeFile(path, embedMetadata(readFileSync(join(FIXTURES, "test-image.jpg")), FIELDS));
+    expect((await embedFile(path, FIELDS)).written).toBe(false);
+  });
+});
+
+describe("embedResult", () => {
+  it("moves the cached analysis to the embedded file's hash", async () => {
+    const path = join(TMP_DIR, "cached.jpg");
+    await writeFile(path, readFileSync(join(FIXTURES, "test-image.jpg")));
+    const provider = new TowerProvider();
+
+    const result = await processFile(path, { provider });
+    const outcome = await embedResult(path, result, {});
+    const again = await processFile(path, { provider });
+
+    expect(outcome.written).toBe(true);
+    expect(again.metadata.sha256).toBe(outcome.sha256);
+    expect(again.cached).toBe(true);
+    expect(provider.calls).toBe(1);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
-import { renderTemplate } from "../src/templates/engine.js";
+import { parse } from "yaml";
+import { renderTemplate, inlinePartials, validateFrontmatter } from "../src/templates/engine.js";
 
 describe("renderTemplate", () => {
   it("replaces simple variables", () => {
@@ -95,3 +96,161 @@ title: {{title}}
     expect(result).toContain("Some notes");
   });
 });
+
+describe("renderTemplate blocks", () => {
+  it("renders {{else}} when the condition is falsy", () => {
+    const tmpl = "{{#if camera}}Shot on {{camera}}{{else}}Unknown camera{{/if}}";
+    expect(renderTemplate(tmpl, { camera: "X100V" })).toBe("Shot on X100V\n");
+    expect(renderTemplate(tmpl, {})).toBe("Unknown camera\n");
+  });
+
+  it("renders {{#unless}}", () => {
+    expect(renderTemplate("{{#unless tags}}untagged{{/unless}}", { tags: [] })).toBe("untagged\n");
+    expect(renderTemplate("{{#unless tags}}untagged{{/unless}}", { tags: ["a"] })).toBe("\n");
+  });
+
+  it("treats empty lists as falsy and numbers as truthy", () => {
+    const tmpl = "{{#if list}}L{{/if}}{{#if zero}}Z{{/if}}{{#if none}}N{{/if}}";
+    expect(renderTemplate(tmpl, { list: [], zero: 0, none: null })).toBe("Z\n");
+  });
+
+  it("loops with {{#each}}, this and @-data", () => {
+    const tmpl = "{{#each tags}}{{@index}}:{{this}}{{#if @first}}(first){{/if}}{{#unless @last}}, {{/unless}}{{/each}}";
+    expect(renderTemplate(tmpl, { tags: ["kraft", "letterpress", "foil"] })).toBe("0:kraft(first), 1:letterpress, 2:foil\n");
+  });
+
+  it("renders {{else}} for an empty {{#each}}", () => {
+    expect(renderTemplate("{{#each tags}}{{this}}{{else}}none{{/each}}", { tags: [] })).toBe("none\n");
+  });
+
+  it("reads item fields and outer variables inside {{#each}}", () => {
+    const tmpl = "{{#each colors}}{{name}} {{hex}} ({{filename}})\n{{/each}}";
+    const vars = { filename: "a.png", colors: [{ name: "brick-red", hex: "#B03A2E" }, { name: "slate", hex: "#2E4A8C" }] };
+    expect(renderTemplate(tmpl, vars)).toBe("brick-red #B03A2E (a.png)\nslate #2E4A8C (a.png)\n");
+  });
+
+  it("loops over an object's fields with @key", () => {
+    expect(renderTemplate("{{#each gps}}{{@key}}={{this}};{{/each}}", { gps: { lat: 48.85, lon: 2.29 } })).toBe("lat=48.85;lon=2.29;\n");
+  });
+
+  it("nests blocks", () => {
+    const tmpl = "{{#each pages}}{{#if text}}{{#each text}}[{{this}}]{{/each}}{{else}}-{{/if}}|{{/each}}";
+    const vars = { pages: [{ text: ["a", "b"] }, { text: [] }, { text: ["c"] }] };
+    expect(renderTemplate(tmpl, vars)).toBe("[a][b]|-|[c]|\n");
+  });
+
+  it("reads dotted paths", () => {
+    expect(renderTemplate("{{gps.altitude}} m", { gps: { altitude: 35 } })).toBe("35 m\n");
+  });
+
+  it("prints lists comma-separated", () => {
+    expect(renderTemplate("tags: [{{tags}}]", { tags: ["a", "b"] })).toBe("tags: [a, b]\n");
+  });
+
+  it("skips comments", () => {
+    expect(renderTemplate("A{{! not printed }}B", {})).toBe("AB\n");
+  });
+});
+
+describe("renderTemplate filters", () => {
+  it("quotes strings and lists as YAML", () => {
+    const vars = { subject: 'Poster for "Summer Fest": live', tags: ["a", "b: c"], size: 42, empty: [] };
+    expect(renderTemplate("subject: {{subject | yaml}}", vars)).toBe('subject: "Poster for \\"Summer Fest\\": live"\n');
+    expect(renderTemplate("tags: {{tags | yaml}}", vars)).toBe('tags: ["a", "b: c"]\n');
+    expect(renderTemplate("size: {{size | yaml}} {{empty | yaml}} {{missing | yaml}}", vars)).toBe('size: 42 [] ""\n');
+  });
+
+  it("slugs, upper- and lowercases text and list items", () => {
+    const vars = { subject: "Café Menu — Spring 2026", tags: ["Kraft Paper", "Foil"] };
+    expect(renderTemplate("{{subject | slug}}", vars)).toBe("cafe-menu-spring-2026\n");
+    expect(renderTemplate("{{tags | upper}} {{tags | lower}}", vars)).toBe("KRAFT PAPER, FOIL kraft paper, foil\n");
+  });
+
+  it("wraps values in wikilinks", () => {
+    expect(renderTemplate("{{tags | wikilink}}", { tags: ["kraft", "foil"] })).toBe("[[kraft]], [[foil]]\n");
+    expect(renderTemplate("{{camera | wikilink}}", {})).toBe("\n");
+  });
+
+  it("truncates at a word break", () => {
+    const description = "A dashboard displays two chart panels showing revenue and user metrics.";
+    expect(renderTemplate("{{description | truncate 30}}", { description })).toBe("A dashboard displays two…\n");
+    expect(renderTemplate("{{description | truncate 120}}", { description })).toBe(`${description}\n`);
+  });
+
+  it("joins lists with a separator", () => {
+    expect(renderTemplate('{{tags | join " / "}}', { tags: ["a", "b"] })).toBe("a / b\n");
+  });
+
+  it("chains filters left to right", () => {
+    expect(renderTemplate("{{tags | slug | wikilink}}", { tags: ["Kraft Paper"] })).toBe("[[kraft-paper]]\n");
+  });
+
+  it("prints objects with their own toString", () => {
+    const color = Object.defineProperty({ hex: "#B03A2E", coverage: 75 }, "toString", { value: () => "#B03A2E 75%" });
+    expect(renderTemplate("{{colors}} {{colors | yaml}}", { colors: [color] })).toBe('#B03A2E 75% [{ "hex": "#B03A2E", "coverage": 75 }]\n');
+  });
+});
+
+describe("renderTemplate partials", () => {
+  it("includes partials in the current scope", () => {
+    const partials = { tag: "#{{this | slug}}\n", tags: "{{#each tags}}{{> tag}} {{/each}}" };
+    expect(renderTemplate("Tags: {{> tags}}", { tags: ["Kraft Paper", "Foil"] }, { partials })).toBe("Tags: #kraft-paper #foil\n");
+  });
+
+  it("rejects unknown and self-including partials", () => {
+    expect(() => renderTemplate("{{> footer}}", {})).toThrow('no partial named "footer"');
+    expect(() => inlinePartials("{{> a}}", { a: "{{> b}}", b: "{{> a}}" })).toThrow('partial "a" includes itself');
+  });
+});
+
+describe("renderTemplate frontmatter", () => {
+  const frontmatter = (markdown: string) => parse(markdown.match(/^---\n([\s\S]*?\n)---\n/)![1]);
+
+  it("serializes values so quotes, colons and --- can't break the YAML", () => {
+    const vars = { subject: 'The "Q3" report: final', tags: [": colon-led", "#hash"], text: "---\ntitle: x\n---" };
+    const result = renderTemplate('---\nsubject: "{{subject}}"\ntags: [{{tags}}]\ntext: {{text}}\n---\n\n{{text}}', vars);
+
+    expect(result).toContain('subject: "The \\"Q3\\" report: final"\n');
+    expect(frontmatter(result)).toEqual({ subject: vars.subject, tags: vars.tags, text: vars.text });
+    expect(result.endsWith("\n\n---\ntitle: x\n---\n")).toBe(true);
+  });
+
+  it("keeps the template's field order and gives plain values their type", () => {
+    const result = renderTemplate("---\nwidth: {{width}}\ncode: {{code}}\nempty: {{missing}}\ngps: {{gps}}\n---\n", {
+      width: 800,
+      code: "007",
+      gps: [51.5, -0.1],
+    });
+    expect(result).toBe('---\nwidth: 800\ncode: "007"\nempty:\ngps: [51.5, -0.1]\n---\n');
+  });
+
+  it("splices lists into sequences and leaves | yaml to the serializer", () => {
+    const result = renderTemplate('---\na: [{{tags}}]\nb:\n  - "{{tags}}"\nc: {{tags | yaml}}\n---\n{{tags | yaml}}', { tags: ["x", "y"] });
+    expect(result).toBe('---\na: [x, y]\nb:\n  - "x"\n  - "y"\nc: [x, y]\n---\n["x", "y"]\n');
+  });
+
+  it("throws when the template's frontmatter isn't valid YAML", () => {
+    expect(() => renderTemplate("---\ntags: [{{tags}}\n---\n", {})).toThrow("frontmatter is not valid YAML");
+  });
+
+  it("validateFrontmatter rejects invalid YAML and ignores markdown without frontmatter", () => {
+    expect(() => validateFrontmatter('---\nsubject: "a "b" c"\n---\n')).toThrow("Invalid YAML frontmatter");
+    expect(() => validateFrontmatter("---\nsubject: ok\n---\n")).not.toThrow();
+    expect(() => validateFrontmatter("No frontmatter: here\n")).not.toThrow();
+  });
+});
+
+describe("renderTemplate errors", () => {
+  it("throws for unclosed and mismatched blocks", () => {
+    expect(() => renderTemplate("{{#if a}}x", {})).toThrow("{{#if}} is never closed");
+    expect(() => renderTemplate("{{#if a}}x{{/each}}", {})).toThrow("{{#if}} closed by {{/each}}");
+    expect(() => renderTemplate("x{{/if}}", {})).toThrow("{{/if}} without an open {{#if}}");
+    expect(() => renderTemplate("{{else}}", {})).toThrow("{{else}} outside");
+  });
+
+  it("throws for unknown filters and blocks", () => {
+    expect(() => renderTemplate("{{subject | shout}}", {})).toThrow('unknown filter "shout"');
+    expect(() => renderTemplate("{{#with subject}}{{/with}}", {})).toThrow("unknown block {{#with}}");
+    expect(() => renderTemplate("{{description | truncate}}", {})).toThrow("truncate needs a length");
+  });
+});
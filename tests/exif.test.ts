@@ -0,0 +1,312 @@
+import { describe, it, expect } from "vitest";
+import { join } from "node:path";
+import { readFileSync } from "node:fs";
+import { deflateSync } from "node:zlib";
+import { readEmbeddedMetadata, orientationName } from "../src/extractors/exif.js";
+import { extractMetadataFromBuffer } from "../src/extractors/metadata.js";
+import { processBuffer } from "../src/processor.js";
+import { DETAILED_TEMPLATE } from "../src/templates/builtins.js";
+import type { Provider, ImageInput, AnalyzeOptions, ProviderResponse } from "../src/providers/types.js";
+
+const FIXTURES = join(import.meta.dirname, "fixtures");
+
+// --- Writers for the blocks under test ----------------------------------------
+
+type Tag = [tag: number, type: number, value: string | number | number[]];
+
+/** A TIFF/EXIF structure with IFD0 plus optional Exif and GPS sub-IFDs. */
+function tiff(le: boolean, ifd0: Tag[], exif: Tag[] = [], gps: Tag[] = []): Buffer {
+  const u16 = (n: number) => {
+    const b = Buffer.alloc(2);
+    le ? b.writeUInt16LE(n) : b.writeUInt16BE(n);
+    return b;
+  };
+  const u32 = (n: number) => {
+    const b = Buffer.alloc(4);
+    le ? b.writeUInt32LE(n) : b.writeUInt32BE(n);
+    return b;
+  };
+  const encode = ([, type, value]: Tag): Buffer => {
+    if (type === 2) return Buffer.from(`${value}\0`, "latin1");
+    const values = Array.isArray(value) ? value : [value as number];
+    if (type === 3) return Buffer.concat(values.map(u16));
+    if (type === 4) return Buffer.concat(values.map(u32));
+    if (type === 5) return Buffer.concat(values.map((v) => Buffer.concat([u32(Math.round(v * 100)), u32(100)])));
+    return Buffer.from(values);
+  };
+  const count = (tag: Tag) => (tag[1] === 2 ? (tag[2] as string).length + 1 : Array.isArray(tag[2]) ? tag[2].length : 1);
+
+  // Layout: header, IFD0, Exif IFD, GPS IFD, then out-of-line values
+  const ifdSize = (tags: Tag[]) => 2 + tags.length * 12 + 4;
+  const ifds: Tag[][] = [ifd0, exif, gps].filter((t) => t.length > 0);
+  if (exif.length) ifd0.push([0x8769, 4, 0]);
+  if (gps.length) ifd0.push([0x8825, 4, 0]);
+  const offsets: number[] = [];
+  let pos = 8;
+  for (const tags of ifds) {
+    offsets.push(pos);
+    pos += ifdSize(tags);
+  }
+  if (exif.length) ifd0[ifd0.length - (gps.length ? 2 : 1)][2] = offsets[1];
+  if (gps.length) ifd0[ifd0.length - 1][2] = offsets[exif.length ? 2 : 1];
+
+  const parts: Buffer[] = [Buffer.from(le ? "II" : "MM"), u16(42), u32(8)];
+  const data: Buffer[] = [];
+  for (const tags of ifds) {
+    parts.push(u16(tags.length));
+    for (const tag of tags) {
+      const value = encode(tag);
+      parts.push(u16(tag[0]), u16(tag[1]), u32(count(tag)));
+      if (value.length <= 4) {
+        parts.push(Buffer.concat([value, Buffer.alloc(4 - value.length)]));
+      } else {
+        parts.push(u32(pos));
+        data.push(value);
+        pos += value.length;
+      }
+    }
+    parts.push(u32(0));
+  }
+  return Buffer.concat([...parts, ...data]);
+}
+
+function iptc(datasets: [record: number, dataset: number, value: string | Buffer][]): Buffer {
+  return Buffer.concat(
+    datasets.map(([record, dataset, value]) => {
+      const data = typeof value === "string" ? Buffer.from(value, "utf8") : value;
+      const header = Buffer.from([0x1c, record, dataset, 0, 0]);
+      header.writeUInt16BE(data.length, 3);
+      return Buffer.concat([header, data]);
+    })
+  );
+}
+
+/** A minimal ICC profile with a v2 'desc' tag. */
+function icc(description: string): Buffer {
+  const desc = Buffer.alloc(12 + description.length + 1 + 78);
+  desc.write("desc", 0, "latin1");
+  desc.writeUInt32BE(description.length + 1, 8);
+  desc.write(description, 12, "latin1");
+  const header = Buffer.alloc(132 + 12);
+  header.writeUInt32BE(1, 128);
+  header.write("desc", 132, "latin1");
+  header.writeUInt32BE(144, 136);
+  header.writeUInt32BE(desc.length, 140);
+  return Buffer.concat([header, desc]);
+}
+
+/** A v4 ICC profile whose description is a multi-localized (mluc) string. */
+function iccV4(description: string): Buffer {
+  const text = Buffer.from(description, "utf16le").swap16();
+  const mluc = Buffer.alloc(28);
+  mluc.write("mluc", 0, "latin1");
+  mluc.writeUInt32BE(1, 8);
+  mluc.writeUInt32BE(12, 12);
+  mluc.write("enUS", 16, "latin1");
+  mluc.writeUInt32BE(text.length, 20);
+  mluc.writeUInt32BE(28, 24);
+  const header = Buffer.alloc(144);
+  header.writeUInt32BE(1, 128);
+  header.write("desc", 132, "latin1");
+  header.writeUInt32BE(144, 136);
+  header.writeUInt32BE(mluc.length + text.length, 140);
+  return Buffer.concat([header, mluc, text]);
+}
+
+function xmp(body: string): string {
+  return `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#"><rdf:Description rdf:about="" ${body}</rdf:Description></rdf:RDF></x:xmpmeta>`;
+}
+
+function jpegSegment(marker: number, data: Buffer): Buffer {
+  const header = Buffer.from([0xff, marker, 0, 0]);
+  header.writeUInt16BE(data.length + 2, 2);
+  return Buffer.concat([header, data]);
+}
+
+/** The 1x1 JPEG fixture with the given segments inserted after SOI. */
+function jpegWith(...segments: Buffer[]): Buffer {
+  const base = readFileSync(join(FIXTURES, "test-image.jpg"));
+  return Buffer.concat([base.subarray(0, 2), ...segments, base.subarray(2)]);
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  // Readers here don't check CRCs
+  return Buffer.concat([length, Buffer.from(type, "latin1"), data, Buffer.alloc(4)]);
+}
+
+/** The 1x1 PNG fixture with the given chunks inserted after IHDR. */
+function pngWith(...chunks: Buffer[]): Buffer {
+  const base = readFileSync(join(FIXTURES, "test-image.png"));
+  return Buffer.concat([base.subarray(0, 33), ...chunks, base.subarray(33)]);
+}
+
+const CAMERA_EXIF = tiff(
+  false,
+  [
+    [0x010f, 2, "Canon"],
+    [0x0110, 2, "Canon EOS R5"],
+    [0x0112, 3, 6],
+  ],
+  [
+    [0x9003, 2, "2023:06:14 18:22:05"],
+    [0x9011, 2, "+02:00"],
+    [0xa434, 2, "RF24-70mm F2.8 L IS USM"],
+  ],
+  [
+    [0x0001, 2, "N"],
+    [0x0002, 5, [48, 51, 30.13]],
+    [0x0003, 2, "W"],
+    [0x0004, 5, [2, 17, 40.2]],
+    [0x0005, 1, 0],
+    [0x0006, 5, 35.5],
+  ]
+);
+
+const PHOTOSHOP_IPTC = (() => {
+  const record = iptc([
+    [1, 90, Buffer.from([0x1b, 0x25, 0x47])],
+    [2, 25, "Eiffel Tower"],
+    [2, 25, "Paris"],
+    [2, 25, "dusk"],
+    [2, 120, 'Tower lit at "blue hour"'],
+  ]);
+  const size = Buffer.alloc(4);
+  size.writeUInt32BE(record.length);
+  return Buffer.concat([
+    Buffer.from("Photoshop 3.0\0", "latin1"),
+    Buffer.from("8BIM", "latin1"),
+    Buffer.from([0x04, 0x04, 0, 0]),
+    size,
+    record,
+    Buffer.alloc(record.length % 2),
+  ]);
+})();
+
+// --- Tests ----------------------------------------------------------------------
+
+describe("readEmbeddedMetadata", () => {
+  it("reads EXIF, IPTC and ICC data from a JPEG", () => {
+    const buffer = jpegWith(
+      jpegSegment(0xe1, Buffer.concat([Buffer.from("Exif\0\0", "latin1"), CAMERA_EXIF])),
+      jpegSegment(0xe2, Buffer.concat([Buffer.from("ICC_PROFILE\0", "latin1"), Buffer.from([1, 1]), icc("Display P3")])),
+      jpegSegment(0xed, PHOTOSHOP_IPTC)
+    );
+
+    expect(readEmbeddedMetadata(buffer)).toEqual({
+      dateTaken: "2023-06-14T18:22:05+02:00",
+      camera: "Canon EOS R5",
+      lens: "RF24-70mm F2.8 L IS USM",
+      gps: { latitude: 48.858369, longitude: -2.294500, altitude: 35.5 },
+      orientation: 6,
+      colorProfile: "Display P3",
+      caption: "Tower lit at 'blue hour'",
+      keywords: ["Eiffel Tower", "Paris", "dusk"],
+    });
+  });
+
+  it("reads little-endian EXIF, XMP and a v4 profile from a PNG", () => {
+    const exif = tiff(true, [
+      [0x010f, 2, "FUJIFILM"],
+      [0x0110, 2, "X-T4"],
+    ]);
+    const packet = xmp(`xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:exif="http://ns.adobe.com/exif/1.0/" exif:DateTimeOriginal="2021-03-02T09:15:00.250">
+      <dc:subject><rdf:Bag><rdf:li>harbor</rdf:li><rdf:li>fog &amp; boats</rdf:li></rdf:Bag></dc:subject>
+      <dc:description><rdf:Alt><rdf:li xml:lang="x-default">Morning fog over the harbor</rdf:li></rdf:Alt></dc:description>`);
+    const buffer = pngWith(
+      pngChunk("iCCP", Buffer.concat([Buffer.from("ICC\0\0", "latin1"), deflateSync(iccV4("sRGB IEC61966-2.1"))])),
+      pngChunk("iTXt", Buffer.concat([Buffer.from("XML:com.adobe.xmp\0\0\0\0\0", "latin1"), Buffer.from(packet)])),
+      pngChunk("eXIf", exif)
+    );
+
+    expect(readEmbeddedMetadata(buffer)).toEqual({
+      camera: "FUJIFILM X-T4",
+      dateTaken: "2021-03-02T09:15:00",
+      colorProfile: "sRGB IEC61966-2.1",
+      caption: "Morning fog over the harbor",
+      keywords: ["harbor", "fog & boats"],
+    });
+  });
+
+  it("prefers IPTC over XMP for captions and keywords", () => {
+    const packet = xmp(`xmlns:dc="http://purl.org/dc/elements/1.1/">
+      <dc:subject><rdf:Bag><rdf:li>stale</rdf:li></rdf:Bag></dc:subject>`);
+    const buffer = jpegWith(
+      jpegSegment(0xe1, Buffer.from(`http://ns.adobe.com/xap/1.0/\0${packet}`, "utf8")),
+      jpegSegment(0xed, PHOTOSHOP_IPTC)
+    );
+
+    expect(readEmbeddedMetadata(buffer).keywords).toEqual(["Eiffel Tower", "Paris", "dusk"]);
+  });
+
+  it("finds blocks in files without a dedicated reader", () => {
+    const heic = Buffer.concat([
+      Buffer.from("\0\0\0\x18ftypheic\0\0\0\0mif1heic", "latin1"),
+      Buffer.from("\0\0\0\0Exif\0\0", "latin1"),
+      CAMERA_EXIF,
+    ]);
+    expect(readEmbeddedMetadata(heic)).toMatchObject({ camera: "Canon EOS R5", orientation: 6 });
+  });
+
+  it("returns nothing for plain or damaged files", () => {
+    expect(readEmbeddedMetadata(readFileSync(join(FIXTURES, "test-image.png")))).toEqual({});
+    const truncated = jpegWith(jpegSegment(0xe1, Buffer.concat([Buffer.from("Exif\0\0", "latin1"), CAMERA_EXIF.subarray(0, 40)])));
+    expect(() => readEmbeddedMetadata(truncated)).not.toThrow();
+  });
+
+  it("names orientations", () => {
+    expect(orientationName(1)).toBe("normal");
+    expect(orientationName(6)).toBe("rotated-90");
+  });
+});
+
+class PromptProvider implements Provider {
+  prompts: AnalyzeOptions[] = [];
+
+  async analyze(_image: ImageInput, options?: AnalyzeOptions): Promise<ProviderResponse> {
+    this.prompts.push(options!);
+    return {
+      rawText: "TYPE:\nphoto\n\nSUBJECT:\nEiffel Tower at dusk\n\nTAGS:\nlandmark\n\nDESCRIPTION:\nThe tower at blue hour.\n\nEXTRACTED TEXT:\nNone",
+    };
+  }
+
+  async compare(): Promise<ProviderResponse> {
+    return { rawText: "" };
+  }
+}
+
+describe("embedded metadata in the pipeline", () => {
+  const buffer = jpegWith(
+    jpegSegment(0xe1, Buffer.concat([Buffer.from("Exif\0\0", "latin1"), CAMERA_EXIF])),
+    jpegSegment(0xed, PHOTOSHOP_IPTC)
+  );
+
+  it("adds the fields to image metadata", () => {
+    const metadata = extractMetadataFromBuffer(buffer, "tower.jpg", "image/jpeg");
+    expect(metadata).toMatchObject({ format: "JPEG", camera: "Canon EOS R5", orientation: 6 });
+  });
+
+  it("renders them in the detailed template and hints keywords to the model", async () => {
+    const provider = new PromptProvider();
+    const result = await processBuffer(
+      { buffer, filename: "tower.jpg", mimeType: "image/jpeg" },
+      { provider, noCache: true, template: DETAILED_TEMPLATE }
+    );
+
+    expect(result.markdown).toContain(
+      [
+        "date_taken: 2023-06-14T18:22:05+02:00",
+        'camera: "Canon EOS R5"',
+        'lens: "RF24-70mm F2.8 L IS USM"',
+        "gps: [48.858369, -2.2945]",
+        "altitude_m: 35.5",
+        "orientation: rotated-90",
+        "caption: \"Tower lit at 'blue hour'\"",
+        'keywords: ["Eiffel Tower", "Paris", "dusk"]',
+      ].join("\n")
+    );
+    expect(result.markdown).toContain("| Camera | Canon EOS R5 |");
+    expect(provider.prompts[0].userPrompt).toContain("already tagged with these keywords: Eiffel Tower, Paris, dusk.");
+  });
+});
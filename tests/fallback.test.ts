@@ -0,0 +1,106 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  parseFallbackChain,
+  createFallbackTargets,
+  resolveFallbackModel,
+  fallbackReason,
+  RefusalError,
+} from "../src/fallback.js";
+import { requireProvider } from "../src/providers/registry.js";
+
+const apiError = (status: number | undefined, message: string) => Object.assign(new Error(message), { status });
+
+describe("fallbackReason", () => {
+  it("classifies rate limits, overloads and refusals", () => {
+    expect(fallbackReason(apiError(429, "Too many requests"))).toBe("rate_limit");
+    expect(fallbackReason(apiError(529, "Overloaded"))).toBe("overloaded");
+    expect(fallbackReason(apiError(503, "Service unavailable"))).toBe("overloaded");
+    expect(fallbackReason(new RefusalError("a.png"))).toBe("refusal");
+  });
+
+  it("recognizes oversized images by status or message", () => {
+    expect(fallbackReason(apiError(413, "Payload too large"))).toBe("oversized");
+    expect(fallbackReason(apiError(400, "image exceeds 5 MB maximum"))).toBe("oversized");
+  });
+
+  it("returns null for errors another provider wouldn't fix", () => {
+    expect(fallbackReason(apiError(401, "Invalid API key"))).toBeNull();
+    expect(fallbackReason(apiError(400, "Invalid request"))).toBeNull();
+    expect(fallbackReason(new Error("fetch failed"))).toBeNull();
+    expect(fallbackReason("string error")).toBeNull();
+  });
+});
+
+describe("resolveFallbackModel", () => {
+  const anthropic = requireProvider("anthropic");
+
+  it("keeps exact model ids", () => {
+    expect(resolveFallbackModel(anthropic, "claude-opus-4-6")).toBe("claude-opus-4-6");
+  });
+
+  it("expands shorthands and tier names", () => {
+    expect(resolveFallbackModel(anthropic, "sonnet")).toBe("claude-sonnet-4-5-20250929");
+    expect(resolveFallbackModel(anthropic, "haiku")).toBe("claude-haiku-4-5-20251001");
+    expect(resolveFallbackModel(anthropic, "quality")).toBe("claude-sonnet-4-5-20250929");
+  });
+
+  it("passes unknown names through", () => {
+    expect(resolveFallbackModel(anthropic, "claude-next")).toBe("claude-next");
+  });
+});
+
+describe("parseFallbackChain", () => {
+  it("parses provider and provider:model entries", () => {
+    const steps = parseFallbackChain(["openai:gpt-4o", "local"], { providerName: "anthropic" });
+    expect(steps.map((s) => [s.definition.name, s.model])).toEqual([
+      ["openai", "gpt-4o"],
+      ["local", requireProvider("local").defaultModel],
+    ]);
+  });
+
+  it("drops the primary and repeated entries", () => {
+    const steps = parseFallbackChain(
+      ["anthropic:sonnet", "openai:gpt-4o", "openai:gpt-4o", "anthropic:haiku"],
+      { providerName: "anthropic", model: "claude-sonnet-4-5-20250929" }
+    );
+    expect(steps.map((s) => s.model)).toEqual(["gpt-4o", "claude-haiku-4-5-20251001"]);
+  });
+
+  it("keeps colons in model names", () => {
+    const [step] = parseFallbackChain(["local:llava:13b"], { providerName: "anthropic" });
+    expect(step.model).toBe("llava:13b");
+  });
+
+  it("throws for unknown providers", () => {
+    expect(() => parseFallbackChain(["nope"], { providerName: "anthropic" })).toThrow("Unknown provider: nope");
+  });
+});
+
+describe("createFallbackTargets", () => {
+  const saved = process.env.OPENAI_API_KEY;
+
+  afterEach(() => {
+    if (saved === undefined) delete process.env.OPENAI_API_KEY;
+    else process.env.OPENAI_API_KEY = saved;
+  });
+
+  it("skips providers whose API key is missing", () => {
+    delete process.env.OPENAI_API_KEY;
+    const steps = parseFallbackChain(["openai", "local"], { providerName: "anthropic" });
+    const { targets, skipped } = createFallbackTargets(steps);
+
+    expect(targets.map((t) => t.providerName)).toEqual(["local"]);
+    expect(skipped.map((s) => s.definition.name)).toEqual(["openai"]);
+  });
+
+  it("keeps structured output only where the provider supports it", () => {
+    process.env.OPENAI_API_KEY = "sk-test";
+    const steps = parseFallbackChain(["openai", "local"], { providerName: "anthropic" });
+    const { targets } = createFallbackTargets(steps, true);
+
+    expect(targets.map((t) => [t.providerName, t.structured])).toEqual([
+      ["openai", true],
+      ["local", false],
+    ]);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from "vitest";
+import { formatResults, resultRecord, outputExtension } from "../src/output/formats.js";
+import type { ProcessResult } from "../src/processor.js";
+
+function result(overrides: Partial<ProcessResult> = {}): ProcessResult {
+  return {
+    type: "screenshot",
+    category: "ui-design",
+    style: "minimalist, flat",
+    mood: "calm",
+    medium: "screen-capture",
+    composition: "grid",
+    palette: "dark-blue, white",
+    subject: 'Dashboard with "analytics", charts',
+    description: "A dashboard.\nTwo panels.",
+    extractedText: "Revenue",
+    colors: "dark-blue, white",
+    tags: "dashboard, analytics-panel",
+    visualElements: "line chart, sidebar",
+    references: "",
+    useCase: "dashboard-layout-reference",
+    colorHex: "#1A237E, #FFFFFF",
+    era: "contemporary",
+    artifact: "website",
+    typography: "sans-serif",
+    script: "latin",
+    culturalInfluence: "",
+    searchPhrases: "analytics dashboard, with charts\ncorporate dashboard UI",
+    dimensions: "layout-system: Modular grid\nhierarchy",
+    motion: "",
+    metadata: {
+      filename: "dash.png",
+      basename: "dash",
+      extension: ".png",
+      format: "PNG",
+      width: 800,
+      height: 600,
+      sizeBytes: 43110,
+      sizeHuman: "42.1 KB",
+      sha256: "abc123",
+      gps: { latitude: 51.5, longitude: -0.1 },
+    },
+    markdown: "---\ntype: screenshot\n---\n\nA dashboard.\n",
+    cached: false,
+    model: "claude-sonnet-4-5-20250929",
+    ...overrides,
+  };
+}
+
+describe("resultRecord", () => {
+  it("turns list fields into arrays and keeps the metadata", () => {
+    const record = resultRecord(result());
+    expect(record.tags).toEqual(["dashboard", "analytics-panel"]);
+    expect(record.colorHex).toEqual(["#1A237E", "#FFFFFF"]);
+    expect(record.references).toEqual([]);
+    expect(record.searchPhrases).toEqual(["analytics dashboard, with charts", "corporate dashboard UI"]);
+    expect(record.dimensions).toEqual([
+      { name: "layout-system", description: "Modular grid" },
+      { name: "hierarchy", description: "" },
+    ]);
+    expect(record.metadata.gps).toEqual({ latitude: 51.5, longitude: -0.1 });
+    expect(record.subject).toBe('Dashboard with "analytics", charts');
+  });
+
+  it("records pages and frames the same way", () => {
+    const page = { ...result({ tags: "cover" }), page: 2 };
+    const record = resultRecord(result({ pages: [page] }));
+    expect(record.pages).toHaveLength(1);
+    expect(record.pages![0].page).toBe(2);
+    expect(record.pages![0].tags).toEqual(["cover"]);
+    expect(record.frames).toBeUndefined();
+  });
+});
+
+describe("formatResults", () => {
+  it("writes JSON as an object for one result and an array for several", () => {
+    const one = JSON.parse(formatResults([result()], "json"));
+    expect(one.tags).toEqual(["dashboard", "analytics-panel"]);
+    expect(one.metadata.width).toBe(800);
+    expect(one.markdown).toContain("type: screenshot");
+
+    const several = JSON.parse(formatResults([result(), result({ type: "photo" })], "json"));
+    expect(several.map((r: { type: string }) => r.type)).toEqual(["screenshot", "photo"]);
+  });
+
+  it("writes one JSON line per result", () => {
+    const lines = formatResults([result(), result({ type: "photo" })], "jsonl").split("\n");
+    expect(lines).toHaveLength(3);
+    expect(lines[2]).toBe("");
+    expect(JSON.parse(lines[1]).type).toBe("photo");
+  });
+
+  it("writes CSV with a header, quoting and lists joined by semicolons", () => {
+    const csv = formatResults([result()], "csv");
+    expect(csv.startsWith("file,type,subject,description,extracted_text,category,style,")).toBe(true);
+    expect(csv).toContain('dash.png,screenshot,"Dashboard with ""analytics"", charts","A dashboard.\nTwo panels.",Revenue,ui-design,minimalist; flat,');
+    expect(csv).toContain(",dashboard; analytics-panel,");
+    expect(csv).toContain(",layout-system: Modular grid; hierarchy,");
+    expect(csv).toContain(",800,600,43110,abc123,,,,,,,51.5,-0.1,claude-sonnet-4-5-20250929,false\n");
+  });
+
+  it("can leave out the CSV header for rows appended to a stream", () => {
+    const csv = formatResults([result()], "csv", { header: false });
+    expect(csv.startsWith("dash.png,screenshot,")).toBe(true);
+  });
+
+  it("joins markdown documents with --- separators", () => {
+    const md = formatResults([result({ markdown: "one\n" }), result({ markdown: "two\n" })], "md");
+    expect(md).toBe("one\n\n---\n\ntwo\n");
+  });
+});
+
+describe("outputExtension", () => {
+  it("names sidecars after the format", () => {
+    expect(outputExtension("md")).toBe(".md");
+    expect(outputExtension("json")).toBe(".json");
+  });
+});
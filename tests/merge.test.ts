@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import { parse } from "yaml";
+import { mergeSidecar, MARKER_START, MARKER_END } from "../src/output/merge.js";
+import { unifiedDiff } from "../src/utils/diff.js";
+
+const GENERATED = [
+  "---",
+  "type: photo",
+  'subject: "Kraft box on a table"',
+  "tags: [kraft-paper, unboxing]",
+  "exif:",
+  "  camera: Model X",
+  "---",
+  "",
+  "# Kraft box on a table",
+  "",
+  "A kraft mailer box.",
+  "",
+].join("\n");
+
+function frontmatter(markdown: string): Record<string, unknown> {
+  return parse(markdown.match(/^---\n([\s\S]*?\n)---\n/)![1]);
+}
+
+describe("mergeSidecar", () => {
+  it("wraps the generated body in markers for a new sidecar", () => {
+    const merged = mergeSidecar(GENERATED, null);
+    expect(merged).toContain(`---\n\n${MARKER_START}\n# Kraft box on a table\n\nA kraft mailer box.\n${MARKER_END}\n`);
+    expect(merged.startsWith("---\ntype: photo\n")).toBe(true);
+  });
+
+  it("leaves a template's own markers where it put them", () => {
+    const generated = `---\ntype: photo\n---\n\n# Title\n\n${MARKER_START}\nBody\n${MARKER_END}\n`;
+    expect(mergeSidecar(generated, null)).toBe(generated);
+  });
+
+  it("keeps locked fields, including nested ones, and the locked list", () => {
+    const existing = mergeSidecar(GENERATED, null)
+      .replace('subject: "Kraft box on a table"', 'subject: "Mailer box, front (hand-corrected)"')
+      .replace("tags: [kraft-paper, unboxing]", "tags: [packaging, kraft-paper]")
+      .replace("camera: Model X", "camera: Hand-entered")
+      .replace("---\n\n", "locked: [subject, tags, exif.camera]\n---\n\n");
+    const generated = GENERATED.replace("type: photo", "type: product-shot");
+
+    const fields = frontmatter(mergeSidecar(generated, existing));
+    expect(fields).toEqual({
+      type: "product-shot",
+      subject: "Mailer box, front (hand-corrected)",
+      tags: ["packaging", "kraft-paper"],
+      exif: { camera: "Hand-entered" },
+      locked: ["subject", "tags", "exif.camera"],
+    });
+  });
+
+  it("appends locked fields the template doesn't write, and accepts a comma-separated list", () => {
+    const existing = "---\ntype: photo\nsubject: Mine\nlocked: subject, notes\nnotes: keep me\n---\n";
+    const merged = mergeSidecar(GENERATED, existing);
+    expect(Object.keys(frontmatter(merged))).toEqual(["type", "subject", "tags", "exif", "notes", "locked"]);
+    expect(frontmatter(merged)).toMatchObject({ subject: "Mine", notes: "keep me" });
+  });
+
+  it("regenerates unlocked fields, dropping ones added by hand", () => {
+    const existing = mergeSidecar(GENERATED, null).replace("type: photo", "type: drawing\nrating: 5");
+    const merged = mergeSidecar(GENERATED, existing);
+    expect(merged).toBe(mergeSidecar(GENERATED, null));
+  });
+
+  it("keeps text outside the markers and replaces what's between them", () => {
+    const existing = mergeSidecar(GENERATED, null)
+      .replace(`${MARKER_START}\n`, `My intro.\n\n${MARKER_START}\n`)
+      .replace("A kraft mailer box.", "Old description.")
+      + "\n## Notes\n\nOrdered 200 of these.\n";
+    const merged = mergeSidecar(GENERATED.replace("A kraft mailer box.", "A new description."), existing);
+    expect(merged).toContain(`My intro.\n\n${MARKER_START}\n# Kraft box on a table\n\nA new description.\n${MARKER_END}\n\n## Notes\n\nOrdered 200 of these.\n`);
+    expect(merged).not.toContain("Old description.");
+  });
+
+  it("adds markers to an unedited sidecar written without them", () => {
+    expect(mergeSidecar(GENERATED, GENERATED)).toBe(mergeSidecar(GENERATED, null));
+  });
+
+  it("keeps the body of a sidecar written without markers when it differs", () => {
+    const existing = GENERATED.replace("A kraft mailer box.", "A kraft mailer box.\n\nMy notes.");
+    const merged = mergeSidecar(GENERATED, existing);
+    expect(merged).toBe(`${mergeSidecar(GENERATED, null)}\n# Kraft box on a table\n\nA kraft mailer box.\n\nMy notes.\n`);
+  });
+
+  it("ignores a locked list in frontmatter that isn't valid YAML", () => {
+    const merged = mergeSidecar(GENERATED, "---\nsubject: a: b: [\nlocked: [subject]\n---\n");
+    expect(frontmatter(merged).subject).toBe("Kraft box on a table");
+  });
+
+  it("refuses to merge into a body with only one marker", () => {
+    expect(() => mergeSidecar(GENERATED, `---\ntype: photo\n---\n\n${MARKER_START}\nNotes\n`)).toThrow(
+      `has ${MARKER_START} without a matching ${MARKER_END}`
+    );
+  });
+
+  it("handles templates without frontmatter", () => {
+    expect(mergeSidecar("Alt text.\n", null)).toBe(`${MARKER_START}\nAlt text.\n${MARKER_END}\n`);
+    expect(mergeSidecar("New alt.\n", `Intro\n${MARKER_START}\nOld alt.\n${MARKER_END}\n`)).toBe(
+      `Intro\n${MARKER_START}\nNew alt.\n${MARKER_END}\n`
+    );
+    expect(mergeSidecar("New alt.\n", "---\nsubject: Mine\nlocked: [subject]\n---\nOld alt.\n")).toBe(
+      `---\nsubject: Mine\nlocked: [subject]\n---\n${MARKER_START}\nNew alt.\n${MARKER_END}\n\nOld alt.\n`
+    );
+  });
+});
+
+describe("unifiedDiff", () => {
+  it("is empty when nothing changed", () => {
+    expect(unifiedDiff("a\nb\n", "a\nb\n", "x.md", "x.md")).toBe("");
+  });
+
+  it("shows changed lines with three lines of context", () => {
+    const before = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "10"].join("\n") + "\n";
+    const after = before.replace("5\n", "five\n");
+    expect(unifiedDiff(before, after, "a.md", "b.md")).toBe(
+      ["--- a.md", "+++ b.md", "@@ -2,7 +2,7 @@", " 2", " 3", " 4", "-5", "+five", " 6", " 7", " 8", ""].join("\n")
+    );
+  });
+
+  it("splits distant changes into separate hunks", () => {
+    const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+    const after = [...lines];
+    after[1] = "changed 2";
+    after.push("line 21");
+    const diff = unifiedDiff(lines.join("\n") + "\n", after.join("\n") + "\n", "x.md", "x.md");
+    expect(diff.match(/^@@ .* @@$/gm)).toEqual(["@@ -1,5 +1,5 @@", "@@ -18,3 +18,4 @@"]);
+    expect(diff).toContain("+line 21\n");
+  });
+
+  it("diffs a new file against /dev/null", () => {
+    expect(unifiedDiff("", "one\ntwo\n", "/dev/null", "new.md")).toBe("--- /dev/null\n+++ new.md\n@@ -0,0 +1,2 @@\n+one\n+two\n");
+  });
+});
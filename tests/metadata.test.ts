@@ -67,10 +67,18 @@ describe("isSupportedFormat", () => {
     expect(isSupportedFormat("photo.gif")).toBe(true);
   });
 
+  it("accepts formats that are converted before sending", () => {
+    expect(isSupportedFormat("photo.heic")).toBe(true);
+    expect(isSupportedFormat("photo.avif")).toBe(true);
+    expect(isSupportedFormat("scan.tif")).toBe(true);
+    expect(isSupportedFormat("scan.tiff")).toBe(true);
+    expect(isSupportedFormat("photo.bmp")).toBe(true);
+    expect(isSupportedFormat("icon.svg")).toBe(true);
+  });
+
   it("rejects unsupported formats", () => {
-    expect(isSupportedFormat("photo.bmp")).toBe(false);
-    expect(isSupportedFormat("photo.svg")).toBe(false);
-    expect(isSupportedFormat("photo.tiff")).toBe(false);
+    expect(isSupportedFormat("design.psd")).toBe(false);
+    expect(isSupportedFormat("notes.txt")).toBe(false);
   });
 
   it("is case-insensitive", () => {
@@ -95,9 +103,12 @@ describe("mimeTypeFromExtension", () => {
     expect(mimeTypeFromExtension(".jpeg")).toBe("image/jpeg");
     expect(mimeTypeFromExtension(".webp")).toBe("image/webp");
     expect(mimeTypeFromExtension(".gif")).toBe("image/gif");
+    expect(mimeTypeFromExtension(".HEIC")).toBe("image/heic");
+    expect(mimeTypeFromExtension(".tif")).toBe("image/tiff");
+    expect(mimeTypeFromExtension(".svg")).toBe("image/svg+xml");
   });
 
   it("throws for unsupported extension", () => {
-    expect(() => mimeTypeFromExtension(".bmp")).toThrow("Unsupported extension");
+    expect(() => mimeTypeFromExtension(".psd")).toThrow("Unsupported extension");
   });
 });
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { join } from "node:path";
+import { copyFile, mkdir, rm, writeFile } from "node:fs/promises";
+import { parse } from "yaml";
+import {
+  attachmentDir,
+  findVault,
+  loadVault,
+  notesDir,
+  obsidianTags,
+  relativeLink,
+  vaultPath,
+  type ObsidianVault,
+} from "../src/obsidian.js";
+import { processFile, cacheKeyFor } from "../src/processor.js";
+import { loadTemplate } from "../src/templates/loader.js";
+import type { Provider, ProviderResponse } from "../src/providers/types.js";
+import type { ImageMetadata } from "../src/extractors/metadata.js";
+
+const VAULT = join(import.meta.dirname, "fixtures", "tmp-vault");
+const TEST_CACHE_DIR = join(import.meta.dirname, "fixtures", "tmp-obsidian-cache");
+const IMAGE = join(VAULT, "attachments", "moodboard", "kraft box.png");
+
+const RESPONSE = [
+  "TYPE:\nphoto",
+  "SUBJECT:\nKraft \"mailer\" box: front",
+  "TAGS:\nkraft-paper, foil-stamp, unboxing, 2024",
+  "DESCRIPTION:\nA kraft mailer box with a foil logo.",
+].join("\n\n");
+
+class VaultProvider implements Provider {
+  async analyze(): Promise<ProviderResponse> {
+    return { rawText: RESPONSE };
+  }
+
+  async compare(): Promise<ProviderResponse> {
+    return { rawText: "" };
+  }
+}
+
+function vault(settings: Partial<ObsidianVault> = {}): ObsidianVault {
+  return { root: VAULT, attachmentFolder: "/", ...settings };
+}
+
+beforeAll(async () => {
+  await mkdir(join(VAULT, ".obsidian"), { recursive: true });
+  await mkdir(join(VAULT, "attachments", "moodboard"), { recursive: true });
+  await copyFile(join(import.meta.dirname, "fixtures", "test-image.png"), IMAGE);
+});
+
+afterAll(async () => {
+  await rm(VAULT, { recursive: true, force: true });
+  await rm(TEST_CACHE_DIR, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  process.env.M2MD_CACHE_DIR = TEST_CACHE_DIR;
+  await rm(TEST_CACHE_DIR, { recursive: true, force: true });
+  await rm(join(VAULT, ".obsidian", "app.json"), { force: true });
+});
+
+describe("obsidianTags", () => {
+  it("nests vocabulary tags under their group and keeps the rest", () => {
+    expect(obsidianTags(["kraft-paper", "foil-stamp", "matte-finish", "golden-hour", "unboxing"])).toEqual([
+      "material/kraft-paper",
+      "technique/foil-stamp",
+      "finish/matte-finish",
+      "photography/golden-hour",
+      "unboxing",
+    ]);
+  });
+
+  it("makes tags Obsidian accepts", () => {
+    expect(obsidianTags(["hand lettering", "q&a", "2024", "kraft-paper", "kraft-paper"])).toEqual([
+      "hand-lettering",
+      "q-a",
+      "material/kraft-paper",
+    ]);
+  });
+});
+
+describe("vault settings", () => {
+  it("finds the vault around a file", async () => {
+    expect(await findVault(IMAGE)).toBe(VAULT);
+    expect(await findVault(join(VAULT, "attachments"))).toBe(VAULT);
+  });
+
+  it("reads the attachment and new-note folders from app.json", async () => {
+    expect(await loadVault(VAULT)).toEqual({ root: VAULT, attachmentFolder: "/", notesFolder: undefined });
+
+    await writeFile(
+      join(VAULT, ".obsidian", "app.json"),
+      JSON.stringify({ attachmentFolderPath: "./assets", newFileLocation: "folder", newFileFolderPath: "Inbox" })
+    );
+    expect(await loadVault(VAULT)).toEqual({ root: VAULT, attachmentFolder: "./assets", notesFolder: "Inbox" });
+  });
+
+  it("resolves attachment and notes folders like Obsidian", () => {
+    const notes = join(VAULT, "Notes");
+    expect(attachmentDir(vault(), notes)).toBe(VAULT);
+    expect(attachmentDir(vault({ attachmentFolder: "./" }), notes)).toBe(notes);
+    expect(attachmentDir(vault({ attachmentFolder: "./assets" }), notes)).toBe(join(notes, "assets"));
+    expect(attachmentDir(vault({ attachmentFolder: "Attachments" }), notes)).toBe(join(VAULT, "Attachments"));
+
+    expect(notesDir(vault())).toBeUndefined();
+    expect(notesDir(vault({ notesFolder: "Inbox" }))).toBe(join(VAULT, "Inbox"));
+    expect(notesDir(vault({ notesFolder: "Inbox" }), "Media/Notes")).toBe(join(VAULT, "Media", "Notes"));
+  });
+
+  it("links by vault path and by relative path", () => {
+    expect(vaultPath(vault(), IMAGE)).toBe("attachments/moodboard/kraft box.png");
+    expect(() => vaultPath(vault(), "/elsewhere/photo.png")).toThrow("outside the Obsidian vault");
+    expect(relativeLink(join(VAULT, "Notes"), IMAGE)).toBe("../attachments/moodboard/kraft box.png");
+    expect(relativeLink(join(VAULT, "attachments", "moodboard"), IMAGE)).toBe("./kraft box.png");
+  });
+});
+
+describe("obsidian template", () => {
+  it("embeds the image by vault path with nested tags and Dataview fields", async () => {
+    const result = await processFile(IMAGE, {
+      provider: new VaultProvider(),
+      template: await loadTemplate("obsidian"),
+      templateName: "obsidian",
+      sourcePath: "../attachments/moodboard/kraft box.png",
+      vaultPath: "attachments/moodboard/kraft box.png",
+    });
+
+    const frontmatter = parse(result.markdown.split("---\n")[1]);
+    expect(frontmatter).toMatchObject({
+      type: "photo",
+      subject: 'Kraft "mailer" box: front',
+      image: "[[attachments/moodboard/kraft box.png]]",
+      tags: ["material/kraft-paper", "technique/foil-stamp", "unboxing"],
+      width: 1,
+      height: 1,
+    });
+    expect(result.markdown).toContain("\n\n![[attachments/moodboard/kraft box.png]]\n\nA kraft mailer box");
+  });
+
+  it("defaults links to a sidecar next to the image, and caches each placement separately", async () => {
+    const result = await processFile(IMAGE, {
+      provider: new VaultProvider(),
+      template: "![[{{vaultPath}}]] [src]({{sourcePath}})",
+    });
+    expect(result.markdown).toBe("![[kraft box.png]] [src](./kraft box.png)\n");
+
+    const metadata = { sha256: "abc" } as ImageMetadata;
+    expect(cacheKeyFor(metadata, { vaultPath: "a/x.png" })).not.toBe(cacheKeyFor(metadata, { vaultPath: "b/x.png" }));
+    expect(cacheKeyFor(metadata, {})).toBe(cacheKeyFor(metadata, { note: undefined }));
+  });
+});
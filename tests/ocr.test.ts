@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { join } from "node:path";
+import { mkdir, rm } from "node:fs/promises";
+import sharp from "sharp";
+import { compareOcrText, mergeOcrResults, type OcrEngine, type OcrResult } from "../src/ocr.js";
+import { processFile } from "../src/processor.js";
+import type { AnalyzeOptions, ImageInput, Provider, ProviderResponse } from "../src/providers/types.js";
+
+const TMP_DIR = join(import.meta.dirname, "fixtures", "tmp-ocr");
+const TEST_CACHE_DIR = join(import.meta.dirname, "fixtures", "tmp-ocr-cache");
+const IMAGE = join(TMP_DIR, "receipt.png");
+
+const OCR_TEXT = "CORNER BAKERY\nSourdough loaf 6.50\nAlmond croissant 3.80\nTotal 10.30";
+
+/** Returns fixed text and records what it was given. */
+class FakeOcrEngine implements OcrEngine {
+  calls = 0;
+  lastImage?: Buffer;
+
+  constructor(private result: OcrResult = { text: OCR_TEXT, confidence: 91.4 }) {}
+
+  async recognize(image: Buffer): Promise<OcrResult> {
+    this.calls++;
+    this.lastImage = image;
+    return this.result;
+  }
+}
+
+/** Model answer that drops the croissant line and invents a coffee. */
+class ReceiptProvider implements Provider {
+  lastOptions?: AnalyzeOptions;
+
+  async analyze(_image: ImageInput, options: AnalyzeOptions): Promise<ProviderResponse> {
+    this.lastOptions = options;
+    return {
+      rawText: [
+        "TYPE:\nphoto",
+        "SUBJECT:\nBakery receipt",
+        "TAGS:\nreceipt",
+        "DESCRIPTION:\nA printed bakery receipt.",
+        "EXTRACTED_TEXT:\n**Header:** Corner Bakery\n**Items:** Sourdough loaf 6.50\nFlat white coffee 4.20\n**Total:** Total 10.30",
+      ].join("\n\n"),
+    };
+  }
+
+  async compare(): Promise<ProviderResponse> {
+    return { rawText: "" };
+  }
+}
+
+beforeAll(async () => {
+  await mkdir(TMP_DIR, { recursive: true });
+  await sharp({ create: { width: 60, height: 80, channels: 3, background: "#F4F1EA" } }).png().toFile(IMAGE);
+});
+
+afterAll(async () => {
+  await rm(TMP_DIR, { recursive: true, force: true });
+  await rm(TEST_CACHE_DIR, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  process.env.M2MD_CACHE_DIR = TEST_CACHE_DIR;
+  await rm(TEST_CACHE_DIR, { recursive: true, force: true });
+});
+
+describe("compareOcrText", () => {
+  it("reports lines missing from either side", () => {
+    const warnings = compareOcrText(
+      "**Header:** Corner Bakery\nSourdough loaf 6.50\nFlat white coffee 4.20",
+      { text: OCR_TEXT, confidence: 90 }
+    );
+    expect(warnings).toEqual([
+      'OCR: 2 lines missing from the extracted text: "Almond croissant 3.80", "Total 10.30"',
+      'OCR: 1 extracted line not found by OCR: "Flat white coffee 4.20"',
+    ]);
+  });
+
+  it("accepts text that agrees apart from labels, case and OCR slips", () => {
+    const warnings = compareOcrText(
+      "**Brand:** Corner Bakery\n**Items:** sourdough loaf 6.50, almond croissant 3.80\n**Total:** 10.30",
+      { text: "CORNER BAKERY\nSourdough loaf 6.50\nAlmond crolssant 3.80\nTotal 10.30", confidence: 88 }
+    );
+    expect(warnings).toEqual([]);
+  });
+
+  it("treats None as no text", () => {
+    expect(compareOcrText("None", { text: "Open daily", confidence: 95 })).toEqual([
+      'OCR: 1 line missing from the extracted text: "Open daily"',
+    ]);
+  });
+
+  it("doesn't judge by low-confidence OCR", () => {
+    expect(compareOcrText("Anything", { text: "x7 ;;k", confidence: 31.5 })).toEqual([
+      "OCR: confidence 31.5% is too low to cross-check the extracted text",
+    ]);
+  });
+});
+
+describe("mergeOcrResults", () => {
+  it("joins the parts' text and averages confidence", () => {
+    expect(mergeOcrResults([{ text: "Page one", confidence: 90 }, undefined, { text: "Page two", confidence: 81 }]))
+      .toEqual({ text: "Page one\n\nPage two", confidence: 85.5 });
+    expect(mergeOcrResults([undefined])).toBeUndefined();
+  });
+});
+
+describe("processFile with ocr", () => {
+  it("is off by default", async () => {
+    const engine = new FakeOcrEngine();
+    const result = await processFile(IMAGE, { provider: new ReceiptProvider(), ocrEngine: engine });
+
+    expect(engine.calls).toBe(0);
+    expect(result.ocr).toBeUndefined();
+    expect(result.markdown).not.toContain("ocr_confidence");
+  });
+
+  it("grounds the prompt with the OCR text", async () => {
+    const provider = new ReceiptProvider();
+    const engine = new FakeOcrEngine();
+    const result = await processFile(IMAGE, { provider, ocr: "ground", ocrEngine: engine });
+
+    // Decoded to a grayscale PNG at full size
+    const info = await sharp(engine.lastImage!).metadata();
+    expect([info.format, info.width, info.height, info.channels]).toEqual(["png", 60, 80, 1]);
+    expect(provider.lastOptions?.userPrompt).toContain(`<ocr>\n${OCR_TEXT}\n</ocr>`);
+    expect(result.extractedText).toContain("Flat white coffee");
+    expect(result.markdown).toContain("ocr_confidence: 91.4");
+  });
+
+  it("replaces the extracted text", async () => {
+    const provider = new ReceiptProvider();
+    const result = await processFile(IMAGE, { provider, ocr: "replace", ocrEngine: new FakeOcrEngine() });
+
+    expect(provider.lastOptions?.userPrompt).not.toContain("<ocr>");
+    expect(result.extractedText).toBe(OCR_TEXT);
+    expect(result.markdown).toContain("## Text\n\nCORNER BAKERY\nSourdough loaf 6.50");
+    expect(result.ocr).toEqual({ text: OCR_TEXT, confidence: 91.4 });
+  });
+
+  it("reports disagreement as validation warnings", async () => {
+    const result = await processFile(IMAGE, { provider: new ReceiptProvider(), ocr: "check", ocrEngine: new FakeOcrEngine() });
+
+    expect(result.extractedText).toContain("Flat white coffee");
+    expect(result.validationWarnings).toContain('OCR: 1 line missing from the extracted text: "Almond croissant 3.80"');
+    expect(result.validationWarnings).toContain('OCR: 1 extracted line not found by OCR: "Flat white coffee 4.20"');
+  });
+
+  it("caches each mode separately and keeps the OCR result", async () => {
+    const provider = new ReceiptProvider();
+    const engine = new FakeOcrEngine();
+    await processFile(IMAGE, { provider });
+    const first = await processFile(IMAGE, { provider, ocr: "replace", ocrEngine: engine });
+    const again = await processFile(IMAGE, { provider, ocr: "replace", ocrEngine: engine });
+
+    expect(first.cached).toBe(false);
+    expect(again.cached).toBe(true);
+    expect(engine.calls).toBe(1);
+    expect(again.ocr).toEqual(first.ocr);
+    expect(again.extractedText).toBe(OCR_TEXT);
+  });
+});
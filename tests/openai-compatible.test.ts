@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("openai", () => {
+  const createMock = vi.fn();
+  // The SDK returns an APIPromise; providers read headers via withResponse()
+  const apiPromise = (result: Promise<unknown>) =>
+    Object.assign(Promise.resolve(result), {
+      withResponse: async () => ({ data: await result, response: { headers: new Headers() } }),
+    });
+  const listMock = vi.fn();
+  const ctorMock = vi.fn();
+  return {
+    default: class OpenAI {
+      chat = { completions: { create: (...args: unknown[]) => apiPromise(createMock(...args)) } };
+      models = { list: listMock };
+      constructor(opts: unknown) {
+        ctorMock(opts);
+      }
+      static _createMock = createMock;
+      static _listMock = listMock;
+      static _ctorMock = ctorMock;
+    },
+  };
+});
+
+import OpenAIMod from "openai";
+import { defineOpenAICompatibleProvider, localDefinition } from "../src/providers/openai-compatible.js";
+import { registerConfigProviders } from "../src/config.js";
+import { getProviderDefinition, TIER_MAP } from "../src/providers/registry.js";
+import { calculateCost } from "../src/cost.js";
+import type { ImageInput, AnalyzeOptions } from "../src/providers/types.js";
+
+const mocks = OpenAIMod as unknown as {
+  _createMock: ReturnType<typeof vi.fn>;
+  _listMock: ReturnType<typeof vi.fn>;
+  _ctorMock: ReturnType<typeof vi.fn>;
+};
+
+const image: ImageInput = {
+  buffer: Buffer.from("fake-png-data"),
+  mimeType: "image/png",
+  filename: "test.png",
+};
+
+const options: AnalyzeOptions = {
+  systemPrompt: "You are a helpful assistant.",
+  userPrompt: "Describe this image.",
+};
+
+describe("defineOpenAICompatibleProvider", () => {
+  beforeEach(() => {
+    mocks._createMock.mockReset();
+    mocks._listMock.mockReset();
+    mocks._ctorMock.mockReset();
+    delete process.env.TEST_LOCAL_KEY;
+  });
+
+  it("passes base URL, headers and key from the configured env var", async () => {
+    process.env.TEST_LOCAL_KEY = "secret";
+    mocks._createMock.mockResolvedValue({
+      choices: [{ message: { content: "Ok." } }],
+      model: "qwen2.5-vl",
+    });
+
+    const definition = defineOpenAICompatibleProvider("lmstudio", {
+      baseURL: "http://localhost:1234/v1",
+      apiKeyEnv: "TEST_LOCAL_KEY",
+      headers: { "X-Team": "design" },
+      defaultModel: "qwen2.5-vl",
+    });
+    await definition.create().analyze(image, options);
+
+    expect(mocks._ctorMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        baseURL: "http://localhost:1234/v1",
+        apiKey: "secret",
+        defaultHeaders: { "X-Team": "design" },
+      })
+    );
+    expect(mocks._createMock.mock.calls[0][0].model).toBe("qwen2.5-vl");
+  });
+
+  it("uses a placeholder key when the server needs none", async () => {
+    mocks._createMock.mockResolvedValue({ choices: [{ message: { content: "Ok." } }] });
+
+    const definition = defineOpenAICompatibleProvider("ollama", { baseURL: "http://localhost:11434/v1" });
+    await definition.create().analyze(image, { ...options, model: "llava" });
+
+    expect(mocks._ctorMock.mock.calls[0][0].apiKey).toBe("not-needed");
+    expect(definition.apiKeyEnv).toBeUndefined();
+  });
+
+  it("returns no usage when the server omits it and falls back to the requested model", async () => {
+    mocks._createMock.mockResolvedValue({ choices: [{ message: { content: "Described." } }] });
+
+    const definition = defineOpenAICompatibleProvider("vllm", { baseURL: "http://gpu-box:8000/v1" });
+    const result = await definition.create().analyze(image, { ...options, model: "llava:13b" });
+
+    expect(result.rawText).toBe("Described.");
+    expect(result.usage).toBeUndefined();
+    expect(result.model).toBe("llava:13b");
+  });
+
+  it("ignores partial usage objects", async () => {
+    mocks._createMock.mockResolvedValue({
+      choices: [{ message: { content: "Described." } }],
+      usage: { total_tokens: 0 },
+      model: "llava",
+    });
+
+    const definition = defineOpenAICompatibleProvider("ollama", { baseURL: "http://localhost:11434/v1" });
+    const result = await definition.create().analyze(image, { ...options, model: "llava" });
+
+    expect(result.usage).toBeUndefined();
+  });
+
+  it("discovers the first served model when the default model is auto", async () => {
+    mocks._listMock.mockResolvedValue({ data: [{ id: "llava:7b" }, { id: "moondream" }] });
+    mocks._createMock.mockResolvedValue({ choices: [{ message: { content: "Ok." } }] });
+
+    const definition = defineOpenAICompatibleProvider("ollama", { baseURL: "http://localhost:11434/v1" });
+    expect(definition.defaultModel).toBe("auto");
+
+    const provider = definition.create();
+    await provider.analyze(image, options);
+    await provider.analyze(image, options);
+
+    expect(mocks._createMock.mock.calls[0][0].model).toBe("llava:7b");
+    expect(mocks._listMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("prices the default model as free unless pricing is given", () => {
+    const free = defineOpenAICompatibleProvider("ollama", { baseURL: "http://x/v1", defaultModel: "llava" });
+    expect(free.pricing).toEqual({ llava: { input: 0, output: 0 } });
+
+    const priced = defineOpenAICompatibleProvider("hosted", {
+      baseURL: "http://x/v1",
+      pricing: { "qwen-vl": { input: 0.2, output: 0.6 } },
+    });
+    expect(priced.pricing).toEqual({ "qwen-vl": { input: 0.2, output: 0.6 } });
+    expect(priced.defaultPricing).toBeUndefined();
+  });
+
+  it("prices any model on an unpriced server as free", () => {
+    expect(defineOpenAICompatibleProvider("ollama", { baseURL: "http://x/v1" }).defaultPricing).toEqual({ input: 0, output: 0 });
+    // Discovered or --model names aren't in any pricing table
+    expect(calculateCost(1_000_000, 1_000_000, "llava:13b", { provider: "local" })).toBe(0);
+    expect(calculateCost(1_000_000, 1_000_000, "llava:13b")).toBeGreaterThan(0);
+  });
+});
+
+describe("local provider", () => {
+  it("is registered with a local tier", () => {
+    expect(getProviderDefinition("local")).toBe(localDefinition);
+    expect(TIER_MAP.local).toEqual({ provider: "local", model: "llava" });
+  });
+
+  it("can be declared in config with its own tier", async () => {
+    await registerConfigProviders({
+      providers: {
+        studio: {
+          type: "openai-compatible",
+          baseURL: "http://localhost:1234/v1",
+          defaultModel: "qwen2.5-vl-7b",
+          tiers: { studio: "qwen2.5-vl-7b" },
+        },
+      },
+    });
+
+    expect(getProviderDefinition("studio")?.defaultModel).toBe("qwen2.5-vl-7b");
+    expect(TIER_MAP.studio).toEqual({ provider: "studio", model: "qwen2.5-vl-7b" });
+  });
+
+  it("rejects config entries without a base URL", async () => {
+    await expect(
+      registerConfigProviders({
+        providers: { broken: { type: "openai-compatible" } as never },
+      })
+    ).rejects.toThrow('Provider "broken" in config needs a "baseURL"');
+  });
+});
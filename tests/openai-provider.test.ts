@@ -2,11 +2,20 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 
 vi.mock("openai", () => {
   const createMock = vi.fn();
+  const clientOptions: unknown[] = [];
+  // The SDK returns an APIPromise; providers read headers via withResponse()
+  const apiPromise = (result: Promise<unknown>) =>
+    Object.assign(Promise.resolve(result), {
+      withResponse: async () => ({ data: await result, response: { headers: new Headers() } }),
+    });
   return {
     default: class OpenAI {
-      chat = { completions: { create: createMock } };
-      constructor() {}
+      chat = { completions: { create: (...args: unknown[]) => apiPromise(createMock(...args)) } };
+      constructor(options: unknown) {
+        clientOptions.push(options);
+      }
       static _createMock = createMock;
+      static _clientOptions = clientOptions;
     },
   };
 });
@@ -16,6 +25,7 @@ import { OpenAIProvider, DEFAULT_OPENAI_MODEL } from "../src/providers/openai.js
 import type { ImageInput, AnalyzeOptions } from "../src/providers/types.js";
 
 const createMock = (OpenAIMod as unknown as { _createMock: ReturnType<typeof vi.fn> })._createMock;
+const clientOptions = (OpenAIMod as unknown as { _clientOptions: { maxRetries?: number }[] })._clientOptions;
 
 function makeImage(): ImageInput {
   return {
@@ -93,6 +103,12 @@ describe("OpenAIProvider", () => {
     expect(result.model).toBe("gpt-4o-2024-08-06");
   });
 
+  it("leaves retries to the shared rate limiter", async () => {
+    createMock.mockResolvedValue({ choices: [{ message: { content: "Ok." } }], usage: { prompt_tokens: 1, completion_tokens: 1 } });
+    await new OpenAIProvider().analyze(makeImage(), makeOptions());
+    expect(clientOptions.at(-1)!.maxRetries).toBe(0);
+  });
+
   it("uses default model when none specified", async () => {
     createMock.mockResolvedValue({
       choices: [{ message: { content: "Ok." } }],
@@ -137,3 +153,50 @@ describe("OpenAIProvider", () => {
     expect(DEFAULT_OPENAI_MODEL).toBe("gpt-4o");
   });
 });
+
+describe("OpenAIProvider structured output", () => {
+  beforeEach(() => {
+    createMock.mockReset();
+  });
+
+  it("sends a strict json_schema response format", async () => {
+    createMock.mockResolvedValue({
+      choices: [{ message: { content: '{"type":"photo"}' } }],
+      model: "gpt-4o",
+    });
+
+    const provider = new OpenAIProvider();
+    const result = await provider.analyze(
+      makeImage(),
+      makeOptions({ responseSchema: { name: "image_analysis", schema: { type: "object" } } })
+    );
+
+    const call = createMock.mock.calls[0][0];
+    expect(call.response_format).toEqual({
+      type: "json_schema",
+      json_schema: { name: "image_analysis", description: undefined, schema: { type: "object" }, strict: true },
+    });
+    expect(result.rawText).toBe('{"type":"photo"}');
+  });
+
+  it("omits response_format without a schema", async () => {
+    createMock.mockResolvedValue({ choices: [{ message: { content: "Ok." } }], model: "gpt-4o" });
+
+    await new OpenAIProvider().analyze(makeImage(), makeOptions());
+
+    expect(createMock.mock.calls[0][0].response_format).toBeUndefined();
+  });
+
+  it("returns the refusal text when the model refuses", async () => {
+    createMock.mockResolvedValue({
+      choices: [{ message: { content: null, refusal: "I'm sorry, I can't help with that." } }],
+      model: "gpt-4o",
+    });
+
+    const result = await new OpenAIProvider().analyze(
+      makeImage(),
+      makeOptions({ responseSchema: { name: "image_analysis", schema: { type: "object" } } })
+    );
+    expect(result.rawText).toBe("I'm sorry, I can't help with that.");
+  });
+});
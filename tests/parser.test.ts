@@ -1,5 +1,12 @@
 import { describe, it, expect } from "vitest";
-import { parseResponse } from "../src/parser.js";
+import {
+  parseResponse,
+  parseJsonResponse,
+  parseSections,
+  mergeParsed,
+  findIncompleteSections,
+  type ParsedResponse,
+} from "../src/parser.js";
 
 describe("parseResponse — new retrieval-optimized format", () => {
   it("parses well-formatted response with all fields", () => {
@@ -425,6 +432,23 @@ EXTRACTED_TEXT:
     expect(result.dimensions).not.toContain("**Brand:**");
     expect(result.extractedText).toContain("**Brand:** Aesop");
   });
+
+  it("parses MOTION for animations, before or after EXTRACTED_TEXT", () => {
+    const head = `TYPE:\nillustration\n\nSUBJECT:\nLoading spinner\n\nDESCRIPTION:\nA ring of dots.`;
+    const motion = `MOTION:\nThe dots brighten in turn, clockwise, in a seamless loop.`;
+    const text = `EXTRACTED_TEXT:\nLoading…`;
+
+    for (const raw of [`${head}\n\n${motion}\n\n${text}`, `${head}\n\n${text}\n\n${motion}`]) {
+      const result = parseResponse(raw);
+      expect(result.motion).toBe("The dots brighten in turn, clockwise, in a seamless loop.");
+      expect(result.extractedText).toBe("Loading…");
+      expect(result.description).toBe("A ring of dots.");
+    }
+  });
+
+  it("returns empty motion for still images", () => {
+    expect(parseResponse(`TYPE:\nphoto\n\nSUBJECT:\nA cat\n\nEXTRACTED_TEXT:\nNone`).motion).toBe("");
+  });
 });
 
 describe("parseResponse — legacy two-section format", () => {
@@ -532,3 +556,188 @@ Just a description, no extracted text section.`;
     expect(result.extractedText).toBe("");
   });
 });
+
+const JSON_ANALYSIS = {
+  type: "screenshot",
+  category: ["ui-design"],
+  style: ["minimalist", "flat"],
+  mood: ["calm", "modern"],
+  medium: "screen-capture",
+  composition: ["centered"],
+  palette: ["slate-blue", "bone-white"],
+  subject: "Login form with email and password fields",
+  tags: ["login-form", "password-field"],
+  visualElements: ["email input", "password input", "submit button"],
+  references: [],
+  useCase: ["ui-pattern-example"],
+  colorHex: ["#2C3E50", "#FAFAF7"],
+  era: ["contemporary"],
+  artifact: ["website"],
+  typography: ["sans-serif"],
+  script: ["latin", "english"],
+  culturalInfluence: ["none"],
+  description: "A login form on a white card. The style is flat and minimal. Inputs use subtle borders. It is a SaaS sign-in screen.",
+  searchPhrases: ["minimal login form", "saas sign in screen"],
+  dimensions: [
+    { name: "layout-system", description: "Single column form with generous spacing" },
+  ],
+  extractedText: "**Button:** Sign in",
+};
+
+describe("parseJsonResponse", () => {
+  it("flattens a valid JSON analysis into the text-format shape", () => {
+    const result = parseJsonResponse(JSON.stringify(JSON_ANALYSIS));
+
+    expect(result?.issues).toEqual([]);
+    const parsed = result!.parsed;
+    expect(parsed.type).toBe("screenshot");
+    expect(parsed.category).toBe("ui-design");
+    expect(parsed.palette).toBe("slate-blue, bone-white");
+    expect(parsed.colors).toBe("slate-blue, bone-white");
+    expect(parsed.tags).toBe("login-form, password-field");
+    expect(parsed.colorHex).toBe("#2C3E50, #FAFAF7");
+    expect(parsed.references).toBe("");
+    expect(parsed.culturalInfluence).toBe("");
+    expect(parsed.searchPhrases).toBe("minimal login form\nsaas sign in screen");
+    expect(parsed.dimensions).toBe("layout-system: Single column form with generous spacing");
+    expect(parsed.extractedText).toBe("**Button:** Sign in");
+  });
+
+  it("accepts JSON wrapped in a code fence", () => {
+    const result = parseJsonResponse("```json\n" + JSON.stringify(JSON_ANALYSIS) + "\n```");
+    expect(result?.parsed.subject).toBe("Login form with email and password fields");
+  });
+
+  it("returns null for text responses", () => {
+    expect(parseJsonResponse("TYPE:\nphoto\n\nSUBJECT:\nA photo")).toBeNull();
+    expect(parseJsonResponse("[1, 2]")).toBeNull();
+  });
+
+  it("keeps valid fields and reports invalid ones", () => {
+    const { tags: _tags, ...rest } = JSON_ANALYSIS;
+    const result = parseJsonResponse(JSON.stringify({ ...rest, palette: "slate-blue", tags: undefined }));
+
+    expect(result?.parsed.subject).toBe("Login form with email and password fields");
+    expect(result?.parsed.palette).toBe("");
+    expect(result?.parsed.tags).toBe("");
+    expect(result?.issues.some((i) => i.startsWith("palette:"))).toBe(true);
+    expect(result?.issues.some((i) => i.startsWith("tags:"))).toBe(true);
+  });
+
+  it("maps unknown types to other and truncates long subjects", () => {
+    const result = parseJsonResponse(
+      JSON.stringify({ ...JSON_ANALYSIS, type: "Logo", subject: "x".repeat(120) })
+    );
+    expect(result?.parsed.type).toBe("other");
+    expect(result?.parsed.subject).toHaveLength(80);
+  });
+});
+
+describe("findIncompleteSections", () => {
+  const complete: ParsedResponse = {
+    type: "photo",
+    category: "photography",
+    style: "minimalist",
+    mood: "calm",
+    medium: "product-photography",
+    composition: "centered",
+    palette: "warm-red",
+    subject: "Red square",
+    colors: "warm-red",
+    tags: "unit-test",
+    visualElements: "red square",
+    references: "",
+    useCase: "test-fixture-example",
+    colorHex: "#FF0000, #ffffff",
+    era: "contemporary",
+    artifact: "",
+    typography: "",
+    script: "",
+    culturalInfluence: "",
+    description: "A red square.",
+    searchPhrases: "red square",
+    dimensions: "simplicity: Single color",
+    extractedText: "",
+  };
+
+  it("returns nothing for a complete response", () => {
+    expect(findIncompleteSections(complete)).toEqual([]);
+  });
+
+  it("ignores sections that may legitimately be none", () => {
+    expect(findIncompleteSections({ ...complete, references: "", typography: "", extractedText: "" })).toEqual([]);
+  });
+
+  it("reports empty required sections by header name", () => {
+    expect(findIncompleteSections({ ...complete, searchPhrases: "", useCase: "" })).toEqual([
+      "USE_CASE",
+      "SEARCH_PHRASES",
+    ]);
+  });
+
+  it("reports malformed COLOR_HEX and DIMENSIONS", () => {
+    expect(
+      findIncompleteSections({ ...complete, colorHex: "red, #FFF", dimensions: "just some prose" })
+    ).toEqual(["COLOR_HEX", "DIMENSIONS"]);
+  });
+
+  it("re-asks TYPE when the legacy fallback defaulted it", () => {
+    const legacy = parseResponse("DESCRIPTION:\nA cat.\n\nEXTRACTED_TEXT:\nNone");
+    const missing = findIncompleteSections(legacy);
+    expect(missing[0]).toBe("TYPE");
+    expect(missing).toContain("SUBJECT");
+  });
+});
+
+describe("parseSections", () => {
+  it("extracts only the requested sections", () => {
+    const raw = `TAGS:
+solid-color, unit-test
+
+SEARCH_PHRASES:
+solid red test image
+red pixel
+
+COLOR_HEX:
+#FF0000`;
+    const result = parseSections(raw, ["TAGS", "SEARCH_PHRASES"]);
+    expect(result).toEqual({
+      tags: "solid-color, unit-test",
+      searchPhrases: "solid red test image\nred pixel",
+    });
+  });
+
+  it("sets colors alongside palette", () => {
+    expect(parseSections("PALETTE:\nwarm-red, bone-white", ["PALETTE"])).toEqual({
+      palette: "warm-red, bone-white",
+      colors: "warm-red, bone-white",
+    });
+  });
+
+  it("skips none answers and unknown types", () => {
+    expect(parseSections("TYPE:\nhologram\n\nERA:\nnone", ["TYPE", "ERA"])).toEqual({});
+  });
+});
+
+describe("mergeParsed", () => {
+  const page = (fields: Partial<ParsedResponse>): ParsedResponse => ({
+    type: "", category: "", style: "", mood: "", medium: "", composition: "", palette: "",
+    subject: "", colors: "", tags: "", visualElements: "", references: "", useCase: "",
+    colorHex: "", era: "", artifact: "", typography: "", script: "", culturalInfluence: "",
+    description: "", searchPhrases: "", dimensions: "", extractedText: "",
+    ...fields,
+  });
+
+  it("unions lists and picks the most common type", () => {
+    const merged = mergeParsed([
+      page({ type: "photo", subject: "Cover", tags: "linen, Summer", palette: "bone-white" }),
+      page({ type: "illustration", tags: "summer, poster", palette: "bone-white, ochre" }),
+      page({ type: "illustration", tags: "poster" }),
+    ]);
+
+    expect(merged.type).toBe("illustration");
+    expect(merged.subject).toBe("Cover");
+    expect(merged.tags).toBe("linen, Summer, poster");
+    expect(merged.palette).toBe("bone-white, ochre");
+  });
+});
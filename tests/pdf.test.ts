@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { join } from "node:path";
+import { mkdir, writeFile, rm } from "node:fs/promises";
+import { extractPdf, openPdf, parsePageRange, isPdf } from "../src/pdf.js";
+import { processFile, cacheKeyFor } from "../src/processor.js";
+import type { Provider, ImageInput, ProviderResponse } from "../src/providers/types.js";
+
+const TMP_DIR = join(import.meta.dirname, "fixtures", "tmp-pdf");
+const PDF_PATH = join(TMP_DIR, "lookbook.pdf");
+
+// Two pages: 200x100pt landscape with a red square, 100x200pt portrait
+const PDF = `%PDF-1.4
+1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj
+2 0 obj << /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 >> endobj
+3 0 obj << /Type /Page /Parent 2 0 R /MediaBox [0 0 200 100] /Contents 5 0 R >> endobj
+4 0 obj << /Type /Page /Parent 2 0 R /MediaBox [0 0 100 200] >> endobj
+5 0 obj << /Length 25 >> stream
+1 0 0 rg 10 10 50 50 re f
+endstream endobj
+trailer << /Root 1 0 R >>
+%%EOF`;
+
+/** Tags each page by its orientation, read from the PNG header. */
+class OrientationProvider implements Provider {
+  calls = 0;
+
+  async analyze(image: ImageInput): Promise<ProviderResponse> {
+    this.calls++;
+    const width = image.buffer.readUInt32BE(16);
+    const height = image.buffer.readUInt32BE(20);
+    const orientation = width > height ? "landscape" : "portrait";
+    return {
+      rawText: `TYPE:\nillustration\n\nSUBJECT:\nA ${orientation} page\n\nTAGS:\npage, ${orientation}\n\nDESCRIPTION:\nA ${orientation} page.\n\nEXTRACTED TEXT:\nNone`,
+      usage: { inputTokens: 100, outputTokens: 20 },
+    };
+  }
+
+  async compare(): Promise<ProviderResponse> {
+    return { rawText: "" };
+  }
+}
+
+beforeAll(async () => {
+  await mkdir(TMP_DIR, { recursive: true });
+  await writeFile(PDF_PATH, PDF);
+});
+
+afterAll(async () => {
+  await rm(TMP_DIR, { recursive: true, force: true });
+});
+
+describe("parsePageRange", () => {
+  it("selects every page by default", () => {
+    expect(parsePageRange(undefined, 3)).toEqual([1, 2, 3]);
+  });
+
+  it("reads ranges, lists and open ends", () => {
+    expect(parsePageRange("1-3", 10)).toEqual([1, 2, 3]);
+    expect(parsePageRange("9, 2,4-5,4", 10)).toEqual([2, 4, 5, 9]);
+    expect(parsePageRange("8-", 10)).toEqual([8, 9, 10]);
+  });
+
+  it("clips ranges past the last page", () => {
+    expect(parsePageRange("2-99", 3)).toEqual([2, 3]);
+  });
+
+  it("rejects malformed or empty selections", () => {
+    expect(() => parsePageRange("a-b", 3)).toThrow("Invalid page range");
+    expect(() => parsePageRange("3-1", 3)).toThrow("Invalid page range");
+    expect(() => parsePageRange("5-9", 3)).toThrow("selects no pages");
+  });
+});
+
+describe("extractPdf", () => {
+  it("describes the document and each selected page without rendering", async () => {
+    const { metadata, pages } = await extractPdf(PDF_PATH);
+
+    expect(isPdf(PDF_PATH)).toBe(true);
+    expect(metadata).toMatchObject({ filename: "lookbook.pdf", format: "PDF", pageCount: 2 });
+    expect(pages.map((p) => [p.page, p.basename, p.width, p.height])).toEqual([
+      [1, "lookbook-p1", 417, 209],
+      [2, "lookbook-p2", 209, 417],
+    ]);
+    expect(pages[0].sha256).toBe(metadata.sha256);
+  });
+
+  it("honors a page selection", async () => {
+    const { pages } = await extractPdf(PDF_PATH, "2");
+    expect(pages.map((p) => p.page)).toEqual([2]);
+  });
+});
+
+describe("openPdf", () => {
+  it("renders pages to PNG", async () => {
+    const document = await openPdf(Buffer.from(PDF));
+    const png = document.render(1);
+
+    expect(png.subarray(1, 4).toString()).toBe("PNG");
+    expect([png.readUInt32BE(16), png.readUInt32BE(20)]).toEqual([417, 209]);
+    expect(() => document.render(3)).toThrow("has no page 3");
+  });
+});
+
+describe("processFile with PDFs", () => {
+  it("combines pages into one document with aggregated frontmatter", async () => {
+    const provider = new OrientationProvider();
+    const result = await processFile(PDF_PATH, { provider, noCache: true });
+
+    expect(provider.calls).toBe(2);
+    expect(result.pages?.map((p) => p.page)).toEqual([1, 2]);
+    expect(result.tags).toBe("page, landscape, portrait");
+    expect(result.usage).toEqual({ inputTokens: 200, outputTokens: 40 });
+    expect(result.markdown).toMatch(/^---\n/);
+    expect(result.markdown).toContain("tags: [page, landscape, portrait]");
+    expect(result.markdown).toContain("page_count: 2");
+    expect(result.markdown).toContain("## Page 1\n\nA landscape page.");
+    expect(result.markdown).toContain("## Page 2\n\nA portrait page.");
+    // Only one frontmatter block
+    expect(result.markdown.match(/^---$/gm)).toHaveLength(2);
+  });
+
+  it("gives each page its own sidecar content", async () => {
+    const result = await processFile(PDF_PATH, { provider: new OrientationProvider(), noCache: true });
+    const [first] = result.pages!;
+
+    expect(first.markdown).toContain("source: lookbook.pdf\npage: 1\npage_count: 2");
+    expect(first.metadata.basename).toBe("lookbook-p1");
+  });
+
+  it("analyzes only the selected pages", async () => {
+    const provider = new OrientationProvider();
+    const result = await processFile(PDF_PATH, { provider, noCache: true, pages: "2" });
+
+    expect(provider.calls).toBe(1);
+    expect(result.pages?.map((p) => p.page)).toEqual([2]);
+    expect(result.subject).toBe("A portrait page");
+  });
+
+  it("keys the cache per page", async () => {
+    const { pages } = await extractPdf(PDF_PATH);
+    expect(cacheKeyFor(pages[0], {})).not.toBe(cacheKeyFor(pages[1], {}));
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { join } from "node:path";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import sharp from "sharp";
+import { perceptualHash, computePerceptualHash, hammingDistance, groupNearDuplicates } from "../src/phash.js";
+import { processFile } from "../src/processor.js";
+import { clearCache } from "../src/cache/store.js";
+import { OBSIDIAN_TEMPLATE } from "../src/templates/builtins.js";
+import { extractMetadataFromBuffer } from "../src/extractors/metadata.js";
+import type { Provider, ProviderResponse } from "../src/providers/types.js";
+
+const TMP_DIR = join(import.meta.dirname, "fixtures", "tmp-phash");
+const TEST_CACHE_DIR = join(import.meta.dirname, "fixtures", "tmp-phash-cache");
+
+const SCENE = `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="300">
+  <rect width="400" height="300" fill="#e8dfcc"/>
+  <circle cx="120" cy="140" r="80" fill="#9a4a22"/>
+  <rect x="230" y="60" width="120" height="180" fill="#1b1c22"/>
+</svg>`;
+const OTHER = `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="300">
+  <rect width="400" height="300" fill="#2e4a8c"/>
+  <rect x="20" y="200" width="360" height="60" fill="#f2f0ea"/>
+  <circle cx="320" cy="80" r="40" fill="#d1a73a"/>
+</svg>`;
+
+let original: Buffer;
+
+async function hashOf(buffer: Buffer, filename: string): Promise<string> {
+  const phash = await computePerceptualHash(buffer, extractMetadataFromBuffer(buffer, filename));
+  if (!phash) throw new Error(`couldn't hash ${filename}`);
+  return phash;
+}
+
+class CountingProvider implements Provider {
+  calls = 0;
+
+  async analyze(): Promise<ProviderResponse> {
+    this.calls++;
+    return {
+      rawText: "TYPE:\nillustration\n\nSUBJECT:\nCircle beside a dark bar\n\nTAGS:\nflat-shapes\n\nDESCRIPTION:\nA rust circle beside a black bar on cream.\n\nEXTRACTED_TEXT:\nNone",
+    };
+  }
+
+  async compare(): Promise<ProviderResponse> {
+    return { rawText: "" };
+  }
+}
+
+beforeAll(async () => {
+  await mkdir(TMP_DIR, { recursive: true });
+  original = await sharp(Buffer.from(SCENE)).png().toBuffer();
+});
+
+afterAll(async () => {
+  await rm(TMP_DIR, { recursive: true, force: true });
+  await rm(TEST_CACHE_DIR, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  process.env.M2MD_CACHE_DIR = TEST_CACHE_DIR;
+  await clearCache();
+});
+
+describe("perceptualHash", () => {
+  it("is 16 hex digits and stable", async () => {
+    const hash = await hashOf(original, "scene.png");
+    expect(hash).toMatch(/^[0-9a-f]{16}$/);
+    expect(await hashOf(original, "scene.png")).toBe(hash);
+  });
+
+  it("barely changes for resized, re-encoded and slightly cropped copies", async () => {
+    const hash = await hashOf(original, "scene.png");
+    const small = await sharp(original).resize(160).jpeg({ quality: 60 }).toBuffer();
+    const webp = await sharp(original).webp({ quality: 50 }).toBuffer();
+    const cropped = await sharp(original).extract({ left: 6, top: 5, width: 388, height: 290 }).png().toBuffer();
+
+    expect(hammingDistance(hash, await hashOf(small, "small.jpg"))).toBeLessThanOrEqual(4);
+    expect(hammingDistance(hash, await hashOf(webp, "scene.webp"))).toBeLessThanOrEqual(4);
+    expect(hammingDistance(hash, await hashOf(cropped, "cropped.png"))).toBeLessThanOrEqual(10);
+  });
+
+  it("differs for a different image", async () => {
+    const other = await sharp(Buffer.from(OTHER)).png().toBuffer();
+    expect(hammingDistance(await hashOf(original, "scene.png"), await hashOf(other, "other.png"))).toBeGreaterThan(16);
+  });
+
+  it("ignores overall brightness", () => {
+    const pattern = Array.from({ length: 32 * 32 }, (_, i) => 100 + 60 * Math.sin((i % 32) / 5) * Math.cos(Math.floor(i / 32) / 7));
+    const gray = Buffer.from(pattern.map(Math.round));
+    const brighter = Buffer.from(pattern.map((v) => Math.round(v) + 60));
+    expect(perceptualHash(brighter)).toBe(perceptualHash(gray));
+  });
+});
+
+describe("hammingDistance", () => {
+  it("counts differing bits", () => {
+    expect(hammingDistance("0000000000000000", "0000000000000000")).toBe(0);
+    expect(hammingDistance("0000000000000000", "000000000000000f")).toBe(4);
+    expect(hammingDistance("ffffffffffffffff", "0000000000000000")).toBe(64);
+  });
+});
+
+describe("groupNearDuplicates", () => {
+  it("groups transitively and drops singletons", () => {
+    const items = [
+      { name: "a", phash: "0000000000000000" },
+      { name: "lonely", phash: "ffffffffffffffff" },
+      { name: "b", phash: "0000000000000007" },
+      { name: "c", phash: "000000000000003f" },
+      { name: "d", phash: "ff00ff00ff00ff00" },
+      { name: "e", phash: "ff00ff00ff00ff01" },
+    ];
+    const groups = groupNearDuplicates(items, 3);
+    expect(groups.map((g) => g.map((i) => i.name))).toEqual([["a", "b", "c"], ["d", "e"]]);
+  });
+});
+
+describe("processFile", () => {
+  it("adds the perceptual hash to metadata and frontmatter", async () => {
+    const path = join(TMP_DIR, "scene.png");
+    await writeFile(path, original);
+    const result = await processFile(path, { provider: new CountingProvider() });
+
+    expect(result.metadata.phash).toBe(await hashOf(original, "scene.png"));
+    expect(result.markdown).toContain(`phash: "${result.metadata.phash}"`);
+  });
+
+  it("reuses a near-identical image's analysis when asked", async () => {
+    const first = join(TMP_DIR, "scene.png");
+    const copy = join(TMP_DIR, "scene-small.jpg");
+    await writeFile(first, original);
+    await writeFile(copy, await sharp(original).resize(200).jpeg({ quality: 70 }).toBuffer());
+    const provider = new CountingProvider();
+
+    await processFile(first, { provider, reuseSimilar: 4 });
+    const reused = await processFile(copy, { provider, reuseSimilar: 4 });
+    const again = await processFile(copy, { provider, reuseSimilar: 4 });
+
+    expect(provider.calls).toBe(1);
+    expect(reused.cached).toBe(true);
+    expect(reused.reused).toEqual({ filename: "scene.png", distance: expect.any(Number) });
+    expect(reused.subject).toBe("Circle beside a dark bar");
+    // Rendered for the copy, not the original
+    expect(reused.markdown).toContain("source: scene-small.jpg");
+    expect(reused.markdown).toContain("dimensions_px: 200x150");
+    expect(again.cached).toBe(true);
+    expect(again.reused).toBeUndefined();
+  });
+
+  it("reuses across images with their own vault links", async () => {
+    const first = join(TMP_DIR, "scene.png");
+    const copy = join(TMP_DIR, "scene-small.jpg");
+    await writeFile(first, original);
+    await writeFile(copy, await sharp(original).resize(200).jpeg({ quality: 70 }).toBuffer());
+    const provider = new CountingProvider();
+    const linked = (name: string) => ({ provider, reuseSimilar: 4, template: OBSIDIAN_TEMPLATE, templateName: "obsidian", sourcePath: `../attachments/${name}`, vaultPath: `attachments/${name}` });
+
+    await processFile(first, linked("scene.png"));
+    const reused = await processFile(copy, linked("scene-small.jpg"));
+
+    expect(provider.calls).toBe(1);
+    expect(reused.reused?.filename).toBe("scene.png");
+    expect(reused.markdown).toContain("![[attachments/scene-small.jpg]]");
+  });
+
+  it("only reuses when opted in and run with the same options", async () => {
+    const first = join(TMP_DIR, "scene.png");
+    const copy = join(TMP_DIR, "scene.webp");
+    await writeFile(first, original);
+    await writeFile(copy, await sharp(original).webp().toBuffer());
+    const provider = new CountingProvider();
+
+    await processFile(first, { provider });
+    await processFile(copy, { provider, reuseSimilar: 4, note: "focus on shapes" });
+    await processFile(copy, { provider });
+
+    expect(provider.calls).toBe(3);
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect, afterAll } from "vitest";
+import { join } from "node:path";
+import { mkdir, writeFile, rm } from "node:fs/promises";
+import sharp from "sharp";
+import { prepareImage, fitDimensions, imageLimitsFor, canPreprocess, providerMimeType } from "../src/preprocess.js";
+import { processFile, cacheKeyFor } from "../src/processor.js";
+import { extractMetadata } from "../src/extractors/metadata.js";
+import { getProviderDefinition } from "../src/providers/registry.js";
+import type { Provider, ImageInput, ProviderResponse } from "../src/providers/types.js";
+
+const TMP_DIR = join(import.meta.dirname, "fixtures", "tmp-preprocess");
+
+const noise = (width: number, height: number) =>
+  sharp({ create: { width, height, channels: 3, noise: { type: "gaussian", mean: 128, sigma: 40 } } });
+
+const meta = (width: number, height: number) => ({ filename: "test.png", width, height });
+
+afterAll(async () => {
+  await rm(TMP_DIR, { recursive: true, force: true });
+});
+
+describe("fitDimensions", () => {
+  it("scales the longest edge down to the limit", () => {
+    expect(fitDimensions(8000, 4000, 2000)).toEqual({ width: 2000, height: 1000 });
+    expect(fitDimensions(3000, 6000, 2000)).toEqual({ width: 1000, height: 2000 });
+  });
+
+  it("leaves images within the limit alone", () => {
+    expect(fitDimensions(800, 600, 2000)).toEqual({ width: 800, height: 600 });
+    expect(fitDimensions(8000, 6000)).toEqual({ width: 8000, height: 6000 });
+  });
+});
+
+describe("imageLimitsFor", () => {
+  it("reads the provider's byte and pixel limits", () => {
+    const limits = imageLimitsFor(getProviderDefinition("anthropic")!.capabilities);
+    expect(limits.maxDimension).toBe(8000);
+    // Raw bytes whose base64 fits in 5 MB
+    expect(Math.ceil(limits.maxBytes! / 3) * 4).toBeLessThanOrEqual(5 * 1024 * 1024);
+  });
+});
+
+describe("prepareImage", () => {
+  it("detects sharp", async () => {
+    expect(await canPreprocess()).toBe(true);
+  });
+
+  it("returns images within the limits untouched", async () => {
+    const buffer = await noise(64, 32).png().toBuffer();
+    const prepared = await prepareImage(buffer, "image/png", meta(64, 32), { maxBytes: 1024 * 1024, maxDimension: 100 });
+
+    expect(prepared.buffer).toBe(buffer);
+    expect(prepared.transforms).toEqual([]);
+  });
+
+  it("auto-rotates by EXIF orientation", async () => {
+    const buffer = await noise(40, 20).jpeg().withMetadata({ orientation: 6 }).toBuffer();
+    const prepared = await prepareImage(buffer, "image/jpeg", meta(40, 20));
+
+    expect(prepared.transforms).toEqual(["rotated"]);
+    expect([prepared.width, prepared.height]).toEqual([20, 40]);
+    expect((await sharp(prepared.buffer).metadata()).orientation).toBeUndefined();
+  });
+
+  it("downscales past the pixel limit and keeps the format", async () => {
+    const buffer = await noise(400, 200).png().toBuffer();
+    const prepared = await prepareImage(buffer, "image/png", meta(400, 200), { maxDimension: 100 });
+
+    expect(prepared.transforms).toEqual(["resized to 100x50"]);
+    expect(prepared.mimeType).toBe("image/png");
+    expect((await sharp(prepared.buffer).metadata()).width).toBe(100);
+  });
+
+  it("converts to JPEG and recompresses past the byte limit", async () => {
+    const buffer = await noise(300, 300).png().toBuffer();
+    const maxBytes = 30_000;
+    expect(buffer.length).toBeGreaterThan(maxBytes);
+
+    const prepared = await prepareImage(buffer, "image/png", meta(300, 300), { maxBytes });
+
+    expect(prepared.buffer.length).toBeLessThanOrEqual(maxBytes);
+    expect(prepared.mimeType).toBe("image/jpeg");
+    expect(prepared.transforms).toContain("converted to JPEG");
+    expect(prepared.transforms).toContain("recompressed");
+    expect((await sharp(prepared.buffer).metadata()).format).toBe("jpeg");
+  });
+
+  it("fails when even the smallest attempt is too large", async () => {
+    const buffer = await noise(300, 300).png().toBuffer();
+    await expect(prepareImage(buffer, "image/png", meta(300, 300), { maxBytes: 10 })).rejects.toThrow(/too large/);
+  });
+});
+
+describe("prepareImage — format conversion", () => {
+  const SVG = Buffer.from(
+    '<svg xmlns="http://www.w3.org/2000/svg" width="24" height="12"><rect width="24" height="12" fill="#ff0000"/></svg>'
+  );
+
+  it("converts AVIF photos to JPEG", async () => {
+    const buffer = await noise(40, 30).avif().toBuffer();
+    const prepared = await prepareImage(buffer, "image/avif", meta(40, 30));
+
+    expect(prepared.mimeType).toBe("image/jpeg");
+    expect(prepared.transforms).toEqual(["converted from AVIF to JPEG"]);
+    expect((await sharp(prepared.buffer).metadata()).format).toBe("jpeg");
+  });
+
+  it("converts TIFF scans to PNG", async () => {
+    const buffer = await noise(40, 30).tiff().toBuffer();
+    const prepared = await prepareImage(buffer, "image/tiff", meta(40, 30));
+
+    expect(prepared.mimeType).toBe("image/png");
+    expect(prepared.transforms).toEqual(["converted from TIFF to PNG"]);
+    expect([prepared.width, prepared.height]).toEqual([40, 30]);
+  });
+
+  it("rasterizes small SVGs up to a readable size", async () => {
+    const prepared = await prepareImage(SVG, "image/svg+xml", meta(24, 12));
+
+    expect(prepared.mimeType).toBe("image/png");
+    expect([prepared.width, prepared.height]).toEqual([1024, 512]);
+    expect(prepared.transforms).toEqual(["converted from SVG to PNG"]);
+  });
+
+  it("keeps rasterized SVGs within the pixel limit", async () => {
+    const prepared = await prepareImage(SVG, "image/svg+xml", meta(24, 12), { maxDimension: 200 });
+    expect([prepared.width, prepared.height]).toEqual([200, 100]);
+  });
+
+  it("decodes BMP to PNG", async () => {
+    // 1x1 24-bit BMP, one blue pixel (BGR + padding)
+    const bmp = Buffer.alloc(58);
+    bmp.write("BM", 0, "ascii");
+    bmp.writeUInt32LE(58, 2);
+    bmp.writeUInt32LE(54, 10);
+    bmp.writeUInt32LE(40, 14);
+    bmp.writeInt32LE(1, 18);
+    bmp.writeInt32LE(1, 22);
+    bmp.writeUInt16LE(1, 26);
+    bmp.writeUInt16LE(24, 28);
+    bmp.set([255, 0, 0], 54);
+
+    const prepared = await prepareImage(bmp, "image/bmp", meta(1, 1));
+    const { data } = await sharp(prepared.buffer).raw().toBuffer({ resolveWithObject: true });
+
+    expect(prepared.mimeType).toBe("image/png");
+    expect([...data.subarray(0, 3)]).toEqual([0, 0, 255]);
+  });
+});
+
+describe("providerMimeType", () => {
+  it("returns MIME types providers accept", () => {
+    expect(providerMimeType(".jpg")).toBe("image/jpeg");
+  });
+
+  it("refuses formats that need converting", () => {
+    expect(() => providerMimeType(".heic")).toThrow("HEIC images must be converted");
+  });
+});
+
+describe("processFile preprocessing", () => {
+  class CapturingProvider implements Provider {
+    image?: ImageInput;
+
+    async analyze(image: ImageInput): Promise<ProviderResponse> {
+      this.image = image;
+      return { rawText: "TYPE:\nphoto\n\nSUBJECT:\nNoise\n\nDESCRIPTION:\nGrey noise." };
+    }
+
+    async compare(): Promise<ProviderResponse> {
+      return { rawText: "" };
+    }
+  }
+
+  it("sends the shrunk image but keeps the original's hash and dimensions", async () => {
+    await mkdir(TMP_DIR, { recursive: true });
+    const file = join(TMP_DIR, "large.png");
+    await writeFile(file, await noise(600, 300).png().toBuffer());
+    const { metadata } = await extractMetadata(file);
+
+    const provider = new CapturingProvider();
+    const options = { provider, noCache: true, imageLimits: { maxDimension: 200 } };
+    const result = await processFile(file, options);
+
+    expect(provider.image?.buffer.length).toBeLessThan(metadata.sizeBytes);
+    expect(result.metadata.sha256).toBe(metadata.sha256);
+    expect(result.metadata.width).toBe(600);
+    expect(result.preprocessed).toMatchObject({ width: 200, height: 100, transforms: ["resized to 200x100"] });
+    expect(cacheKeyFor(result.metadata, options)).toBe(cacheKeyFor(metadata, { noCache: true }));
+  });
+
+  it("converts SVG input but reports the source format, size and hash", async () => {
+    await mkdir(TMP_DIR, { recursive: true });
+    const file = join(TMP_DIR, "icon.svg");
+    await writeFile(file, '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24"><circle cx="12" cy="12" r="10"/></svg>');
+    const { metadata } = await extractMetadata(file);
+
+    const provider = new CapturingProvider();
+    const result = await processFile(file, { provider, noCache: true });
+
+    expect(provider.image?.mimeType).toBe("image/png");
+    expect(result.metadata).toMatchObject({ format: "SVG", width: 24, height: 24, sha256: metadata.sha256 });
+    expect(result.preprocessed?.transforms).toEqual(["converted from SVG to PNG"]);
+  });
+
+  it("leaves preprocessed unset when nothing changed", async () => {
+    const result = await processFile(join(import.meta.dirname, "fixtures", "test-image.png"), {
+      provider: new CapturingProvider(),
+      noCache: true,
+      imageLimits: { maxDimension: 8000 },
+    });
+    expect(result.preprocessed).toBeUndefined();
+  });
+});
@@ -1,6 +1,9 @@
 import { describe, it, expect } from "vitest";
 import { join } from "node:path";
-import { processFile } from "../src/processor.js";
+import { rm } from "node:fs/promises";
+import { processFile, cacheKeyFor } from "../src/processor.js";
+import { getCached } from "../src/cache/store.js";
+import { extractMetadata } from "../src/extractors/metadata.js";
 import type {
   Provider,
   ImageInput,
@@ -288,7 +291,7 @@ None`);
   it("throws for unsupported format", async () => {
     const provider = new MockProvider("Test.");
     await expect(
-      processFile(join(FIXTURES, "test-image.png").replace(".png", ".bmp"), {
+      processFile(join(FIXTURES, "test-image.png").replace(".png", ".psd"), {
         provider,
       })
     ).rejects.toThrow("Unsupported image format");
@@ -395,4 +398,311 @@ Some text here`);
     expect(result.markdown).toContain("search_phrases:");
     expect(result.markdown).toContain('"solid red test image"');
   });
+
+  it("keeps the YAML variables from before list fields were lists", async () => {
+    const template = [
+      "---",
+      "hex: [{{colorHexYaml}}]",
+      "search_phrases:",
+      "{{searchPhrasesYaml}}",
+      "dimensions:",
+      "{{dimensionsYaml}}",
+      "---",
+      "{{dimensions}}",
+      "",
+      "{{searchPhrases}}",
+      "",
+    ].join("\n");
+    const result = await processFile(join(FIXTURES, "test-image.png"), {
+      provider: new MockProvider(NEW_FORMAT_RESPONSE),
+      template,
+      noCache: true,
+    });
+
+    expect(result.markdown).toContain('hex: ["#FF0000", "#FFFFFF"]\nsearch_phrases:\n  - "solid red test image"\n');
+    expect(result.markdown).toContain("dimensions:\n  simplicity: Single solid color");
+    expect(result.markdown).toContain("---\nsimplicity: Single solid color with no visual complexity serves as baseline test case\ncolor-purity: ");
+    expect(result.markdown).toContain("\n\nsolid red test image\nminimal single color square\n");
+  });
+});
+
+describe("processFile — structured output", () => {
+  const analysis = {
+    type: "photo",
+    category: ["photography"],
+    style: ["minimalist"],
+    mood: ["calm"],
+    medium: "product-photography",
+    composition: ["centered"],
+    palette: ["warm-red", "bone-white"],
+    subject: "Small red test image",
+    tags: ["solid-color", "unit-test"],
+    visualElements: ["red square"],
+    references: [],
+    useCase: ["test-fixture-example"],
+    colorHex: ["#FF0000"],
+    era: ["contemporary"],
+    artifact: [],
+    typography: [],
+    script: [],
+    culturalInfluence: [],
+    description: "A small red square.",
+    searchPhrases: ["solid red test image", "red pixel"],
+    dimensions: [{ name: "simplicity", description: "Single solid color" }],
+    extractedText: "",
+  };
+
+  it("requests a response schema and parses the JSON answer", async () => {
+    const provider = new MockProvider(JSON.stringify(analysis));
+    const result = await processFile(join(FIXTURES, "test-image.png"), {
+      provider,
+      noCache: true,
+      structured: true,
+    });
+
+    expect(provider.lastOptions?.responseSchema?.name).toBe("image_analysis");
+    expect(provider.lastOptions?.responseSchema?.schema).toHaveProperty("properties.searchPhrases");
+    expect(provider.lastOptions?.systemPrompt).toContain("Structured output:");
+    expect(result.subject).toBe("Small red test image");
+    expect(result.palette).toBe("warm-red, bone-white");
+    expect(result.searchPhrases).toBe("solid red test image\nred pixel");
+    expect(result.markdown).toContain('  - "red pixel"');
+    expect(result.validationWarnings).toBeUndefined();
+  });
+
+  it("falls back to the text parser when the provider answers in text", async () => {
+    const provider = new MockProvider(NEW_FORMAT_RESPONSE);
+    const result = await processFile(join(FIXTURES, "test-image.png"), {
+      provider,
+      noCache: true,
+      structured: true,
+    });
+
+    expect(result.subject).toBe("Small red test image for unit testing");
+  });
+
+  it("reports schema violations as validation warnings", async () => {
+    const provider = new MockProvider(JSON.stringify({ ...analysis, tags: "solid-color" }));
+    const result = await processFile(join(FIXTURES, "test-image.png"), {
+      provider,
+      noCache: true,
+      structured: true,
+    });
+
+    expect(result.tags).toBe("");
+    expect(result.subject).toBe("Small red test image");
+    expect(result.validationWarnings?.[0]).toMatch(/^structured output: tags:/);
+  });
+
+  it("does not send a schema in text mode", async () => {
+    const provider = new MockProvider(NEW_FORMAT_RESPONSE);
+    await processFile(join(FIXTURES, "test-image.png"), { provider, noCache: true });
+
+    expect(provider.lastOptions?.responseSchema).toBeUndefined();
+  });
+});
+
+describe("processFile — re-ask for missing sections", () => {
+  /** Returns each queued response in turn, repeating the last one. */
+  class SequenceProvider implements Provider {
+    calls: AnalyzeOptions[] = [];
+
+    constructor(private responses: string[]) {}
+
+    async analyze(_image: ImageInput, options: AnalyzeOptions): Promise<ProviderResponse> {
+      this.calls.push(options);
+      const rawText = this.responses[Math.min(this.calls.length - 1, this.responses.length - 1)];
+      return { rawText, usage: { inputTokens: 100, outputTokens: 10 } };
+    }
+  }
+
+  const withoutTags = NEW_FORMAT_RESPONSE.replace(/TAGS:\n.*\n\n/, "");
+
+  it("does not re-ask by default", async () => {
+    const provider = new SequenceProvider([withoutTags]);
+    const result = await processFile(join(FIXTURES, "test-image.png"), { provider, noCache: true });
+
+    expect(provider.calls).toHaveLength(1);
+    expect(result.tags).toBe("");
+  });
+
+  it("asks only for missing sections and merges the answer", async () => {
+    const provider = new SequenceProvider([withoutTags, "TAGS:\nsolid-color, unit-test"]);
+    const result = await processFile(join(FIXTURES, "test-image.png"), {
+      provider,
+      noCache: true,
+      reask: 1,
+    });
+
+    expect(provider.calls).toHaveLength(2);
+    expect(provider.calls[1].userPrompt).toContain("TAGS:");
+    expect(provider.calls[1].userPrompt).not.toContain("SUBJECT:");
+    expect(result.tags).toBe("solid-color, unit-test");
+    expect(result.subject).toBe("Small red test image for unit testing");
+    expect(result.markdown).toContain("unit-test");
+    expect(result.usage).toEqual({ inputTokens: 200, outputTokens: 20 });
+    expect(result.validationWarnings).toContain("re-asked for missing sections: TAGS (attempt 1)");
+  });
+
+  it("skips the follow-up when nothing is missing", async () => {
+    const provider = new SequenceProvider([NEW_FORMAT_RESPONSE]);
+    await processFile(join(FIXTURES, "test-image.png"), { provider, noCache: true, reask: 2 });
+
+    expect(provider.calls).toHaveLength(1);
+  });
+
+  it("stops at the limit and reports what is still missing", async () => {
+    const provider = new SequenceProvider([withoutTags, "I looked again."]);
+    const result = await processFile(join(FIXTURES, "test-image.png"), {
+      provider,
+      noCache: true,
+      reask: 2,
+    });
+
+    expect(provider.calls).toHaveLength(3);
+    expect(result.validationWarnings).toContain("still missing after 2 re-ask(s): TAGS");
+  });
+
+  it("uses the text format for follow-ups in structured mode", async () => {
+    const provider = new SequenceProvider([
+      JSON.stringify({ type: "photo", subject: "Red square" }),
+      NEW_FORMAT_RESPONSE,
+    ]);
+    const result = await processFile(join(FIXTURES, "test-image.png"), {
+      provider,
+      noCache: true,
+      structured: true,
+      reask: 1,
+    });
+
+    expect(provider.calls[1].responseSchema).toBeUndefined();
+    expect(provider.calls[1].systemPrompt).not.toContain("Structured output:");
+    expect(result.subject).toBe("Red square");
+    expect(result.tags).toBe("test-square, solid-color, unit-test");
+  });
+});
+
+describe("processFile — fallback chain", () => {
+  class FailingProvider implements Provider {
+    calls = 0;
+
+    constructor(private error: Error) {}
+
+    async analyze(): Promise<ProviderResponse> {
+      this.calls++;
+      throw this.error;
+    }
+  }
+
+  const apiError = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+  it("fails over on overload and records the fallback model", async () => {
+    const primary = new FailingProvider(apiError(529, "Overloaded"));
+    const backup = new MockProvider(NEW_FORMAT_RESPONSE, { model: "gpt-4o-2024-08-06" });
+    const result = await processFile(join(FIXTURES, "test-image.png"), {
+      provider: primary,
+      providerName: "anthropic",
+      model: "claude-sonnet-4-5-20250929",
+      noCache: true,
+      fallbacks: [{ provider: backup, providerName: "openai", model: "gpt-4o" }],
+    });
+
+    expect(primary.calls).toBe(1);
+    expect(backup.lastOptions?.model).toBe("gpt-4o");
+    expect(result.subject).toBe("Small red test image for unit testing");
+    expect(result.fallback).toEqual({ providerName: "openai", model: "gpt-4o", reason: "overloaded" });
+    expect(result.markdown).toContain("model: gpt-4o-2024-08-06\n");
+  });
+
+  it("records the model that answered when the fallback names none", async () => {
+    const cacheDir = join(FIXTURES, "tmp-processor-fallback-cache");
+    process.env.M2MD_CACHE_DIR = cacheDir;
+    try {
+      const options = { providerName: "anthropic", model: "claude-sonnet-4-5-20250929" };
+      const result = await processFile(join(FIXTURES, "test-image.png"), {
+        ...options,
+        provider: new FailingProvider(apiError(529, "Overloaded")),
+        fallbacks: [{ provider: new MockProvider(NEW_FORMAT_RESPONSE, { model: "llava:13b" }), providerName: "local" }],
+      });
+
+      expect(result.model).toBe("llava:13b");
+      expect(result.markdown).toContain("model: llava:13b\n");
+      const { metadata } = await extractMetadata(join(FIXTURES, "test-image.png"));
+      expect((await getCached(cacheKeyFor(metadata, options)))?.model).toBe("llava:13b");
+    } finally {
+      delete process.env.M2MD_CACHE_DIR;
+      await rm(cacheDir, { recursive: true, force: true });
+    }
+  });
+
+  it("fails over when the model refuses", async () => {
+    const primary = new MockProvider("I'm sorry, I can't help with that.");
+    const backup = new MockProvider(NEW_FORMAT_RESPONSE);
+    const result = await processFile(join(FIXTURES, "test-image.png"), {
+      provider: primary,
+      noCache: true,
+      fallbacks: [{ provider: backup, providerName: "local", model: "llava" }],
+    });
+
+    expect(result.fallback?.reason).toBe("refusal");
+    expect(result.fallback?.providerName).toBe("local");
+  });
+
+  it("walks the chain until a provider succeeds", async () => {
+    const first = new FailingProvider(apiError(429, "Rate limited"));
+    const second = new FailingProvider(apiError(413, "Request too large"));
+    const third = new MockProvider(NEW_FORMAT_RESPONSE);
+    const result = await processFile(join(FIXTURES, "test-image.png"), {
+      provider: first,
+      noCache: true,
+      fallbacks: [
+        { provider: second, providerName: "openai", model: "gpt-4o" },
+        { provider: third, providerName: "local", model: "llava" },
+      ],
+    });
+
+    expect(second.calls).toBe(1);
+    expect(result.fallback).toEqual({ providerName: "local", model: "llava", reason: "rate_limit" });
+  });
+
+  it("does not fail over on other errors", async () => {
+    const primary = new FailingProvider(apiError(401, "Invalid API key"));
+    const backup = new MockProvider(NEW_FORMAT_RESPONSE);
+
+    await expect(
+      processFile(join(FIXTURES, "test-image.png"), {
+        provider: primary,
+        noCache: true,
+        fallbacks: [{ provider: backup, providerName: "openai" }],
+      })
+    ).rejects.toThrow("Invalid API key");
+    expect(backup.lastOptions).toBeUndefined();
+  });
+
+  it("only fails over on the configured reasons", async () => {
+    const primary = new MockProvider("I'm sorry, I can't help with that.");
+    const backup = new MockProvider(NEW_FORMAT_RESPONSE);
+
+    await expect(
+      processFile(join(FIXTURES, "test-image.png"), {
+        provider: primary,
+        noCache: true,
+        fallbacks: [{ provider: backup, providerName: "openai" }],
+        fallbackOn: ["overloaded"],
+      })
+    ).rejects.toThrow(/refused/);
+  });
+
+  it("throws the last error when the whole chain fails", async () => {
+    const primary = new FailingProvider(apiError(529, "Overloaded"));
+    const backup = new FailingProvider(apiError(429, "Backup rate limited"));
+
+    await expect(
+      processFile(join(FIXTURES, "test-image.png"), {
+        provider: primary,
+        noCache: true,
+        fallbacks: [{ provider: backup, providerName: "openai" }],
+      })
+    ).rejects.toThrow("Backup rate limited");
+  });
 });
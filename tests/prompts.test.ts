@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { buildSystemPrompt, buildUserPrompt } from "../src/prompts.js";
+import { buildSystemPrompt, buildUserPrompt, buildFollowUpPrompt, buildAnimationUserPrompt } from "../src/prompts.js";
 
 describe("buildSystemPrompt with note", () => {
   const FOCUS_PREFIX = "Focus directive";
@@ -144,3 +144,26 @@ describe("buildUserPrompt", () => {
     expect(prompt).toContain("EXTRACTED_TEXT:");
   });
 });
+
+describe("buildFollowUpPrompt", () => {
+  it("asks only for the listed sections", () => {
+    const prompt = buildFollowUpPrompt("photo.jpg", "jpeg", ["TAGS", "COLOR_HEX"]);
+    expect(prompt).toContain("photo.jpg");
+    expect(prompt).toContain("TAGS:, COLOR_HEX:");
+    expect(prompt).not.toContain("DESCRIPTION:");
+  });
+});
+
+describe("buildAnimationUserPrompt", () => {
+  it("describes the sampled frames and asks for MOTION", () => {
+    const prompt = buildAnimationUserPrompt("spinner.gif", "GIF", 4, { frameCount: 24, duration: 1.2 });
+    expect(prompt).toContain("These 4 images are frames sampled in order from an animated GIF (spinner.gif, 24 frames, 1.2s per loop)");
+    expect(prompt).toContain("DIMENSIONS:, MOTION:, and EXTRACTED_TEXT:");
+  });
+
+  it("points structured output at the motion field", () => {
+    const prompt = buildAnimationUserPrompt("spinner.gif", "GIF", 4, { frameCount: 24, duration: 1.2 }, true);
+    expect(prompt).toContain("motion field");
+    expect(prompt).not.toContain("EXTRACTED_TEXT:");
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  RateLimiter,
+  RateLimitedProvider,
+  getRateLimiter,
+  resetRateLimiters,
+} from "../src/rate-limit.js";
+import { parseRateLimitHeaders, parseResetDuration } from "../src/providers/rate-limit-headers.js";
+import type { ImageInput, AnalyzeOptions, Provider, ProviderResponse } from "../src/providers/types.js";
+
+const image: ImageInput = { buffer: Buffer.from("pixels"), mimeType: "image/png", filename: "a.png" };
+const options: AnalyzeOptions = { systemPrompt: "system", userPrompt: "user", model: "test-model" };
+
+const apiError = (status: number, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`HTTP ${status}`), { status, headers: new Headers(headers) });
+
+afterEach(() => {
+  resetRateLimiters();
+});
+
+describe("parseResetDuration", () => {
+  it("reads Go-style durations, seconds and timestamps", () => {
+    expect(parseResetDuration("6m0s")).toBe(360_000);
+    expect(parseResetDuration("1.5s")).toBe(1_500);
+    expect(parseResetDuration("250ms")).toBe(250);
+    expect(parseResetDuration("20")).toBe(20_000);
+    expect(parseResetDuration("2026-01-01T00:00:30Z", Date.parse("2026-01-01T00:00:00Z"))).toBe(30_000);
+  });
+
+  it("returns undefined for missing or unreadable values", () => {
+    expect(parseResetDuration(undefined)).toBeUndefined();
+    expect(parseResetDuration("soon")).toBeUndefined();
+  });
+});
+
+describe("parseRateLimitHeaders", () => {
+  it("reads Anthropic headers", () => {
+    const info = parseRateLimitHeaders(new Headers({
+      "anthropic-ratelimit-requests-limit": "50",
+      "anthropic-ratelimit-requests-remaining": "0",
+      "anthropic-ratelimit-requests-reset": new Date(Date.now() + 10_000).toISOString(),
+      "anthropic-ratelimit-tokens-limit": "40000",
+      "retry-after": "7",
+    }));
+
+    expect(info?.requestsLimit).toBe(50);
+    expect(info?.requestsRemaining).toBe(0);
+    expect(info?.requestsResetMs).toBeGreaterThan(8_000);
+    expect(info?.tokensLimit).toBe(40_000);
+    expect(info?.retryAfterMs).toBe(7_000);
+  });
+
+  it("reads OpenAI headers from a plain record", () => {
+    expect(parseRateLimitHeaders({
+      "x-ratelimit-limit-requests": "500",
+      "x-ratelimit-remaining-tokens": "1200",
+      "x-ratelimit-reset-tokens": "6m0s",
+      "retry-after-ms": "250",
+    })).toEqual({ requestsLimit: 500, tokensRemaining: 1200, tokensResetMs: 360_000, retryAfterMs: 250 });
+  });
+
+  it("returns undefined without rate-limit headers", () => {
+    expect(parseRateLimitHeaders(new Headers({ "content-type": "application/json" }))).toBeUndefined();
+    expect(parseRateLimitHeaders(undefined)).toBeUndefined();
+  });
+});
+
+describe("RateLimiter", () => {
+  it("limits concurrent requests", async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 2 });
+    let active = 0;
+    let peak = 0;
+
+    await Promise.all([1, 2, 3, 4, 5].map(async () => {
+      const release = await limiter.acquire();
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((r) => setTimeout(r, 5));
+      active--;
+      release(100);
+    }));
+
+    expect(peak).toBe(2);
+  });
+
+  it("halves concurrency on throttle and grows it back after successes", () => {
+    const limiter = new RateLimiter({ maxConcurrency: 4 });
+    limiter.throttle(0);
+    expect(limiter.concurrency).toBe(2);
+    limiter.throttle(0);
+    limiter.throttle(0);
+    expect(limiter.concurrency).toBe(1);
+
+    limiter.succeed();
+    expect(limiter.concurrency).toBe(2);
+    limiter.succeed();
+    limiter.succeed();
+    expect(limiter.concurrency).toBe(3);
+  });
+
+  it("waits out a retry-after pause", () => {
+    const limiter = new RateLimiter();
+    limiter.throttle(5_000);
+    expect(limiter.waitTime()).toBeGreaterThan(4_000);
+  });
+
+  it("waits when the request budget for the minute is spent", async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 2 });
+    (await limiter.acquire())(10);
+    (await limiter.acquire())(10);
+    expect(limiter.waitTime()).toBeGreaterThan(59_000);
+  });
+
+  it("waits when the next request would exceed the token budget", async () => {
+    const limiter = new RateLimiter({ tokensPerMinute: 1_000 });
+    (await limiter.acquire())(600);
+    expect(limiter.waitTime()).toBeGreaterThan(59_000);
+  });
+
+  it("learns limits from headers without raising configured ones", () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 10 });
+    limiter.update({ requestsLimit: 50, tokensLimit: 40_000 });
+    expect(limiter.requestsPerMinute).toBe(10);
+    expect(limiter.tokensPerMinute).toBe(40_000);
+  });
+
+  it("pauses until reset when the server reports no requests left", () => {
+    const limiter = new RateLimiter();
+    limiter.update({ requestsRemaining: 0, requestsResetMs: 3_000 });
+    expect(limiter.waitTime()).toBeGreaterThan(2_000);
+  });
+});
+
+describe("getRateLimiter", () => {
+  it("shares one limiter per provider and model", () => {
+    expect(getRateLimiter("anthropic", "sonnet")).toBe(getRateLimiter("anthropic", "sonnet"));
+    expect(getRateLimiter("anthropic", "sonnet")).not.toBe(getRateLimiter("anthropic", "haiku"));
+    expect(getRateLimiter("anthropic", "sonnet")).not.toBe(getRateLimiter("openai", "sonnet"));
+  });
+});
+
+describe("RateLimitedProvider", () => {
+  /** Throws the queued errors in turn, then succeeds. */
+  class FlakyProvider implements Provider {
+    calls = 0;
+
+    constructor(private errors: Error[]) {}
+
+    async analyze(): Promise<ProviderResponse> {
+      const error = this.errors[this.calls++];
+      if (error) throw error;
+      return { rawText: "ok", usage: { inputTokens: 100, outputTokens: 10 } };
+    }
+
+    async compare(): Promise<ProviderResponse> {
+      return this.analyze();
+    }
+  }
+
+  it("retries rate-limit errors after retry-after and backs off", async () => {
+    const inner = new FlakyProvider([apiError(429, { "retry-after-ms": "10" })]);
+    const provider = new RateLimitedProvider(inner, "test", { maxConcurrency: 4 });
+
+    const response = await provider.analyze(image, options);
+
+    expect(response.rawText).toBe("ok");
+    expect(inner.calls).toBe(2);
+    // Halved on the 429, then +1 isn't earned until a full round of successes
+    expect(getRateLimiter("test", "test-model").concurrency).toBe(2);
+  });
+
+  it("retries overloaded errors", async () => {
+    const inner = new FlakyProvider([apiError(529, { "retry-after-ms": "5" })]);
+    const response = await new RateLimitedProvider(inner, "test").analyze(image, options);
+    expect(response.rawText).toBe("ok");
+  });
+
+  it("gives up after the retry limit so fallbacks can take over", async () => {
+    const inner = new FlakyProvider([
+      apiError(429, { "retry-after-ms": "1" }),
+      apiError(429, { "retry-after-ms": "1" }),
+    ]);
+    const provider = new RateLimitedProvider(inner, "test", { retries: 1 });
+
+    await expect(provider.analyze(image, options)).rejects.toThrow("HTTP 429");
+    expect(inner.calls).toBe(2);
+  });
+
+  it("retries server errors and dropped connections without throttling", async () => {
+    const reset = Object.assign(new Error("Connection error."), { name: "APIConnectionError" });
+    const inner = new FlakyProvider([apiError(500, { "retry-after-ms": "1" }), apiError(502, { "retry-after-ms": "1" })]);
+    const provider = new RateLimitedProvider(inner, "test", { maxConcurrency: 4 });
+
+    expect((await provider.analyze(image, options)).rawText).toBe("ok");
+    expect(inner.calls).toBe(3);
+    expect(getRateLimiter("test", "test-model").concurrency).toBe(4);
+
+    const dropped = new FlakyProvider([reset]);
+    expect((await new RateLimitedProvider(dropped, "test").analyze(image, options)).rawText).toBe("ok");
+    expect(dropped.calls).toBe(2);
+  });
+
+  it("does not retry other errors", async () => {
+    const inner = new FlakyProvider([apiError(401)]);
+    await expect(new RateLimitedProvider(inner, "test").analyze(image, options)).rejects.toThrow("HTTP 401");
+    expect(inner.calls).toBe(1);
+  });
+
+  it("applies configured limits for the provider and model", async () => {
+    const provider = new RateLimitedProvider(new FlakyProvider([]), "test", {
+      limits: { test: { requestsPerMinute: 100 }, "test:test-model": { tokensPerMinute: 5_000 } },
+    });
+    await provider.analyze(image, options);
+
+    const limiter = getRateLimiter("test", "test-model");
+    expect(limiter.requestsPerMinute).toBe(100);
+    expect(limiter.tokensPerMinute).toBe(5_000);
+  });
+});
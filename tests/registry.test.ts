@@ -0,0 +1,109 @@
+import { describe, it, expect, afterAll } from "vitest";
+import { join } from "node:path";
+import { mkdir, writeFile, rm } from "node:fs/promises";
+import {
+  registerProvider,
+  getProviderDefinition,
+  providerNames,
+  requireProvider,
+  createProvider,
+  getModelPricing,
+  TIER_MAP,
+} from "../src/providers/registry.js";
+import { registerConfigProviders, resolveTier } from "../src/config.js";
+import { calculateCost } from "../src/cost.js";
+import type { Provider, ProviderDefinition } from "../src/providers/types.js";
+
+const TMP_DIR = join(import.meta.dirname, "fixtures", "tmp-registry");
+
+const stubProvider: Provider = {
+  async analyze() {
+    return { rawText: "stub" };
+  },
+  async compare() {
+    return { rawText: "stub" };
+  },
+};
+
+function makeDefinition(overrides?: Partial<ProviderDefinition>): ProviderDefinition {
+  return {
+    name: "stub",
+    label: "Stub",
+    defaultModel: "stub-vision-1",
+    pricing: { "stub-vision-1": { input: 1.0, output: 2.0 } },
+    capabilities: { compare: false },
+    create: () => stubProvider,
+    ...overrides,
+  };
+}
+
+afterAll(async () => {
+  await rm(TMP_DIR, { recursive: true, force: true });
+});
+
+describe("provider registry", () => {
+  it("registers the built-in providers", () => {
+    expect(providerNames()).toEqual(expect.arrayContaining(["anthropic", "openai"]));
+    expect(getProviderDefinition("anthropic")?.apiKeyEnv).toBe("ANTHROPIC_API_KEY");
+    expect(getProviderDefinition("openai")?.defaultModel).toBe("gpt-4o");
+  });
+
+  it("builds tier presets from provider definitions", () => {
+    expect(TIER_MAP.fast).toEqual({ provider: "openai", model: "gpt-4o-mini" });
+    expect(TIER_MAP.quality).toEqual({ provider: "anthropic", model: "claude-sonnet-4-5-20250929" });
+  });
+
+  it("registers a third-party provider", () => {
+    registerProvider(makeDefinition());
+    expect(providerNames()).toContain("stub");
+    expect(createProvider("stub")).toBe(stubProvider);
+  });
+
+  it("exposes tiers declared by a registered provider", () => {
+    registerProvider(makeDefinition({ name: "stub-tiered", tiers: { stubby: "stub-vision-1" } }));
+    const opts: Record<string, unknown> = { tier: "stubby" };
+    resolveTier(opts, {});
+    expect(opts.provider).toBe("stub-tiered");
+    expect(opts.model).toBe("stub-vision-1");
+  });
+
+  it("prices models from registered providers", () => {
+    registerProvider(makeDefinition());
+    expect(getModelPricing("stub-vision-1")).toEqual({ input: 1.0, output: 2.0 });
+    expect(calculateCost(1_000_000, 1_000_000, "stub-vision-1")).toBeCloseTo(3.0);
+  });
+
+  it("throws for unknown providers", () => {
+    expect(() => requireProvider("nope")).toThrow("Unknown provider: nope. Supported:");
+  });
+});
+
+describe("registerConfigProviders", () => {
+  it("loads a provider module declared in config", async () => {
+    await mkdir(TMP_DIR, { recursive: true });
+    const modulePath = join(TMP_DIR, "custom-provider.mjs");
+    await writeFile(
+      modulePath,
+      `export default {
+        name: "ignored",
+        label: "Custom",
+        defaultModel: "custom-1",
+        pricing: {},
+        capabilities: { compare: false },
+        create: () => ({ analyze: async () => ({ rawText: "custom" }) }),
+      };\n`,
+    );
+
+    await registerConfigProviders({ providers: { custom: { module: modulePath } } });
+
+    const definition = getProviderDefinition("custom");
+    expect(definition?.label).toBe("Custom");
+    expect(definition?.name).toBe("custom");
+  });
+
+  it("rejects entries without a module path", async () => {
+    await expect(
+      registerConfigProviders({ providers: { broken: {} as { module: string } } }),
+    ).rejects.toThrow('Provider "broken" in config needs a "module" path or "type": "openai-compatible"');
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, afterAll, afterEach } from "vitest";
+import { join } from "node:path";
+import { readdir, readFile, rm } from "node:fs/promises";
+import { processFile } from "../src/processor.js";
+import {
+  ReplayProvider,
+  RecordingProvider,
+  fixtureKey,
+  replayDir,
+  DEFAULT_REPLAY_DIR,
+} from "../src/providers/replay.js";
+import { getProviderDefinition } from "../src/providers/registry.js";
+import type { Provider, ImageInput, AnalyzeOptions, ProviderResponse } from "../src/providers/types.js";
+
+const FIXTURES = join(import.meta.dirname, "fixtures");
+const TMP_DIR = join(FIXTURES, "tmp-replay");
+
+const RESPONSE = `TYPE:
+photo
+
+SUBJECT:
+Recorded red square
+
+TAGS:
+recorded, fixture
+
+DESCRIPTION:
+A red square replayed from a fixture.
+
+EXTRACTED_TEXT:
+None`;
+
+class CountingProvider implements Provider {
+  calls = 0;
+
+  async analyze(): Promise<ProviderResponse> {
+    this.calls++;
+    return { rawText: RESPONSE, usage: { inputTokens: 120, outputTokens: 30 }, model: "recorded-model" };
+  }
+
+  async compare(): Promise<ProviderResponse> {
+    this.calls++;
+    return { rawText: "SUMMARY:\nSame image." };
+  }
+}
+
+const image = (text: string, filename = "a.png"): ImageInput => ({
+  buffer: Buffer.from(text),
+  mimeType: "image/png",
+  filename,
+});
+
+const options: AnalyzeOptions = { systemPrompt: "system", userPrompt: "user" };
+
+afterAll(async () => {
+  await rm(TMP_DIR, { recursive: true, force: true });
+});
+
+describe("fixtureKey", () => {
+  it("starts with the image sha256", () => {
+    const key = fixtureKey("analyze", [image("pixels")], options);
+    expect(key).toMatch(/^[0-9a-f]{64}-[0-9a-f]{16}$/);
+  });
+
+  it("changes with the prompts but not the model or filename", () => {
+    const base = fixtureKey("analyze", [image("pixels")], options);
+    expect(fixtureKey("analyze", [image("pixels", "b.png")], { ...options, model: "other" })).toBe(base);
+    expect(fixtureKey("analyze", [image("pixels")], { ...options, userPrompt: "changed" })).not.toBe(base);
+    expect(fixtureKey("compare", [image("pixels")], options)).not.toBe(base);
+  });
+
+  it("distinguishes structured requests", () => {
+    const schema = { name: "image_analysis", schema: {} };
+    expect(fixtureKey("analyze", [image("pixels")], { ...options, responseSchema: schema })).not.toBe(
+      fixtureKey("analyze", [image("pixels")], options)
+    );
+  });
+
+  it("depends on image order for compare", () => {
+    const ab = fixtureKey("compare", [image("a"), image("b")], options);
+    expect(fixtureKey("compare", [image("b"), image("a")], options)).not.toBe(ab);
+  });
+});
+
+describe("RecordingProvider / ReplayProvider", () => {
+  it("records a response and replays it without calling the API", async () => {
+    const dir = join(TMP_DIR, "roundtrip");
+    const inner = new CountingProvider();
+    const recorded = await new RecordingProvider(inner, dir).analyze(image("pixels"), options);
+
+    const files = await readdir(dir);
+    expect(files).toHaveLength(1);
+    const fixture = JSON.parse(await readFile(join(dir, files[0]), "utf-8"));
+    expect(fixture.kind).toBe("analyze");
+    expect(fixture.images).toEqual(["a.png"]);
+
+    const replayed = await new ReplayProvider(dir).analyze(image("pixels"), options);
+    expect(replayed).toEqual(recorded);
+    expect(inner.calls).toBe(1);
+  });
+
+  it("records and replays compare calls", async () => {
+    const dir = join(TMP_DIR, "compare");
+    const images = [image("a", "a.png"), image("b", "b.png")];
+    await new RecordingProvider(new CountingProvider(), dir).compare(images, options);
+
+    const replayed = await new ReplayProvider(dir).compare(images, options);
+    expect(replayed.rawText).toContain("Same image.");
+  });
+
+  it("fails with the missing key and a hint", async () => {
+    const dir = join(TMP_DIR, "empty");
+    const key = fixtureKey("analyze", [image("unknown")], options);
+
+    await expect(new ReplayProvider(dir).analyze(image("unknown"), options)).rejects.toThrow(
+      new RegExp(`No replay fixture for a\\.png \\(${key}\\).*--record`)
+    );
+  });
+});
+
+describe("replay provider definition", () => {
+  afterEach(() => {
+    delete process.env.M2MD_REPLAY_DIR;
+  });
+
+  it("is registered without an API key", () => {
+    const definition = getProviderDefinition("replay");
+    expect(definition?.apiKeyEnv).toBeUndefined();
+    expect(definition?.capabilities.compare).toBe(true);
+    expect(definition?.create()).toBeInstanceOf(ReplayProvider);
+  });
+
+  it("reads its directory from M2MD_REPLAY_DIR", () => {
+    expect(replayDir()).toBe(DEFAULT_REPLAY_DIR);
+    process.env.M2MD_REPLAY_DIR = "/tmp/fixtures";
+    expect(replayDir()).toBe("/tmp/fixtures");
+  });
+});
+
+describe("processFile with replay", () => {
+  it("renders the same markdown offline as the recorded run", async () => {
+    const dir = join(TMP_DIR, "pipeline");
+    const file = join(FIXTURES, "test-image.png");
+
+    const live = await processFile(file, {
+      provider: new RecordingProvider(new CountingProvider(), dir),
+      noCache: true,
+    });
+    const replayed = await processFile(file, {
+      provider: new ReplayProvider(dir),
+      noCache: true,
+    });
+
+    expect(replayed.subject).toBe("Recorded red square");
+    expect(replayed.usage).toEqual(live.usage);
+    expect(replayed.model).toBe("recorded-model");
+    // Only the processed date/time can differ between runs
+    const stripTime = (md: string) => md.replace(/\d{4}-\d{2}-\d{2}(T[\d:.]+Z)?/g, "");
+    expect(stripTime(replayed.markdown)).toBe(stripTime(live.markdown));
+  });
+});
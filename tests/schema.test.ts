@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { analysisJsonSchema } from "../src/schema.js";
+
+// Keywords OpenAI's strict json_schema mode rejects
+const UNSUPPORTED = ["default", "$schema", "minLength", "maxLength", "pattern", "format", "minItems", "maxItems"];
+
+type SchemaNode = { type?: string; properties?: Record<string, SchemaNode>; items?: SchemaNode; [key: string]: unknown };
+
+/** A schema and every property and item schema inside it. */
+function nodes(schema: SchemaNode): SchemaNode[] {
+  return [
+    schema,
+    ...Object.values(schema.properties ?? {}).flatMap(nodes),
+    ...(schema.items ? nodes(schema.items) : []),
+  ];
+}
+
+describe("analysisJsonSchema", () => {
+  it("uses only keywords strict structured output accepts", () => {
+    const keys = nodes(analysisJsonSchema() as SchemaNode).flatMap((node) => Object.keys(node));
+    expect(keys.filter((key) => UNSUPPORTED.includes(key))).toEqual([]);
+  });
+
+  it("requires every property and allows no others", () => {
+    for (const node of nodes(analysisJsonSchema() as SchemaNode).filter((n) => n.type === "object")) {
+      expect(node.required).toEqual(Object.keys(node.properties!));
+      expect(node.additionalProperties).toBe(false);
+    }
+  });
+});
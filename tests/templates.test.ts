@@ -1,7 +1,8 @@
 import { describe, it, expect } from "vitest";
 import { join } from "node:path";
 import { writeFile, rm, mkdir } from "node:fs/promises";
-import { renderTemplate, stripFrontmatter } from "../src/templates/engine.js";
+import { parse } from "yaml";
+import { renderTemplate, stripFrontmatter, type TemplateVars } from "../src/templates/engine.js";
 import {
   DEFAULT_TEMPLATE,
   MINIMAL_TEMPLATE,
@@ -11,39 +12,36 @@ import {
 } from "../src/templates/builtins.js";
 import { loadTemplate } from "../src/templates/loader.js";
 
-const sampleVars: Record<string, string> = {
+const sampleVars: TemplateVars = {
   type: "screenshot",
-  category: "ui-design",
-  style: "minimalist, flat, corporate",
-  mood: "calm, modern",
+  category: ["ui-design"],
+  style: ["minimalist", "flat", "corporate"],
+  mood: ["calm", "modern"],
   medium: "screen-capture",
-  composition: "centered, grid",
-  palette: "dark-blue, white, light-gray",
+  composition: ["centered", "grid"],
+  palette: ["dark-blue", "white", "light-gray"],
   subject: "Dashboard with analytics charts",
-  colors: "dark-blue, white, light-gray",
-  tags: "dashboard-chart, analytics-panel, navigation-sidebar",
-  visualElements: "line chart, bar chart, sidebar, navigation menu, header",
-  references: "Material Design, Google Analytics",
-  useCase: "dashboard-layout-reference, chart-styling-inspiration",
-  colorHex: '"#1A237E", "#FFFFFF", "#E0E0E0"',
-  colorHexYaml: '"#1A237E", "#FFFFFF", "#E0E0E0"',
-  era: "contemporary",
-  artifact: "website",
-  typography: "sans-serif, roboto",
-  script: "latin, english",
-  culturalInfluence: "american-modernism",
-  searchPhrases: '  - "analytics dashboard with charts"\n  - "corporate dashboard UI with sidebar"',
-  searchPhrasesYaml: '  - "analytics dashboard with charts"\n  - "corporate dashboard UI with sidebar"',
-  dimensions: "layout-system: Modular grid with sidebar and main content area",
-  dimensionsYaml: "  layout-system: Modular grid with sidebar and main content area",
+  colors: ["dark-blue", "white", "light-gray"],
+  tags: ["dashboard-chart", "analytics-panel", "navigation-sidebar"],
+  visualElements: ["line chart", "bar chart", "sidebar", "navigation menu", "header"],
+  references: ["Material Design", "Google Analytics"],
+  useCase: ["dashboard-layout-reference", "chart-styling-inspiration"],
+  colorHex: ["#1A237E", "#FFFFFF", "#E0E0E0"],
+  era: ["contemporary"],
+  artifact: ["website"],
+  typography: ["sans-serif", "roboto"],
+  script: ["latin", "english"],
+  culturalInfluence: ["american-modernism"],
+  searchPhrases: ["analytics dashboard with charts", "corporate dashboard UI with sidebar"],
+  dimensions: [{ name: "layout-system", description: "Modular grid with sidebar and main content area" }],
   filename: "test.png",
   basename: "test",
   format: "PNG",
   dimensionsPx: "800x600",
-  width: "800",
-  height: "600",
+  width: 800,
+  height: 600,
   sizeHuman: "42.1 KB",
-  sizeBytes: "43110",
+  sizeBytes: 43110,
   sha256: "abc123def456",
   processedDate: "2026-02-17",
   datetime: "2026-02-17T12:00:00.000Z",
@@ -117,23 +115,23 @@ describe("built-in templates", () => {
   it("default template omits new fields when empty (backward compat)", () => {
     const vars = {
       ...sampleVars,
-      category: "",
-      style: "",
-      mood: "",
+      category: [],
+      style: [],
+      mood: [],
       medium: "",
-      composition: "",
-      palette: "",
-      visualElements: "",
-      references: "",
-      useCase: "",
-      colorHexYaml: "",
-      era: "",
-      artifact: "",
-      typography: "",
-      script: "",
-      culturalInfluence: "",
-      searchPhrasesYaml: "",
-      dimensionsYaml: "",
+      composition: [],
+      palette: [],
+      visualElements: [],
+      references: [],
+      useCase: [],
+      colorHex: [],
+      era: [],
+      artifact: [],
+      typography: [],
+      script: [],
+      culturalInfluence: [],
+      searchPhrases: [],
+      dimensions: [],
     };
     const result = renderTemplate(DEFAULT_TEMPLATE, vars);
     expect(result).not.toContain("category:");
@@ -199,12 +197,43 @@ describe("built-in templates", () => {
     expect(result).toContain("search_phrases:");
   });
 
+  it("default template renders measured colors and palette hex from lists", () => {
+    const vars = {
+      ...sampleVars,
+      colorHexMeasured: [{ hex: "#1A237E", coverage: 62 }, { hex: "#FFFFFF", coverage: 38 }],
+      paletteHex: [{ name: "dark-blue", hex: "#1A237E" }, { name: "white", hex: "#FFFFFF" }],
+    };
+    const result = renderTemplate(DEFAULT_TEMPLATE, vars);
+    expect(result).toContain('color_hex_measured: [{hex: "#1A237E", coverage: 62}, {hex: "#FFFFFF", coverage: 38}]\n');
+    expect(result).toContain('palette_hex: {"dark-blue": "#1A237E", "white": "#FFFFFF"}\n');
+    expect(result).toContain('search_phrases:\n  - "analytics dashboard with charts"\n  - "corporate dashboard UI with sidebar"\n');
+    expect(result).toContain("dimensions:\n  layout-system: Modular grid with sidebar and main content area\n");
+  });
+
+  it("built-in frontmatter stays valid YAML for awkward values", () => {
+    const vars = {
+      ...sampleVars,
+      subject: 'Slide titled "Q3: results"',
+      tags: [": colon-led", "#hash"],
+      note: "---\nsee page 2",
+      camera: 'Canon "EOS" R5',
+      dimensions: [{ name: "layout-system", description: "Grid: 12 columns" }, { name: "hierarchy", description: "" }],
+    };
+    for (const template of [DEFAULT_TEMPLATE, DETAILED_TEMPLATE]) {
+      const data = parse(renderTemplate(template, vars).split("---\n")[1]);
+      expect(data).toMatchObject({ subject: vars.subject, tags: vars.tags, note: vars.note });
+      expect(data.dimensions).toEqual({ "layout-system": "Grid: 12 columns", hierarchy: null });
+    }
+    expect(parse(renderTemplate(DETAILED_TEMPLATE, vars).split("---\n")[1]).camera).toBe(vars.camera);
+  });
+
   it("BUILTIN_TEMPLATES map has all templates", () => {
     expect(Object.keys(BUILTIN_TEMPLATES)).toEqual([
       "default",
       "minimal",
       "alt-text",
       "detailed",
+      "obsidian",
     ]);
   });
 });
@@ -278,6 +307,41 @@ describe("loadTemplate", () => {
     await rm(tmpDir, { recursive: true });
   });
 
+  it("loads a template by name from the templates directory, with partials", async () => {
+    await mkdir(tmpDir, { recursive: true });
+    await writeFile(join(tmpDir, "card.md"), "# {{subject}}\n\n{{> tag-list}}\n", "utf-8");
+    await writeFile(join(tmpDir, "tag-list.md"), "{{#each tags}}- {{> tag}}\n{{/each}}", "utf-8");
+    await writeFile(join(tmpDir, "tag.md"), "[[{{this}}]]\n", "utf-8");
+
+    const tmpl = await loadTemplate("card", { templatesDir: tmpDir });
+    expect(tmpl).toBe("# {{subject}}\n\n{{#each tags}}- [[{{this}}]]\n{{/each}}\n");
+    expect(renderTemplate(tmpl, { subject: "Poster", tags: ["kraft", "foil"] })).toBe("# Poster\n\n- [[kraft]]\n- [[foil]]\n");
+
+    // By path, partials come from the template's own directory
+    expect(await loadTemplate(join(tmpDir, "card.md"))).toBe(tmpl);
+
+    await rm(tmpDir, { recursive: true });
+  });
+
+  it("throws for a missing partial", async () => {
+    await mkdir(tmpDir, { recursive: true });
+    await writeFile(join(tmpDir, "broken.md"), "{{> footer}}\n", "utf-8");
+
+    await expect(loadTemplate(join(tmpDir, "broken.md"))).rejects.toThrow('Partial not found: "footer"');
+
+    await rm(tmpDir, { recursive: true });
+  });
+
+  it("rejects a malformed template when loading it", async () => {
+    await mkdir(tmpDir, { recursive: true });
+    const path = join(tmpDir, "unclosed.md");
+    await writeFile(path, "{{#each tags}}{{this}}\n", "utf-8");
+
+    await expect(loadTemplate(path)).rejects.toThrow(`${path}: Template error: {{#each}} is never closed`);
+
+    await rm(tmpDir, { recursive: true });
+  });
+
   it("throws for unknown template name", async () => {
     await expect(loadTemplate("nonexistent")).rejects.toThrow(
       "Template not found"
@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { join } from "node:path";
+import { mkdir, rm } from "node:fs/promises";
+import sharp from "sharp";
+import { planTiles, tileCount, mergeTileText, mergeTiles, type Tile, type TileAnalysis } from "../src/tiles.js";
+import { processFile, cacheKeyFor } from "../src/processor.js";
+import { parseTileResponse } from "../src/parser.js";
+import type { AnalyzeOptions, ImageInput, Provider, ProviderResponse } from "../src/providers/types.js";
+import type { ImageMetadata } from "../src/extractors/metadata.js";
+
+const TMP_DIR = join(import.meta.dirname, "fixtures", "tmp-tiles");
+const TEST_CACHE_DIR = join(import.meta.dirname, "fixtures", "tmp-tiles-cache");
+const POSTER = join(TMP_DIR, "poster.png");
+const ICON = join(TMP_DIR, "icon.png");
+
+const OVERVIEW = [
+  "TYPE:\nposter",
+  "SUBJECT:\nConcert poster",
+  "TAGS:\nposter, concert",
+  "DESCRIPTION:\nA tall concert poster with a lineup and fine print.",
+  "VISUAL_ELEMENTS:\nguitar, stage-lights",
+  "EXTRACTED_TEXT:\nSUMMER FEST",
+].join("\n\n");
+
+// What each tile of the 1x3 poster grid reads; the middle tile repeats the overlap
+const TILE_TEXT = [
+  "SUMMER FEST\nDoors 7pm",
+  "Doors 7pm\nThe Lanterns",
+  "Tickets at the gate\nNo re-entry",
+];
+
+/** Answers the whole image with OVERVIEW and each tile with its column's text. */
+class TileProvider implements Provider {
+  prompts: string[] = [];
+  sizes: { width: number; height: number }[] = [];
+
+  async analyze(image: ImageInput, options: AnalyzeOptions): Promise<ProviderResponse> {
+    this.prompts.push(options.userPrompt);
+    const { width, height } = await sharp(image.buffer).metadata();
+    this.sizes.push({ width: width!, height: height! });
+    const usage = { inputTokens: 100, outputTokens: 10 };
+    const col = options.userPrompt.match(/column (\d+) of/);
+    if (!col) return { rawText: OVERVIEW, usage };
+    return {
+      rawText: `EXTRACTED_TEXT:\n${TILE_TEXT[Number(col[1]) - 1]}\n\nVISUAL_ELEMENTS:\nGuitar, barcode`,
+      usage,
+    };
+  }
+
+  async compare(): Promise<ProviderResponse> {
+    return { rawText: "" };
+  }
+
+  get tileCalls(): number {
+    return this.prompts.filter((p) => p.includes("This is one tile")).length;
+  }
+}
+
+function tile(index: number, row: number, col: number, rows: number, cols: number): Tile {
+  return { index, row, col, rows, cols, left: 0, top: 0, width: 100, height: 100 };
+}
+
+function analysis(t: Tile, extractedText: string): TileAnalysis {
+  return { tile: t, parsed: { extractedText, visualElements: "" } };
+}
+
+beforeAll(async () => {
+  await mkdir(TMP_DIR, { recursive: true });
+  await sharp({ create: { width: 500, height: 300, channels: 3, background: "#1D2B53" } }).png().toFile(POSTER);
+  await sharp({ create: { width: 200, height: 200, channels: 3, background: "#FF004D" } }).png().toFile(ICON);
+});
+
+afterAll(async () => {
+  await rm(TMP_DIR, { recursive: true, force: true });
+  await rm(TEST_CACHE_DIR, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+  process.env.M2MD_CACHE_DIR = TEST_CACHE_DIR;
+  await rm(TEST_CACHE_DIR, { recursive: true, force: true });
+});
+
+describe("planTiles", () => {
+  it("covers the image with evenly spread, overlapping tiles", () => {
+    const tiles = planTiles(2000, 1200, 1024);
+    expect(tiles.map((t) => [t.left, t.top])).toEqual([
+      [0, 0], [488, 0], [976, 0],
+      [0, 176], [488, 176], [976, 176],
+    ]);
+    expect(tiles.every((t) => t.width === 1024 && t.height === 1024 && t.rows === 2 && t.cols === 3)).toBe(true);
+    // Last tiles end exactly at the image edge
+    expect(tiles[5].left + tiles[5].width).toBe(2000);
+    expect(tiles[5].top + tiles[5].height).toBe(1200);
+  });
+
+  it("keeps every overlap at least 128 pixels", () => {
+    const tiles = planTiles(3100, 900, 1024);
+    for (let i = 1; i < tiles.length; i++) {
+      expect(tiles[i - 1].left + tiles[i - 1].width - tiles[i].left).toBeGreaterThanOrEqual(128);
+    }
+  });
+
+  it("returns a single tile for images that fit", () => {
+    expect(planTiles(800, 600, 1024)).toEqual([
+      { index: 0, row: 0, col: 0, rows: 1, cols: 1, left: 0, top: 0, width: 800, height: 600 },
+    ]);
+    expect(tileCount(800, 600)).toBe(1);
+    expect(tileCount(undefined, undefined)).toBe(1);
+    expect(tileCount(4000, 3000)).toBe(20);
+  });
+});
+
+describe("mergeTileText", () => {
+  it("reads tiles in order and drops lines repeated from the overlap", () => {
+    const text = mergeTileText([
+      analysis(tile(3, 1, 1, 2, 2), "Fine print\nPage 1"),
+      analysis(tile(0, 0, 0, 2, 2), "Quarterly report\nRevenue"),
+      analysis(tile(1, 0, 1, 2, 2), "revenue:\nQ3 2026"),
+      analysis(tile(2, 1, 0, 2, 2), "None"),
+    ]);
+    expect(text).toBe("Quarterly report\nRevenue\n\nQ3 2026\n\nFine print\nPage 1");
+  });
+
+  it("keeps repeats from tiles that don't touch", () => {
+    const text = mergeTileText([
+      analysis(tile(0, 0, 0, 1, 3), "Page 1\nLeft"),
+      analysis(tile(1, 0, 1, 1, 3), "Left\nMiddle"),
+      analysis(tile(2, 0, 2, 1, 3), "Page 1"),
+    ]);
+    expect(text).toBe("Page 1\nLeft\n\nMiddle\n\nPage 1");
+  });
+});
+
+describe("mergeTiles", () => {
+  it("takes the text from the tiles and unions visual elements", () => {
+    const overview = { ...parseTileResponse("EXTRACTED_TEXT:\nblurry\n\nVISUAL_ELEMENTS:\nguitar"), type: "poster" };
+    const merged = mergeTiles(overview as never, [
+      { tile: tile(0, 0, 0, 1, 1), parsed: { extractedText: "Doors 7pm", visualElements: "Guitar, barcode" } },
+    ]);
+    expect(merged.extractedText).toBe("Doors 7pm");
+    expect(merged.visualElements).toBe("guitar, barcode");
+    expect(merged.type).toBe("poster");
+  });
+
+  it("keeps the overview's text when no tile read any", () => {
+    const overview = parseTileResponse("EXTRACTED_TEXT:\nSUMMER FEST\n\nVISUAL_ELEMENTS:\nguitar");
+    const merged = mergeTiles(overview as never, [analysis(tile(0, 0, 0, 1, 1), "None")]);
+    expect(merged.extractedText).toBe("SUMMER FEST");
+  });
+});
+
+describe("processFile with tileSize", () => {
+  it("is off by default", async () => {
+    const provider = new TileProvider();
+    const result = await processFile(POSTER, { provider });
+
+    expect(provider.tileCalls).toBe(0);
+    expect(result.tiles).toBeUndefined();
+    expect(result.extractedText).toBe("SUMMER FEST");
+  });
+
+  it("analyzes full-resolution tiles and merges their text in reading order", async () => {
+    const provider = new TileProvider();
+    const result = await processFile(POSTER, { provider, tileSize: 300 });
+
+    expect(provider.tileCalls).toBe(3);
+    expect(provider.sizes.slice(1)).toEqual([
+      { width: 300, height: 300 },
+      { width: 300, height: 300 },
+      { width: 300, height: 300 },
+    ]);
+    expect(provider.prompts[1]).toContain("row 1 of 1, column 1 of 3");
+    expect(result.tiles).toBe(3);
+    expect(result.extractedText).toBe("SUMMER FEST\nDoors 7pm\n\nThe Lanterns\n\nTickets at the gate\nNo re-entry");
+    expect(result.subject).toBe("Concert poster");
+    expect(result.markdown).toContain("The Lanterns");
+    expect(result.usage).toMatchObject({ inputTokens: 400, outputTokens: 40 });
+  });
+
+  it("doesn't tile images that fit in one tile", async () => {
+    const provider = new TileProvider();
+    const result = await processFile(ICON, { provider, tileSize: 300 });
+
+    expect(provider.tileCalls).toBe(0);
+    expect(result.tiles).toBeUndefined();
+  });
+
+  it("caches tiled results separately", async () => {
+    const provider = new TileProvider();
+    await processFile(POSTER, { provider });
+    const tiled = await processFile(POSTER, { provider, tileSize: 300 });
+    const again = await processFile(POSTER, { provider, tileSize: 300 });
+
+    expect(tiled.cached).toBe(false);
+    expect(again.cached).toBe(true);
+    expect(again.extractedText).toBe(tiled.extractedText);
+
+    const metadata = { sha256: "abc" } as ImageMetadata;
+    expect(cacheKeyFor(metadata, { tileSize: 300 })).not.toBe(cacheKeyFor(metadata, {}));
+  });
+});
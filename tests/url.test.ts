@@ -28,6 +28,9 @@ describe("looksLikeImageUrl", () => {
     expect(looksLikeImageUrl("https://example.com/photo.webp")).toBe(true);
     expect(looksLikeImageUrl("https://example.com/photo.gif")).toBe(true);
     expect(looksLikeImageUrl("https://example.com/photo.jpeg")).toBe(true);
+    expect(looksLikeImageUrl("https://example.com/photo.HEIC")).toBe(true);
+    expect(looksLikeImageUrl("https://example.com/icons/logo.svg")).toBe(true);
+    expect(looksLikeImageUrl("https://example.com/scan.tiff")).toBe(true);
   });
 
   it("rejects non-image URLs", () => {
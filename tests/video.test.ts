@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from "vitest";
+import { join } from "node:path";
+import { mkdir, writeFile, rm } from "node:fs/promises";
+import { deflateSync } from "node:zlib";
+import type { Provider, ImageInput, ProviderResponse } from "../src/providers/types.js";
+
+// Canned ffprobe/ffmpeg output; frames are PNGs as wide as their timestamp in seconds
+const tools = vi.hoisted(() => ({
+  probe: "",
+  showinfo: "",
+  missing: false,
+  calls: [] as string[][],
+}));
+
+vi.mock("node:child_process", () => ({
+  execFile: (
+    command: string,
+    args: string[],
+    _options: unknown,
+    callback: (err: Error | null, stdout: Buffer, stderr: Buffer) => void
+  ) => {
+    tools.calls.push([command, ...args]);
+    if (tools.missing) {
+      callback(Object.assign(new Error(`spawn ${command} ENOENT`), { code: "ENOENT" }), Buffer.alloc(0), Buffer.alloc(0));
+    } else if (command === "ffprobe") {
+      callback(null, Buffer.from(tools.probe), Buffer.alloc(0));
+    } else if (args.includes("-ss")) {
+      const seconds = parseFloat(args[args.indexOf("-ss") + 1]);
+      callback(null, png(Math.floor(seconds) + 1), Buffer.alloc(0));
+    } else {
+      callback(null, Buffer.alloc(0), Buffer.from(tools.showinfo));
+    }
+  },
+}));
+
+const { extractVideo, detectKeyframes, formatTimestamp, isVideo } = await import("../src/video.js");
+const { processFile, cacheKeyFor } = await import("../src/processor.js");
+
+const TMP_DIR = join(import.meta.dirname, "fixtures", "tmp-video");
+const VIDEO_PATH = join(TMP_DIR, "demo.mp4");
+
+const PROBE = JSON.stringify({
+  streams: [{ codec_name: "h264", width: 1280, height: 720 }],
+  format: { duration: "12.480000" },
+});
+
+function showinfo(...times: number[]): string {
+  return times
+    .map((t, n) => `[Parsed_showinfo_1 @ 0x1] n:${n} pts:${t * 12800} pts_time:${t} duration:512 fmt:yuv420p`)
+    .join("\n");
+}
+
+/** A 1-pixel-high grayscale PNG of the given width. */
+function png(width: number): Buffer {
+  const chunk = (type: string, data: Buffer) => {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(Buffer.concat([Buffer.from(type), data])));
+    return Buffer.concat([length, Buffer.from(type), data, crc]);
+  };
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(1, 4);
+  header[8] = 8; // bit depth; color type 0 (grayscale)
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", header),
+    chunk("IDAT", deflateSync(Buffer.alloc(width + 1))),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) crc = crc & 1 ? (crc >>> 1) ^ 0xedb88320 : crc >>> 1;
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** Describes each frame by its width, i.e. the second it was taken at. */
+class FrameProvider implements Provider {
+  calls = 0;
+
+  async analyze(image: ImageInput): Promise<ProviderResponse> {
+    this.calls++;
+    const second = image.buffer.readUInt32BE(16) - 1;
+    return {
+      rawText: `TYPE:\nphoto\n\nSUBJECT:\nScene at ${second}s\n\nTAGS:\nvideo, scene-${second}\n\nDESCRIPTION:\nShot starting at ${second}s.\n\nEXTRACTED TEXT:\nNone`,
+      usage: { inputTokens: 100, outputTokens: 20 },
+    };
+  }
+
+  async compare(): Promise<ProviderResponse> {
+    return { rawText: "" };
+  }
+}
+
+beforeAll(async () => {
+  await mkdir(TMP_DIR, { recursive: true });
+  await writeFile(VIDEO_PATH, "not really a video");
+});
+
+afterAll(async () => {
+  await rm(TMP_DIR, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  tools.probe = PROBE;
+  tools.showinfo = showinfo(4.2, 4.6, 9.5);
+  tools.missing = false;
+  tools.calls = [];
+});
+
+describe("formatTimestamp", () => {
+  it("formats minutes, and hours past the first", () => {
+    expect(formatTimestamp(0)).toBe("0:00");
+    expect(formatTimestamp(75.9)).toBe("1:15");
+    expect(formatTimestamp(3723)).toBe("1:02:03");
+  });
+});
+
+describe("detectKeyframes", () => {
+  it("keeps the opening frame and cuts at least a second apart", async () => {
+    expect(await detectKeyframes(VIDEO_PATH, 12.48)).toEqual([0, 4.2, 9.5]);
+  });
+
+  it("thins many cuts evenly down to maxFrames", async () => {
+    tools.showinfo = showinfo(1, 2, 3, 4, 5, 6, 7, 8);
+    expect(await detectKeyframes(VIDEO_PATH, 10, 3)).toEqual([0, 4, 8]);
+  });
+
+  it("samples single-shot clips at even intervals", async () => {
+    tools.showinfo = "";
+    expect(await detectKeyframes(VIDEO_PATH, 12, 4)).toEqual([0, 3, 6, 9]);
+  });
+
+  it("explains how to get ffmpeg when it isn't installed", async () => {
+    tools.missing = true;
+    await expect(detectKeyframes(VIDEO_PATH, 10)).rejects.toThrow("needs ffmpeg on your PATH");
+  });
+});
+
+describe("extractVideo", () => {
+  it("describes the video and each keyframe without decoding frames", async () => {
+    const { metadata, frames } = await extractVideo(VIDEO_PATH);
+
+    expect(isVideo(VIDEO_PATH)).toBe(true);
+    expect(metadata).toMatchObject({
+      filename: "demo.mp4",
+      format: "MP4",
+      width: 1280,
+      height: 720,
+      duration: 12.48,
+      codec: "h264",
+      frameCount: 3,
+    });
+    expect(frames.map((f) => [f.timestamp, f.basename, f.extension])).toEqual([
+      [0, "demo-0s", ".png"],
+      [4.2, "demo-4s", ".png"],
+      [9.5, "demo-9s", ".png"],
+    ]);
+    expect(tools.calls.some((call) => call.includes("-ss"))).toBe(false);
+  });
+
+  it("rejects files without a video stream", async () => {
+    tools.probe = JSON.stringify({ streams: [], format: { duration: "3.0" } });
+    await expect(extractVideo(VIDEO_PATH)).rejects.toThrow("has no video stream");
+  });
+});
+
+describe("processFile with videos", () => {
+  it("writes one document with a timestamped timeline", async () => {
+    const provider = new FrameProvider();
+    const result = await processFile(VIDEO_PATH, { provider, noCache: true });
+
+    expect(provider.calls).toBe(3);
+    expect(result.frames?.map((f) => f.timestamp)).toEqual([0, 4.2, 9.5]);
+    expect(result.tags).toBe("video, scene-0, scene-4, scene-9");
+    expect(result.usage).toEqual({ inputTokens: 300, outputTokens: 60 });
+    expect(result.markdown).toContain("duration: 12.5\ncodec: h264\nframes: 3");
+    expect(result.markdown).toContain("dimensions_px: 1280x720");
+    expect(result.markdown).toContain("## Timeline\n\n### 0:00\n\nShot starting at 0s.");
+    expect(result.markdown).toContain("### 0:09\n\nShot starting at 9s.");
+    // Only one frontmatter block
+    expect(result.markdown.match(/^---$/gm)).toHaveLength(2);
+  });
+
+  it("samples at most maxFrames keyframes", async () => {
+    const provider = new FrameProvider();
+    const result = await processFile(VIDEO_PATH, { provider, noCache: true, maxFrames: 2 });
+
+    expect(provider.calls).toBe(2);
+    expect(result.frames?.map((f) => f.timestamp)).toEqual([0, 9.5]);
+  });
+
+  it("keys the cache per frame", async () => {
+    const { frames } = await extractVideo(VIDEO_PATH);
+    expect(cacheKeyFor(frames[0], {})).not.toBe(cacheKeyFor(frames[1], {}));
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach } from "vitest";
 import { join } from "node:path";
 import { readFile, rm } from "node:fs/promises";
-import { writeMarkdown, sidecarPath, formatOutputPath } from "../src/output/writer.js";
+import { writeMarkdown, sidecarDiff, sidecarPath, formatOutputPath } from "../src/output/writer.js";
 
 const TMP_DIR = join(import.meta.dirname, "fixtures", "tmp-writer");
 
@@ -36,6 +36,34 @@ describe("writeMarkdown", () => {
   });
 });
 
+describe("merging sidecars", () => {
+  const generated = "---\nsubject: Generated\ntype: photo\n---\n\nGenerated body\n";
+
+  it("keeps locked fields and user notes when merging", async () => {
+    const outPath = join(TMP_DIR, "merge.md");
+    await writeMarkdown(generated, outPath, { merge: true });
+    const edited = (await readFile(outPath, "utf-8"))
+      .replace("subject: Generated", "subject: Mine\nlocked: [subject]")
+      + "\nMy notes\n";
+    await writeMarkdown(edited, outPath);
+
+    await writeMarkdown(generated.replace("photo", "screenshot"), outPath, { merge: true });
+    const content = await readFile(outPath, "utf-8");
+    expect(content).toContain("subject: Mine\ntype: screenshot\nlocked: [subject]\n");
+    expect(content).toContain("Generated body\n<!-- m2md:end -->\n\nMy notes\n");
+  });
+
+  it("diffs what a write would change without writing", async () => {
+    const outPath = join(TMP_DIR, "diff.md");
+    expect(await sidecarDiff("new\n", outPath)).toBe(`--- /dev/null\n+++ ${outPath}\n@@ -0,0 +1,1 @@\n+new\n`);
+    await expect(readFile(outPath, "utf-8")).rejects.toThrow();
+
+    await writeMarkdown(generated, outPath, { merge: true });
+    expect(await sidecarDiff(generated, outPath, { merge: true })).toBe("");
+    expect(await sidecarDiff(generated.replace("photo", "screenshot"), outPath, { merge: true })).toContain("-type: photo\n+type: screenshot\n");
+  });
+});
+
 describe("sidecarPath", () => {
   it("replaces image extension with .md", () => {
     expect(sidecarPath("/photos/shot.png")).toBe("/photos/shot.md");
@@ -137,3 +165,12 @@ describe("formatOutputPath", () => {
     ).toBe("/photos/output.md");
   });
 });
+
+describe("output extensions", () => {
+  it("names sidecars and patterned paths with the given extension", () => {
+    expect(sidecarPath("/photos/shot.png", undefined, ".json")).toBe("/photos/shot.json");
+    expect(sidecarPath("/photos/shot.png", "/docs", ".json")).toBe("/docs/shot.json");
+    expect(formatOutputPath("/photos/shot.png", "{filename}", {}, undefined, ".json")).toBe("/photos/shot.json");
+    expect(formatOutputPath("/photos/shot.png", "{filename}.json", {}, "/docs", ".json")).toBe("/docs/shot.json");
+  });
+});